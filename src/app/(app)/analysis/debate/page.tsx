@@ -33,53 +33,55 @@ const MOCK_OPTION: PricingOption = {
 
 const MOCK_EVALUATION: CouncilEvaluation = {
   option_id: "platform_minimum",
-  finance_view: {
-    agent: "CFO",
-    reasoning: "This option addresses our fundamental unit economics problem. The bottom 50% of customers generate only 1.5% of revenue while consuming support and infrastructure resources. A platform minimum ensures every account contributes to fixed costs.",
-    key_points: [
-      "Improves overall margin by reducing unprofitable accounts",
-      "Creates predictable baseline revenue regardless of usage",
-      "May trigger exodus of non-serious users, reducing support burden",
-    ],
-    recommendation: "strongly_support",
-    impact: { revenue: "+180K ARR", margin: "+2-3%", risk: "moderate" },
-    confidence: 0.85,
-  },
-  growth_view: {
-    agent: "CRO",
-    reasoning: "While I support the business rationale, we need to be careful about customer reaction. The accounts most affected are those who rarely use the platform. Many may simply leave rather than pay.",
-    key_points: [
-      "Expect 25% churn in affected segment (Hobby/Dormant)",
-      "These customers rarely convert to paid anyway",
-      "Simplifies sales motion - no more supporting free riders",
-    ],
-    recommendation: "support",
-    impact: { churn: "+25% in affected segment", cac: "improved", ltv: "no change" },
-    confidence: 0.72,
-  },
-  product_view: {
-    agent: "CPO",
-    reasoning: "From a product perspective, this aligns price more closely with platform value. Users get access to our carrier network, tracking dashboard, and integrations - that has inherent value beyond per-label pricing.",
-    key_points: [
-      "Aligns with platform value proposition",
-      "Creates clearer upgrade path: platform access → higher volume tiers",
-      "Need to clearly communicate value to justify fee",
-    ],
-    recommendation: "support",
-    impact: { nps: "slight decrease short-term", adoption: "cleaner funnel" },
-    confidence: 0.78,
-  },
-  strategy_view: {
-    agent: "CSO",
-    reasoning: "Strategically, this positions us as a premium platform rather than a commodity. It also naturally filters out accounts that don't fit our ideal customer profile, sharpening our focus on webshops and enterprises.",
-    key_points: [
-      "Competitors like Sendcloud already have platform fees",
-      "Focuses resources on customers with real growth potential",
-      "Creates foundation for future tiered platform pricing",
-    ],
-    recommendation: "strongly_support",
-    impact: { positioning: "more premium", focus: "improved" },
-    confidence: 0.82,
+  agent_views: {
+    CFO: {
+      agent: "CFO",
+      reasoning: "This option addresses our fundamental unit economics problem. The bottom 50% of customers generate only 1.5% of revenue while consuming support and infrastructure resources. A platform minimum ensures every account contributes to fixed costs.",
+      key_points: [
+        "Improves overall margin by reducing unprofitable accounts",
+        "Creates predictable baseline revenue regardless of usage",
+        "May trigger exodus of non-serious users, reducing support burden",
+      ],
+      recommendation: "strongly_support",
+      impact: { revenue: "+180K ARR", margin: "+2-3%", risk: "moderate" },
+      confidence: 0.85,
+    },
+    CRO: {
+      agent: "CRO",
+      reasoning: "While I support the business rationale, we need to be careful about customer reaction. The accounts most affected are those who rarely use the platform. Many may simply leave rather than pay.",
+      key_points: [
+        "Expect 25% churn in affected segment (Hobby/Dormant)",
+        "These customers rarely convert to paid anyway",
+        "Simplifies sales motion - no more supporting free riders",
+      ],
+      recommendation: "support",
+      impact: { churn: "+25% in affected segment", cac: "improved", ltv: "no change" },
+      confidence: 0.72,
+    },
+    CPO: {
+      agent: "CPO",
+      reasoning: "From a product perspective, this aligns price more closely with platform value. Users get access to our carrier network, tracking dashboard, and integrations - that has inherent value beyond per-label pricing.",
+      key_points: [
+        "Aligns with platform value proposition",
+        "Creates clearer upgrade path: platform access → higher volume tiers",
+        "Need to clearly communicate value to justify fee",
+      ],
+      recommendation: "support",
+      impact: { nps: "slight decrease short-term", adoption: "cleaner funnel" },
+      confidence: 0.78,
+    },
+    CSO: {
+      agent: "CSO",
+      reasoning: "Strategically, this positions us as a premium platform rather than a commodity. It also naturally filters out accounts that don't fit our ideal customer profile, sharpening our focus on webshops and enterprises.",
+      key_points: [
+        "Competitors like Sendcloud already have platform fees",
+        "Focuses resources on customers with real growth potential",
+        "Creates foundation for future tiered platform pricing",
+      ],
+      recommendation: "strongly_support",
+      impact: { positioning: "more premium", focus: "improved" },
+      confidence: 0.82,
+    },
   },
   recommendation: {
     option_id: "platform_minimum",
@@ -100,6 +102,7 @@ function DebateContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const optionId = searchParams.get("option");
+  const runId = searchParams.get("run");
 
   const [option, setOption] = useState<PricingOption | null>(null);
   const [evaluation, setEvaluation] = useState<CouncilEvaluation | null>(null);
@@ -107,19 +110,41 @@ function DebateContent() {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // In a real implementation, we'd fetch the option and evaluation from state or API
-    // For demo, we use mock data
-    setOption(MOCK_OPTION);
-    setEvaluation(MOCK_EVALUATION);
-    setIsLoading(false);
-  }, [optionId]);
+    // Without a stored analysis run, show the demo option
+    if (!runId) {
+      setOption(MOCK_OPTION);
+      setEvaluation(MOCK_EVALUATION);
+      setIsLoading(false);
+      return;
+    }
+
+    fetch(`/api/pricing/runs/${runId}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        const { options, evaluations, recommendedOption } = data.data as {
+          options: PricingOption[];
+          evaluations: CouncilEvaluation[];
+          recommendedOption: PricingOption | null;
+        };
+        const index = options.findIndex((o) => o.id === (optionId ?? recommendedOption?.id));
+        if (index >= 0) {
+          setOption(options[index]);
+          setEvaluation(evaluations[index]);
+        }
+      })
+      .catch((error) => console.error("Failed to load analysis run:", error))
+      .finally(() => setIsLoading(false));
+  }, [runId, optionId]);
 
   const handleDebateComplete = (summary: DebateSummary) => {
     setDebateSummary(summary);
   };
 
   const handleViewRecommendation = () => {
-    router.push("/analysis/recommend");
+    router.push(
+      runId && option ? `/analysis/recommend?run=${runId}&option=${option.id}` : "/analysis/recommend"
+    );
   };
 
   if (isLoading) {
@@ -168,7 +193,7 @@ function DebateContent() {
       <div className="border-t border-border p-4">
         <div className="mx-auto max-w-4xl flex items-center justify-between">
           <Link
-            href="/analysis"
+            href={runId ? `/analysis?run=${runId}` : "/analysis"}
             className="inline-flex items-center gap-2 text-secondary hover:text-primary transition-colors"
           >
             <ArrowLeft className="h-4 w-4" />
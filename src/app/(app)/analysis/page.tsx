@@ -6,15 +6,19 @@ import { Card, CardContent, CardHeader, CardTitle, Badge, Button } from "@/compo
 import { Play, Loader2, CheckCircle, TrendingUp, AlertTriangle, Users, DollarSign, BarChart3, MessageSquare, Brain, Sparkles, Target } from "lucide-react";
 import Link from "next/link";
 import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import { councilViews } from "@/lib/pricing/flow-engine";
 import type {
   PricingOption,
   CouncilEvaluation,
   DetectedSegment,
   UnitEconomics,
   PricingStructure,
+  ImpactDistribution,
 } from "@/types/pricing-flow";
 
 interface AnalysisResult {
+  runId: string;
+  createdAt: string;
   summary: {
     totalCustomers: number;
     totalMrr: number;
@@ -67,10 +71,9 @@ export default function AnalysisPage() {
       const data = await response.json();
 
       if (data.success) {
-        setResult(data.data);
-        if (data.data.recommendedOption) {
-          setSelectedOption(data.data.recommendedOption.id);
-        }
+        showResult(data.data);
+      } else {
+        console.error("Analysis failed:", data.error);
       }
     } catch (error) {
       console.error("Analysis failed:", error);
@@ -79,9 +82,42 @@ export default function AnalysisPage() {
     setIsRunning(false);
   };
 
-  // Auto-run on mount
-  useEffect(() => {
+  const showResult = (data: AnalysisResult) => {
+    setResult(data);
+    if (data.recommendedOption) {
+      setSelectedOption(data.recommendedOption.id);
+    }
+    // Keep the run in the URL so a reload shows it again
+    window.history.replaceState(null, "", `?run=${data.runId}`);
+  };
+
+  const loadRun = async (runId: string) => {
+    setIsRunning(true);
+    try {
+      const response = await fetch(`/api/pricing/runs/${runId}?organizationId=${DEMO_ORGANIZATION_ID}`);
+      const data = await response.json();
+      if (data.success) {
+        showResult(data.data);
+        setCurrentStep(FLOW_STEPS.length + 1);
+        setIsRunning(false);
+        return;
+      }
+      console.error("Failed to load analysis run:", data.error);
+    } catch (error) {
+      console.error("Failed to load analysis run:", error);
+    }
+    setIsRunning(false);
     runAnalysis();
+  };
+
+  // Show the stored run from the URL, or start a fresh one
+  useEffect(() => {
+    const runId = new URLSearchParams(window.location.search).get("run");
+    if (runId) {
+      loadRun(runId);
+    } else {
+      runAnalysis();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -90,7 +126,11 @@ export default function AnalysisPage() {
       CFO: "bg-blue-500",
       CRO: "bg-green-500",
       CPO: "bg-purple-500",
+      CMO: "bg-amber-500",
       CSO: "bg-pink-500",
+      CTO: "bg-indigo-500",
+      COO: "bg-teal-500",
+      CDO: "bg-rose-500",
     };
     return colors[agent] || "bg-gray-500";
   };
@@ -112,7 +152,14 @@ export default function AnalysisPage() {
         <Card className="mb-6">
           <CardHeader>
             <div className="flex items-center justify-between">
-              <CardTitle>Pricing Decision Flow</CardTitle>
+              <div>
+                <CardTitle>Pricing Decision Flow</CardTitle>
+                {result && !isRunning && (
+                  <p className="text-xs text-muted mt-1">
+                    Run from {new Date(result.createdAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
               <Button onClick={runAnalysis} disabled={isRunning}>
                 {isRunning ? (
                   <>
@@ -346,15 +393,15 @@ export default function AnalysisPage() {
                           ))}
                         </div>
 
+                        {/* Impact Distribution */}
+                        {isSelected && option.impact_model.distribution && (
+                          <ImpactDistributionChart distribution={option.impact_model.distribution} />
+                        )}
+
                         {/* Council Views */}
                         {evaluation && (
                           <div className="grid grid-cols-4 gap-4 pt-3 border-t border-border">
-                            {[
-                              evaluation.finance_view,
-                              evaluation.growth_view,
-                              evaluation.product_view,
-                              evaluation.strategy_view,
-                            ].map((view) => (
+                            {councilViews(evaluation).map((view) => (
                               <div key={view.agent} className="text-sm">
                                 <div className="flex items-center gap-2 mb-1">
                                   <div
@@ -396,8 +443,11 @@ export default function AnalysisPage() {
                                 >
                                   {evaluation.recommendation.consensus} consensus
                                 </Badge>
+                                {evaluation.recommendation.blocked_by && (
+                                  <Badge variant="destructive">Blocked by policy</Badge>
+                                )}
                               </div>
-                              <Link href={`/analysis/debate?option=${option.id}`}>
+                              <Link href={`/analysis/debate?run=${result.runId}&option=${option.id}`}>
                                 <Button size="sm" variant="outline" className="gap-2">
                                   <MessageSquare className="w-4 h-4" />
                                   View Agent Debate
@@ -465,3 +515,33 @@ export default function AnalysisPage() {
     </div>
   );
 }
+
+function ImpactDistributionChart({ distribution }: { distribution: ImpactDistribution }) {
+  const maxCount = Math.max(...distribution.histogram.map((b) => b.count), 1);
+
+  return (
+    <div className="mb-3 p-3 bg-card rounded-lg">
+      <div className="flex items-center justify-between mb-2 text-xs text-muted">
+        <span>
+          P10 €{distribution.p10_arr_change.toLocaleString()} · P50 €
+          {distribution.p50_arr_change.toLocaleString()} · P90 €
+          {distribution.p90_arr_change.toLocaleString()}
+        </span>
+        <span>
+          {(distribution.probability_arr_decrease * 100).toFixed(0)}% chance ARR declines ·
+          seed {distribution.seed}
+        </span>
+      </div>
+      <div className="flex items-end gap-px h-12">
+        {distribution.histogram.map((bin, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-sm ${bin.bin_end <= 0 ? "bg-red-400/60" : "bg-green-400/60"}`}
+            style={{ height: `${(bin.count / maxCount) * 100}%` }}
+            title={`€${bin.bin_start.toLocaleString()} – €${bin.bin_end.toLocaleString()}: ${bin.count}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
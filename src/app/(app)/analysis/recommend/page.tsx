@@ -20,6 +20,7 @@ import {
   XCircle,
 } from "lucide-react";
 import Link from "next/link";
+import { councilViews } from "@/lib/pricing/flow-engine";
 
 // Mock data - in real implementation, this would come from context or API
 const MOCK_OPTION: PricingOption = {
@@ -45,53 +46,55 @@ const MOCK_OPTION: PricingOption = {
 
 const MOCK_EVALUATION: CouncilEvaluation = {
   option_id: "platform_minimum",
-  finance_view: {
-    agent: "CFO",
-    reasoning: "This option addresses our fundamental unit economics problem. The bottom 50% of customers generate only 1.5% of revenue while consuming support and infrastructure resources. A platform minimum ensures every account contributes to fixed costs.",
-    key_points: [
-      "Improves overall margin by reducing unprofitable accounts",
-      "Creates predictable baseline revenue regardless of usage",
-      "May trigger exodus of non-serious users, reducing support burden",
-    ],
-    recommendation: "strongly_support",
-    impact: { revenue: "+€180K ARR", margin: "+2-3%", risk: "moderate" },
-    confidence: 0.85,
-  },
-  growth_view: {
-    agent: "CRO",
-    reasoning: "While I support the business rationale, we need to be careful about customer reaction. The accounts most affected are those who rarely use the platform. Many may simply leave rather than pay.",
-    key_points: [
-      "Expect 25% churn in affected segment (Hobby/Dormant)",
-      "These customers rarely convert to paid anyway",
-      "Simplifies sales motion - no more supporting free riders",
-    ],
-    recommendation: "support",
-    impact: { churn: "+25% in affected segment", cac: "improved", ltv: "no change" },
-    confidence: 0.72,
-  },
-  product_view: {
-    agent: "CPO",
-    reasoning: "From a product perspective, this aligns price more closely with platform value. Users get access to our carrier network, tracking dashboard, and integrations - that has inherent value beyond per-label pricing.",
-    key_points: [
-      "Aligns with platform value proposition",
-      "Creates clearer upgrade path: platform access → higher volume tiers",
-      "Need to clearly communicate value to justify fee",
-    ],
-    recommendation: "support",
-    impact: { nps: "slight decrease short-term", adoption: "cleaner funnel" },
-    confidence: 0.78,
-  },
-  strategy_view: {
-    agent: "CSO",
-    reasoning: "Strategically, this positions us as a premium platform rather than a commodity. It also naturally filters out accounts that don't fit our ideal customer profile, sharpening our focus on webshops and enterprises.",
-    key_points: [
-      "Competitors like Sendcloud already have platform fees",
-      "Focuses resources on customers with real growth potential",
-      "Creates foundation for future tiered platform pricing",
-    ],
-    recommendation: "strongly_support",
-    impact: { positioning: "more premium", focus: "improved" },
-    confidence: 0.82,
+  agent_views: {
+    CFO: {
+      agent: "CFO",
+      reasoning: "This option addresses our fundamental unit economics problem. The bottom 50% of customers generate only 1.5% of revenue while consuming support and infrastructure resources. A platform minimum ensures every account contributes to fixed costs.",
+      key_points: [
+        "Improves overall margin by reducing unprofitable accounts",
+        "Creates predictable baseline revenue regardless of usage",
+        "May trigger exodus of non-serious users, reducing support burden",
+      ],
+      recommendation: "strongly_support",
+      impact: { revenue: "+€180K ARR", margin: "+2-3%", risk: "moderate" },
+      confidence: 0.85,
+    },
+    CRO: {
+      agent: "CRO",
+      reasoning: "While I support the business rationale, we need to be careful about customer reaction. The accounts most affected are those who rarely use the platform. Many may simply leave rather than pay.",
+      key_points: [
+        "Expect 25% churn in affected segment (Hobby/Dormant)",
+        "These customers rarely convert to paid anyway",
+        "Simplifies sales motion - no more supporting free riders",
+      ],
+      recommendation: "support",
+      impact: { churn: "+25% in affected segment", cac: "improved", ltv: "no change" },
+      confidence: 0.72,
+    },
+    CPO: {
+      agent: "CPO",
+      reasoning: "From a product perspective, this aligns price more closely with platform value. Users get access to our carrier network, tracking dashboard, and integrations - that has inherent value beyond per-label pricing.",
+      key_points: [
+        "Aligns with platform value proposition",
+        "Creates clearer upgrade path: platform access → higher volume tiers",
+        "Need to clearly communicate value to justify fee",
+      ],
+      recommendation: "support",
+      impact: { nps: "slight decrease short-term", adoption: "cleaner funnel" },
+      confidence: 0.78,
+    },
+    CSO: {
+      agent: "CSO",
+      reasoning: "Strategically, this positions us as a premium platform rather than a commodity. It also naturally filters out accounts that don't fit our ideal customer profile, sharpening our focus on webshops and enterprises.",
+      key_points: [
+        "Competitors like Sendcloud already have platform fees",
+        "Focuses resources on customers with real growth potential",
+        "Creates foundation for future tiered platform pricing",
+      ],
+      recommendation: "strongly_support",
+      impact: { positioning: "more premium", focus: "improved" },
+      confidence: 0.82,
+    },
   },
   recommendation: {
     option_id: "platform_minimum",
@@ -114,7 +117,11 @@ function AgentCard({ view }: { view: AgentView }) {
       CFO: "bg-blue-500",
       CRO: "bg-green-500",
       CPO: "bg-purple-500",
+      CMO: "bg-amber-500",
       CSO: "bg-pink-500",
+      CTO: "bg-indigo-500",
+      COO: "bg-teal-500",
+      CDO: "bg-rose-500",
     };
     return colors[agent] || "bg-gray-500";
   };
@@ -169,17 +176,39 @@ function RecommendContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const optionId = searchParams.get("option");
+  const runId = searchParams.get("run");
 
   const [option, setOption] = useState<PricingOption | null>(null);
   const [evaluation, setEvaluation] = useState<CouncilEvaluation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // In a real implementation, we'd fetch from context or API
-    setOption(MOCK_OPTION);
-    setEvaluation(MOCK_EVALUATION);
-    setIsLoading(false);
-  }, [optionId]);
+    // Without a stored analysis run, show the demo option
+    if (!runId) {
+      setOption(MOCK_OPTION);
+      setEvaluation(MOCK_EVALUATION);
+      setIsLoading(false);
+      return;
+    }
+
+    fetch(`/api/pricing/runs/${runId}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        const { options, evaluations, recommendedOption } = data.data as {
+          options: PricingOption[];
+          evaluations: CouncilEvaluation[];
+          recommendedOption: PricingOption | null;
+        };
+        const index = options.findIndex((o) => o.id === (optionId ?? recommendedOption?.id));
+        if (index >= 0) {
+          setOption(options[index]);
+          setEvaluation(evaluations[index]);
+        }
+      })
+      .catch((error) => console.error("Failed to load analysis run:", error))
+      .finally(() => setIsLoading(false));
+  }, [runId, optionId]);
 
   const handleStressTest = () => {
     // Navigate to chat with recommendation context
@@ -381,10 +410,9 @@ function RecommendContent() {
           <div>
             <h3 className="text-lg font-semibold mb-4">Agent Perspectives</h3>
             <div className="grid grid-cols-2 gap-4">
-              <AgentCard view={evaluation.finance_view} />
-              <AgentCard view={evaluation.growth_view} />
-              <AgentCard view={evaluation.product_view} />
-              <AgentCard view={evaluation.strategy_view} />
+              {councilViews(evaluation).map((view) => (
+                <AgentCard key={view.agent} view={view} />
+              ))}
             </div>
           </div>
 
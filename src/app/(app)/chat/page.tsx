@@ -4,7 +4,8 @@ import { useRef, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import { Header } from "@/components/layout";
 import { ChatWindow } from "@/components/chat";
-import type { AgentId, ChatMessage, ChatResponse } from "@/types";
+import { readSSE } from "@/lib/utils";
+import type { AgentId, ChatMessage, ChatResponse, ChatStreamEvent } from "@/types";
 import { Play } from "lucide-react";
 import Link from "next/link";
 
@@ -17,7 +18,8 @@ function ChatContent() {
 
   const handleSendMessage = async (
     message: string,
-    mentions: AgentId[]
+    mentions: AgentId[],
+    onToken: (text: string) => void
   ): Promise<{ content: string; agentId?: AgentId } | void> => {
     try {
       const response = await fetch("/api/chat", {
@@ -30,14 +32,25 @@ function ChatContent() {
         }),
       });
 
-      const data: ChatResponse = await response.json();
+      // Errors before the stream starts come back as JSON
+      if (!response.ok) {
+        const data: ChatResponse = await response.json();
+        return chatError(data.error, mentions);
+      }
+
+      let reply: { content: string; agentId?: AgentId } | null = null;
+      for await (const streamEvent of readSSE<ChatStreamEvent>(response)) {
+        if (streamEvent.event === "token") {
+          onToken(streamEvent.data.text);
+        } else if (streamEvent.event === "done") {
+          reply = { content: streamEvent.data.content, agentId: streamEvent.data.agentId };
+        } else {
+          return chatError(streamEvent.data.error, mentions);
+        }
+      }
 
-      if (!data.success) {
-        console.error("Chat API error:", data.error);
-        return {
-          content: `Sorry, I encountered an error: ${data.error || "Unknown error"}. Please try again.`,
-          agentId: mentions[0],
-        };
+      if (!reply) {
+        return chatError("The response ended early", mentions);
       }
 
       // Add messages to history for context in future requests
@@ -52,15 +65,12 @@ function ChatContent() {
       conversationHistory.current.push({
         id: (Date.now() + 1).toString(),
         role: "assistant",
-        content: data.response.content,
+        content: reply.content,
         timestamp: new Date(),
-        agentId: data.response.agentId,
+        agentId: reply.agentId,
       });
 
-      return {
-        content: data.response.content,
-        agentId: data.response.agentId,
-      };
+      return reply;
     } catch (error) {
       console.error("Failed to send message:", error);
       return {
@@ -96,6 +106,14 @@ function ChatContent() {
   );
 }
 
+function chatError(error: string | undefined, mentions: AgentId[]) {
+  console.error("Chat API error:", error);
+  return {
+    content: `Sorry, I encountered an error: ${error || "Unknown error"}. Please try again.`,
+    agentId: mentions[0],
+  };
+}
+
 export default function ChatPage() {
   return (
     <Suspense fallback={
@@ -92,7 +92,7 @@ export default function AnalyzePage() {
       const refreshResponse = await fetch("/api/analytics/refresh", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ organizationId: DEMO_ORG_ID }),
+        body: JSON.stringify({ organizationId: DEMO_ORG_ID, mode: "full" }),
       });
 
       if (!refreshResponse.ok) {
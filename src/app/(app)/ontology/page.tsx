@@ -105,7 +105,7 @@ export default function OntologyPage() {
       const response = await fetch("/api/analytics/refresh", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ organizationId: orgId }),
+        body: JSON.stringify({ organizationId: orgId, mode: "full" }),
       });
 
       const result = await response.json();
@@ -8,9 +8,15 @@ import {
   FileText,
   X,
   Check,
+  Loader2,
 } from "lucide-react";
 import { useSetup } from "@/contexts/SetupContext";
+import { BillingImportPanel } from "@/components/setup/BillingImportPanel";
 import type { UploadedFile } from "@/types/setup";
+import { isImportableFile } from "@/types/setup";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { DocumentIngestionResult } from "@/types/document-ingestion";
+import { isIngestibleDocument } from "@/types/document-ingestion";
 import { cn } from "@/lib/utils";
 
 export default function SetupDocumentsPage() {
@@ -19,6 +25,12 @@ export default function SetupDocumentsPage() {
 
   const [isDragging, setIsDragging] = useState(false);
   const [context, setContext] = useState(setup.additionalContext);
+  // File contents can't go in session storage, so uploads are kept here for
+  // the import and document pipelines
+  const [files, setFiles] = useState<Record<string, File>>({});
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractError, setExtractError] = useState<string | null>(null);
+  const organizationId = setup.organizationId || DEMO_ORGANIZATION_ID;
 
   // --- File handling ---
 
@@ -32,25 +44,34 @@ export default function SetupDocumentsPage() {
     setIsDragging(false);
   }, []);
 
+  const addFiles = useCallback(
+    (added: File[]) => {
+      added.forEach((file) => {
+        setup.addFile({ name: file.name, size: file.size, type: file.type });
+      });
+      setFiles((prev) => ({
+        ...prev,
+        ...Object.fromEntries(added.map((file) => [file.name, file])),
+      }));
+    },
+    [setup]
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      Array.from(e.dataTransfer.files).forEach((file) => {
-        setup.addFile({ name: file.name, size: file.size, type: file.type });
-      });
+      addFiles(Array.from(e.dataTransfer.files));
     },
-    [setup]
+    [addFiles]
   );
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (!e.target.files) return;
-      Array.from(e.target.files).forEach((file) => {
-        setup.addFile({ name: file.name, size: file.size, type: file.type });
-      });
+      addFiles(Array.from(e.target.files));
     },
-    [setup]
+    [addFiles]
   );
 
   function formatFileSize(bytes: number) {
@@ -61,8 +82,40 @@ export default function SetupDocumentsPage() {
 
   // --- Navigation ---
 
-  function handleContinue() {
+  async function handleContinue() {
     setup.setAdditionalContext(context);
+
+    // Read documents and context for profile changes, reviewed before generation
+    const documents = setup.uploadedFiles
+      .map((file) => files[file.name])
+      .filter((file) => file && isIngestibleDocument(file.name));
+    if (!extractError && (documents.length > 0 || context.trim())) {
+      setIsExtracting(true);
+      try {
+        const form = new FormData();
+        documents.forEach((file) => form.append("file", file));
+        form.append("context", context);
+        form.append("organizationId", organizationId);
+
+        const res = await fetch("/api/company/setup/documents", { method: "POST", body: form });
+        const json = await res.json();
+        if (!json.success) throw new Error(json.error || "Could not read documents");
+
+        const review = json.data as DocumentIngestionResult;
+        if (review.changes.length > 0 || review.warnings.length > 0 || review.documents.some((d) => d.error)) {
+          setup.setDocumentReview(review);
+          setup.completeStep("documents");
+          router.push("/setup/review");
+          return;
+        }
+      } catch (err) {
+        setExtractError(err instanceof Error ? err.message : "Could not read documents");
+        setIsExtracting(false);
+        return;
+      }
+    }
+
+    setup.setDocumentReview(null);
     setup.completeStep("documents");
     setup.setStep("generating");
     router.push("/setup/generating");
@@ -103,7 +156,7 @@ export default function SetupDocumentsPage() {
             <input
               type="file"
               multiple
-              accept=".csv,.xlsx,.pdf,.doc,.docx,.txt"
+              accept=".csv,.xlsx,.pdf,.md,.txt"
               onChange={handleFileSelect}
               className="absolute inset-0 h-full w-full cursor-pointer opacity-0"
             />
@@ -113,7 +166,7 @@ export default function SetupDocumentsPage() {
               {" or drag and drop"}
             </p>
             <p className="mt-1 text-xs text-muted-foreground">
-              CSV, Excel, PDF, Word, Text (max 10MB)
+              CSV, Excel, PDF, Markdown, Text (max 10MB)
             </p>
           </div>
 
@@ -123,31 +176,43 @@ export default function SetupDocumentsPage() {
               {setup.uploadedFiles.map((file: UploadedFile, index: number) => (
                 <div
                   key={`${file.name}-${index}`}
-                  className="flex items-center justify-between rounded-lg border border-border bg-card px-4 py-3"
+                  className="rounded-lg border border-border bg-card px-4 py-3"
                 >
-                  <div className="flex items-center gap-3">
-                    <div className="flex h-8 w-8 items-center justify-center rounded bg-blue-500/10 text-blue-400">
-                      <FileText className="h-4 w-4" />
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="flex h-8 w-8 items-center justify-center rounded bg-blue-500/10 text-blue-400">
+                        <FileText className="h-4 w-4" />
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium">{file.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatFileSize(file.size)}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="text-sm font-medium">{file.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)}
-                      </p>
+                    <div className="flex items-center gap-2">
+                      <div className="flex items-center gap-1 text-green-400">
+                        <Check className="h-4 w-4" />
+                        <span className="text-xs">Ready</span>
+                      </div>
+                      <button
+                        onClick={() => setup.removeFile(file.name)}
+                        className="p-1 text-muted-foreground transition-colors hover:text-foreground"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="flex items-center gap-1 text-green-400">
-                      <Check className="h-4 w-4" />
-                      <span className="text-xs">Ready</span>
+                  {isImportableFile(file.name) && (
+                    <div className="mt-3 border-t border-border pt-3">
+                      <BillingImportPanel
+                        file={files[file.name]}
+                        organizationId={organizationId}
+                        imported={file.import}
+                        onImported={(result) => setup.setFileImport(file.name, result)}
+                      />
                     </div>
-                    <button
-                      onClick={() => setup.removeFile(file.name)}
-                      className="p-1 text-muted-foreground transition-colors hover:text-foreground"
-                    >
-                      <X className="h-4 w-4" />
-                    </button>
-                  </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -168,18 +233,28 @@ export default function SetupDocumentsPage() {
           />
         </div>
 
+        {extractError && (
+          <p className="text-sm text-red-400">
+            {`Couldn't read your documents: ${extractError}`}
+          </p>
+        )}
+
         {/* Footer */}
         <div className="flex items-center justify-between pt-2">
           <p className="text-sm text-muted-foreground">
-            {hasContent
-              ? `${setup.uploadedFiles.length} file${setup.uploadedFiles.length !== 1 ? "s" : ""} uploaded`
-              : "No additional context added"}
+            {isExtracting
+              ? "Reading your documents..."
+              : hasContent
+                ? `${setup.uploadedFiles.length} file${setup.uploadedFiles.length !== 1 ? "s" : ""} uploaded`
+                : "No additional context added"}
           </p>
           <button
             onClick={handleContinue}
-            className="flex items-center gap-2 rounded-lg bg-blue-600 px-6 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-500"
+            disabled={isExtracting}
+            className="flex items-center gap-2 rounded-lg bg-blue-600 px-6 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
           >
-            {hasContent ? "Continue" : "Skip for now"}
+            {isExtracting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {extractError ? "Continue without them" : hasContent ? "Continue" : "Skip for now"}
             <ArrowRight className="h-4 w-4" />
           </button>
         </div>
@@ -14,6 +14,7 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { useSetup } from "@/contexts/SetupContext";
+import { ProfileChangesReview } from "@/components/setup/ProfileChangesReview";
 import { DEMO_ORGANIZATION_ID } from "@/types/database";
 
 interface ReviewSegment {
@@ -62,6 +63,28 @@ interface CompanyProfile {
 export default function SetupReviewPage() {
   const router = useRouter();
   const setup = useSetup();
+
+  // Document findings are reviewed here before generation runs
+  if (setup.documentReview) {
+    return (
+      <ProfileChangesReview
+        review={setup.documentReview}
+        organizationId={setup.organizationId || DEMO_ORGANIZATION_ID}
+        onDone={() => {
+          setup.setDocumentReview(null);
+          setup.setStep("generating");
+          router.push("/setup/generating");
+        }}
+      />
+    );
+  }
+
+  return <OntologyReview />;
+}
+
+function OntologyReview() {
+  const router = useRouter();
+  const setup = useSetup();
   const orgId = setup.organizationId || DEMO_ORGANIZATION_ID;
 
   const [loading, setLoading] = useState(true);
@@ -0,0 +1,62 @@
+/**
+ * GET /api/analytics/churn-model
+ * The organization's active churn model: its coefficients and held-out
+ * metrics (AUC, Brier score, calibration by decile).
+ *
+ * POST /api/analytics/churn-model
+ * Trains a new version on the churn history. Analytics runs retrain it too,
+ * once the active version is a week old.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getActiveChurnModel, trainAndStoreChurnModel } from "@/lib/analytics";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId");
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const model = await getActiveChurnModel(supabase, organizationId);
+
+    return NextResponse.json({ model });
+  } catch (error) {
+    console.error("Churn model error:", error);
+    return NextResponse.json(
+      { error: "Failed to load churn model" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId } = await request.json();
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const result = await trainAndStoreChurnModel(supabase, organizationId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Churn model training error:", error);
+    return NextResponse.json(
+      { error: "Failed to train churn model" },
+      { status: 500 }
+    );
+  }
+}
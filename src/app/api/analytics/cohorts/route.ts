@@ -0,0 +1,69 @@
+/**
+ * GET /api/analytics/cohorts
+ * Logo and net revenue retention by months since start, with customers
+ * cohorted by `dimension` (signup_month, acquisition_channel, first_tier,
+ * segment, country, billing_interval, company_size), as a heatmap matrix.
+ * Also compares cohorts with each other, and customers acquired after the
+ * latest tier price change (or `pricingChangeAt`) with those acquired before.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { analyzeCohorts, COHORT_DIMENSIONS, MAX_COHORT_MONTHS, type CohortDimension } from "@/lib/analytics";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId");
+    const dimension = searchParams.get("dimension") ?? "signup_month";
+    const lookbackParam = searchParams.get("lookbackMonths");
+    const lookbackMonths = lookbackParam === null ? undefined : Number(lookbackParam);
+    const maxMonthsParam = searchParams.get("maxMonths");
+    const maxMonthsToTrack = maxMonthsParam === null ? undefined : Number(maxMonthsParam);
+    const pricingChangeParam = searchParams.get("pricingChangeAt");
+    const pricingChangeAt = pricingChangeParam ? new Date(pricingChangeParam) : undefined;
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId query parameter is required" },
+        { status: 400 }
+      );
+    }
+    if (!COHORT_DIMENSIONS.includes(dimension as CohortDimension)) {
+      return NextResponse.json(
+        { error: `dimension must be one of ${COHORT_DIMENSIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    for (const [name, value] of [["lookbackMonths", lookbackMonths], ["maxMonths", maxMonthsToTrack]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_COHORT_MONTHS)) {
+        return NextResponse.json(
+          { error: `${name} must be an integer from 1 to ${MAX_COHORT_MONTHS}` },
+          { status: 400 }
+        );
+      }
+    }
+    if (pricingChangeAt && isNaN(pricingChangeAt.getTime())) {
+      return NextResponse.json(
+        { error: "pricingChangeAt must be a date" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const analysis = await analyzeCohorts(supabase, organizationId, {
+      dimension: dimension as CohortDimension,
+      lookbackMonths,
+      maxMonthsToTrack,
+      pricingChangeAt,
+    });
+
+    return NextResponse.json(analysis);
+  } catch (error) {
+    console.error("Cohort analysis error:", error);
+    return NextResponse.json(
+      { error: "Failed to analyze cohorts" },
+      { status: 500 }
+    );
+  }
+}
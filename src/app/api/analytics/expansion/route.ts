@@ -0,0 +1,114 @@
+/**
+ * GET /api/analytics/expansion
+ * Active customers ranked by expected expansion MRR from the active
+ * expansion model: probability of upgrading or expanding, the likely next
+ * tier and its price gap, expected timing, and the features behind the
+ * score. `format=csv` downloads the list; `limit` caps it.
+ *
+ * POST /api/analytics/expansion
+ * Trains a new expansion model version. Analytics runs retrain it too, once
+ * the active version is a week old.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { rankExpansionOpportunities, trainAndStoreExpansionModel } from "@/lib/analytics";
+import { csvResponse } from "@/lib/utils";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId");
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    const format = searchParams.get("format") ?? "json";
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId query parameter is required" },
+        { status: 400 }
+      );
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json(
+        { error: "format must be json or csv" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const ranking = await rankExpansionOpportunities(supabase, organizationId, { limit });
+
+    if (format === "csv") {
+      return csvResponse(
+        `expansion-opportunities-${new Date().toISOString().split("T")[0]}.csv`,
+        [
+          "Rank",
+          "Customer",
+          "Segment",
+          "Current tier",
+          "Current MRR",
+          "Expansion probability",
+          "Expected days",
+          "Next tier",
+          "Next tier probability",
+          "Next tier MRR increase",
+          "Expected MRR increase",
+          "Why",
+        ],
+        ranking.opportunities.map((o) => [
+          o.rank,
+          o.customerName,
+          o.segment,
+          o.currentTier,
+          o.currentMrr,
+          o.probability,
+          o.expectedDays,
+          o.nextTier?.tierName,
+          o.nextTier?.probability,
+          o.nextTier?.mrrIncrease,
+          o.expectedMrrIncrease,
+          o.explanation,
+        ])
+      );
+    }
+
+    return NextResponse.json(ranking);
+  } catch (error) {
+    console.error("Expansion ranking error:", error);
+    return NextResponse.json(
+      { error: "Failed to rank expansion opportunities" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId } = await request.json();
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const result = await trainAndStoreExpansionModel(supabase, organizationId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Expansion model training error:", error);
+    return NextResponse.json(
+      { error: "Failed to train expansion model" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/analytics/price-elasticity
+ * Estimates each segment's response to past price increases. The economics
+ * snapshot step of an analytics run stores the same estimate.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { estimatePriceElasticity } from "@/lib/analytics";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId");
+    const windowDays = Number(searchParams.get("windowDays")) || undefined;
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const result = await estimatePriceElasticity(supabase, organizationId, { windowDays });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Price elasticity error:", error);
+    return NextResponse.json(
+      { error: "Failed to estimate price elasticity" },
+      { status: 500 }
+    );
+  }
+}
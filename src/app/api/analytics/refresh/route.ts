@@ -1,15 +1,30 @@
 /**
  * POST /api/analytics/refresh
- * Triggers a full analytics refresh for an organization
+ * Triggers an analytics refresh for an organization. By default only the
+ * modules that are due and the customers changed since their last run are
+ * recomputed, in the background; poll GET with the returned runId, or pass
+ * `stream: true` to receive progress as SSE. `mode: "full"` runs the full
+ * pipeline synchronously.
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { runFullAnalytics } from "@/lib/analytics";
+import {
+  runFullAnalytics,
+  runIncrementalAnalytics,
+  createIncrementalRun,
+  getActiveAnalyticsRun,
+  getAnalyticsRunProgress,
+  isAnalyticsModule,
+  isAnalyticsRunConflict,
+  type AnalyticsModule,
+} from "@/lib/analytics";
+import { sseResponse } from "@/lib/utils";
 
 export async function POST(request: NextRequest) {
   try {
-    const { organizationId } = await request.json();
+    const { organizationId, mode = "incremental", modules, trigger = "manual", stream = false } =
+      await request.json();
 
     if (!organizationId) {
       return NextResponse.json(
@@ -17,6 +32,24 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (mode !== "incremental" && mode !== "full") {
+      return NextResponse.json(
+        { error: "mode must be incremental or full" },
+        { status: 400 }
+      );
+    }
+    if (trigger !== "manual" && trigger !== "scheduled") {
+      return NextResponse.json(
+        { error: "trigger must be manual or scheduled" },
+        { status: 400 }
+      );
+    }
+    if (modules !== undefined && (!Array.isArray(modules) || !modules.every(isAnalyticsModule))) {
+      return NextResponse.json(
+        { error: "modules must be a list of analytics modules" },
+        { status: 400 }
+      );
+    }
 
     const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
 
@@ -34,20 +67,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Run full analytics
-    const result = await runFullAnalytics(supabase, organizationId);
+    if (mode === "full") {
+      let result;
+      try {
+        result = await runFullAnalytics(supabase, organizationId);
+      } catch (error) {
+        if (isAnalyticsRunConflict(error)) return alreadyRunning(supabase, organizationId);
+        throw error;
+      }
 
-    return NextResponse.json({
-      success: true,
-      summary: result.summary,
-      stats: {
-        customersAnalyzed: result.health.scores.length,
-        segmentsIdentified: result.segmentation.segments.length,
-        patternsDetected:
-          result.patterns.upgrades.candidates.length +
-          result.patterns.churnRisk.atRiskCustomers.length,
-      },
+      return NextResponse.json({
+        success: true,
+        summary: result.summary,
+        stats: {
+          customersAnalyzed: result.health.scores.length,
+          segmentsIdentified: result.segmentation.segments.length,
+          patternsDetected:
+            result.patterns.upgrades.candidates.length +
+            result.patterns.churnRisk.atRiskCustomers.length,
+        },
+      });
+    }
+
+    let runId: string;
+    try {
+      runId = await createIncrementalRun(supabase, organizationId, trigger);
+    } catch (error) {
+      if (isAnalyticsRunConflict(error)) return alreadyRunning(supabase, organizationId);
+      throw error;
+    }
+    const options = { runId, trigger, modules: modules as AnalyticsModule[] | undefined };
+
+    if (stream) {
+      return sseResponse(async (send) => {
+        const progress = await runIncrementalAnalytics(supabase, organizationId, {
+          ...options,
+          onProgress: (update) => send("progress", update),
+        });
+        send("complete", progress);
+      });
+    }
+
+    after(async () => {
+      try {
+        await runIncrementalAnalytics(supabase, organizationId, options);
+      } catch (error) {
+        console.error("Incremental analytics error:", error);
+      }
     });
+
+    return NextResponse.json({ success: true, runId }, { status: 202 });
   } catch (error) {
     console.error("Analytics refresh error:", error);
     return NextResponse.json(
@@ -60,10 +129,28 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * 409 for a refresh that lost the run claim, with the run that holds it
+ */
+async function alreadyRunning(
+  supabase: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+  organizationId: string
+) {
+  return NextResponse.json(
+    { error: "An analytics refresh is already running", runId: await getActiveAnalyticsRun(supabase, organizationId) },
+    { status: 409 }
+  );
+}
+
+/**
+ * GET /api/analytics/refresh
+ * With `runId`, the progress of that run; otherwise the latest run's status
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const organizationId = searchParams.get("organizationId");
+    const runId = searchParams.get("runId");
 
     if (!organizationId) {
       return NextResponse.json(
@@ -74,11 +161,23 @@ export async function GET(request: NextRequest) {
 
     const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
 
-    // Get latest analytics run
+    if (runId) {
+      const progress = await getAnalyticsRunProgress(supabase, organizationId, runId);
+      if (!progress) {
+        return NextResponse.json(
+          { error: "Analytics run not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, progress });
+    }
+
+    // Get latest analytics run; module rows belong to their parent run
     const { data } = await supabase
       .from("analytics_run_log")
       .select("*")
       .eq("organization_id", organizationId)
+      .in("run_type", ["full_refresh", "incremental_refresh"])
       .order("started_at", { ascending: false })
       .limit(1)
       .single();
@@ -93,6 +192,8 @@ export async function GET(request: NextRequest) {
 
     // Type assertion for analytics run log
     const runLog = data as {
+      id: string;
+      run_type: string;
       started_at: string;
       status: string;
       completed_at: string | null;
@@ -103,6 +204,8 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json({
+      runId: runLog.id,
+      runType: runLog.run_type,
       lastRun: runLog.started_at,
       status: runLog.status,
       completedAt: runLog.completed_at,
@@ -111,7 +214,10 @@ export async function GET(request: NextRequest) {
         completedSteps: runLog.completed_steps,
         totalSteps: runLog.total_steps,
       },
-      summary: runLog.result_summary,
+      summary:
+        runLog.run_type === "full_refresh"
+          ? runLog.result_summary
+          : await latestOntologySummary(supabase, organizationId),
     });
   } catch (error) {
     console.error("Get analytics status error:", error);
@@ -121,3 +227,24 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Incremental runs don't rebuild the ontology summary; the last full run's
+ * still describes the organization
+ */
+async function latestOntologySummary(
+  supabase: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+  organizationId: string
+): Promise<Record<string, unknown> | null> {
+  const { data } = await supabase
+    .from("analytics_run_log")
+    .select("result_summary")
+    .eq("organization_id", organizationId)
+    .eq("run_type", "full_refresh")
+    .eq("status", "completed")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as { result_summary: Record<string, unknown> | null } | null)?.result_summary ?? null;
+}
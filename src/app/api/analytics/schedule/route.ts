@@ -0,0 +1,87 @@
+/**
+ * GET /api/analytics/schedule
+ * Returns each analytics module's interval, last run and next due time
+ *
+ * PUT /api/analytics/schedule
+ * Overrides module intervals, in minutes
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  ANALYTICS_MODULES,
+  getModuleStates,
+  isAnalyticsModule,
+  updateAnalyticsSchedule,
+  type AnalyticsSchedule,
+} from "@/lib/analytics";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId");
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const states = await getModuleStates(supabase, organizationId);
+
+    return NextResponse.json({
+      modules: ANALYTICS_MODULES.map((definition) => ({
+        ...definition,
+        ...states[definition.module],
+      })),
+    });
+  } catch (error) {
+    console.error("Get analytics schedule error:", error);
+    return NextResponse.json(
+      { error: "Failed to get analytics schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { organizationId, intervals } = await request.json();
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "organizationId is required" },
+        { status: 400 }
+      );
+    }
+    if (
+      !intervals ||
+      typeof intervals !== "object" ||
+      !Object.entries(intervals).every(
+        ([module, minutes]) => isAnalyticsModule(module) && typeof minutes === "number" && minutes >= 0
+      )
+    ) {
+      return NextResponse.json(
+        { error: "intervals must map analytics modules to minutes" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient() as any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    const schedule = await updateAnalyticsSchedule(
+      supabase,
+      organizationId,
+      intervals as Partial<AnalyticsSchedule>
+    );
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    console.error("Update analytics schedule error:", error);
+    return NextResponse.json(
+      { error: "Failed to update analytics schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,21 +4,28 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { buildOntologyContext } from "@/lib/services/ontology-service";
 import { buildSystemPromptFromDb } from "@/lib/chat/context-builder";
 import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import { sseResponse } from "@/lib/utils";
 import type { ChatRequest, ChatResponse, ChatMessage } from "@/types/chat";
-import type { AgentId } from "@/types/agents";
 
-export const maxDuration = 60; // 1 minute for Claude chat responses
+export const maxDuration = 300; // 5 minutes — long answers stream until Claude finishes
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-export async function POST(request: NextRequest): Promise<NextResponse<ChatResponse>> {
+/**
+ * POST /api/chat
+ *
+ * Streams the reply as SSE: `token` events as Claude writes, then a `done`
+ * event with the full reply, the answering agent and token usage. Errors
+ * before the stream starts come back as a JSON ChatResponse.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
   try {
     // Debug: Check if API key is loaded
     const apiKey = process.env.ANTHROPIC_API_KEY;
     if (!apiKey) {
-      return NextResponse.json(
+      return NextResponse.json<ChatResponse>(
         { success: false, response: { content: "" }, error: "ANTHROPIC_API_KEY environment variable is not set" },
         { status: 500 }
       );
@@ -28,7 +35,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
     const { message, mentions = [], conversationHistory = [], organizationId = DEMO_ORGANIZATION_ID } = body;
 
     if (!message || typeof message !== "string") {
-      return NextResponse.json(
+      return NextResponse.json<ChatResponse>(
         { success: false, response: { content: "" }, error: "Message is required" },
         { status: 400 }
       );
@@ -42,7 +49,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
     const ontologyContext = await buildOntologyContext(supabase, organizationId);
 
     if (!ontologyContext || ontologyContext.trim().length === 0) {
-      return NextResponse.json(
+      return NextResponse.json<ChatResponse>(
         { success: false, response: { content: "" }, error: "No company data found. Please set up a company first via /api/company/setup." },
         { status: 400 }
       );
@@ -59,8 +66,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
 
     const companyName = org?.company_profile?.name;
     const currency = org?.company_profile?.currency_symbol;
+    const reportingCurrency = org?.company_profile?.currency?.toUpperCase();
 
-    const systemPrompt = buildSystemPromptFromDb(ontologyContext, agentId, companyName, currency);
+    const systemPrompt = buildSystemPromptFromDb(ontologyContext, agentId, companyName, currency, reportingCurrency);
 
     // Build messages array from conversation history
     const messages: { role: "user" | "assistant"; content: string }[] = [
@@ -71,31 +79,42 @@ export async function POST(request: NextRequest): Promise<NextResponse<ChatRespo
       { role: "user" as const, content: message },
     ];
 
-    // Call Claude API
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages,
-    });
+    return sseResponse(async (send) => {
+      // Stop generating if the client goes away
+      const stream = anthropic.messages.stream(
+        {
+          model: "claude-sonnet-4-20250514",
+          max_tokens: 1024,
+          system: systemPrompt,
+          messages,
+        },
+        { signal: request.signal }
+      );
 
-    // Extract text content from response
-    const content =
-      response.content[0].type === "text" ? response.content[0].text : "";
+      let content = "";
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          content += event.delta.text;
+          send("token", { text: event.delta.text });
+        }
+      }
 
-    return NextResponse.json({
-      success: true,
-      response: {
+      const final = await stream.finalMessage();
+      send("done", {
         content,
-        agentId: agentId as AgentId | undefined,
-      },
+        agentId,
+        usage: {
+          input_tokens: final.usage.input_tokens,
+          output_tokens: final.usage.output_tokens,
+        },
+      });
     });
   } catch (error) {
     console.error("Chat API error:", error);
 
     const errorMessage = error instanceof Error ? error.message : "Failed to process chat message";
 
-    return NextResponse.json(
+    return NextResponse.json<ChatResponse>(
       {
         success: false,
         response: { content: "" },
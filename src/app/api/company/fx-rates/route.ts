@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getFxRates, getReportingCurrency, importFxRates } from "@/lib/services/fx-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+export const maxDuration = 300;
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/company/fx-rates
+ *
+ * The organization's reporting currency and its loaded daily FX rates,
+ * oldest first.
+ *
+ * Query: organizationId?, currency?, from? (YYYY-MM-DD), to?
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+    const currency = searchParams.get("currency") || undefined;
+    const from = searchParams.get("from") || undefined;
+    const to = searchParams.get("to") || undefined;
+
+    if (currency && !/^[A-Za-z]{3}$/.test(currency)) {
+      return NextResponse.json(
+        { success: false, error: "currency must be a three-letter ISO code" },
+        { status: 400 }
+      );
+    }
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { success: false, error: "from and to must be YYYY-MM-DD dates" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const [reportingCurrency, rates] = await Promise.all([
+      getReportingCurrency(supabase, organizationId),
+      getFxRates(supabase, organizationId, { currency, from, to }),
+    ]);
+
+    return NextResponse.json({ success: true, data: { reportingCurrency, rates } });
+  } catch (error) {
+    console.error("Error fetching FX rates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/company/fx-rates
+ *
+ * Loads a CSV/XLSX of daily rates, either one row per date and pair
+ * (date, base, quote, rate) or one column per currency code. Files without
+ * a base column quote against `base`, or the reporting currency. Customer
+ * MRR and transactions are then re-converted with the new rates.
+ *
+ * Form data: { file, organizationId?, base? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json({ success: false, error: "A file is required" }, { status: 400 });
+    }
+    if (!/\.(csv|xlsx|txt)$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: "Only CSV and XLSX files can be imported" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ success: false, error: "Files are limited to 10MB" }, { status: 400 });
+    }
+
+    const base = form.get("base")?.toString().trim() || undefined;
+    if (base && !/^[A-Za-z]{3}$/.test(base)) {
+      return NextResponse.json(
+        { success: false, error: "base must be a three-letter ISO code" },
+        { status: 400 }
+      );
+    }
+
+    const organizationId = form.get("organizationId")?.toString() || DEMO_ORGANIZATION_ID;
+    const supabase = createAdminClient();
+    const result = await importFxRates(
+      supabase,
+      organizationId,
+      file.name,
+      Buffer.from(await file.arrayBuffer()),
+      { base: base?.toUpperCase() }
+    );
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error importing FX rates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
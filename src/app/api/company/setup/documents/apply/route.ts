@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { applyDocumentChanges } from "@/lib/services/document-ingestion-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { ProfileChange } from "@/types/document-ingestion";
+
+const SECTIONS: ProfileChange["section"][] = ["pricing_tiers", "competitors", "strategic_positioning"];
+
+/**
+ * POST /api/company/setup/documents/apply
+ *
+ * Applies the document changes the user accepted to the stored CompanyProfile.
+ *
+ * Body: { changes: ProfileChange[], organizationId?: string }
+ * Returns: { profile, applied }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const changes = body?.changes;
+    const organizationId = body?.organizationId || DEMO_ORGANIZATION_ID;
+
+    if (
+      !Array.isArray(changes) ||
+      changes.some(
+        (c) => !c || typeof c.target !== "string" || !SECTIONS.includes(c.section) || c.after === undefined
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, error: "changes must be a list of profile changes" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const result = await applyDocumentChanges(supabase, organizationId, changes as ProfileChange[]);
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ success: false, error: result.reason }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { profile: result.profile, applied: result.applied },
+    });
+  } catch (error) {
+    console.error("Error applying document changes:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
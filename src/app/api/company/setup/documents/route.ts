@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isProfileExtractionAvailable } from "@/lib/documents";
+import { ingestDocuments, type UploadedDocument } from "@/lib/services/document-ingestion-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import { isIngestibleDocument } from "@/types/document-ingestion";
+
+export const maxDuration = 300; // 5 minutes — one Claude call per document chunk
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * POST /api/company/setup/documents
+ *
+ * Reads uploaded text, Markdown and PDF documents plus the free-text context
+ * and returns the changes they suggest to the stored CompanyProfile. Nothing
+ * is written; accepted changes go to /api/company/setup/documents/apply.
+ *
+ * Form data: { file (repeatable), context?, organizationId? }
+ * Returns: { documents, changes, warnings }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ success: false, error: "Expected form data" }, { status: 400 });
+    }
+
+    const organizationId = form.get("organizationId")?.toString() || DEMO_ORGANIZATION_ID;
+    const context = form.get("context")?.toString() ?? "";
+    const files = form.getAll("file").filter((f): f is File => f instanceof File);
+
+    const unreadable = files.find((file) => !isIngestibleDocument(file.name));
+    if (unreadable) {
+      return NextResponse.json(
+        { success: false, error: `${unreadable.name} is not a text, Markdown or PDF document` },
+        { status: 400 }
+      );
+    }
+    if (files.some((file) => file.size > MAX_FILE_BYTES)) {
+      return NextResponse.json({ success: false, error: "Files are limited to 10MB" }, { status: 400 });
+    }
+    if (files.length === 0 && !context.trim()) {
+      return NextResponse.json(
+        { success: false, error: "Upload a document or add context" },
+        { status: 400 }
+      );
+    }
+    if (!isProfileExtractionAvailable()) {
+      return NextResponse.json(
+        { success: false, error: "Document extraction needs ANTHROPIC_API_KEY" },
+        { status: 503 }
+      );
+    }
+
+    const documents: UploadedDocument[] = await Promise.all(
+      files.map(async (file) => ({ name: file.name, content: Buffer.from(await file.arrayBuffer()) }))
+    );
+
+    const supabase = createAdminClient();
+    const result = await ingestDocuments(supabase, organizationId, documents, {
+      additionalContext: context,
+    });
+
+    if (result.status === "skipped") {
+      return NextResponse.json({ success: false, error: result.reason }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { documents: result.documents, changes: result.changes, warnings: result.warnings },
+    });
+  } catch (error) {
+    console.error("Error ingesting documents:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import type { NextRequest } from "next/server";
+import type { ColumnMapping, ImportEntity, ImportSource } from "@/types/billing-import";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const ENTITIES: ImportEntity[] = ["customers", "subscriptions", "invoices"];
+const SOURCES: ImportSource[] = ["chargebee", "recurly", "paddle", "generic"];
+
+export interface ImportForm {
+  organizationId: string;
+  fileName: string;
+  content: Buffer;
+  entity?: ImportEntity;
+  mapping?: ColumnMapping;
+  source?: ImportSource;
+}
+
+/**
+ * The upload and options shared by the import routes, or why they're invalid
+ */
+export async function readImportForm(request: NextRequest): Promise<ImportForm | { error: string }> {
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!form || !(file instanceof File)) return { error: "A file is required" };
+  if (!/\.(csv|xlsx|txt)$/i.test(file.name)) return { error: "Only CSV and XLSX files can be imported" };
+  if (file.size > MAX_FILE_BYTES) return { error: "Files are limited to 10MB" };
+
+  const entity = form.get("entity")?.toString() || undefined;
+  if (entity && !ENTITIES.includes(entity as ImportEntity)) {
+    return { error: `entity must be one of ${ENTITIES.join(", ")}` };
+  }
+  const source = form.get("source")?.toString() || undefined;
+  if (source && !SOURCES.includes(source as ImportSource)) {
+    return { error: `source must be one of ${SOURCES.join(", ")}` };
+  }
+
+  let mapping: ColumnMapping | undefined;
+  const mappingJson = form.get("mapping")?.toString();
+  if (mappingJson) {
+    try {
+      mapping = JSON.parse(mappingJson) as ColumnMapping;
+    } catch {
+      return { error: "mapping must be JSON" };
+    }
+  }
+
+  return {
+    organizationId: form.get("organizationId")?.toString() || DEMO_ORGANIZATION_ID,
+    fileName: file.name,
+    content: Buffer.from(await file.arrayBuffer()),
+    entity: entity as ImportEntity | undefined,
+    mapping,
+    source: source as ImportSource | undefined,
+  };
+}
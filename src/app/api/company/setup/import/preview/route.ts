@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { previewBillingImport } from "@/lib/services/billing-import-service";
+import { readImportForm } from "../form";
+
+/**
+ * POST /api/company/setup/import/preview
+ *
+ * Parses an uploaded CSV/XLSX billing export and returns the detected
+ * entity, source system and column mapping with per-row validation errors.
+ * Nothing is written.
+ *
+ * Form data: { file, entity?, mapping? (JSON) }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await readImportForm(request);
+    if ("error" in form) {
+      return NextResponse.json({ success: false, error: form.error }, { status: 400 });
+    }
+
+    const preview = previewBillingImport(form.fileName, form.content, {
+      entity: form.entity,
+      mapping: form.mapping,
+    });
+
+    return NextResponse.json({ success: true, data: preview });
+  } catch (error) {
+    console.error("Error previewing import:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
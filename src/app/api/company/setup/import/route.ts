@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { importBillingFile } from "@/lib/services/billing-import-service";
+import { readImportForm } from "./form";
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/company/setup/import
+ *
+ * Imports a CSV/XLSX customer, subscription or invoice export into
+ * unified_customers, transactions and customer_expansion_events. Invalid
+ * rows are skipped and reported by row number.
+ *
+ * Form data: { file, organizationId?, entity?, mapping? (JSON), source? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await readImportForm(request);
+    if ("error" in form) {
+      return NextResponse.json({ success: false, error: form.error }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+    const result = await importBillingFile(supabase, form.organizationId, form.fileName, form.content, {
+      entity: form.entity,
+      mapping: form.mapping,
+      source: form.source,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error importing billing file:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getApiConnection,
+  isSyncRunning,
+  parseSyncStatus,
+} from "@/lib/services/api-connection-service";
+import {
+  getHubSpotCursors,
+  syncHubSpot,
+  type HubSpotSyncStatus,
+} from "@/lib/services/hubspot-sync-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+export const maxDuration = 300;
+
+/**
+ * GET /api/connections/hubspot/sync
+ *
+ * The HubSpot connection's status, last sync time, last sync progress and
+ * per-object cursors.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId =
+      request.nextUrl.searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    const connection = await getApiConnection(supabase, organizationId, "hubspot");
+
+    return NextResponse.json({
+      success: true,
+      data: connection
+        ? {
+            status: connection.status,
+            lastSyncAt: connection.last_sync_at ?? null,
+            sync: parseSyncStatus<HubSpotSyncStatus>(connection.sync_status),
+            cursors: getHubSpotCursors(connection),
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Error reading HubSpot sync status:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/connections/hubspot/sync
+ *
+ * Syncs the organization's HubSpot portal into the hubspot_* tables: each
+ * object type searches from its stored cursor when it has one, or is listed
+ * in full (resuming an interrupted full sync); `full: true` lists everything.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { organizationId = DEMO_ORGANIZATION_ID, full = false } = body;
+
+    const supabase = createAdminClient();
+    const connection = await getApiConnection(supabase, organizationId, "hubspot");
+    if (isSyncRunning(parseSyncStatus(connection?.sync_status))) {
+      return NextResponse.json(
+        { success: false, error: "A HubSpot sync is already running" },
+        { status: 409 }
+      );
+    }
+
+    const result = await syncHubSpot(supabase, organizationId, { full: full === true });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error syncing HubSpot:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
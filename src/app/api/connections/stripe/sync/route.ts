@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getApiConnection,
+  isSyncRunning,
+  parseSyncStatus,
+} from "@/lib/services/api-connection-service";
+import { syncStripe, type StripeSyncStatus } from "@/lib/services/stripe-sync-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+export const maxDuration = 300;
+
+/**
+ * GET /api/connections/stripe/sync
+ *
+ * The Stripe connection's status, last sync time and last sync progress.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId =
+      request.nextUrl.searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    const connection = await getApiConnection(supabase, organizationId, "stripe");
+
+    return NextResponse.json({
+      success: true,
+      data: connection
+        ? {
+            status: connection.status,
+            lastSyncAt: connection.last_sync_at ?? null,
+            sync: parseSyncStatus<StripeSyncStatus>(connection.sync_status),
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("Error reading Stripe sync status:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/connections/stripe/sync
+ *
+ * Syncs the organization's Stripe account into the stripe_* tables:
+ * incrementally from last_sync_at when possible, or in full with `full: true`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { organizationId = DEMO_ORGANIZATION_ID, full = false } = body;
+
+    const supabase = createAdminClient();
+    const connection = await getApiConnection(supabase, organizationId, "stripe");
+    if (isSyncRunning(parseSyncStatus(connection?.sync_status))) {
+      return NextResponse.json(
+        { success: false, error: "A Stripe sync is already running" },
+        { status: 409 }
+      );
+    }
+
+    const result = await syncStripe(supabase, organizationId, { full: full === true });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error syncing Stripe:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
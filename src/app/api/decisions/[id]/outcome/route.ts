@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { recordDecisionOutcome } from "@/lib/services/decision-service";
+import { measureDecisionOutcome } from "@/lib/services/decision-outcome-service";
 import { DEMO_ORGANIZATION_ID } from "@/types/database";
 
+/**
+ * POST /api/decisions/:id/outcome
+ *
+ * Records a decision's outcome. With `auto: true` the actuals, accuracy and
+ * learnings are measured from MRR movements and churn instead of taken from
+ * the body; `force: true` measures before the impact window has closed.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -16,10 +24,23 @@ export async function POST(
       actualChurnChange,
       accuracyScore,
       learnings,
+      auto = false,
+      force = false,
     } = body;
 
     const supabase = createAdminClient();
 
+    if (auto) {
+      const result = await measureDecisionOutcome(supabase, organizationId, decisionId, { force });
+      if (!result) {
+        return NextResponse.json({ success: false, error: "Decision not found" }, { status: 404 });
+      }
+      if (result.status === "skipped") {
+        return NextResponse.json({ success: false, error: result.reason }, { status: 409 });
+      }
+      return NextResponse.json({ success: true, decision: result.decision, outcome: result.outcome });
+    }
+
     const decision = await recordDecisionOutcome(
       supabase,
       organizationId,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { measureDecisionOutcomes } from "@/lib/services/decision-outcome-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * POST /api/decisions/outcomes
+ *
+ * Runs the outcome job: measures actuals for every implemented decision
+ * whose impact window has closed, scores them and records learnings.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { organizationId = DEMO_ORGANIZATION_ID } = body;
+
+    const supabase = createAdminClient();
+    const result = await measureDecisionOutcomes(supabase, organizationId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error measuring decision outcomes:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { mergeUnifiedCustomers } from "@/lib/services/identity-resolution-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * POST /api/identity/merge
+ *
+ * Merges unified customer `sourceId` into `targetId`. The source's
+ * transactions and expansion events move to the target, and the merge can
+ * be undone with /api/identity/unmerge.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { organizationId = DEMO_ORGANIZATION_ID, sourceId, targetId, mergedBy } = body;
+
+    if (!sourceId || !targetId) {
+      return NextResponse.json(
+        { success: false, error: "sourceId and targetId are required" },
+        { status: 400 }
+      );
+    }
+    if (sourceId === targetId) {
+      return NextResponse.json(
+        { success: false, error: "Cannot merge a customer into itself" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const customer = await mergeUnifiedCustomers(supabase, organizationId, sourceId, targetId, { mergedBy });
+
+    if (!customer) {
+      return NextResponse.json({ success: false, error: "Customer not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: customer });
+  } catch (error) {
+    console.error("Error merging customers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveIdentities } from "@/lib/services/identity-resolution-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/identity/resolve
+ *
+ * Links Stripe customers to unified customers and matches those to HubSpot
+ * contacts and companies by email, domain and company name. Ambiguous
+ * matches are queued for review; MRR, tenure and billing interval are
+ * recomputed from the linked subscriptions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { organizationId = DEMO_ORGANIZATION_ID } = body;
+
+    const supabase = createAdminClient();
+    const result = await resolveIdentities(supabase, organizationId);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error resolving identities:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveIdentityReview } from "@/lib/services/identity-resolution-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * POST /api/identity/reviews/:id
+ *
+ * Accepts one of a review's candidates (`candidateIndex`, the first by
+ * default) or rejects them all, with `action: "accept" | "reject"`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: reviewId } = await params;
+    const body = await request.json();
+    const { organizationId = DEMO_ORGANIZATION_ID, action, candidateIndex, resolvedBy } = body;
+
+    if (action !== "accept" && action !== "reject") {
+      return NextResponse.json(
+        { success: false, error: "action must be accept or reject" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const result = await resolveIdentityReview(supabase, organizationId, reviewId, {
+      action,
+      candidateIndex,
+      resolvedBy,
+    });
+
+    if (!result) {
+      return NextResponse.json({ success: false, error: "Review not found" }, { status: 404 });
+    }
+    if (result.status === "skipped") {
+      return NextResponse.json({ success: false, error: result.reason }, { status: 409 });
+    }
+    return NextResponse.json({ success: true, data: result.review });
+  } catch (error) {
+    console.error("Error resolving identity review:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
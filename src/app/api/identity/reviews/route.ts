@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { listIdentityReviews } from "@/lib/services/identity-resolution-service";
+import { DEMO_ORGANIZATION_ID, type IdentityMatchReview } from "@/types/database";
+
+const REVIEW_STATUSES: IdentityMatchReview["status"][] = ["pending", "accepted", "rejected"];
+
+/**
+ * GET /api/identity/reviews
+ *
+ * Identity matches queued for review, pending ones by default.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+    const status = (searchParams.get("status") || "pending") as IdentityMatchReview["status"];
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${REVIEW_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const reviews = await listIdentityReviews(supabase, organizationId, status);
+
+    return NextResponse.json({ success: true, data: reviews });
+  } catch (error) {
+    console.error("Error listing identity reviews:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { unmergeUnifiedCustomer } from "@/lib/services/identity-resolution-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * POST /api/identity/unmerge
+ *
+ * Undoes a merge into `customerId`: the latest one, or the one that merged
+ * `mergedCustomerId`. The merged-away customer is restored with its own id.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { organizationId = DEMO_ORGANIZATION_ID, customerId, mergedCustomerId } = body;
+
+    if (!customerId) {
+      return NextResponse.json(
+        { success: false, error: "customerId is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const result = await unmergeUnifiedCustomer(supabase, organizationId, customerId, mergedCustomerId);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: "Customer or merge not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error unmerging customer:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
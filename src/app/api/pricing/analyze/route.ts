@@ -1,17 +1,31 @@
 import { NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { loadPricingDataFromOntology } from "@/lib/pricing/ontology-to-flow";
-import {
-  generatePricingOptions,
-  evaluateWithCouncil,
-} from "@/lib/pricing/flow-engine";
+import { generatePricingOptions } from "@/lib/pricing/flow-engine";
+import { validateMonteCarloOptions } from "@/lib/pricing/monte-carlo";
+import { loadCouncilPolicy, pickRecommendedOption } from "@/lib/pricing/council-policy";
+import { evaluateOptionsWithCouncil, isLLMCouncilAvailable } from "@/lib/pricing/llm-council";
+import { buildOntologyContext } from "@/lib/services/ontology-service";
+import { saveAnalysisRun } from "@/lib/services/analysis-run-service";
+import { assessDataQuality } from "@/lib/services/data-quality-service";
 import { DEMO_ORGANIZATION_ID } from "@/types/database";
 import type { PricingOption, CouncilEvaluation } from "@/types/pricing-flow";
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { organizationId = DEMO_ORGANIZATION_ID } = body;
+    const {
+      organizationId = DEMO_ORGANIZATION_ID,
+      seed,
+      iterations,
+      councilMode = "rules",
+      allowBlockingIssues = false,
+    } = body;
+
+    const simulationError = validateMonteCarloOptions({ seed, iterations });
+    if (simulationError) {
+      return NextResponse.json({ success: false, error: simulationError }, { status: 400 });
+    }
 
     const supabase = createAdminClient();
     const data = await loadPricingDataFromOntology(supabase, organizationId);
@@ -23,41 +37,68 @@ export async function POST(request: Request) {
       );
     }
 
-    const { segments, economics, pricingStructure, competitiveContext, summary } = data;
+    const { segments, economics, pricingStructure, competitiveContext, customers, summary } = data;
+
+    // Blocking data-quality issues stop the analysis before any recommendation
+    const dataQuality = await assessDataQuality(supabase, organizationId, { fallbacks: data.fallbacks });
+    if (dataQuality.blocking && !allowBlockingIssues) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Data quality issues block the analysis: " +
+            dataQuality.issues.filter((i) => i.severity === "blocking").map((i) => i.message).join("; "),
+          data: { dataQuality },
+        },
+        { status: 422 }
+      );
+    }
 
-    // Generate pricing options with competitive context
-    const options: PricingOption[] = generatePricingOptions(
+    // Generate pricing options, simulated against the customer base, with competitive context
+    const generated: PricingOption[] = generatePricingOptions(
       segments,
       economics,
       pricingStructure,
-      competitiveContext
+      customers,
+      competitiveContext,
+      // Pass a seed to reproduce a previous run's Monte Carlo ranges exactly
+      { seed, iterations }
     );
 
-    // Evaluate each option with the council (with competitive context)
-    const evaluations: CouncilEvaluation[] = options.map((option) =>
-      evaluateWithCouncil(option, segments, economics, competitiveContext)
+    // Evaluate each option with the council (with competitive context), under the org's council policy.
+    // The LLM council needs an API key; without one every agent uses the rules.
+    const policy = await loadCouncilPolicy(supabase, organizationId);
+    const useLLM = councilMode === "llm" && isLLMCouncilAvailable();
+    const generatedEvaluations: CouncilEvaluation[] = await evaluateOptionsWithCouncil(
+      generated,
+      segments,
+      economics,
+      competitiveContext,
+      policy,
+      useLLM ? { ontologyContext: await buildOntologyContext(supabase, organizationId) } : undefined,
+      dataQuality
     );
 
-    // Find recommended option (highest consensus with positive score)
-    const scoredOptions = evaluations.map((e, i) => ({
-      evaluation: e,
-      option: options[i],
-      score:
-        e.recommendation.consensus === "strong"
-          ? 4
-          : e.recommendation.consensus === "moderate"
-          ? 3
-          : e.recommendation.consensus === "weak"
-          ? 1
-          : 0,
-    }));
+    // Find recommended option (highest consensus that no veto or threshold blocks)
+    const generatedRecommendation = pickRecommendedOption(generated, generatedEvaluations);
 
-    scoredOptions.sort((a, b) => b.score - a.score);
-    const recommendedOption = scoredOptions[0]?.option || null;
+    // Store the run so it survives a reload; options come back with their pricing_options ids
+    const { run, decision } = await saveAnalysisRun(supabase, organizationId, {
+      inputs: { segments, economics, pricingStructure, competitiveContext, summary, dataQuality },
+      options: generated,
+      evaluations: generatedEvaluations,
+      recommendedOption: generatedRecommendation,
+      councilMode: useLLM ? "llm" : "rules",
+      policy,
+      parameters: { seed, iterations },
+    });
+    const { options, evaluations, recommendedOption } = run;
 
     return NextResponse.json({
       success: true,
       data: {
+        runId: run.run.id,
+        decisionId: decision.id,
+        createdAt: run.run.created_at,
         summary,
         segments,
         options,
@@ -66,6 +107,8 @@ export async function POST(request: Request) {
         pricingStructure,
         economics,
         competitiveContext,
+        dataQuality,
+        councilMode: useLLM ? "llm" : "rules",
       },
     });
   } catch (error) {
@@ -80,7 +123,7 @@ export async function POST(request: Request) {
 export async function GET() {
   try {
     const supabase = createAdminClient();
-    const data = await loadPricingDataFromOntology(supabase, DEMO_ORGANIZATION_ID);
+    const data = await loadPricingDataFromOntology(supabase, DEMO_ORGANIZATION_ID, { includeCustomers: false });
 
     if (data && data.segments.length > 0) {
       return NextResponse.json({
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  DEFAULT_COUNCIL_POLICY,
+  loadCouncilPolicy,
+  saveCouncilPolicy,
+  validateCouncilPolicy,
+} from "@/lib/pricing/council-policy";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { CouncilPolicy } from "@/types/pricing-flow";
+
+/**
+ * GET /api/pricing/council-policy?organizationId=...
+ *
+ * Returns the organization's council voting policy (or the default).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    const policy = await loadCouncilPolicy(supabase, organizationId);
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error("Error fetching council policy:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/pricing/council-policy
+ *
+ * Replaces the organization's council policy. Omitted fields take their defaults.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { organizationId = DEMO_ORGANIZATION_ID, policy } = body;
+
+    const validationError = validateCouncilPolicy(policy);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+    const saved = await saveCouncilPolicy(supabase, organizationId, {
+      ...DEFAULT_COUNCIL_POLICY,
+      ...(policy as Partial<CouncilPolicy>),
+    });
+
+    return NextResponse.json({ success: true, policy: saved });
+  } catch (error) {
+    console.error("Error saving council policy:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { loadPricingDataFromOntology } from "@/lib/pricing/ontology-to-flow";
+import { assessDataQuality } from "@/lib/services/data-quality-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * GET /api/pricing/data-quality?organizationId=...
+ *
+ * Returns the data-quality report a pricing analysis would be gated on:
+ * scored checks, and issues that block the analysis or lower the council's
+ * confidence.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    const data = await loadPricingDataFromOntology(supabase, organizationId);
+    const report = await assessDataQuality(supabase, organizationId, { fallbacks: data?.fallbacks ?? [] });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error assessing data quality:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
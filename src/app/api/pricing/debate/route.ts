@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { debateMessages, MAX_ROUNDS } from "@/lib/pricing/debate-generator";
+import { sseResponse } from "@/lib/utils";
+import type { CouncilEvaluation, PricingOption } from "@/types/pricing-flow";
+
+/**
+ * POST /api/pricing/debate
+ *
+ * Runs the council debate for one evaluated option and streams it as SSE:
+ * a `message` event per debate message as each round produces it, then a
+ * `summary` event.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { option, evaluation, maxRounds } = body as {
+      option?: PricingOption;
+      evaluation?: CouncilEvaluation;
+      maxRounds?: number;
+    };
+
+    if (!option?.id || !option.impact_model) {
+      return NextResponse.json({ success: false, error: "option is required" }, { status: 400 });
+    }
+    if (!evaluation?.agent_views || !evaluation.recommendation) {
+      return NextResponse.json({ success: false, error: "evaluation is required" }, { status: 400 });
+    }
+    if (evaluation.option_id !== option.id) {
+      return NextResponse.json(
+        { success: false, error: "evaluation.option_id does not match option.id" },
+        { status: 400 }
+      );
+    }
+    if (maxRounds !== undefined && (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > MAX_ROUNDS)) {
+      return NextResponse.json(
+        { success: false, error: `maxRounds must be an integer from 1 to ${MAX_ROUNDS}` },
+        { status: 400 }
+      );
+    }
+
+    return sseResponse(async (send) => {
+      const debate = debateMessages(option, evaluation, { maxRounds });
+      let step = debate.next();
+      while (!step.done) {
+        send("message", step.value);
+        // Let each message flush before computing the next
+        await new Promise((resolve) => setImmediate(resolve));
+        step = debate.next();
+      }
+      send("summary", step.value);
+    });
+  } catch (error) {
+    console.error("Debate stream error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to run debate",
+      },
+      { status: 500 }
+    );
+  }
+}
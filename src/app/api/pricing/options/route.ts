@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { loadPricingDataFromOntology } from "@/lib/pricing/ontology-to-flow";
+import { buildCustomPricingOption } from "@/lib/pricing/flow-engine";
+import { findUnmatchedTargets } from "@/lib/pricing/price-simulator";
+import { validateMonteCarloOptions } from "@/lib/pricing/monte-carlo";
+import { loadCouncilPolicy } from "@/lib/pricing/council-policy";
+import { evaluateOptionsWithCouncil, isLLMCouncilAvailable } from "@/lib/pricing/llm-council";
+import { buildOntologyContext } from "@/lib/services/ontology-service";
+import { createPricingOption, getPricingOptions } from "@/lib/services/decision-service";
+import { toPricingOptionRow } from "@/lib/services/analysis-run-service";
+import { assessDataQuality } from "@/lib/services/data-quality-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { PricingOption as DbPricingOption } from "@/types/database";
+import type { PricingChange, PricingOption } from "@/types/pricing-flow";
+
+const OPTION_TYPES: PricingOption["type"][] = [
+  "price_increase",
+  "new_tier",
+  "value_metric_change",
+  "packaging",
+  "minimum",
+  "discount_strategy",
+];
+
+const CHANGE_TYPES: PricingChange["type"][] = [
+  "price",
+  "structure",
+  "tier",
+  "feature",
+  "minimum",
+  "limit",
+  "discount",
+];
+
+const RISK_PROFILES: PricingOption["risk_profile"][] = ["low", "moderate", "high"];
+const COMPLEXITIES: PricingOption["complexity"][] = ["low", "medium", "high"];
+
+/**
+ * Create a user-authored pricing option: simulate its impact, run it past the
+ * council, and persist it as a draft in pricing_options
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      organizationId = DEMO_ORGANIZATION_ID,
+      type,
+      description,
+      changes,
+      timeToFullImpactMonths,
+      riskProfile,
+      complexity,
+      seed,
+      iterations,
+      councilMode = "rules",
+    } = body;
+
+    const validationError =
+      validateOption({ type, description, changes, riskProfile, complexity, timeToFullImpactMonths }) ??
+      validateMonteCarloOptions({ seed, iterations });
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+    const data = await loadPricingDataFromOntology(supabase, organizationId);
+
+    if (!data || data.segments.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No company data found. Please set up a company first via /api/company/setup." },
+        { status: 400 }
+      );
+    }
+
+    const { segments, economics, pricingStructure, competitiveContext, customers } = data;
+
+    const unmatched = findUnmatchedTargets(changes, segments, pricingStructure);
+    if (unmatched.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown change target(s): ${unmatched.join(", ")}. Use "all", a tier, a segment, "monthly" or "annual".`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const built = buildCustomPricingOption(
+      {
+        id: "custom",
+        type,
+        description,
+        changes,
+        timeToFullImpactMonths,
+        risk_profile: riskProfile,
+        complexity,
+      },
+      segments,
+      economics,
+      pricingStructure,
+      customers,
+      { seed, iterations }
+    );
+
+    // Evaluate before saving, so a failed evaluation leaves no orphan draft
+    const policy = await loadCouncilPolicy(supabase, organizationId);
+    const useLLM = councilMode === "llm" && isLLMCouncilAvailable();
+    const dataQuality = await assessDataQuality(supabase, organizationId, { fallbacks: data.fallbacks });
+    const [evaluation] = await evaluateOptionsWithCouncil(
+      [built],
+      segments,
+      economics,
+      competitiveContext,
+      policy,
+      useLLM ? { ontologyContext: await buildOntologyContext(supabase, organizationId) } : undefined,
+      dataQuality
+    );
+
+    const saved = await createPricingOption(supabase, organizationId, {
+      ...toPricingOptionRow(built),
+      status: "draft",
+    });
+
+    const option: PricingOption = { ...built, id: saved.id };
+
+    return NextResponse.json({
+      success: true,
+      data: { option, evaluation: { ...evaluation, option_id: saved.id }, dataQuality },
+    });
+  } catch (error) {
+    console.error("Custom pricing option error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create pricing option",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+    const status = searchParams.get("status") as DbPricingOption["status"] | null;
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    const supabase = createAdminClient();
+    const options = await getPricingOptions(supabase, organizationId, {
+      status: status || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, options });
+  } catch (error) {
+    console.error("Error fetching pricing options:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function validateOption(input: {
+  type: unknown;
+  description: unknown;
+  changes: unknown;
+  riskProfile: unknown;
+  complexity: unknown;
+  timeToFullImpactMonths: unknown;
+}): string | null {
+  if (!OPTION_TYPES.includes(input.type as PricingOption["type"])) {
+    return `type must be one of: ${OPTION_TYPES.join(", ")}`;
+  }
+  if (typeof input.description !== "string" || !input.description.trim()) {
+    return "description is required";
+  }
+  if (!Array.isArray(input.changes) || input.changes.length === 0) {
+    return "changes must be a non-empty array";
+  }
+
+  for (const [i, change] of (input.changes as Partial<PricingChange>[]).entries()) {
+    if (!change || !CHANGE_TYPES.includes(change.type as PricingChange["type"])) {
+      return `changes[${i}].type must be one of: ${CHANGE_TYPES.join(", ")}`;
+    }
+    if (typeof change.target !== "string" || !change.target.trim()) {
+      return `changes[${i}].target is required`;
+    }
+    if (!isChangeValue(change.from) || !isChangeValue(change.to)) {
+      return `changes[${i}].from and .to must be strings or numbers`;
+    }
+    if (typeof change.description !== "string") {
+      return `changes[${i}].description is required`;
+    }
+    if (change.type === "discount" && [change.from, change.to].some((v) => Number(v) < 0 || Number(v) >= 100)) {
+      return `changes[${i}] discounts are percentages between 0 and 100`;
+    }
+  }
+
+  if (input.riskProfile !== undefined && !RISK_PROFILES.includes(input.riskProfile as PricingOption["risk_profile"])) {
+    return `riskProfile must be one of: ${RISK_PROFILES.join(", ")}`;
+  }
+  if (input.complexity !== undefined && !COMPLEXITIES.includes(input.complexity as PricingOption["complexity"])) {
+    return `complexity must be one of: ${COMPLEXITIES.join(", ")}`;
+  }
+  if (
+    input.timeToFullImpactMonths !== undefined &&
+    (!Number.isInteger(input.timeToFullImpactMonths) || (input.timeToFullImpactMonths as number) <= 0)
+  ) {
+    return "timeToFullImpactMonths must be a positive whole number of months";
+  }
+
+  return null;
+}
+
+function isChangeValue(value: unknown): value is string | number {
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+}
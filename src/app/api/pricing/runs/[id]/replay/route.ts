@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getAnalysisRun } from "@/lib/services/analysis-run-service";
+import { evaluateWithCouncil } from "@/lib/pricing/flow-engine";
+import {
+  DEFAULT_COUNCIL_POLICY,
+  loadCouncilPolicy,
+  pickRecommendedOption,
+  validateCouncilPolicy,
+} from "@/lib/pricing/council-policy";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { CouncilPolicy } from "@/types/pricing-flow";
+
+/**
+ * POST /api/pricing/runs/:id/replay
+ *
+ * Re-runs the rule-based council over a stored run's options and inputs.
+ * With no policy it replays under the run's own policy; pass `policy` to try
+ * another one, or `useCurrentPolicy: true` for the organization's current
+ * policy. Returns the new evaluations and what changed; nothing is stored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: runId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { organizationId = DEMO_ORGANIZATION_ID, policy: policyOverride, useCurrentPolicy = false } = body;
+
+    if (policyOverride !== undefined) {
+      const validationError = validateCouncilPolicy(policyOverride);
+      if (validationError) {
+        return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+      }
+    }
+
+    const supabase = createAdminClient();
+    const stored = await getAnalysisRun(supabase, organizationId, runId);
+
+    if (!stored) {
+      return NextResponse.json({ success: false, error: "Analysis run not found" }, { status: 404 });
+    }
+
+    const policy: CouncilPolicy = policyOverride
+      ? { ...DEFAULT_COUNCIL_POLICY, ...(policyOverride as Partial<CouncilPolicy>) }
+      : useCurrentPolicy
+        ? await loadCouncilPolicy(supabase, organizationId)
+        : { ...DEFAULT_COUNCIL_POLICY, ...stored.policy };
+
+    const { inputs, options } = stored;
+    const evaluations = options.map((option) =>
+      evaluateWithCouncil(
+        option,
+        inputs.segments,
+        inputs.economics,
+        inputs.competitiveContext,
+        policy,
+        inputs.dataQuality
+      )
+    );
+    const recommendedOption = pickRecommendedOption(options, evaluations);
+
+    const changes = evaluations.map((after, i) => {
+      const before = stored.evaluations[i].recommendation;
+      return {
+        option_id: after.option_id,
+        consensus: { before: before.consensus, after: after.recommendation.consensus },
+        weighted_score: { before: before.weighted_score ?? null, after: after.recommendation.weighted_score ?? null },
+        blocked_by: { before: before.blocked_by ?? null, after: after.recommendation.blocked_by ?? null },
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        runId: stored.run.id,
+        councilMode: "rules",
+        policy,
+        evaluations,
+        recommendedOption,
+        recommendationChanged: (recommendedOption?.id ?? null) !== (stored.recommendedOption?.id ?? null),
+        changes,
+      },
+    });
+  } catch (error) {
+    console.error("Error replaying analysis run:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
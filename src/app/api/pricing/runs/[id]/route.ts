@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getAnalysisRun } from "@/lib/services/analysis-run-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * GET /api/pricing/runs/:id?organizationId=...
+ *
+ * Returns a stored analysis run in the same shape as /api/pricing/analyze.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: runId } = await params;
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    const stored = await getAnalysisRun(supabase, organizationId, runId);
+
+    if (!stored) {
+      return NextResponse.json({ success: false, error: "Analysis run not found" }, { status: 404 });
+    }
+
+    const { run, inputs, options, evaluations, recommendedOption, policy, parameters } = stored;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        runId: run.id,
+        decisionId: run.decision_record_id ?? null,
+        ontologySnapshotId: run.ontology_snapshot_id,
+        createdAt: run.created_at,
+        summary: inputs.summary,
+        segments: inputs.segments,
+        options,
+        evaluations,
+        recommendedOption,
+        pricingStructure: inputs.pricingStructure,
+        economics: inputs.economics,
+        competitiveContext: inputs.competitiveContext,
+        dataQuality: inputs.dataQuality ?? null,
+        councilMode: run.council_mode,
+        policy,
+        parameters,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching analysis run:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getAnalysisRuns } from "@/lib/services/analysis-run-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * GET /api/pricing/runs?organizationId=...&limit=...
+ *
+ * Lists stored analysis runs, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    const supabase = createAdminClient();
+    const runs = await getAnalysisRuns(supabase, organizationId, { limit });
+
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    console.error("Error fetching analysis runs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { ingestUsageRecords, MAX_USAGE_RECORDS } from "@/lib/services/usage-service";
+import { getUsageSummaries, usageMetricKey } from "@/lib/analytics/usage";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+import type { UsageRecordInput } from "@/types/usage";
+
+/**
+ * GET /api/usage
+ *
+ * Per-customer, per-metric usage summaries over the last windowDays (90 by
+ * default), with tier limit utilization and the 30-day trend.
+ *
+ * Query: organizationId?, customerId?, metric?, windowDays?
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const organizationId = searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+    const customerId = searchParams.get("customerId");
+    const metric = searchParams.get("metric");
+    const windowDays = Number(searchParams.get("windowDays") || 90);
+
+    if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 730) {
+      return NextResponse.json(
+        { success: false, error: "windowDays must be a whole number of days between 1 and 730" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const summaries = await getUsageSummaries(supabase, organizationId, {
+      windowDays,
+      metrics: metric ? [usageMetricKey(metric)] : undefined,
+      customerIds: customerId ? [customerId] : undefined,
+    });
+
+    return NextResponse.json({ success: true, data: summaries });
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/usage
+ *
+ * Ingests daily usage. Each record names its customer by customer_id,
+ * stripe_customer_id or email; a day's quantity replaces what was stored
+ * for it. Invalid records are skipped and reported by position.
+ *
+ * Body: { organizationId?, records: [{ customer_id? | stripe_customer_id? | email?, metric, date, quantity }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const organizationId: string = body?.organizationId || DEMO_ORGANIZATION_ID;
+    const records = body?.records as UsageRecordInput[] | undefined;
+
+    if (!Array.isArray(records) || records.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "records must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+    if (records.length > MAX_USAGE_RECORDS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_USAGE_RECORDS} records per request` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const result = await ingestUsageRecords(supabase, organizationId, records);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error ingesting usage:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { createStripeClient } from "@/lib/services/stripe-sync-service";
+import {
+  handleStripeWebhookEvent,
+  verifyStripeWebhook,
+} from "@/lib/services/stripe-webhook-service";
+import { DEMO_ORGANIZATION_ID } from "@/types/database";
+
+/**
+ * POST /api/webhooks/stripe
+ *
+ * Receives Stripe webhook events. The payload must carry a valid
+ * Stripe-Signature for STRIPE_WEBHOOK_SECRET; the organization comes from the
+ * `organizationId` query parameter set on the endpoint URL. Redelivered
+ * events are acknowledged without being applied again.
+ */
+export async function POST(request: NextRequest) {
+  const payload = await request.text();
+
+  let event: Stripe.Event;
+  try {
+    event = verifyStripeWebhook(payload, request.headers.get("stripe-signature"));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid signature",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const organizationId =
+      request.nextUrl.searchParams.get("organizationId") || DEMO_ORGANIZATION_ID;
+
+    const supabase = createAdminClient();
+    // Without an API key, only the items and lines embedded in the event are saved
+    const client = process.env.STRIPE_SECRET_KEY ? createStripeClient() : null;
+    const result = await handleStripeWebhookEvent(supabase, organizationId, event, { client });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    // A 500 makes Stripe retry the delivery
+    console.error("Error handling Stripe webhook:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
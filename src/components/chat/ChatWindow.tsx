@@ -22,7 +22,12 @@ interface ChatResponse {
 
 interface ChatWindowProps {
   initialMessages?: Message[];
-  onSendMessage?: (message: string, mentions: AgentId[]) => Promise<ChatResponse | void>;
+  // Handlers that stream the reply pass each chunk to onToken as it arrives
+  onSendMessage?: (
+    message: string,
+    mentions: AgentId[],
+    onToken: (text: string) => void
+  ) => Promise<ChatResponse | void>;
   suggestionsContext?: "default" | "pricing" | "recommendation";
   showSuggestions?: boolean;
 }
@@ -35,6 +40,7 @@ export function ChatWindow({
 }: ChatWindowProps) {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -59,16 +65,45 @@ export function ChatWindow({
 
     try {
       if (onSendMessage) {
-        const response = await onSendMessage(content, mentions);
+        const responseId = (Date.now() + 1).toString();
+        let streamed = false;
+
+        // Grow the reply in place as tokens arrive
+        const onToken = (text: string) => {
+          if (!streamed) {
+            streamed = true;
+            setStreamingId(responseId);
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: responseId,
+                role: "agent",
+                agentId: mentions[0] || "CFO",
+                content: text,
+                timestamp: new Date(),
+              },
+            ]);
+          } else {
+            setMessages((prev) =>
+              prev.map((m) => (m.id === responseId ? { ...m, content: m.content + text } : m))
+            );
+          }
+        };
+
+        const response = await onSendMessage(content, mentions, onToken);
         if (response) {
           const agentResponse: Message = {
-            id: (Date.now() + 1).toString(),
+            id: responseId,
             role: "agent",
             agentId: response.agentId || mentions[0] || "CFO",
             content: response.content,
             timestamp: new Date(),
           };
-          setMessages((prev) => [...prev, agentResponse]);
+          setMessages((prev) =>
+            streamed
+              ? prev.map((m) => (m.id === responseId ? agentResponse : m))
+              : [...prev, agentResponse]
+          );
         }
       } else {
         // Demo response for when no handler is provided
@@ -87,6 +122,7 @@ export function ChatWindow({
       }
     } finally {
       setIsLoading(false);
+      setStreamingId(null);
     }
   };
 
@@ -119,7 +155,7 @@ export function ChatWindow({
               <MessageBubble key={message.id} message={message} />
             ))
           )}
-          {isLoading && (
+          {isLoading && !streamingId && (
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <div className="h-2 w-2 animate-pulse rounded-full bg-muted-foreground" />
               Agent is thinking...
@@ -212,13 +248,13 @@ Confidence: 90%`,
 
 Confidence: 85%`,
 
-    CDO: `Customer experience and perception:
+    CDO: `Data and measurability:
 
-1. **Fairness**: A minimum fee is perceived as fair if communicated as "cost to maintain your account."
+1. **Data Quality**: MRR reconciles with invoices and segment assignments are complete, so the impact model is built on sound inputs.
 
-2. **Transparency**: Clear pricing page showing what each tier includes builds trust.
+2. **Measurement**: Roll out to new customers first and keep existing accounts as a control group, so we can attribute churn and ARR shifts to the change.
 
-3. **Design Needs**: New pricing page, migration email templates, and in-app notifications needed.
+3. **Instrumentation**: A minimum fee needs per-account usage tracked before launch to see who falls below it.
 
 Confidence: 80%`,
   };
@@ -2,10 +2,14 @@
 
 import { useState, useEffect, useRef } from "react";
 import type { PricingOption, CouncilEvaluation } from "@/types/pricing-flow";
-import type { DebateMessage as DebateMessageType, DebateSummary } from "@/types/demo";
+import type {
+  DebateMessage as DebateMessageType,
+  DebateStreamEvent,
+  DebateSummary,
+} from "@/types/demo";
 import { DebateMessage } from "./DebateMessage";
 import { ConsensusMeter } from "./ConsensusMeter";
-import { generateDebate, generateDebateSummary } from "@/lib/pricing/debate-generator";
+import { readSSE } from "@/lib/utils";
 import { Loader2 } from "lucide-react";
 
 interface AgentDebatePanelProps {
@@ -19,7 +23,9 @@ export function AgentDebatePanel({ option, evaluation, onComplete }: AgentDebate
   const [summary, setSummary] = useState<DebateSummary | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [latestMessageId, setLatestMessageId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -29,30 +35,54 @@ export function AgentDebatePanel({ option, evaluation, onComplete }: AgentDebate
   // Start debate on mount
   useEffect(() => {
     runDebate();
+    return () => abortRef.current?.abort();
   }, [option.id]);
 
   const runDebate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsRunning(true);
     setMessages([]);
     setSummary(null);
-
-    // Generate all messages
-    const allMessages = generateDebate(option, evaluation);
-
-    // Stream messages with delay
-    for (const message of allMessages) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      setMessages((prev) => [...prev, message]);
-      setLatestMessageId(message.id);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/pricing/debate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ option, evaluation }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to start debate");
+      }
+
+      // Show each message as the server's debate produces it
+      for await (const streamEvent of readSSE<DebateStreamEvent>(response)) {
+        if (streamEvent.event === "message") {
+          const message = streamEvent.data;
+          setMessages((prev) => [...prev, message]);
+          setLatestMessageId(message.id);
+        } else if (streamEvent.event === "summary") {
+          setSummary(streamEvent.data);
+          onComplete?.(streamEvent.data);
+        } else {
+          throw new Error(streamEvent.data.error);
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Debate failed");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        setIsRunning(false);
+      }
     }
-
-    // Generate and set summary
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    const debateSummary = generateDebateSummary(option, evaluation);
-    setSummary(debateSummary);
-
-    setIsRunning(false);
-    onComplete?.(debateSummary);
   };
 
   return (
@@ -135,6 +165,12 @@ export function AgentDebatePanel({ option, evaluation, onComplete }: AgentDebate
             />
           ))}
 
+          {error && (
+            <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-500">
+              {error}
+            </div>
+          )}
+
           {isRunning && messages.length === 0 && (
             <div className="flex items-center justify-center h-32 text-muted">
               <Loader2 className="h-6 w-6 animate-spin mr-2" />
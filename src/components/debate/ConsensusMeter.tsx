@@ -28,7 +28,14 @@ export function ConsensusMeter({ summary, isComplete }: ConsensusMeterProps) {
     divided: "text-red-500 bg-red-500/20",
   };
 
-  const allAgents: AgentId[] = ["CFO", "CRO", "CPO", "CSO"];
+  const allAgents = (Object.keys(AGENTS) as AgentId[]).filter(
+    (id) =>
+      summary.supportingAgents.includes(id) ||
+      summary.opposingAgents.includes(id) ||
+      summary.cautiousAgents.includes(id)
+  );
+  const rounds = summary.rounds ?? [];
+  const stanceChanges = summary.stanceChanges ?? [];
 
   return (
     <div className="rounded-xl border border-border bg-surface p-4 space-y-4">
@@ -45,12 +52,35 @@ export function ConsensusMeter({ summary, isComplete }: ConsensusMeterProps) {
         </span>
       </div>
 
+      {/* Consensus across rounds */}
+      {rounds.length > 1 && (
+        <div>
+          <div className="flex items-center justify-between text-xs text-muted mb-2">
+            <span>Across {rounds.length} rounds</span>
+            <span>{summary.converged ? "Converged" : "Round limit reached"}</span>
+          </div>
+          <div className="flex items-end gap-1 h-12">
+            {rounds.map((round) => (
+              <div key={round.round} className="flex-1 flex flex-col items-center gap-1">
+                <div
+                  className={cn("w-full rounded-sm", consensusColors[round.consensus])}
+                  style={{ height: `${Math.max(8, ((round.averageScore + 2) / 4) * 100)}%` }}
+                  title={`Round ${round.round}: ${round.consensus} (score ${round.averageScore.toFixed(2)})`}
+                />
+                <span className="text-[10px] text-muted">R{round.round}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Agent positions */}
       <div className="space-y-2">
         {allAgents.map((agentId) => {
           const agent = AGENTS[agentId];
           const isSupporting = summary.supportingAgents.includes(agentId);
           const isOpposing = summary.opposingAgents.includes(agentId);
+          const changes = stanceChanges.filter((c) => c.agentId === agentId);
 
           return (
             <div key={agentId} className="flex items-center justify-between">
@@ -62,6 +92,16 @@ export function ConsensusMeter({ summary, isComplete }: ConsensusMeterProps) {
                   {agentId.charAt(0)}
                 </div>
                 <span className="text-sm">{agentId}</span>
+                {changes.length > 0 && (
+                  <span
+                    className="text-[10px] text-muted"
+                    title={changes
+                      .map((c) => `Round ${c.round}: ${c.from} → ${c.to}${c.persuadedBy ? ` (after ${c.persuadedBy})` : ""}`)
+                      .join("\n")}
+                  >
+                    {changes[0].from.replace("_", " ")} → {changes[changes.length - 1].to.replace("_", " ")}
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-1">
@@ -54,11 +54,17 @@ export function DebateMessage({ message, isNew }: DebateMessageProps) {
             <span className="font-medium">{agent.title}</span>
             <span className="text-xs text-muted ml-2">
               {typeLabels[message.type]}
+              {message.round && message.round > 1 && message.type !== "synthesis" && ` · Round ${message.round}`}
             </span>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          {message.stanceChange && (
+            <span className="text-xs text-accent">
+              {message.stanceChange.from.replace("_", " ")} → {message.stanceChange.to.replace("_", " ")}
+            </span>
+          )}
           <span className={cn("text-xs px-2 py-0.5 rounded-full", stanceBadges[message.stance])}>
             {message.stance}
           </span>
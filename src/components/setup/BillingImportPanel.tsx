@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, Check, Loader2, Table } from "lucide-react";
+import type {
+  ColumnMapping,
+  ImportEntity,
+  ImportPreview,
+  ImportResult,
+  ImportRowError,
+} from "@/types/billing-import";
+import { IMPORT_ENTITY_META } from "@/types/billing-import";
+import type { UploadedFileImport } from "@/types/setup";
+import { cn } from "@/lib/utils";
+
+const SHOWN_ERRORS = 8;
+
+interface BillingImportPanelProps {
+  file?: File; // Missing once the page reloads; only the import summary survives
+  organizationId: string;
+  imported?: UploadedFileImport;
+  onImported: (result: UploadedFileImport) => void;
+}
+
+/**
+ * Column mapping and import for one CSV/XLSX billing export: shows the
+ * detected entity and mapping, lets the user correct them, and reports
+ * row errors before and after importing
+ */
+export function BillingImportPanel({ file, organizationId, imported, onImported }: BillingImportPanelProps) {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(!imported && !!file);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function post<T>(path: string, options: { entity?: ImportEntity; mapping?: ColumnMapping }): Promise<T> {
+    const form = new FormData();
+    form.append("file", file!);
+    form.append("organizationId", organizationId);
+    if (options.entity) form.append("entity", options.entity);
+    if (options.mapping) form.append("mapping", JSON.stringify(options.mapping));
+
+    const res = await fetch(path, { method: "POST", body: form });
+    const json = await res.json();
+    if (!json.success) throw new Error(json.error || "Request failed");
+    return json.data as T;
+  }
+
+  async function loadPreview(options: { entity?: ImportEntity; mapping?: ColumnMapping } = {}) {
+    try {
+      setPreview(await post<ImportPreview>("/api/company/setup/import/preview", options));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read file");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (file && !imported) loadPreview();
+    // Preview once per file; later previews follow user changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file]);
+
+  function handleEntityChange(entity: ImportEntity) {
+    setIsLoading(true);
+    setResult(null);
+    loadPreview({ entity });
+  }
+
+  function handleMappingChange(fieldKey: string, header: string) {
+    if (!preview) return;
+    setIsLoading(true);
+    setResult(null);
+    loadPreview({ entity: preview.entity, mapping: { ...preview.mapping, [fieldKey]: header || null } });
+  }
+
+  async function handleImport() {
+    if (!preview) return;
+    setIsImporting(true);
+    try {
+      const data = await post<ImportResult>("/api/company/setup/import", {
+        entity: preview.entity,
+        mapping: preview.mapping,
+      });
+      setResult(data);
+      setError(null);
+      onImported({
+        entity: data.entity,
+        imported: data.imported,
+        skipped: data.skipped,
+        errorCount: data.errors.length,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  if (imported && !preview) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-green-400">
+        <Check className="h-3.5 w-3.5" />
+        {`Imported ${imported.imported} ${IMPORT_ENTITY_META[imported.entity].label.toLowerCase()}`}
+        {imported.skipped > 0 && (
+          <span className="text-amber-400">{`· ${imported.skipped} rows skipped`}</span>
+        )}
+      </div>
+    );
+  }
+
+  if (!file && !preview) {
+    return (
+      <p className="text-xs text-muted-foreground">Upload the file again to import it</p>
+    );
+  }
+
+  if (isLoading && !preview) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Reading columns...
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-red-400">
+        <AlertCircle className="h-3.5 w-3.5" />
+        {error}
+      </div>
+    );
+  }
+
+  const errors = result ? result.errors : preview.errors;
+
+  return (
+    <div className="space-y-4">
+      {/* Entity */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Table className="h-4 w-4 text-muted-foreground" />
+        <select
+          value={preview.entity}
+          onChange={(e) => handleEntityChange(e.target.value as ImportEntity)}
+          className="rounded-md border border-border bg-background px-2 py-1 text-xs"
+        >
+          {(Object.keys(IMPORT_ENTITY_META) as ImportEntity[]).map((entity) => (
+            <option key={entity} value={entity}>
+              {IMPORT_ENTITY_META[entity].label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-muted-foreground">
+          {IMPORT_ENTITY_META[preview.entity].description}
+        </span>
+        {preview.source !== "generic" && (
+          <span className="rounded bg-blue-500/10 px-2 py-0.5 text-xs capitalize text-blue-400">
+            {preview.source} export
+          </span>
+        )}
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-1 gap-x-6 gap-y-2 sm:grid-cols-2">
+        {preview.fields.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-3 text-xs">
+            <span className="text-muted-foreground">
+              {field.label}
+              {field.required && <span className="text-red-400"> *</span>}
+            </span>
+            <select
+              value={preview.mapping[field.key] ?? ""}
+              onChange={(e) => handleMappingChange(field.key, e.target.value)}
+              disabled={isLoading || isImporting}
+              className={cn(
+                "w-40 rounded-md border bg-background px-2 py-1 text-xs",
+                preview.mapping[field.key] ? "border-border" : "border-dashed border-border text-muted-foreground"
+              )}
+            >
+              <option value="">Not mapped</option>
+              {preview.headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {/* Validation */}
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {result
+            ? `${result.imported} of ${result.totalRows} rows imported${result.expansionEvents > 0 ? `, ${result.expansionEvents} plan changes` : ""}`
+            : `${preview.validRows} of ${preview.rowCount} rows valid`}
+        </p>
+        {!result && (
+          <button
+            onClick={handleImport}
+            disabled={isLoading || isImporting || preview.validRows === 0}
+            className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
+          >
+            {isImporting && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Import {preview.validRows} rows
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {errors.length > 0 && <RowErrors errors={errors} />}
+    </div>
+  );
+}
+
+function RowErrors({ errors }: { errors: ImportRowError[] }) {
+  return (
+    <ul className="space-y-1 rounded-lg border border-amber-500/20 bg-amber-500/5 p-3">
+      {errors.slice(0, SHOWN_ERRORS).map((error, i) => (
+        <li key={i} className="text-xs text-amber-400">
+          {error.row === 1 ? "Mapping" : `Row ${error.row}`}: {error.message}
+        </li>
+      ))}
+      {errors.length > SHOWN_ERRORS && (
+        <li className="text-xs text-muted-foreground">
+          {`and ${errors.length - SHOWN_ERRORS} more`}
+        </li>
+      )}
+    </ul>
+  );
+}
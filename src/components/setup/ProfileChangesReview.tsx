@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, ArrowRight, FileText, Loader2 } from "lucide-react";
+import type { CompanyTierProfile, CompetitorProfile } from "@/types/company-profile";
+import type {
+  DocumentIngestionResult,
+  ProfileChange,
+  ProfileChangeValue,
+} from "@/types/document-ingestion";
+import { cn } from "@/lib/utils";
+
+const SECTION_LABELS: Record<ProfileChange["section"], string> = {
+  pricing_tiers: "Pricing Tiers",
+  competitors: "Competitors",
+  strategic_positioning: "Strategic Positioning",
+};
+
+interface ProfileChangesReviewProps {
+  review: DocumentIngestionResult;
+  organizationId: string;
+  onDone: () => void;
+}
+
+/**
+ * The changes uploaded documents suggest to the company profile, as a diff
+ * the user accepts change by change before generation runs
+ */
+export function ProfileChangesReview({ review, organizationId, onDone }: ProfileChangesReviewProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(review.changes.map((c) => c.id)));
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const failedDocuments = review.documents.filter((d) => d.error);
+  const sections = (Object.keys(SECTION_LABELS) as ProfileChange["section"][])
+    .map((section) => ({ section, changes: review.changes.filter((c) => c.section === section) }))
+    .filter((group) => group.changes.length > 0);
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleApply() {
+    const accepted = review.changes.filter((c) => selected.has(c.id));
+    if (accepted.length === 0) {
+      onDone();
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const res = await fetch("/api/company/setup/documents/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ organizationId, changes: accepted }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Could not update profile");
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update profile");
+      setIsApplying(false);
+    }
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mx-auto max-w-3xl space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Review Document Findings</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            {review.changes.length > 0
+              ? "Your documents suggest these changes to your company profile. Untick anything that's wrong before we build your model."
+              : "Your documents didn't add anything new to your company profile."}
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {review.documents
+              .filter((d) => !d.error)
+              .map((d) => (
+                <span
+                  key={d.name}
+                  className="flex items-center gap-1 rounded-full bg-white/5 px-3 py-1 text-xs text-muted-foreground"
+                >
+                  <FileText className="h-3 w-3" />
+                  {d.name}
+                </span>
+              ))}
+          </div>
+        </div>
+
+        {/* Unreadable documents and extraction warnings */}
+        {(failedDocuments.length > 0 || review.warnings.length > 0) && (
+          <ul className="space-y-1 rounded-lg border border-amber-500/20 bg-amber-500/5 p-3">
+            {failedDocuments.map((d) => (
+              <li key={d.name} className="text-xs text-amber-400">
+                {d.name}: {d.error}
+              </li>
+            ))}
+            {review.warnings.map((warning, i) => (
+              <li key={i} className="text-xs text-amber-400">
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Changes by section */}
+        {sections.map(({ section, changes }) => (
+          <div key={section} className="space-y-3">
+            <h2 className="text-sm font-medium uppercase tracking-wider text-muted-foreground">
+              {SECTION_LABELS[section]}
+            </h2>
+            <div className="space-y-2">
+              {changes.map((change) => (
+                <label
+                  key={change.id}
+                  className={cn(
+                    "flex cursor-pointer gap-3 rounded-lg border bg-card p-4 transition-colors",
+                    selected.has(change.id) ? "border-blue-500/40" : "border-border opacity-60"
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(change.id)}
+                    onChange={() => toggle(change.id)}
+                    className="mt-0.5 h-4 w-4 flex-shrink-0 accent-blue-500"
+                  />
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <p className="text-sm font-medium text-foreground">{change.label}</p>
+                    <ChangeDiff change={change} />
+                    {change.sources.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {change.sources
+                          .map((s) => (s.quote ? `${s.document}: “${s.quote}”` : s.document))
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-between pb-8 pt-2">
+          <p className="text-sm text-muted-foreground">
+            {`${selected.size} of ${review.changes.length} changes selected`}
+          </p>
+          <button
+            onClick={handleApply}
+            disabled={isApplying}
+            className="flex items-center gap-2 rounded-lg bg-blue-600 px-6 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
+          >
+            {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+            {selected.size > 0 ? "Apply and generate" : "Continue without changes"}
+            <ArrowRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Diff rendering
+// ---------------------------------------------------------------------------
+
+function ChangeDiff({ change }: { change: ProfileChange }) {
+  const { before, after } = change;
+
+  // Lists only grow, so show what's added
+  if (Array.isArray(after)) {
+    const existing = new Set(Array.isArray(before) ? before.map((item) => item.toLowerCase()) : []);
+    const added = after.filter((item) => !existing.has(item.toLowerCase()));
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {added.map((item) => (
+          <span key={item} className="rounded bg-green-500/10 px-2 py-0.5 text-xs text-green-400">
+            + {item}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  if (before === null && typeof after === "object") {
+    return <p className="text-xs text-green-400">{describeNew(change.section, after)}</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {before !== null && (
+        <span className="rounded bg-red-500/10 px-2 py-0.5 text-red-400 line-through">
+          {formatValue(before)}
+        </span>
+      )}
+      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+      <span className="rounded bg-green-500/10 px-2 py-0.5 text-green-400">{formatValue(after)}</span>
+    </div>
+  );
+}
+
+function describeNew(section: ProfileChange["section"], value: ProfileChangeValue): string {
+  if (section === "pricing_tiers") {
+    const tier = value as CompanyTierProfile;
+    const limits = formatValue(tier.value_metric_limits);
+    return [`${tier.price_monthly.toLocaleString()}/mo`, limits, ...tier.features].filter(Boolean).join(" · ");
+  }
+  const competitor = value as CompetitorProfile;
+  return [competitor.positioning, competitor.pricing_model, competitor.price_range].filter(Boolean).join(" · ");
+}
+
+function formatValue(value: ProfileChangeValue): string {
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.join(", ");
+  return Object.entries(value)
+    .map(([metric, limit]) => `${metric}: ${typeof limit === "number" ? limit.toLocaleString() : limit}`)
+    .join(", ");
+}
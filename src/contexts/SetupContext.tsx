@@ -13,7 +13,9 @@ import type {
   SetupStep,
   ConnectionId,
   UploadedFile,
+  UploadedFileImport,
 } from "@/types/setup";
+import type { DocumentIngestionResult } from "@/types/document-ingestion";
 import {
   createInitialSetupState,
   CONNECTION_META,
@@ -134,10 +136,23 @@ export function SetupProvider({ children }: { children: React.ReactNode }) {
     }));
   }, []);
 
+  const setFileImport = useCallback((name: string, result: UploadedFileImport) => {
+    setState((prev) => ({
+      ...prev,
+      uploadedFiles: prev.uploadedFiles.map((f) =>
+        f.name === name ? { ...f, import: result } : f
+      ),
+    }));
+  }, []);
+
   const setAdditionalContext = useCallback((text: string) => {
     setState((prev) => ({ ...prev, additionalContext: text }));
   }, []);
 
+  const setDocumentReview = useCallback((review: DocumentIngestionResult | null) => {
+    setState((prev) => ({ ...prev, documentReview: review }));
+  }, []);
+
   const setGenerationStatus = useCallback(
     (status: SetupState["generationStatus"], error?: string | null) => {
       setState((prev) => ({
@@ -167,7 +182,9 @@ export function SetupProvider({ children }: { children: React.ReactNode }) {
     disconnectSource,
     addFile,
     removeFile,
+    setFileImport,
     setAdditionalContext,
+    setDocumentReview,
     setGenerationStatus,
     reset,
   };
@@ -1,13 +1,36 @@
 /**
  * Cohort Retention Analyzer
- * Tracks customer and revenue retention by acquisition cohort
+ * Tracks customer and revenue retention by acquisition cohort: by signup
+ * month for the stored retention table, and by any customer dimension
+ * (acquisition channel, first tier, segment, country, billing interval,
+ * company size) as a heatmap with cohort-over-cohort and before/after
+ * pricing change comparisons.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import { loadLastBilledMrr, normalCdf } from "./survival-analysis";
 
 type DbClient = SupabaseClient<Database>;
 
+const PAGE_SIZE = 1000;
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Months since start that comparisons are reported at
+const MILESTONE_MONTHS = [1, 3, 6, 12];
+
+// Upper bound on caller-supplied lookback and tracking months; the heatmap
+// scans retention once per cohort and month
+export const MAX_COHORT_MONTHS = 120;
+
+// Both sides of a comparison need this many customers observed that long
+const MIN_COMPARISON_CUSTOMERS = 10;
+
+// Customers acquired this many months either side of a pricing change are compared
+const PRICING_CHANGE_WINDOW_MONTHS = 6;
+
+const PRICE_FIELDS = ["price_monthly", "price_annual", "annual_discount_percent"];
+
 export interface CohortData {
   cohortMonth: string; // YYYY-MM
   monthOffset: number;
@@ -35,6 +58,99 @@ export interface AggregateRetentionMetrics {
   totalCustomersAnalyzed: number;
 }
 
+export const COHORT_DIMENSIONS = [
+  "signup_month",
+  "acquisition_channel",
+  "first_tier",
+  "segment",
+  "country",
+  "billing_interval",
+  "company_size",
+] as const;
+
+export type CohortDimension = (typeof COHORT_DIMENSIONS)[number];
+
+export interface CohortCustomer {
+  id: string;
+  startedAt: number;
+  churnedAt: number | null;
+  startingMrr: number;
+  mrrChanges: { at: number; delta: number }[]; // After the start
+  // Raw value per dimension; null when unknown
+  attributes: Record<Exclude<CohortDimension, "signup_month">, string | null>;
+}
+
+export interface CohortRow {
+  key: string;
+  label: string;
+  customers: number;
+  startingMrr: number;
+}
+
+/**
+ * Rows are cohorts, columns months since start. A cell is null until some of
+ * the cohort's customers have been customers that long; customersObserved
+ * says how many have.
+ */
+export interface CohortHeatmap {
+  months: number[];
+  cohorts: CohortRow[];
+  logoRetention: (number | null)[][];
+  revenueRetention: (number | null)[][]; // Net of expansion and contraction; can exceed 1
+  customersObserved: number[][];
+}
+
+export interface CohortComparison {
+  cohort: string;
+  cohortLabel: string;
+  baseline: string;
+  baselineLabel: string;
+  month: number;
+  customers: number;
+  baselineCustomers: number;
+  logoRetention: number;
+  baselineLogoRetention: number;
+  logoDelta: number;
+  revenueRetention: number | null;
+  baselineRevenueRetention: number | null;
+  revenueDelta: number | null;
+  pValue: number; // Two-proportion z-test on logo retention
+}
+
+export interface PricingChange {
+  at: string;
+  source: "audit_log" | "manual";
+  tiers: string[]; // Names of the tiers whose price changed
+}
+
+export interface PricingChangeComparison {
+  change: PricingChange;
+  windowMonths: number;
+  customersBefore: number;
+  customersAfter: number;
+  // Acquired after against acquired before, overall ("all") and per cohort
+  comparisons: CohortComparison[];
+}
+
+export interface CohortAnalysis {
+  computedAt: string;
+  dimension: CohortDimension;
+  heatmap: CohortHeatmap;
+  // Signup months against the previous month; other cohorts against everyone else
+  comparisons: CohortComparison[];
+  pricingChanges: PricingChange[];
+  pricingChange: PricingChangeComparison | null;
+  insights: string[];
+}
+
+export interface CohortAnalysisOptions {
+  dimension?: CohortDimension;
+  lookbackMonths?: number;
+  maxMonthsToTrack?: number;
+  pricingChangeAt?: Date; // Overrides the latest price change from the audit log
+  now?: Date;
+}
+
 /**
  * Analyze cohort retention from unified customer data
  */
@@ -300,3 +416,462 @@ export async function storeCohortRetention(
     if (error) throw error;
   }
 }
+
+// =============================================================================
+// COHORTS BY DIMENSION
+// =============================================================================
+
+/**
+ * Cohort customers by a dimension and build the retention heatmap, with
+ * cohort-over-cohort comparisons and customers acquired before and after the
+ * latest price change compared
+ */
+export async function analyzeCohorts(
+  supabase: DbClient,
+  organizationId: string,
+  options: CohortAnalysisOptions = {}
+): Promise<CohortAnalysis> {
+  const now = options.now ?? new Date();
+
+  const rows = await selectAll<{
+    id: string;
+    hubspot_contact_id: string | null;
+    segment_id: string | null;
+    current_tier_id: string | null;
+    billing_interval: string | null;
+    company_size: string | null;
+    country: string | null;
+    mrr: number | null;
+    status: string;
+    tenure_months: number | null;
+    created_at: string;
+    churned_at: string | null;
+  }>(
+    supabase, "unified_customers",
+    "id, hubspot_contact_id, segment_id, current_tier_id, billing_interval, company_size, country, mrr, status, tenure_months, created_at, churned_at",
+    organizationId
+  );
+  const events = await selectAll<{
+    customer_id: string;
+    delta_mrr: number | null;
+    from_tier_id: string | null;
+    to_tier_id: string | null;
+    occurred_at: string;
+  }>(supabase, "customer_expansion_events", "id, customer_id, delta_mrr, from_tier_id, to_tier_id, occurred_at", organizationId);
+  const contacts = await selectAll<{ id: string; lead_source: string | null }>(
+    supabase, "hubspot_contacts", "id, lead_source", organizationId
+  );
+
+  // Churned customers usually carry 0 MRR; their last subscription invoice says what they paid
+  const lastBilled = await loadLastBilledMrr(
+    supabase,
+    organizationId,
+    rows.filter((r) => r.status === "churned" && !(Number(r.mrr) > 0)).map((r) => r.id)
+  );
+
+  const { data: tiers, error: tiersError } = await supabase
+    .from("pricing_tiers")
+    .select("id, name, position")
+    .eq("organization_id", organizationId);
+  if (tiersError) throw tiersError;
+  const { data: segments, error: segmentsError } = await supabase
+    .from("segments")
+    .select("id, name")
+    .eq("organization_id", organizationId);
+  if (segmentsError) throw segmentsError;
+
+  const leadSources = new Map(contacts.map((c) => [c.id, c.lead_source]));
+  const eventsByCustomer = new Map<string, typeof events>();
+  for (const e of events) {
+    if (!eventsByCustomer.has(e.customer_id)) eventsByCustomer.set(e.customer_id, []);
+    eventsByCustomer.get(e.customer_id)!.push(e);
+  }
+
+  const customers: CohortCustomer[] = rows.map((r) => {
+    const churnedAt = r.status === "churned" && r.churned_at ? new Date(r.churned_at).getTime() : null;
+    // created_at is when the record was created here; tenure runs from the real start.
+    // Tenure is in whole months, and starting mid-month keeps churned customers from
+    // looking newer than active ones at the edge of what has been observed
+    const startedAt = r.tenure_months != null
+      ? (churnedAt ?? now.getTime()) - (r.tenure_months + 0.5) * MONTH_MS
+      : new Date(r.created_at).getTime();
+    const changes = (eventsByCustomer.get(r.id) ?? [])
+      .map((e) => ({ ...e, at: new Date(e.occurred_at).getTime() }))
+      .filter((e) => e.at > startedAt)
+      .sort((a, b) => a.at - b.at);
+
+    const finalMrr = Number(r.mrr) > 0
+      ? Number(r.mrr)
+      : (lastBilled.get(r.id) ?? 0) / (r.billing_interval === "annual" ? 12 : 1);
+    const changed = changes.reduce((sum, e) => sum + (Number(e.delta_mrr) || 0), 0);
+    // The tier the first tier change moved away from, or the current tier
+    const firstTierChange = changes.find((e) => e.from_tier_id && e.to_tier_id && e.from_tier_id !== e.to_tier_id);
+
+    return {
+      id: r.id,
+      startedAt,
+      churnedAt,
+      startingMrr: Math.max(0, finalMrr - changed),
+      mrrChanges: changes.map((e) => ({ at: e.at, delta: Number(e.delta_mrr) || 0 })),
+      attributes: {
+        acquisition_channel: r.hubspot_contact_id ? leadSources.get(r.hubspot_contact_id) ?? null : null,
+        first_tier: firstTierChange?.from_tier_id ?? r.current_tier_id,
+        segment: r.segment_id,
+        country: r.country,
+        billing_interval: r.billing_interval,
+        company_size: r.company_size,
+      },
+    };
+  });
+
+  return buildCohortAnalysis(customers, {
+    ...options,
+    now,
+    tiers: (tiers || []) as { id: string; name: string; position: number }[],
+    segments: (segments || []) as { id: string; name: string }[],
+    pricingChanges: await loadPricingChanges(supabase, organizationId),
+  });
+}
+
+/**
+ * Heatmap, comparisons and insights from cohort customers. Pure, so it runs
+ * on any history.
+ */
+export function buildCohortAnalysis(
+  customers: CohortCustomer[],
+  options: CohortAnalysisOptions & {
+    tiers?: { id: string; name: string; position: number }[];
+    segments?: { id: string; name: string }[];
+    pricingChanges?: PricingChange[];
+  } = {}
+): CohortAnalysis {
+  const dimension = options.dimension ?? "signup_month";
+  const lookbackMonths = options.lookbackMonths ?? 24;
+  const maxMonthsToTrack = options.maxMonthsToTrack ?? 12;
+  const now = (options.now ?? new Date()).getTime();
+  const tiers = options.tiers ?? [];
+  const segmentNames = new Map((options.segments ?? []).map((s) => [s.id, s.name]));
+
+  const keyOf = (c: CohortCustomer) =>
+    dimension === "signup_month" ? monthKey(c.startedAt) : c.attributes[dimension] ?? "unknown";
+  const labelOf = (key: string) => {
+    if (dimension === "signup_month") return key;
+    if (key === "unknown") return "Unknown";
+    if (dimension === "first_tier") return tiers.find((t) => t.id === key)?.name ?? key;
+    if (dimension === "segment") return segmentNames.get(key) ?? key;
+    if (dimension === "country") return key;
+    return humanize(key);
+  };
+
+  const inScope = customers.filter((c) => c.startedAt >= now - lookbackMonths * MONTH_MS && c.startedAt <= now);
+  const groups = new Map<string, CohortCustomer[]>();
+  for (const c of inScope) {
+    const key = keyOf(c);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(c);
+  }
+
+  const tierPosition = new Map(tiers.map((t) => [t.id, t.position]));
+  const cohorts = Array.from(groups, ([key, members]) => ({ key, label: labelOf(key), members })).sort((a, b) => {
+    if (dimension === "signup_month") return a.key.localeCompare(b.key);
+    if (dimension === "first_tier") {
+      return (tierPosition.get(a.key) ?? Infinity) - (tierPosition.get(b.key) ?? Infinity) || b.members.length - a.members.length;
+    }
+    return b.members.length - a.members.length;
+  });
+
+  const months = Array.from({ length: maxMonthsToTrack + 1 }, (_, m) => m);
+  const cells = cohorts.map((cohort) => months.map((m) => retentionAt(cohort.members, m, now)));
+  const heatmap: CohortHeatmap = {
+    months,
+    cohorts: cohorts.map((cohort) => ({
+      key: cohort.key,
+      label: cohort.label,
+      customers: cohort.members.length,
+      startingMrr: round(cohort.members.reduce((sum, c) => sum + c.startingMrr, 0), 2),
+    })),
+    logoRetention: cells.map((row) => row.map((cell) => cell.logo)),
+    revenueRetention: cells.map((row) => row.map((cell) => cell.revenue)),
+    customersObserved: cells.map((row) => row.map((cell) => cell.observed)),
+  };
+
+  const milestones = MILESTONE_MONTHS.filter((m) => m <= maxMonthsToTrack);
+  const comparisons: CohortComparison[] = [];
+  cohorts.forEach((cohort, i) => {
+    const baseline = dimension === "signup_month"
+      ? i > 0 ? cohorts[i - 1] : null
+      : { key: "rest", label: "All other customers", members: inScope.filter((c) => keyOf(c) !== cohort.key) };
+    if (!baseline) return;
+    for (const month of milestones) {
+      const comparison = compareCohorts(cohort, baseline, month, now);
+      if (comparison) comparisons.push(comparison);
+    }
+  });
+
+  const pricingChanges = options.pricingChanges ?? [];
+  const change: PricingChange | null = options.pricingChangeAt
+    ? { at: options.pricingChangeAt.toISOString(), source: "manual", tiers: [] }
+    : pricingChanges[pricingChanges.length - 1] ?? null;
+
+  let pricingChange: PricingChangeComparison | null = null;
+  if (change) {
+    const at = new Date(change.at).getTime();
+    const window = PRICING_CHANGE_WINDOW_MONTHS * MONTH_MS;
+    const before = customers.filter((c) => c.startedAt >= at - window && c.startedAt < at);
+    const after = customers.filter((c) => c.startedAt >= at && c.startedAt < at + window && c.startedAt <= now);
+
+    const sides = [{ key: "all", label: "All customers", before, after }];
+    // Signup months don't overlap a change's before and after windows
+    if (dimension !== "signup_month") {
+      for (const cohort of cohorts) {
+        sides.push({
+          key: cohort.key,
+          label: cohort.label,
+          before: before.filter((c) => keyOf(c) === cohort.key),
+          after: after.filter((c) => keyOf(c) === cohort.key),
+        });
+      }
+    }
+
+    const changeComparisons: CohortComparison[] = [];
+    for (const side of sides) {
+      for (const month of milestones) {
+        const comparison = compareCohorts(
+          { key: side.key, label: `${side.label} acquired after`, members: side.after },
+          { key: side.key, label: `${side.label} acquired before`, members: side.before },
+          month,
+          now
+        );
+        if (comparison) changeComparisons.push(comparison);
+      }
+    }
+
+    pricingChange = {
+      change,
+      windowMonths: PRICING_CHANGE_WINDOW_MONTHS,
+      customersBefore: before.length,
+      customersAfter: after.length,
+      comparisons: changeComparisons,
+    };
+  }
+
+  return {
+    computedAt: new Date(now).toISOString(),
+    dimension,
+    heatmap,
+    comparisons,
+    pricingChanges,
+    pricingChange,
+    insights: cohortInsights(inScope, cohorts, comparisons, pricingChange, milestones, now),
+  };
+}
+
+/**
+ * Tier price updates from the ontology audit log, one change per day
+ */
+async function loadPricingChanges(supabase: DbClient, organizationId: string): Promise<PricingChange[]> {
+  const { data, error } = await supabase
+    .from("ontology_audit_log")
+    .select("new_state, changed_fields, created_at")
+    .eq("organization_id", organizationId)
+    .eq("entity_type", "tier")
+    .eq("action", "update")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const byDay = new Map<string, PricingChange>();
+  for (const log of (data || []) as { new_state: { name?: string } | null; changed_fields: string[]; created_at: string }[]) {
+    if (!log.changed_fields.some((f) => PRICE_FIELDS.includes(f))) continue;
+    const day = log.created_at.split("T")[0];
+    if (!byDay.has(day)) byDay.set(day, { at: log.created_at, source: "audit_log", tiers: [] });
+    const name = log.new_state?.name;
+    if (name && !byDay.get(day)!.tiers.includes(name)) byDay.get(day)!.tiers.push(name);
+  }
+  return Array.from(byDay.values());
+}
+
+/**
+ * Logo and net revenue retention at a month since start, over the customers
+ * who have been customers that long
+ */
+function retentionAt(
+  customers: CohortCustomer[],
+  month: number,
+  now: number
+): { observed: number; retained: number; logo: number | null; revenue: number | null } {
+  let observed = 0;
+  let retained = 0;
+  let startingMrr = 0;
+  let mrr = 0;
+  for (const c of customers) {
+    const checkAt = c.startedAt + month * MONTH_MS;
+    if (checkAt > now) continue;
+    observed++;
+    startingMrr += c.startingMrr;
+    if (c.churnedAt !== null && c.churnedAt < checkAt) continue;
+    retained++;
+    mrr += Math.max(0, c.startingMrr + c.mrrChanges.filter((e) => e.at <= checkAt).reduce((sum, e) => sum + e.delta, 0));
+  }
+  return {
+    observed,
+    retained,
+    logo: observed > 0 ? round(retained / observed, 4) : null,
+    revenue: startingMrr > 0 ? round(mrr / startingMrr, 4) : null,
+  };
+}
+
+function compareCohorts(
+  cohort: { key: string; label: string; members: CohortCustomer[] },
+  baseline: { key: string; label: string; members: CohortCustomer[] },
+  month: number,
+  now: number
+): CohortComparison | null {
+  const a = retentionAt(cohort.members, month, now);
+  const b = retentionAt(baseline.members, month, now);
+  if (a.observed < MIN_COMPARISON_CUSTOMERS || b.observed < MIN_COMPARISON_CUSTOMERS) return null;
+
+  // Two-proportion z-test with the pooled rate
+  const pooled = (a.retained + b.retained) / (a.observed + b.observed);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.observed + 1 / b.observed));
+  const z = se > 0 ? (a.retained / a.observed - b.retained / b.observed) / se : 0;
+
+  return {
+    cohort: cohort.key,
+    cohortLabel: cohort.label,
+    baseline: baseline.key,
+    baselineLabel: baseline.label,
+    month,
+    customers: a.observed,
+    baselineCustomers: b.observed,
+    logoRetention: a.logo!,
+    baselineLogoRetention: b.logo!,
+    logoDelta: round(a.logo! - b.logo!, 4),
+    revenueRetention: a.revenue,
+    baselineRevenueRetention: b.revenue,
+    revenueDelta: a.revenue !== null && b.revenue !== null ? round(a.revenue - b.revenue, 4) : null,
+    pValue: round(2 * (1 - normalCdf(Math.abs(z))), 4),
+  };
+}
+
+function cohortInsights(
+  inScope: CohortCustomer[],
+  cohorts: { key: string; label: string; members: CohortCustomer[] }[],
+  comparisons: CohortComparison[],
+  pricingChange: PricingChangeComparison | null,
+  milestones: number[],
+  now: number
+): string[] {
+  const insights: string[] = [];
+
+  // Furthest milestone enough customers have reached
+  const month = [...milestones].reverse().find((m) => retentionAt(inScope, m, now).observed >= MIN_COMPARISON_CUSTOMERS);
+  if (month !== undefined) {
+    const overall = retentionAt(inScope, month, now);
+    insights.push(
+      `${formatPct(overall.logo!)} of customers` +
+        (overall.revenue !== null ? ` and ${formatPct(overall.revenue)} of revenue` : "") +
+        ` are retained at month ${month}, across ${overall.observed} customers`
+    );
+
+    const ranked = cohorts
+      .map((c) => ({ label: c.label, retention: retentionAt(c.members, month, now) }))
+      .filter((c) => c.retention.observed >= MIN_COMPARISON_CUSTOMERS)
+      .sort((a, b) => b.retention.logo! - a.retention.logo!);
+    if (ranked.length >= 2) {
+      const best = ranked[0];
+      const worst = ranked[ranked.length - 1];
+      insights.push(
+        `${best.label} retains ${formatPct(best.retention.logo!)} of customers at month ${month}, ` +
+          `${worst.label} ${formatPct(worst.retention.logo!)}`
+      );
+    }
+  }
+
+  // With two cohorts, each one against the rest is the other's mirror image
+  const reported = new Set<string>();
+  const significant = comparisons
+    .filter((c) => c.pValue < 0.05)
+    .sort((a, b) => Math.abs(b.logoDelta) - Math.abs(a.logoDelta))
+    .filter((c) => {
+      const key = `${c.month}:${Math.abs(c.logoDelta)}:${c.pValue}`;
+      if (reported.has(key)) return false;
+      reported.add(key);
+      return true;
+    });
+  for (const c of significant.slice(0, 2)) {
+    insights.push(
+      `${c.cohortLabel} retains ${formatPoints(c.logoDelta)} than ${c.baselineLabel.toLowerCase()} ` +
+        `at month ${c.month} (${formatP(c.pValue)})`
+    );
+  }
+
+  if (pricingChange) {
+    const day = pricingChange.change.at.split("T")[0];
+    // The furthest month with a significant difference, else the furthest compared
+    const overall = pricingChange.comparisons.filter((c) => c.cohort === "all").reverse();
+    const latest = overall.find((c) => c.pValue < 0.05) ?? overall[0];
+    if (latest) {
+      insights.push(
+        `Customers acquired after the ${day} price change retain ${formatPct(latest.logoRetention)} at month ` +
+          `${latest.month}, against ${formatPct(latest.baselineLogoRetention)} for those acquired before` +
+          (latest.pValue < 0.05 ? ` (${formatP(latest.pValue)})` : " (not significant)")
+      );
+    } else {
+      insights.push(
+        `Too few customers acquired around the ${day} price change to compare their retention yet ` +
+          `(${pricingChange.customersBefore} before, ${pricingChange.customersAfter} after)`
+      );
+    }
+  }
+
+  return insights;
+}
+
+async function selectAll<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "customer_expansion_events" | "hubspot_contacts",
+  columns: string,
+  organizationId: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq("organization_id", organizationId)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function monthKey(at: number): string {
+  const date = new Date(at);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+// ORGANIC_SEARCH → Organic search, mid_market → Mid market
+function humanize(value: string): string {
+  const words = value.replace(/_/g, " ").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatPct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatP(pValue: number): string {
+  return pValue < 0.001 ? "p<0.001" : `p=${pValue}`;
+}
+
+function formatPoints(delta: number): string {
+  return `${Math.abs(delta * 100).toFixed(1)} points ${delta >= 0 ? "more" : "fewer"} customers`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Economics Snapshot
+ * Point-in-time record of MRR, retention and revenue concentration in
+ * economics_snapshots
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, PriceSensitivity } from "@/types/database";
+import type { LTVMetrics } from "./ltv-calculator";
+import type { RetentionMetrics } from "./retention-metrics";
+import type { MRRGrowthMetrics } from "./mrr-movements";
+import { mergePriceSensitivityModel, type PriceElasticityResult } from "./price-elasticity";
+import { summarizeSurvival, type SurvivalAnalysisResult } from "./survival-analysis";
+
+type DbClient = SupabaseClient<Database>;
+
+/**
+ * Create economics snapshot
+ */
+export async function createEconomicsSnapshot(
+  supabase: DbClient,
+  organizationId: string,
+  data: {
+    ltvMetrics: LTVMetrics;
+    retentionMetrics: RetentionMetrics;
+    mrrGrowthMetrics: MRRGrowthMetrics;
+    totalCustomers: number;
+    // Estimates from past price increases; segments it doesn't cover keep the previous model
+    priceElasticity?: PriceElasticityResult;
+    survival?: SurvivalAnalysisResult;
+  }
+): Promise<void> {
+  const { data: previous } = await supabase
+    .from("economics_snapshots")
+    .select("price_sensitivity_model")
+    .eq("organization_id", organizationId)
+    .order("snapshot_date", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const previousModel =
+    (previous as { price_sensitivity_model: Record<string, PriceSensitivity> | null } | null)?.price_sensitivity_model ?? {};
+
+  const snapshot = {
+    organization_id: organizationId,
+    snapshot_date: new Date().toISOString().split("T")[0],
+    total_mrr: data.mrrGrowthMetrics.currentMrr,
+    total_arr: data.mrrGrowthMetrics.currentMrr * 12,
+    total_customers: data.totalCustomers,
+    net_revenue_retention: data.retentionMetrics.netRevenueRetention * 100,
+    gross_revenue_retention: data.retentionMetrics.grossRevenueRetention * 100,
+    mrr_growth_rate: data.retentionMetrics.expansionRate * 100,
+    top_10_pct_revenue_share: data.mrrGrowthMetrics.mrrConcentration.top10Percent,
+    top_customer_revenue_share: data.mrrGrowthMetrics.mrrConcentration.top10Percent,
+    hhi_index: data.mrrGrowthMetrics.mrrConcentration.giniCoefficient * 10000,
+    concentration_risk_level: getConcentrationRiskLevel(
+      data.mrrGrowthMetrics.mrrConcentration.top10Percent
+    ),
+    concentration_description: `Top 10% contributes ${(data.mrrGrowthMetrics.mrrConcentration.top10Percent * 100).toFixed(0)}% of revenue`,
+    segment_economics: [],
+    price_sensitivity_model: data.priceElasticity
+      ? mergePriceSensitivityModel(previousModel, data.priceElasticity)
+      : previousModel,
+    survival_model: data.survival ? summarizeSurvival(data.survival) : undefined,
+  };
+
+  await supabase.from("economics_snapshots").insert(snapshot as never);
+}
+
+function getConcentrationRiskLevel(top10Share: number): "low" | "moderate" | "high" | "critical" {
+  if (top10Share > 0.7) return "critical";
+  if (top10Share > 0.5) return "high";
+  if (top10Share > 0.3) return "moderate";
+  return "low";
+}
@@ -8,9 +8,22 @@ export {
   buildRetentionCurves,
   calculateAggregateRetention,
   storeCohortRetention,
+  analyzeCohorts,
+  buildCohortAnalysis,
+  COHORT_DIMENSIONS,
+  MAX_COHORT_MONTHS,
   type CohortData,
   type CohortRetentionCurve,
   type AggregateRetentionMetrics,
+  type CohortDimension,
+  type CohortCustomer,
+  type CohortRow,
+  type CohortHeatmap,
+  type CohortComparison,
+  type PricingChange,
+  type PricingChangeComparison,
+  type CohortAnalysis,
+  type CohortAnalysisOptions,
 } from "./cohort-analyzer";
 
 export {
@@ -35,3 +48,31 @@ export {
   type MRRMovement,
   type MRRGrowthMetrics,
 } from "./mrr-movements";
+
+export { createEconomicsSnapshot } from "./economics-snapshot";
+
+export {
+  estimatePriceElasticity,
+  fitPriceElasticity,
+  mergePriceSensitivityModel,
+  type PriceChangeTreatment,
+  type ElasticityCustomer,
+  type SegmentElasticityEstimate,
+  type PriceElasticityResult,
+  type PriceElasticityOptions,
+} from "./price-elasticity";
+
+export {
+  analyzeSurvival,
+  fitSurvival,
+  kaplanMeier,
+  fitProportionalHazards,
+  survivalCurveValues,
+  summarizeSurvival,
+  type SurvivalObservation,
+  type SurvivalPoint,
+  type SurvivalCurve,
+  type HazardCovariate,
+  type ProportionalHazardsModel,
+  type SurvivalAnalysisResult,
+} from "./survival-analysis";
@@ -6,6 +6,7 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
 import { analyzeCohortRetention, buildRetentionCurves, calculateAggregateRetention } from "./cohort-analyzer";
+import { analyzeSurvival, survivalCurveValues, type SurvivalAnalysisResult } from "./survival-analysis";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -27,6 +28,8 @@ export interface LTVMetrics {
 
   // Method used
   calculationMethod: "retention_curve" | "churn_based" | "simple";
+  // Where the retention curve came from, for the retention_curve method
+  retentionSource?: "kaplan_meier" | "cohort_average";
 }
 
 export interface LTVCalculationOptions {
@@ -36,11 +39,18 @@ export interface LTVCalculationOptions {
   discountRate?: number;
   // Max months to project, defaults to 60
   maxProjectionMonths?: number;
+  // Survival analysis already computed for this run
+  survival?: SurvivalAnalysisResult;
 }
 
+// A Kaplan-Meier curve needs this many months before it replaces cohort averages
+const MIN_SURVIVAL_MONTHS = 3;
+
 /**
  * Calculate LTV using the retention curve method (most accurate)
  * LTV = Sum of (Retention[N] × ARPU × GrossMargin × DiscountFactor[N])
+ * The curve is the Kaplan-Meier survival curve, which keeps still-active
+ * customers as censored; cohort averages stand in when it is too short.
  */
 export async function calculateLTV(
   supabase: DbClient,
@@ -51,10 +61,16 @@ export async function calculateLTV(
   const discountRate = options.discountRate ?? 0.10;
   const maxProjectionMonths = options.maxProjectionMonths ?? 60;
 
+  const survival = options.survival ?? await analyzeSurvival(supabase, organizationId);
+  const survivalCurve = survivalCurveValues(survival.overall);
+  const useSurvival = survivalCurve.length > MIN_SURVIVAL_MONTHS;
+
   // Get cohort retention data
-  const cohortData = await analyzeCohortRetention(supabase, organizationId);
-  const curves = buildRetentionCurves(cohortData);
-  const aggregateRetention = calculateAggregateRetention(curves);
+  let cohortCurve: number[] = [];
+  if (!useSurvival) {
+    const cohortData = await analyzeCohortRetention(supabase, organizationId);
+    cohortCurve = calculateAggregateRetention(buildRetentionCurves(cohortData)).avgRetentionByMonth;
+  }
 
   // Get customer ARPU data
   const { data: customersData, error } = await supabase
@@ -71,8 +87,8 @@ export async function calculateLTV(
   const avgArpu = activeCustomers.length > 0 ? totalMrr / activeCustomers.length : 0;
 
   // If we have retention curves, use them for LTV calculation
-  if (aggregateRetention.avgRetentionByMonth.length > 0) {
-    const retentionCurve = aggregateRetention.avgRetentionByMonth;
+  if (useSurvival || cohortCurve.length > 0) {
+    const retentionCurve = useSurvival ? survivalCurve : cohortCurve;
 
     // Project retention curve forward if needed
     const projectedCurve = projectRetentionCurve(retentionCurve, maxProjectionMonths);
@@ -80,11 +96,21 @@ export async function calculateLTV(
     // Calculate LTV using the retention curve
     const ltv = calculateLTVFromCurve(projectedCurve, avgArpu, grossMargin, discountRate);
 
-    // Calculate LTV by segment
+    // Calculate LTV by segment, on the segment's own survival curve where it has one
+    const segmentCurves = new Map<string, number[]>();
+    if (useSurvival) {
+      for (const [segmentId, curve] of Object.entries(survival.bySegment)) {
+        const values = survivalCurveValues(curve);
+        if (values.length > MIN_SURVIVAL_MONTHS) {
+          segmentCurves.set(segmentId, projectRetentionCurve(values, maxProjectionMonths));
+        }
+      }
+    }
     const ltvBySegment = await calculateLTVBySegment(
       supabase,
       organizationId,
       projectedCurve,
+      segmentCurves,
       grossMargin,
       discountRate
     );
@@ -111,6 +137,7 @@ export async function calculateLTV(
       avgLifetimeMonths,
       grossMargin,
       calculationMethod: "retention_curve",
+      retentionSource: useSurvival ? "kaplan_meier" : "cohort_average",
     };
   }
 
@@ -188,6 +215,7 @@ async function calculateLTVBySegment(
   supabase: DbClient,
   organizationId: string,
   retentionCurve: number[],
+  segmentCurves: Map<string, number[]>,
   grossMargin: number,
   discountRate: number
 ): Promise<Record<string, number>> {
@@ -235,8 +263,8 @@ async function calculateLTVBySegment(
     if (!arpuData || arpuData.count === 0) continue;
 
     const arpu = arpuData.total / arpuData.count;
-    // TODO: Use segment-specific retention curves when available
-    result[segment.name] = calculateLTVFromCurve(retentionCurve, arpu, grossMargin, discountRate);
+    const curve = segmentCurves.get(segment.id) ?? retentionCurve;
+    result[segment.name] = calculateLTVFromCurve(curve, arpu, grossMargin, discountRate);
   }
 
   return result;
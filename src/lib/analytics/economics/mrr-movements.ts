@@ -11,6 +11,7 @@ type DbClient = SupabaseClient<Database>;
 export interface MRRMovement {
   period: string; // YYYY-MM
   startingMrr: number;
+  startingCustomers: number;
   newMrr: number;
   expansionMrr: number;
   contractionMrr: number;
@@ -42,7 +43,8 @@ export interface MRRGrowthMetrics {
 }
 
 /**
- * Calculate MRR movements for a period
+ * Calculate MRR movements for a period, optionally for just the customers in
+ * some segments or on some tiers
  */
 export async function calculateMRRMovements(
   supabase: DbClient,
@@ -50,6 +52,8 @@ export async function calculateMRRMovements(
   options: {
     periodStart?: Date;
     periodEnd?: Date;
+    segmentIds?: string[];
+    tierIds?: string[];
   } = {}
 ): Promise<MRRMovement> {
   const now = new Date();
@@ -64,27 +68,45 @@ export async function calculateMRRMovements(
   const previousEnd = new Date(periodStart);
   previousEnd.setDate(previousEnd.getDate() - 1);
 
-  const { data: previousCustomersRaw } = await supabase
-    .from("unified_customers")
-    .select("id, mrr, status")
-    .eq("organization_id", organizationId)
-    .lte("created_at", previousEnd.toISOString());
+  // Restrict customer queries to the requested segments and tiers
+  const scoped = <Q extends { in(column: string, values: string[]): Q }>(query: Q): Q => {
+    let q = query;
+    if (options.segmentIds) q = q.in("segment_id", options.segmentIds);
+    if (options.tierIds) q = q.in("current_tier_id", options.tierIds);
+    return q;
+  };
+  const isScoped = !!(options.segmentIds || options.tierIds);
 
-  type CustomerBasic = { id: string; mrr: number | null; status: string | null };
-  const previousCustomers = (previousCustomersRaw || []) as CustomerBasic[];
+  const { data: previousCustomersRaw } = await scoped(
+    supabase
+      .from("unified_customers")
+      .select("id, mrr, status, churned_at")
+      .eq("organization_id", organizationId)
+      .lte("created_at", previousEnd.toISOString())
+  );
 
-  const previousActive = previousCustomers.filter((c) => c.status === "active");
+  type CustomerBasic = { id: string; mrr: number | null; status: string | null };
+  const previousCustomers = (previousCustomersRaw || []) as (CustomerBasic & { churned_at: string | null })[];
+
+  // Active at the end of the previous period: still active, or churned since
+  const previousActive = previousCustomers.filter(
+    (c) =>
+      c.status === "active" ||
+      (c.status === "churned" && !!c.churned_at && new Date(c.churned_at) > previousEnd)
+  );
   const previousMrrMap = new Map(previousActive.map((c) => [c.id, Number(c.mrr) || 0]));
   const startingMrr = Array.from(previousMrrMap.values()).reduce((a, b) => a + b, 0);
 
   // Get customers created in this period (new)
-  const { data: newCustomersRaw } = await supabase
-    .from("unified_customers")
-    .select("id, mrr, status")
-    .eq("organization_id", organizationId)
-    .eq("status", "active")
-    .gte("created_at", periodStart.toISOString())
-    .lte("created_at", periodEnd.toISOString());
+  const { data: newCustomersRaw } = await scoped(
+    supabase
+      .from("unified_customers")
+      .select("id, mrr, status")
+      .eq("organization_id", organizationId)
+      .eq("status", "active")
+      .gte("created_at", periodStart.toISOString())
+      .lte("created_at", periodEnd.toISOString())
+  );
 
   const newCustomers = (newCustomersRaw || []) as CustomerBasic[];
   const newMrr = newCustomers.reduce((sum, c) => sum + (Number(c.mrr) || 0), 0);
@@ -99,7 +121,15 @@ export async function calculateMRRMovements(
     .lte("occurred_at", periodEnd.toISOString());
 
   type ExpansionEvent = { customer_id: string; event_type: string | null; delta_mrr: number | null };
-  const expansionEvents = (expansionEventsRaw || []) as ExpansionEvent[];
+  let expansionEvents = (expansionEventsRaw || []) as ExpansionEvent[];
+
+  if (isScoped) {
+    const { data: scopedIdsRaw } = await scoped(
+      supabase.from("unified_customers").select("id").eq("organization_id", organizationId)
+    );
+    const scopedIds = new Set(((scopedIdsRaw || []) as { id: string }[]).map((c) => c.id));
+    expansionEvents = expansionEvents.filter((e) => scopedIds.has(e.customer_id));
+  }
 
   let expansionMrr = 0;
   let contractionMrr = 0;
@@ -119,13 +149,15 @@ export async function calculateMRRMovements(
   }
 
   // Get churned customers
-  const { data: currentCustomersRaw } = await supabase
-    .from("unified_customers")
-    .select("id, mrr, status, churned_at")
-    .eq("organization_id", organizationId)
-    .eq("status", "churned")
-    .gte("churned_at", periodStart.toISOString())
-    .lte("churned_at", periodEnd.toISOString());
+  const { data: currentCustomersRaw } = await scoped(
+    supabase
+      .from("unified_customers")
+      .select("id, mrr, status, churned_at")
+      .eq("organization_id", organizationId)
+      .eq("status", "churned")
+      .gte("churned_at", periodStart.toISOString())
+      .lte("churned_at", periodEnd.toISOString())
+  );
 
   type CustomerChurn = { id: string; mrr: number | null; status: string | null; churned_at: string | null };
   const currentCustomers = (currentCustomersRaw || []) as CustomerChurn[];
@@ -147,6 +179,7 @@ export async function calculateMRRMovements(
   return {
     period: periodKey,
     startingMrr,
+    startingCustomers: previousActive.length,
     newMrr,
     expansionMrr,
     contractionMrr,
@@ -0,0 +1,528 @@
+/**
+ * Price Elasticity Estimator
+ * Measures how customers responded to past price increases. Treated customers
+ * are those whose price went up — a same-tier price change recorded as an
+ * expansion event, or a move of an existing subscription onto a newer, higher
+ * Stripe price of the same product. Untreated customers of the same segment
+ * who were active at the time are the control group. Churn and contraction
+ * over the following window, treated against control, give each segment's
+ * elasticity and churn per 1% increase with 95% confidence intervals.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, PriceSensitivity } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Z_95 = 1.96;
+
+// Fewer observations than this on either side leave a segment unestimated
+export const MIN_TREATED = 10;
+export const MIN_CONTROL = 10;
+
+// Increases outside this range are data errors or repricings, not price changes
+const MIN_INCREASE = 0.01;
+const MAX_INCREASE = 1;
+
+// Events of one customer closer than this are the same price change
+const DEDUPE_DAYS = 31;
+
+export type PriceChangeSource = "stripe_prices" | "expansion_events";
+
+export interface PriceChangeTreatment {
+  customerId: string;
+  at: string;
+  increase: number; // Fractional price increase, 0.1 = 10%
+  source: PriceChangeSource;
+}
+
+export interface ElasticityCustomer {
+  id: string;
+  segmentId: string | null;
+  startedAt: string;
+  churnedAt: string | null;
+  // Lost share of MRR per downgrade or contraction
+  contractions: { at: string; fraction: number }[];
+}
+
+export interface SegmentElasticityEstimate {
+  segmentId: string | null; // Null for the estimate pooled over every segment
+  treated: number;
+  control: number;
+  avgIncrease: number;
+  churnRate: { treated: number; control: number };
+  revenueLoss: { treated: number; control: number }; // Mean share of MRR lost
+  elasticity: number;
+  elasticityCi: [number, number];
+  churnPerPctIncrease: number;
+  churnPerPctIncreaseCi: [number, number];
+}
+
+export interface PriceElasticityResult {
+  estimatedAt: string;
+  windowDays: number;
+  priceChanges: number; // Treatments with a fully observed window
+  sources: PriceChangeSource[];
+  pooled: SegmentElasticityEstimate | null;
+  segments: SegmentElasticityEstimate[];
+  insufficientSegments: string[]; // Segments with too few observations of their own
+  insights: string[];
+}
+
+export interface PriceElasticityOptions {
+  windowDays?: number; // Outcome window after each price change
+  now?: Date;
+}
+
+/**
+ * Find past price increases and estimate each segment's response to them
+ */
+export async function estimatePriceElasticity(
+  supabase: DbClient,
+  organizationId: string,
+  options: PriceElasticityOptions = {}
+): Promise<PriceElasticityResult> {
+  const now = options.now ?? new Date();
+
+  const customerRows = await selectAll<{
+    id: string;
+    segment_id: string | null;
+    stripe_customer_id: string | null;
+    tenure_months: number | null;
+    status: string;
+    churned_at: string | null;
+    created_at: string;
+  }>(supabase, "unified_customers", "id, segment_id, stripe_customer_id, tenure_months, status, churned_at, created_at", organizationId);
+
+  const events = await selectAll<{
+    id: string;
+    customer_id: string;
+    event_type: string;
+    from_mrr: number;
+    to_mrr: number;
+    from_tier_id: string | null;
+    to_tier_id: string | null;
+    reason: string | null;
+    occurred_at: string;
+  }>(
+    supabase,
+    "customer_expansion_events",
+    "id, customer_id, event_type, from_mrr, to_mrr, from_tier_id, to_tier_id, reason, occurred_at",
+    organizationId
+  );
+
+  const customers: ElasticityCustomer[] = customerRows.map((c) => {
+    // Tenure runs to the churn date for churned customers, to now otherwise
+    const end = c.churned_at ? new Date(c.churned_at).getTime() : now.getTime();
+    const startedAt = c.tenure_months != null
+      ? new Date(end - c.tenure_months * 30 * DAY_MS).toISOString()
+      : c.created_at;
+    return {
+      id: c.id,
+      segmentId: c.segment_id,
+      startedAt,
+      churnedAt: c.status === "churned" ? c.churned_at ?? null : null,
+      contractions: [],
+    };
+  });
+  const customerById = new Map(customers.map((c) => [c.id, c]));
+
+  const treatments: PriceChangeTreatment[] = [];
+  for (const e of events) {
+    const fromMrr = Number(e.from_mrr) || 0;
+    const toMrr = Number(e.to_mrr) || 0;
+    if (fromMrr <= 0) continue;
+
+    if (e.event_type === "downgrade" || e.event_type === "contraction") {
+      customerById.get(e.customer_id)?.contractions.push({
+        at: e.occurred_at,
+        fraction: Math.min(1, Math.max(0, (fromMrr - toMrr) / fromMrr)),
+      });
+    } else if (isPriceIncreaseEvent(e)) {
+      treatments.push({
+        customerId: e.customer_id,
+        at: e.occurred_at,
+        increase: toMrr / fromMrr - 1,
+        source: "expansion_events",
+      });
+    }
+  }
+
+  const stripeCustomerIds = new Map(
+    customerRows.filter((c) => c.stripe_customer_id).map((c) => [c.stripe_customer_id!, c.id])
+  );
+  treatments.push(...(await detectStripePriceIncreases(supabase, organizationId, stripeCustomerIds)));
+
+  return fitPriceElasticity(customers, treatments, { windowDays: options.windowDays, now });
+}
+
+/**
+ * Treated against control per segment and pooled. Pure: takes customers
+ * and treatments, so it can be run on any history.
+ */
+export function fitPriceElasticity(
+  customers: ElasticityCustomer[],
+  treatments: PriceChangeTreatment[],
+  options: PriceElasticityOptions = {}
+): PriceElasticityResult {
+  const windowDays = options.windowDays ?? 90;
+  const now = options.now ?? new Date();
+  const windowMs = windowDays * DAY_MS;
+  const customerById = new Map(customers.map((c) => [c.id, c]));
+
+  // Only changes whose whole window has been observed, one per customer per change
+  const observed = dedupeTreatments(treatments).filter((t) => {
+    const at = new Date(t.at).getTime();
+    return (
+      customerById.has(t.customerId) &&
+      at + windowMs <= now.getTime() &&
+      t.increase >= MIN_INCREASE &&
+      t.increase <= MAX_INCREASE
+    );
+  });
+
+  type Observation = { segmentId: string | null; churned: number; loss: number; increase: number };
+  const treatedObs: Observation[] = [];
+  const controlObs: Observation[] = [];
+
+  // Price changes roll out over weeks; each month of changes gets its own control group
+  const byMonth = new Map<string, PriceChangeTreatment[]>();
+  for (const t of observed) {
+    const month = t.at.slice(0, 7);
+    if (!byMonth.has(month)) byMonth.set(month, []);
+    byMonth.get(month)!.push(t);
+  }
+
+  // Every change's time per customer, including ones too recent to observe
+  const changeTimesByCustomer = new Map<string, number[]>();
+  for (const t of treatments) {
+    if (!changeTimesByCustomer.has(t.customerId)) changeTimesByCustomer.set(t.customerId, []);
+    changeTimesByCustomer.get(t.customerId)!.push(new Date(t.at).getTime());
+  }
+
+  for (const monthTreatments of byMonth.values()) {
+    const start = Math.min(...monthTreatments.map((t) => new Date(t.at).getTime()));
+    const treatedIds = new Set<string>();
+    const treatedSegments = new Set<string | null>();
+
+    for (const t of monthTreatments) {
+      const customer = customerById.get(t.customerId)!;
+      if (!activeAt(customer, new Date(t.at).getTime())) continue;
+      treatedIds.add(customer.id);
+      treatedSegments.add(customer.segmentId);
+      treatedObs.push({ segmentId: customer.segmentId, ...outcome(customer, new Date(t.at).getTime(), windowMs), increase: t.increase });
+    }
+
+    // Controls: same segments, active when the changes began, with no price change of their own near it
+    for (const customer of customers) {
+      if (treatedIds.has(customer.id) || !treatedSegments.has(customer.segmentId) || !activeAt(customer, start)) continue;
+      const nearby = (changeTimesByCustomer.get(customer.id) ?? []).some((at) => Math.abs(at - start) < windowMs);
+      if (nearby) continue;
+      controlObs.push({ segmentId: customer.segmentId, ...outcome(customer, start, windowMs), increase: 0 });
+    }
+  }
+
+  const pooled = compare(null, treatedObs, controlObs);
+  const segmentIds = [...new Set(customers.map((c) => c.segmentId).filter((id): id is string => !!id))];
+  const segments: SegmentElasticityEstimate[] = [];
+  const insufficientSegments: string[] = [];
+  for (const segmentId of segmentIds) {
+    const estimate = compare(
+      segmentId,
+      treatedObs.filter((o) => o.segmentId === segmentId),
+      controlObs.filter((o) => o.segmentId === segmentId)
+    );
+    if (estimate) segments.push(estimate);
+    else insufficientSegments.push(segmentId);
+  }
+
+  const sources = [...new Set(observed.map((t) => t.source))];
+  const insights: string[] = [];
+  if (observed.length === 0) {
+    insights.push(`No price increases with a full ${windowDays}-day outcome window were found`);
+  } else if (!pooled) {
+    insights.push(
+      `${observed.length} price increases found, too few to estimate elasticity ` +
+        `(need ${MIN_TREATED} treated and ${MIN_CONTROL} control customers)`
+    );
+  } else {
+    insights.push(
+      `Across ${pooled.treated} customers with an average ${(pooled.avgIncrease * 100).toFixed(1)}% increase, ` +
+        `${windowDays}-day churn was ${(pooled.churnRate.treated * 100).toFixed(1)}% against ` +
+        `${(pooled.churnRate.control * 100).toFixed(1)}% for ${pooled.control} untreated customers ` +
+        `(elasticity ${pooled.elasticity}, 95% CI ${pooled.elasticityCi[0]} to ${pooled.elasticityCi[1]})`
+    );
+    if (insufficientSegments.length > 0) {
+      insights.push(`${insufficientSegments.length} segments use the pooled estimate for lack of their own observations`);
+    }
+  }
+
+  return {
+    estimatedAt: now.toISOString(),
+    windowDays,
+    priceChanges: observed.length,
+    sources,
+    pooled,
+    segments,
+    insufficientSegments,
+    insights,
+  };
+}
+
+/**
+ * Merge the estimates into a price sensitivity model, keyed by segment id,
+ * with their provenance. Segments without an own estimate get the pooled
+ * one; when there is none the model is returned unchanged.
+ */
+export function mergePriceSensitivityModel(
+  model: Record<string, PriceSensitivity>,
+  result: PriceElasticityResult
+): Record<string, PriceSensitivity> {
+  if (!result.pooled) return model;
+  const merged: Record<string, PriceSensitivity> = { ...model };
+
+  const write = (segmentId: string, estimate: SegmentElasticityEstimate, pooled: boolean) => {
+    merged[segmentId] = {
+      ...merged[segmentId],
+      elasticity: estimate.elasticity,
+      churn_per_pct_increase: estimate.churnPerPctIncrease,
+      elasticity_ci: estimate.elasticityCi,
+      churn_per_pct_increase_ci: estimate.churnPerPctIncreaseCi,
+      provenance: {
+        method: "treated_vs_untreated",
+        estimated_at: result.estimatedAt,
+        window_days: result.windowDays,
+        sources: result.sources,
+        price_changes: result.priceChanges,
+        treated: estimate.treated,
+        control: estimate.control,
+        avg_increase: estimate.avgIncrease,
+        pooled,
+      },
+    };
+  };
+
+  for (const estimate of result.segments) write(estimate.segmentId!, estimate, false);
+  for (const segmentId of result.insufficientSegments) write(segmentId, result.pooled, true);
+
+  return merged;
+}
+
+// =============================================================================
+// TREATMENT DETECTION
+// =============================================================================
+
+/**
+ * A same-tier MRR increase recorded as a price change, not a seat or usage
+ * expansion
+ */
+function isPriceIncreaseEvent(e: {
+  event_type: string;
+  from_mrr: number;
+  to_mrr: number;
+  from_tier_id: string | null;
+  to_tier_id: string | null;
+  reason: string | null;
+}): boolean {
+  return (
+    (e.event_type === "expansion" || e.event_type === "upgrade") &&
+    Number(e.to_mrr) > Number(e.from_mrr) &&
+    !!e.from_tier_id &&
+    e.from_tier_id === e.to_tier_id &&
+    /price/i.test(e.reason ?? "")
+  );
+}
+
+/**
+ * Existing subscriptions moved onto a newer, higher price of the same
+ * product, interval and currency. Subscriptions left on the old price are
+ * untreated.
+ */
+async function detectStripePriceIncreases(
+  supabase: DbClient,
+  organizationId: string,
+  customerIdByStripeId: Map<string, string>
+): Promise<PriceChangeTreatment[]> {
+  const prices = await selectAll<{
+    id: string;
+    stripe_id: string;
+    stripe_product_id: string;
+    currency: string;
+    unit_amount: number | null;
+    type: string;
+    recurring_interval: string | null;
+    recurring_interval_count: number | null;
+    stripe_created: string | null;
+  }>(
+    supabase,
+    "stripe_prices",
+    "id, stripe_id, stripe_product_id, currency, unit_amount, type, recurring_interval, recurring_interval_count, stripe_created",
+    organizationId
+  );
+
+  // Successive recurring prices of one product, interval and currency
+  const series = new Map<string, typeof prices>();
+  for (const price of prices) {
+    if (price.type !== "recurring" || !price.unit_amount || !price.stripe_created) continue;
+    const key = [price.stripe_product_id, price.currency, price.recurring_interval, price.recurring_interval_count ?? 1].join("|");
+    if (!series.has(key)) series.set(key, []);
+    series.get(key)!.push(price);
+  }
+
+  const increases = new Map<string, { at: string; increase: number }>(); // By new stripe price id
+  for (const list of series.values()) {
+    list.sort((a, b) => a.stripe_created!.localeCompare(b.stripe_created!));
+    for (let i = 1; i < list.length; i++) {
+      const increase = list[i].unit_amount! / list[i - 1].unit_amount! - 1;
+      if (increase > 0) increases.set(list[i].stripe_id, { at: list[i].stripe_created!, increase });
+    }
+  }
+  if (increases.size === 0) return [];
+
+  const items = await selectAll<{ id: string; stripe_subscription_id: string; stripe_price_id: string }>(
+    supabase,
+    "stripe_subscription_items",
+    "id, stripe_subscription_id, stripe_price_id",
+    organizationId
+  );
+  const subscriptions = await selectAll<{ id: string; stripe_id: string; stripe_customer_id: string; stripe_created: string | null }>(
+    supabase,
+    "stripe_subscriptions",
+    "id, stripe_id, stripe_customer_id, stripe_created",
+    organizationId
+  );
+  const subscriptionById = new Map(subscriptions.map((s) => [s.stripe_id, s]));
+
+  const treatments: PriceChangeTreatment[] = [];
+  for (const item of items) {
+    const change = increases.get(item.stripe_price_id);
+    const subscription = subscriptionById.get(item.stripe_subscription_id);
+    const customerId = subscription && customerIdByStripeId.get(subscription.stripe_customer_id);
+    // Subscriptions started on the new price never paid the old one
+    if (!change || !customerId || !subscription.stripe_created || subscription.stripe_created >= change.at) continue;
+    treatments.push({ customerId, at: change.at, increase: change.increase, source: "stripe_prices" });
+  }
+  return treatments;
+}
+
+function dedupeTreatments(treatments: PriceChangeTreatment[]): PriceChangeTreatment[] {
+  const sorted = [...treatments].sort((a, b) => a.at.localeCompare(b.at));
+  const kept: PriceChangeTreatment[] = [];
+  for (const t of sorted) {
+    const duplicate = kept.some(
+      (k) => k.customerId === t.customerId &&
+        Math.abs(new Date(k.at).getTime() - new Date(t.at).getTime()) < DEDUPE_DAYS * DAY_MS
+    );
+    if (!duplicate) kept.push(t);
+  }
+  return kept;
+}
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+function activeAt(customer: ElasticityCustomer, at: number): boolean {
+  return (
+    new Date(customer.startedAt).getTime() <= at &&
+    (!customer.churnedAt || new Date(customer.churnedAt).getTime() > at)
+  );
+}
+
+/**
+ * Churn, and the share of MRR lost to churn or contraction, over the window
+ */
+function outcome(customer: ElasticityCustomer, from: number, windowMs: number): { churned: number; loss: number } {
+  const within = (iso: string) => {
+    const at = new Date(iso).getTime();
+    return at > from && at <= from + windowMs;
+  };
+  if (customer.churnedAt && within(customer.churnedAt)) return { churned: 1, loss: 1 };
+  const contracted = customer.contractions.filter((c) => within(c.at));
+  const kept = contracted.reduce((share, c) => share * (1 - c.fraction), 1);
+  return { churned: 0, loss: 1 - kept };
+}
+
+/**
+ * Difference in means with a normal-approximation 95% interval, scaled by
+ * the average increase: elasticity is the excess revenue loss per unit of
+ * price increase, churn per 1% the excess churn per percentage point
+ */
+function compare(
+  segmentId: string | null,
+  treated: { churned: number; loss: number; increase: number }[],
+  control: { churned: number; loss: number }[]
+): SegmentElasticityEstimate | null {
+  if (treated.length < MIN_TREATED || control.length < MIN_CONTROL) return null;
+
+  const avgIncrease = mean(treated.map((o) => o.increase));
+  const churn = diffOfMeans(treated.map((o) => o.churned), control.map((o) => o.churned));
+  const loss = diffOfMeans(treated.map((o) => o.loss), control.map((o) => o.loss));
+
+  // A price increase can't make customers stay; negative excess reads as no effect
+  const elasticity = Math.min(0, -loss.diff / avgIncrease);
+  const churnPerPct = Math.max(0, churn.diff / (avgIncrease * 100));
+
+  return {
+    segmentId,
+    treated: treated.length,
+    control: control.length,
+    avgIncrease: round(avgIncrease, 4),
+    churnRate: { treated: round(churn.treatedMean, 4), control: round(churn.controlMean, 4) },
+    revenueLoss: { treated: round(loss.treatedMean, 4), control: round(loss.controlMean, 4) },
+    elasticity: round(elasticity, 3),
+    elasticityCi: [
+      round(Math.min(0, -(loss.diff + Z_95 * loss.se) / avgIncrease), 3),
+      round(Math.min(0, -(loss.diff - Z_95 * loss.se) / avgIncrease), 3),
+    ],
+    churnPerPctIncrease: round(churnPerPct, 5),
+    churnPerPctIncreaseCi: [
+      round(Math.max(0, (churn.diff - Z_95 * churn.se) / (avgIncrease * 100)), 5),
+      round(Math.max(0, (churn.diff + Z_95 * churn.se) / (avgIncrease * 100)), 5),
+    ],
+  };
+}
+
+function diffOfMeans(treated: number[], control: number[]) {
+  const treatedMean = mean(treated);
+  const controlMean = mean(control);
+  const se = Math.sqrt(variance(treated, treatedMean) / treated.length + variance(control, controlMean) / control.length);
+  return { treatedMean, controlMean, diff: treatedMean - controlMean, se };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function variance(values: number[], avg: number): number {
+  if (values.length < 2) return 0;
+  return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+async function selectAll<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "customer_expansion_events" | "stripe_prices" | "stripe_subscription_items" | "stripe_subscriptions",
+  columns: string,
+  organizationId: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq("organization_id", organizationId)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
@@ -178,17 +178,21 @@ export async function calculateRetentionMetrics(
 }
 
 /**
- * Analyze churn patterns by segment, tier, and tenure
+ * Analyze churn patterns by segment, tier, and tenure. With `asOf`, the
+ * analysis is of the customer base as it stood on that date: later sign-ups
+ * are left out and later churn doesn't count.
  */
 export async function analyzeChurn(
   supabase: DbClient,
   organizationId: string,
   options: {
     lookbackMonths?: number;
+    asOf?: Date;
   } = {}
 ): Promise<ChurnAnalysis> {
   const lookbackMonths = options.lookbackMonths ?? 12;
-  const cutoffDate = new Date();
+  const asOf = options.asOf ?? new Date();
+  const cutoffDate = new Date(asOf);
   cutoffDate.setMonth(cutoffDate.getMonth() - lookbackMonths);
 
   // Get all customers with churn data
@@ -196,7 +200,8 @@ export async function analyzeChurn(
     .from("unified_customers")
     .select("id, segment_id, current_tier_id, tenure_months, status, churned_at, created_at")
     .eq("organization_id", organizationId)
-    .gte("created_at", cutoffDate.toISOString());
+    .gte("created_at", cutoffDate.toISOString())
+    .lte("created_at", asOf.toISOString());
 
   type CustomerChurnData = {
     id: string;
@@ -207,7 +212,12 @@ export async function analyzeChurn(
     churned_at: string | null;
     created_at: string;
   };
-  const customers = (customersRaw || []) as CustomerChurnData[];
+  const customers = ((customersRaw || []) as CustomerChurnData[]).map((c) =>
+    // Churn after the as-of date hadn't happened yet
+    c.status === "churned" && c.churned_at && new Date(c.churned_at) > asOf
+      ? { ...c, status: "active", churned_at: null }
+      : c
+  );
 
   if (customers.length === 0) {
     return {
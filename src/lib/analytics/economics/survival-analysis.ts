@@ -0,0 +1,636 @@
+/**
+ * Survival Analysis
+ * Kaplan-Meier survival curves with 95% bands, overall and per segment and
+ * tier, and a proportional-hazards (Cox) model of churn over company size,
+ * billing interval, tier and MRR band. Unlike averaged cohort retention,
+ * customers still active count as censored at their current tenure instead
+ * of dropping out, so young cohorts don't distort the curve.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, SurvivalModelSummary } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+const IN_CHUNK_SIZE = 200;
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+const Z_95 = 1.96;
+
+// Curves stop once fewer customers than this remain at risk
+const MIN_AT_RISK = 5;
+
+// The hazard model needs this many churn events to be worth fitting
+const MIN_MODEL_EVENTS = 20;
+
+// A covariate level needs this many customers, and this many of them both
+// churned and retained, to get its own coefficient; a level where everyone
+// churned (or no one did) has no finite hazard ratio
+const MIN_LEVEL_CUSTOMERS = 10;
+const MIN_LEVEL_OUTCOMES = 3;
+
+// Small ridge penalty keeps coefficients finite when a level never churns
+const RIDGE_PENALTY = 0.01;
+
+// Horizon for the monthly hazard and survival figures
+const HAZARD_HORIZON_MONTHS = 12;
+
+const MRR_BANDS: { key: string; label: string; max: number }[] = [
+  { key: "under_100", label: "MRR under 100", max: 100 },
+  { key: "100_500", label: "MRR 100–500", max: 500 },
+  { key: "500_2000", label: "MRR 500–2,000", max: 2000 },
+  { key: "2000_plus", label: "MRR 2,000+", max: Infinity },
+];
+
+export interface SurvivalObservation {
+  customerId: string;
+  months: number; // Tenure until churn, or until now when still active
+  churned: boolean;
+  segmentId: string | null;
+  tierId: string | null;
+  companySize: string | null;
+  billingInterval: string | null;
+  mrr: number | null; // Last billed MRR; null when unknown
+}
+
+export interface SurvivalPoint {
+  month: number;
+  atRisk: number;
+  events: number;
+  censored: number;
+  survival: number;
+  lower: number; // 95% band
+  upper: number;
+}
+
+export interface SurvivalCurve {
+  customers: number;
+  events: number;
+  points: SurvivalPoint[]; // From month 0, until too few remain at risk
+  medianLifetimeMonths: number | null; // Null while more than half survive
+  monthlyHazard: number; // Average over the first year, or as far as the curve reaches
+  monthlyHazardCi: [number, number];
+}
+
+export interface HazardCovariate {
+  name: string; // e.g. "company_size:enterprise"
+  label: string;
+  customers: number;
+  coefficient: number;
+  standardError: number;
+  hazardRatio: number;
+  hazardRatioCi: [number, number];
+  pValue: number;
+}
+
+export interface ProportionalHazardsModel {
+  customers: number;
+  events: number;
+  excluded: number; // Customers without an MRR to band
+  reference: Record<string, string>; // Baseline level of each covariate
+  covariates: HazardCovariate[];
+  concordance: number; // Harrell's C: 0.5 is chance, 1 perfect ranking
+  logLikelihood: number;
+  converged: boolean;
+}
+
+export interface SurvivalAnalysisResult {
+  computedAt: string;
+  overall: SurvivalCurve;
+  bySegment: Record<string, SurvivalCurve>; // By segment id
+  byTier: Record<string, SurvivalCurve>; // By tier id
+  model: ProportionalHazardsModel | null;
+  insights: string[];
+}
+
+/**
+ * Load customer tenures and fit the curves and hazard model
+ */
+export async function analyzeSurvival(
+  supabase: DbClient,
+  organizationId: string,
+  options: { maxMonths?: number; now?: Date } = {}
+): Promise<SurvivalAnalysisResult> {
+  const now = options.now ?? new Date();
+  const rows: {
+    id: string;
+    segment_id: string | null;
+    current_tier_id: string | null;
+    company_size: string | null;
+    billing_interval: string | null;
+    mrr: number | null;
+    status: string;
+    tenure_months: number | null;
+    created_at: string;
+    churned_at: string | null;
+  }[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("unified_customers")
+      .select("id, segment_id, current_tier_id, company_size, billing_interval, mrr, status, tenure_months, created_at, churned_at")
+      .eq("organization_id", organizationId)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as typeof rows));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Churned customers usually carry 0 MRR; their last subscription invoice says what they paid
+  const lastBilled = await loadLastBilledMrr(
+    supabase,
+    organizationId,
+    rows.filter((r) => r.status === "churned" && !(Number(r.mrr) > 0)).map((r) => r.id)
+  );
+
+  const observations: SurvivalObservation[] = rows.map((r) => {
+    const churned = r.status === "churned";
+    const end = churned && r.churned_at ? new Date(r.churned_at) : now;
+    const months = r.tenure_months != null
+      ? r.tenure_months
+      : Math.max(0, Math.floor((end.getTime() - new Date(r.created_at).getTime()) / MONTH_MS));
+    const mrr = Number(r.mrr) > 0 ? Number(r.mrr) : lastBilled.get(r.id) ?? null;
+    return {
+      customerId: r.id,
+      months,
+      churned,
+      segmentId: r.segment_id,
+      tierId: r.current_tier_id,
+      companySize: r.company_size,
+      billingInterval: r.billing_interval,
+      mrr,
+    };
+  });
+
+  const { data: tiers } = await supabase
+    .from("pricing_tiers")
+    .select("id, name")
+    .eq("organization_id", organizationId);
+  const tierNames = new Map(((tiers || []) as { id: string; name: string }[]).map((t) => [t.id, t.name]));
+
+  return fitSurvival(observations, { maxMonths: options.maxMonths, now, tierNames });
+}
+
+/**
+ * Curves and hazard model from observations. Pure, so it runs on any history.
+ */
+export function fitSurvival(
+  observations: SurvivalObservation[],
+  options: { maxMonths?: number; now?: Date; tierNames?: Map<string, string> } = {}
+): SurvivalAnalysisResult {
+  const maxMonths = options.maxMonths ?? 60;
+  const overall = kaplanMeier(observations, maxMonths);
+
+  const bySegment: Record<string, SurvivalCurve> = {};
+  for (const [segmentId, group] of groupBy(observations, (o) => o.segmentId)) {
+    bySegment[segmentId] = kaplanMeier(group, maxMonths);
+  }
+  const byTier: Record<string, SurvivalCurve> = {};
+  for (const [tierId, group] of groupBy(observations, (o) => o.tierId)) {
+    byTier[tierId] = kaplanMeier(group, maxMonths);
+  }
+
+  const model = fitProportionalHazards(observations, options.tierNames ?? new Map());
+
+  const insights: string[] = [];
+  if (overall.customers > 0) {
+    insights.push(
+      `Monthly churn hazard is ${formatPct(overall.monthlyHazard)} (95% CI ${formatPct(overall.monthlyHazardCi[0])}–` +
+        `${formatPct(overall.monthlyHazardCi[1])}) across ${overall.customers} customers and ${overall.events} churns`
+    );
+    insights.push(
+      overall.medianLifetimeMonths !== null
+        ? `Half of customers churn within ${overall.medianLifetimeMonths} months`
+        : "More than half of customers are still retained at the end of the observed curve"
+    );
+  }
+  if (model) {
+    const significant = model.covariates
+      .filter((c) => c.pValue < 0.05)
+      .sort((a, b) => Math.abs(Math.log(b.hazardRatio)) - Math.abs(Math.log(a.hazardRatio)));
+    for (const c of significant.slice(0, 3)) {
+      insights.push(
+        `${c.label} churns at ${c.hazardRatio.toFixed(2)}x the baseline hazard ` +
+          `(95% CI ${c.hazardRatioCi[0].toFixed(2)}–${c.hazardRatioCi[1].toFixed(2)})`
+      );
+    }
+  } else if (overall.events < MIN_MODEL_EVENTS) {
+    insights.push(`Only ${overall.events} churns observed; the hazard model needs ${MIN_MODEL_EVENTS}`);
+  }
+
+  return {
+    computedAt: (options.now ?? new Date()).toISOString(),
+    overall,
+    bySegment,
+    byTier,
+    model,
+    insights,
+  };
+}
+
+/**
+ * The survival curve's values by month, for LTV projections
+ */
+export function survivalCurveValues(curve: SurvivalCurve): number[] {
+  return curve.points.map((p) => p.survival);
+}
+
+/**
+ * Compact form stored on the economics snapshot
+ */
+export function summarizeSurvival(result: SurvivalAnalysisResult): SurvivalModelSummary {
+  const survivalAt = (curve: SurvivalCurve) => curve.points.find((p) => p.month === HAZARD_HORIZON_MONTHS) ?? null;
+  const year = survivalAt(result.overall);
+
+  return {
+    computed_at: result.computedAt,
+    customers: result.overall.customers,
+    events: result.overall.events,
+    monthly_hazard: result.overall.monthlyHazard,
+    monthly_hazard_ci: result.overall.monthlyHazardCi,
+    median_lifetime_months: result.overall.medianLifetimeMonths,
+    survival_12m: year ? year.survival : null,
+    survival_12m_ci: year ? [year.lower, year.upper] : null,
+    hazard_ratios: (result.model?.covariates ?? []).map((c) => ({
+      covariate: c.name,
+      label: c.label,
+      hazard_ratio: c.hazardRatio,
+      ci: c.hazardRatioCi,
+      p_value: c.pValue,
+    })),
+    concordance: result.model?.concordance ?? null,
+    by_segment: Object.fromEntries(
+      Object.entries(result.bySegment).map(([segmentId, curve]) => [segmentId, {
+        customers: curve.customers,
+        events: curve.events,
+        monthly_hazard: curve.monthlyHazard,
+        monthly_hazard_ci: curve.monthlyHazardCi,
+        median_lifetime_months: curve.medianLifetimeMonths,
+      }])
+    ),
+  };
+}
+
+// =============================================================================
+// KAPLAN-MEIER
+// =============================================================================
+
+/**
+ * Month-by-month product-limit estimate. Customers censored in a month count
+ * as at risk for it. Bands use Greenwood's variance on the log-log scale, so
+ * they stay within 0 and 1.
+ */
+export function kaplanMeier(observations: SurvivalObservation[], maxMonths = 60): SurvivalCurve {
+  const points: SurvivalPoint[] = [
+    { month: 0, atRisk: observations.length, events: 0, censored: 0, survival: 1, lower: 1, upper: 1 },
+  ];
+  const events = observations.filter((o) => o.churned).length;
+
+  let survival = 1;
+  let greenwood = 0;
+  for (let month = 0; month < maxMonths; month++) {
+    const atRisk = observations.filter((o) => o.months >= month).length;
+    if (atRisk < MIN_AT_RISK) break;
+    const churned = observations.filter((o) => o.churned && o.months === month).length;
+    const censored = observations.filter((o) => !o.churned && o.months === month).length;
+
+    survival *= 1 - churned / atRisk;
+    if (churned > 0 && churned < atRisk) greenwood += churned / (atRisk * (atRisk - churned));
+    const [lower, upper] = logLogBand(survival, greenwood);
+
+    points.push({
+      month: month + 1,
+      atRisk,
+      events: churned,
+      censored,
+      survival: round(survival, 4),
+      lower: round(lower, 4),
+      upper: round(upper, 4),
+    });
+  }
+
+  const median = points.find((p) => p.survival <= 0.5);
+  const horizon = points.find((p) => p.month === HAZARD_HORIZON_MONTHS) ?? points[points.length - 1];
+  const hazard = (s: number) => (horizon.month > 0 && s > 0 ? 1 - Math.pow(s, 1 / horizon.month) : horizon.month > 0 ? 1 : 0);
+
+  return {
+    customers: observations.length,
+    events,
+    points,
+    medianLifetimeMonths: median ? median.month : null,
+    monthlyHazard: round(hazard(horizon.survival), 4),
+    // The upper survival bound gives the lower hazard bound
+    monthlyHazardCi: [round(hazard(horizon.upper), 4), round(hazard(horizon.lower), 4)],
+  };
+}
+
+function logLogBand(survival: number, greenwood: number): [number, number] {
+  if (survival <= 0) return [0, 0];
+  if (survival >= 1 || greenwood === 0) return [survival, survival];
+  const se = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+  return [Math.pow(survival, Math.exp(Z_95 * se)), Math.pow(survival, Math.exp(-Z_95 * se))];
+}
+
+// =============================================================================
+// PROPORTIONAL HAZARDS
+// =============================================================================
+
+interface Covariate {
+  name: string;
+  label: string;
+  value: (o: SurvivalObservation) => number;
+}
+
+/**
+ * Cox partial likelihood with Breslow ties, fit by Newton-Raphson. Every
+ * categorical covariate is coded as indicators against its most common
+ * level. Customers without a known MRR are left out.
+ */
+export function fitProportionalHazards(
+  observations: SurvivalObservation[],
+  tierNames: Map<string, string> = new Map()
+): ProportionalHazardsModel | null {
+  const included = observations.filter((o) => o.mrr !== null);
+  const events = included.filter((o) => o.churned).length;
+  if (events < MIN_MODEL_EVENTS) return null;
+
+  const reference: Record<string, string> = {};
+  const covariates: Covariate[] = [];
+
+  const addCategorical = (
+    key: string,
+    levelOf: (o: SurvivalObservation) => string | null,
+    labelOf: (level: string) => string
+  ) => {
+    const counts = new Map<string, { customers: number; churned: number }>();
+    for (const o of included) {
+      const level = levelOf(o);
+      if (!level) continue;
+      const count = counts.get(level) ?? { customers: 0, churned: 0 };
+      count.customers++;
+      if (o.churned) count.churned++;
+      counts.set(level, count);
+    }
+    const levels = [...counts]
+      .filter(([, n]) =>
+        n.customers >= MIN_LEVEL_CUSTOMERS &&
+        n.churned >= MIN_LEVEL_OUTCOMES &&
+        n.customers - n.churned >= MIN_LEVEL_OUTCOMES
+      )
+      .sort((a, b) => b[1].customers - a[1].customers);
+    if (levels.length < 2) return;
+    reference[key] = labelOf(levels[0][0]);
+    for (const [level] of levels.slice(1)) {
+      covariates.push({ name: `${key}:${level}`, label: labelOf(level), value: (o) => (levelOf(o) === level ? 1 : 0) });
+    }
+  };
+
+  addCategorical("company_size", (o) => o.companySize, (level) => `Company size ${level.replace("_", " ")}`);
+  addCategorical("billing_interval", (o) => o.billingInterval, (level) => `${level[0].toUpperCase()}${level.slice(1)} billing`);
+  addCategorical("tier", (o) => o.tierId, (level) => `Tier ${tierNames.get(level) ?? level}`);
+  addCategorical(
+    "mrr_band",
+    (o) => MRR_BANDS.find((b) => (o.mrr ?? 0) < b.max)!.key,
+    (level) => MRR_BANDS.find((b) => b.key === level)!.label
+  );
+
+  // An indicator identical to an earlier one (every enterprise customer in one MRR band) can't be separated from it
+  const seen = new Set<string>();
+  const distinct = covariates.filter((c) => {
+    const column = included.map((o) => c.value(o)).join("");
+    if (seen.has(column)) return false;
+    seen.add(column);
+    return true;
+  });
+  if (distinct.length === 0) return null;
+
+  const x = included.map((o) => distinct.map((c) => c.value(o)));
+  const fit = fitCox(included.map((o) => o.months), included.map((o) => o.churned), x);
+
+  return {
+    customers: included.length,
+    events,
+    excluded: observations.length - included.length,
+    reference,
+    covariates: distinct.map((c, j) => {
+      const beta = fit.beta[j];
+      const se = fit.se[j];
+      return {
+        name: c.name,
+        label: c.label,
+        customers: x.filter((row) => row[j] === 1).length,
+        coefficient: round(beta, 4),
+        standardError: round(se, 4),
+        hazardRatio: round(Math.exp(beta), 3),
+        hazardRatioCi: [round(Math.exp(beta - Z_95 * se), 3), round(Math.exp(beta + Z_95 * se), 3)],
+        pValue: round(2 * (1 - normalCdf(Math.abs(beta / se))), 4),
+      };
+    }),
+    concordance: round(concordance(included, x.map((row) => dot(row, fit.beta))), 3),
+    logLikelihood: round(fit.logLikelihood, 3),
+    converged: fit.converged,
+  };
+}
+
+function fitCox(
+  times: number[],
+  churned: boolean[],
+  x: number[][]
+): { beta: number[]; se: number[]; logLikelihood: number; converged: boolean } {
+  const p = x[0].length;
+  // Risk sets are everyone with a tenure at least as long; walk from the longest down
+  const order = times.map((_, i) => i).sort((a, b) => times[b] - times[a]);
+
+  const evaluate = (beta: number[]) => {
+    let logLik = -0.5 * RIDGE_PENALTY * dot(beta, beta);
+    const gradient = beta.map((b) => -RIDGE_PENALTY * b);
+    const information = identity(p, RIDGE_PENALTY);
+    let s0 = 0;
+    const s1 = new Array(p).fill(0);
+    const s2 = identity(p, 0);
+
+    for (let i = 0; i < order.length; ) {
+      const time = times[order[i]];
+      const tied: number[] = [];
+      for (; i < order.length && times[order[i]] === time; i++) {
+        const k = order[i];
+        const eta = Math.max(-30, Math.min(30, dot(x[k], beta)));
+        const risk = Math.exp(eta);
+        s0 += risk;
+        for (let a = 0; a < p; a++) {
+          s1[a] += risk * x[k][a];
+          for (let b = 0; b < p; b++) s2[a][b] += risk * x[k][a] * x[k][b];
+        }
+        if (churned[k]) tied.push(k);
+      }
+      if (tied.length === 0) continue;
+
+      const d = tied.length;
+      for (const k of tied) {
+        logLik += dot(x[k], beta);
+        for (let a = 0; a < p; a++) gradient[a] += x[k][a];
+      }
+      logLik -= d * Math.log(s0);
+      for (let a = 0; a < p; a++) {
+        gradient[a] -= (d * s1[a]) / s0;
+        for (let b = 0; b < p; b++) {
+          information[a][b] += d * (s2[a][b] / s0 - (s1[a] * s1[b]) / (s0 * s0));
+        }
+      }
+    }
+    return { logLik, gradient, information };
+  };
+
+  let beta = new Array(p).fill(0);
+  let current = evaluate(beta);
+  let converged = false;
+
+  for (let iteration = 0; iteration < 25 && !converged; iteration++) {
+    const step = solve(current.information, current.gradient);
+    if (!step) break;
+
+    // Halve the step until the likelihood improves
+    let scale = 1;
+    let next = beta.map((b, j) => b + step[j]);
+    let candidate = evaluate(next);
+    while (candidate.logLik < current.logLik - 1e-9 && scale > 1e-3) {
+      scale /= 2;
+      next = beta.map((b, j) => b + scale * step[j]);
+      candidate = evaluate(next);
+    }
+
+    converged = Math.abs(candidate.logLik - current.logLik) < 1e-6;
+    beta = next;
+    current = candidate;
+  }
+
+  const covariance = invert(current.information);
+  return {
+    beta,
+    se: beta.map((_, j) => Math.sqrt(Math.max(0, covariance ? covariance[j][j] : 0))),
+    logLikelihood: current.logLik,
+    converged,
+  };
+}
+
+/**
+ * Share of comparable pairs (the shorter tenure ended in churn) where the
+ * customer who churned first had the higher predicted risk
+ */
+function concordance(observations: SurvivalObservation[], risk: number[]): number {
+  let concordant = 0;
+  let comparable = 0;
+  for (let i = 0; i < observations.length; i++) {
+    if (!observations[i].churned) continue;
+    for (let j = 0; j < observations.length; j++) {
+      if (observations[j].months <= observations[i].months) continue;
+      comparable++;
+      if (risk[i] > risk[j]) concordant++;
+      else if (risk[i] === risk[j]) concordant += 0.5;
+    }
+  }
+  return comparable > 0 ? concordant / comparable : 0.5;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Latest subscription invoice per customer, in the reporting currency
+ */
+export async function loadLastBilledMrr(
+  supabase: DbClient,
+  organizationId: string,
+  customerIds: string[]
+): Promise<Map<string, number>> {
+  const latest = new Map<string, { at: string; amount: number }>();
+  for (let i = 0; i < customerIds.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("customer_id, amount, reporting_amount, occurred_at")
+      .eq("organization_id", organizationId)
+      .eq("transaction_type", "subscription")
+      .in("customer_id", customerIds.slice(i, i + IN_CHUNK_SIZE));
+    if (error) throw error;
+
+    for (const t of (data || []) as { customer_id: string; amount: number; reporting_amount: number | null; occurred_at: string }[]) {
+      const amount = Number(t.reporting_amount ?? t.amount) || 0;
+      const previous = latest.get(t.customer_id);
+      if (amount > 0 && (!previous || t.occurred_at > previous.at)) {
+        latest.set(t.customer_id, { at: t.occurred_at, amount });
+      }
+    }
+  }
+  return new Map([...latest].map(([id, { amount }]) => [id, amount]));
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  }
+  return groups;
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function identity(size: number, diagonal: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? diagonal : 0)));
+}
+
+/**
+ * Gaussian elimination with partial pivoting; null when singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const columns: number[][] = [];
+  for (let j = 0; j < n; j++) {
+    const column = solve(matrix, Array.from({ length: n }, (_, i) => (i === j ? 1 : 0)));
+    if (!column) return null;
+    columns.push(column);
+  }
+  return Array.from({ length: n }, (_, i) => columns.map((column) => column[i]));
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatPct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -5,6 +5,8 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import { getPrimaryUsageMetric, getUsageSummaries, type CustomerUsageSummary } from "../usage";
+import { loadChurnScorer, type ChurnPrediction } from "../patterns/churn-model";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -22,7 +24,8 @@ export interface CustomerHealthScore {
   trendVelocity: number;
   // Predictive signals (0-1)
   upgradeReadiness: number;
-  churnRisk: number;
+  churnRisk: number; // The churn model's calibrated probability when one is trained
+  churnModelVersion: number | null;
   expansionPotential: number;
   // Detected patterns
   detectedPatterns: string[];
@@ -53,14 +56,20 @@ interface CustomerData {
   recentExpansion: number;
   recentContraction: number;
   previousHealthScore: number | null;
+  // Usage of the primary value metric over the last 60 days, when recorded
+  usage: CustomerUsageSummary | null;
 }
 
+const USAGE_WINDOW_DAYS = 60;
+
 /**
- * Calculate health scores for all active customers
+ * Calculate health scores for all active customers, or only those in
+ * customerIds (an incremental refresh)
  */
 export async function calculateHealthScores(
   supabase: DbClient,
-  organizationId: string
+  organizationId: string,
+  options: { customerIds?: string[] } = {}
 ): Promise<HealthScoreAnalysisResult> {
   const scoreDate = new Date();
 
@@ -72,7 +81,8 @@ export async function calculateHealthScores(
     .eq("status", "active");
 
   type CustomerHealth = { id: string; mrr: number | null; tenure_months: number | null; status: string | null; segment_id: string | null };
-  const customers = (customersRaw || []) as CustomerHealth[];
+  const scope = options.customerIds ? new Set(options.customerIds) : null;
+  const customers = ((customersRaw || []) as CustomerHealth[]).filter((c) => !scope || scope.has(c.id));
 
   if (customers.length === 0) {
     return {
@@ -139,6 +149,12 @@ export async function calculateHealthScores(
   const segments = (segmentsRaw || []) as SegmentBasic[];
   const segmentMap = new Map(segments.map((s) => [s.id, s.name]));
 
+  // Recorded usage of the primary value metric; customers without any fall
+  // back to the MRR and tenure proxies
+  const usageByCustomer = await getPrimaryUsageByCustomer(supabase, organizationId);
+
+  const scoreChurn = await loadChurnScorer(supabase, organizationId);
+
   // Calculate scores for each customer
   const scores: CustomerHealthScore[] = [];
 
@@ -154,9 +170,12 @@ export async function calculateHealthScores(
       recentExpansion: expData.expansion,
       recentContraction: expData.contraction,
       previousHealthScore: previousScoreMap.get(customer.id) || null,
+      usage: usageByCustomer.get(customer.id) || null,
     };
 
-    const score = calculateIndividualHealthScore(customerData);
+    const score = calculateIndividualHealthScore(customerData, (healthScore) =>
+      scoreChurn?.(customer.id, { healthScore }) ?? null
+    );
     scores.push(score);
   }
 
@@ -193,11 +212,38 @@ export async function calculateHealthScores(
   };
 }
 
+/**
+ * Each customer's usage summary for the primary value metric, or for its
+ * most used metric when the organization has no primary one
+ */
+async function getPrimaryUsageByCustomer(
+  supabase: DbClient,
+  organizationId: string
+): Promise<Map<string, CustomerUsageSummary>> {
+  const primaryMetric = await getPrimaryUsageMetric(supabase, organizationId);
+  const summaries = await getUsageSummaries(supabase, organizationId, {
+    windowDays: USAGE_WINDOW_DAYS,
+    metrics: primaryMetric ? [primaryMetric] : undefined,
+  });
+
+  const byCustomer = new Map<string, CustomerUsageSummary>();
+  for (const summary of summaries) {
+    const current = byCustomer.get(summary.customerId);
+    if (!current || summary.activeDays > current.activeDays) {
+      byCustomer.set(summary.customerId, summary);
+    }
+  }
+  return byCustomer;
+}
+
 /**
  * Calculate health score for an individual customer
  */
-function calculateIndividualHealthScore(data: CustomerData): CustomerHealthScore {
-  // Usage Score (simulated - in production would use actual usage data)
+function calculateIndividualHealthScore(
+  data: CustomerData,
+  predictChurn: (healthScore: number) => ChurnPrediction | null
+): CustomerHealthScore {
+  // Usage Score
   const usageScore = calculateUsageScore(data);
 
   // Engagement Score
@@ -214,7 +260,8 @@ function calculateIndividualHealthScore(data: CustomerData): CustomerHealthScore
 
   // Predictive signals
   const upgradeReadiness = calculateUpgradeReadiness(data, healthScore);
-  const churnRisk = calculateChurnRisk(data, healthScore);
+  const churnPrediction = predictChurn(healthScore);
+  const churnRisk = churnPrediction?.probability ?? calculateChurnRisk(data, healthScore);
   const expansionPotential = calculateExpansionPotential(data, healthScore);
 
   // Detect patterns
@@ -231,6 +278,7 @@ function calculateIndividualHealthScore(data: CustomerData): CustomerHealthScore
     trendVelocity,
     upgradeReadiness,
     churnRisk,
+    churnModelVersion: churnPrediction?.modelVersion ?? null,
     expansionPotential,
     detectedPatterns,
   };
@@ -240,9 +288,9 @@ function calculateIndividualHealthScore(data: CustomerData): CustomerHealthScore
  * Calculate usage score component
  */
 function calculateUsageScore(data: CustomerData): number {
-  // In production, this would use actual usage metrics
-  // For now, simulate based on available data
+  if (data.usage) return calculateRecordedUsageScore(data.usage);
 
+  // No usage recorded: simulate from MRR and tenure
   let score = 50; // Base score
 
   // Higher MRR suggests more value derived
@@ -264,6 +312,37 @@ function calculateUsageScore(data: CustomerData): number {
   return Math.min(100, Math.max(0, score));
 }
 
+/**
+ * Usage score from recorded usage: how regularly the customer uses the
+ * product, how much of its allowance, and which way usage is heading
+ */
+function calculateRecordedUsageScore(usage: CustomerUsageSummary): number {
+  let score = 40;
+
+  // Regularity: share of the window with any usage
+  score += Math.round((usage.activeDays / USAGE_WINDOW_DAYS) * 25);
+
+  // Utilization of the tier allowance
+  if (usage.utilization !== null) {
+    if (usage.utilization >= 0.6) score += 20;
+    else if (usage.utilization >= 0.3) score += 10;
+    else if (usage.utilization < 0.1) score -= 15;
+  }
+
+  // Last 30 days against the 30 before
+  if (usage.trend !== null) {
+    if (usage.trend > 0.2) score += 15;
+    else if (usage.trend > 0.05) score += 5;
+    else if (usage.trend < -0.3) score -= 25;
+    else if (usage.trend < -0.1) score -= 10;
+  }
+
+  // Gone quiet
+  if (usage.daysSinceLastUse !== null && usage.daysSinceLastUse > 14) score -= 20;
+
+  return Math.min(100, Math.max(0, score));
+}
+
 /**
  * Calculate engagement score component
  */
@@ -350,11 +429,14 @@ function calculateUpgradeReadiness(data: CustomerData, healthScore: number): num
   // Higher MRR customers have budget
   if (data.mrr >= 500) readiness += 0.1;
 
+  // Close to or over the tier allowance
+  if ((data.usage?.utilization ?? 0) >= 0.8) readiness += 0.2;
+
   return Math.min(1, readiness);
 }
 
 /**
- * Calculate churn risk probability
+ * Calculate churn risk probability from rules, before a churn model is trained
  */
 function calculateChurnRisk(data: CustomerData, healthScore: number): number {
   let risk = 0;
@@ -372,6 +454,9 @@ function calculateChurnRisk(data: CustomerData, healthScore: number): number {
   // Very low MRR might indicate disengagement
   if (data.mrr < 50) risk += 0.1;
 
+  // Usage falling away
+  if ((data.usage?.trend ?? 0) < -0.3) risk += 0.2;
+
   return Math.min(1, risk);
 }
 
@@ -424,6 +509,14 @@ function detectPatterns(
     patterns.push("downgrade_recent");
   }
 
+  if ((data.usage?.trend ?? 0) < -0.3) {
+    patterns.push("usage_decline");
+  }
+
+  if ((data.usage?.utilization ?? 0) >= 0.8) {
+    patterns.push("approaching_limit");
+  }
+
   if (healthScore >= 80 && data.tenure >= 12) {
     patterns.push("champion_customer");
   }
@@ -513,6 +606,7 @@ export async function storeHealthScores(
     trend_velocity: s.trendVelocity,
     upgrade_readiness: s.upgradeReadiness,
     churn_risk: s.churnRisk,
+    churn_model_version: s.churnModelVersion,
     expansion_potential: s.expansionPotential,
     detected_patterns: s.detectedPatterns,
   }));
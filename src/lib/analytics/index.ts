@@ -5,20 +5,26 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import type { FxRatesUsed } from "@/types/fx";
+import { getFxRatesUsed } from "@/lib/services/fx-service";
+import { claimAnalyticsRun } from "./runner";
 
 // Re-export everything from submodules
 export * from "./economics";
 export * from "./segmentation";
 export * from "./patterns";
 export * from "./value-metrics";
+export * from "./usage";
 export * from "./health/health-score-calculator";
+export * from "./runner";
 
 // Import types for use in this file
-import type { CohortData, LTVMetrics, RetentionMetrics, MRRGrowthMetrics } from "./economics";
+import type { CohortData, LTVMetrics, RetentionMetrics, MRRGrowthMetrics, PriceElasticityResult, SurvivalAnalysisResult } from "./economics";
 import type { SegmentationAnalysisResult } from "./segmentation";
-import type { UpgradeAnalysisResult, ChurnAnalysisResult, SeasonalAnalysisResult } from "./patterns";
+import type { UpgradeAnalysisResult, ChurnAnalysisResult, ChurnTrainingResult, ExpansionTrainingResult, SeasonalAnalysisResult } from "./patterns";
 import type { CorrelationAnalysisResult, FeatureImportanceResult } from "./value-metrics";
 import type { HealthScoreAnalysisResult } from "./health/health-score-calculator";
+import type { AnalyticsModuleProgress } from "./runner";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -32,6 +38,9 @@ export interface AnalyticsRunProgress {
   completedAt?: Date;
   results?: FullAnalyticsResult;
   error?: string;
+  // Incremental runs: per-module plan and outcome
+  modules?: AnalyticsModuleProgress[];
+  dirtyCustomers?: number;
 }
 
 export interface FullAnalyticsResult {
@@ -40,16 +49,21 @@ export interface FullAnalyticsResult {
     ltv: LTVMetrics;
     retention: RetentionMetrics;
     mrrGrowth: MRRGrowthMetrics;
+    priceElasticity: PriceElasticityResult;
+    survival: SurvivalAnalysisResult;
   };
   segmentation: SegmentationAnalysisResult;
   patterns: {
+    expansionModel: ExpansionTrainingResult;
     upgrades: UpgradeAnalysisResult;
+    churnModel: ChurnTrainingResult;
     churnRisk: ChurnAnalysisResult;
     seasonality: SeasonalAnalysisResult;
   };
   valueMetrics: CorrelationAnalysisResult;
   health: HealthScoreAnalysisResult;
   summary: OntologySummary;
+  fx: FxRatesUsed; // Rates behind the reporting-currency amounts analyzed
 }
 
 export interface OntologySummary {
@@ -95,16 +109,15 @@ export async function runFullAnalytics(
     options.onProgress?.(progress);
   };
 
-  // Log run start
-  await supabase.from("analytics_run_log").insert({
+  // Log run start; throws a run conflict when another refresh is running
+  await claimAnalyticsRun(supabase, organizationId, {
     id: runId,
-    organization_id: organizationId,
     run_type: "full_refresh",
-    status: "running",
     total_steps: 8,
     completed_steps: 0,
     current_step: "Initializing",
-  } as never);
+    data_watermark: startedAt.toISOString(),
+  });
 
   try {
     // Dynamic imports to avoid circular dependencies
@@ -114,6 +127,9 @@ export async function runFullAnalytics(
     const valueMetricsModule = await import("./value-metrics");
     const healthModule = await import("./health/health-score-calculator");
 
+    // Amounts are read already converted; record the rates that converted them
+    const fxRates = await getFxRatesUsed(supabase, organizationId);
+
     // Step 1: Cohort Retention Analysis
     updateProgress("Analyzing cohort retention", 0);
     const cohortData = await economicsModule.analyzeCohortRetention(supabase, organizationId);
@@ -141,8 +157,10 @@ export async function runFullAnalytics(
 
     // Step 5: Pattern Detection
     updateProgress("Detecting behavioral patterns", 4);
+    const expansionModel = await patternsModule.trainAndStoreExpansionModel(supabase, organizationId);
     const upgradeResult = await patternsModule.detectUpgradeCandidates(supabase, organizationId);
     await patternsModule.storeUpgradePatterns(supabase, organizationId, upgradeResult);
+    const churnModel = await patternsModule.trainAndStoreChurnModel(supabase, organizationId);
     const churnResult = await patternsModule.detectChurnRisk(supabase, organizationId);
     await patternsModule.storeChurnPatterns(supabase, organizationId, churnResult);
     const seasonalResult = await patternsModule.analyzeSeasonality(supabase, organizationId);
@@ -172,12 +190,17 @@ export async function runFullAnalytics(
       healthResult
     );
 
-    // Create economics snapshot
-    await createEconomicsSnapshot(supabase, organizationId, {
+    // Create economics snapshot, with price sensitivity re-estimated from past price changes
+    // and survival re-fit on the new segments
+    const elasticity = await economicsModule.estimatePriceElasticity(supabase, organizationId);
+    const survival = await economicsModule.analyzeSurvival(supabase, organizationId);
+    await economicsModule.createEconomicsSnapshot(supabase, organizationId, {
       ltvMetrics,
       retentionMetrics,
       mrrGrowthMetrics,
-      healthResult,
+      totalCustomers: healthResult.scores.length,
+      priceElasticity: elasticity,
+      survival,
     });
 
     updateProgress("Complete", 8);
@@ -188,16 +211,21 @@ export async function runFullAnalytics(
         ltv: ltvMetrics,
         retention: retentionMetrics,
         mrrGrowth: mrrGrowthMetrics,
+        priceElasticity: elasticity,
+        survival,
       },
       segmentation: segmentationResult,
       patterns: {
+        expansionModel,
         upgrades: upgradeResult,
+        churnModel,
         churnRisk: churnResult,
         seasonality: seasonalResult,
       },
       valueMetrics: correlationResult,
       health: healthResult,
       summary,
+      fx: fxRates,
     };
 
     // Update run log
@@ -209,6 +237,7 @@ export async function runFullAnalytics(
         completed_steps: 8,
         current_step: "Complete",
         result_summary: summary,
+        fx_rates: fxRates,
       } as never)
       .eq("id", runId);
 
@@ -287,49 +316,6 @@ function createOntologySummary(
   };
 }
 
-/**
- * Create economics snapshot
- */
-async function createEconomicsSnapshot(
-  supabase: DbClient,
-  organizationId: string,
-  data: {
-    ltvMetrics: LTVMetrics;
-    retentionMetrics: RetentionMetrics;
-    mrrGrowthMetrics: MRRGrowthMetrics;
-    healthResult: HealthScoreAnalysisResult;
-  }
-): Promise<void> {
-  const snapshot = {
-    organization_id: organizationId,
-    snapshot_date: new Date().toISOString().split("T")[0],
-    total_mrr: data.mrrGrowthMetrics.currentMrr,
-    total_arr: data.mrrGrowthMetrics.currentMrr * 12,
-    total_customers: data.healthResult.scores.length,
-    net_revenue_retention: data.retentionMetrics.netRevenueRetention * 100,
-    gross_revenue_retention: data.retentionMetrics.grossRevenueRetention * 100,
-    mrr_growth_rate: data.retentionMetrics.expansionRate * 100,
-    top_10_pct_revenue_share: data.mrrGrowthMetrics.mrrConcentration.top10Percent,
-    top_customer_revenue_share: data.mrrGrowthMetrics.mrrConcentration.top10Percent,
-    hhi_index: data.mrrGrowthMetrics.mrrConcentration.giniCoefficient * 10000,
-    concentration_risk_level: getConcentrationRiskLevel(
-      data.mrrGrowthMetrics.mrrConcentration.top10Percent
-    ),
-    concentration_description: `Top 10% contributes ${(data.mrrGrowthMetrics.mrrConcentration.top10Percent * 100).toFixed(0)}% of revenue`,
-    segment_economics: [],
-    price_sensitivity_model: {},
-  };
-
-  await supabase.from("economics_snapshots").insert(snapshot as never);
-}
-
-function getConcentrationRiskLevel(top10Share: number): "low" | "moderate" | "high" | "critical" {
-  if (top10Share > 0.7) return "critical";
-  if (top10Share > 0.5) return "high";
-  if (top10Share > 0.3) return "moderate";
-  return "low";
-}
-
 /**
  * Get latest analytics results for an organization
  */
@@ -340,6 +326,7 @@ export async function getLatestAnalytics(
   lastRun: Date | null;
   status: string;
   summary: OntologySummary | null;
+  fxRates: FxRatesUsed | null;
 }> {
   const { data: dataRaw } = await supabase
     .from("analytics_run_log")
@@ -354,15 +341,22 @@ export async function getLatestAnalytics(
       lastRun: null,
       status: "never_run",
       summary: null,
+      fxRates: null,
     };
   }
 
-  type AnalyticsLog = { started_at: string; status: string; result_summary: OntologySummary | null };
+  type AnalyticsLog = {
+    started_at: string;
+    status: string;
+    result_summary: OntologySummary | null;
+    fx_rates: FxRatesUsed | null;
+  };
   const data = dataRaw as AnalyticsLog;
 
   return {
     lastRun: new Date(data.started_at),
     status: data.status,
     summary: data.result_summary || null,
+    fxRates: data.fx_rates || null,
   };
 }
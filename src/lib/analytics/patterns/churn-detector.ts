@@ -1,10 +1,14 @@
 /**
  * Churn Detector
- * Identifies customers showing churn risk signals
+ * Identifies customers showing churn risk signals. With a trained churn
+ * model the risk score is its calibrated probability and the signals are the
+ * features driving it; without one, additive rules.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import { getPrimaryUsageMetric, getUsageSummaries } from "../usage";
+import { loadChurnScorer } from "./churn-model";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -32,6 +36,9 @@ export interface AtRiskCustomer {
   segment: string;
   signals: ChurnSignal[];
   riskScore: number; // 0-100
+  churnProbability?: number; // Model probability of churning within churnHorizonDays
+  churnHorizonDays?: number;
+  modelVersion?: number;
   recommendedAction: string;
   daysUntilLikely: number | null;
 }
@@ -125,6 +132,18 @@ export async function detectChurnRisk(
     customerContractions.set(event.customer_id, current + Math.abs(Number(event.delta_mrr) || 0));
   }
 
+  const scoreChurn = await loadChurnScorer(supabase, organizationId);
+
+  // Usage trend of the primary metric, for the rules
+  const primaryMetric = scoreChurn ? null : await getPrimaryUsageMetric(supabase, organizationId);
+  const usageTrends = new Map<string, number>();
+  if (primaryMetric) {
+    const summaries = await getUsageSummaries(supabase, organizationId, { windowDays: 60, metrics: [primaryMetric] });
+    for (const summary of summaries) {
+      if (summary.trend !== null) usageTrends.set(summary.customerId, summary.trend);
+    }
+  }
+
   // Detect signals for each customer
   const allAtRisk: AtRiskCustomer[] = [];
 
@@ -132,10 +151,33 @@ export async function detectChurnRisk(
     const signals: ChurnSignal[] = [];
     const mrr = Number(customer.mrr) || 0;
     const tenure = customer.tenure_months || 0;
+    const prediction = scoreChurn?.(customer.id) ?? null;
+
+    if (prediction) {
+      // The features pushing this customer's probability up, largest first and
+      // one per signal type
+      const severity: ChurnSignal["severity"] =
+        prediction.probability >= 0.5 ? "critical"
+          : prediction.probability >= 0.3 ? "high"
+            : prediction.probability >= 0.15 ? "medium"
+              : "low";
+      for (const attribution of prediction.attributions.filter((a) => a.contribution > 0)) {
+        if (signals.length >= 3) break;
+        if (signals.some((existing) => existing.signalType === attribution.signal)) continue;
+        signals.push({
+          customerId: customer.id,
+          signalType: attribution.signal,
+          severity,
+          confidence: prediction.probability,
+          details: `${attribution.description} (+${attribution.contribution.toFixed(2)} log-odds, model v${prediction.modelVersion})`,
+          detectedAt: new Date(),
+        });
+      }
+    }
 
     // Signal 1: Recent downgrade/contraction
     const contractionAmount = customerContractions.get(customer.id) || 0;
-    if (contractionAmount > 0) {
+    if (!prediction && contractionAmount > 0) {
       const contractionPct = mrr > 0 ? contractionAmount / (mrr + contractionAmount) : 0;
       signals.push({
         customerId: customer.id,
@@ -148,7 +190,7 @@ export async function detectChurnRisk(
     }
 
     // Signal 2: Early tenure (first 3 months = higher risk)
-    if (tenure <= 3) {
+    if (!prediction && tenure <= 3) {
       signals.push({
         customerId: customer.id,
         signalType: "engagement_drop",
@@ -159,7 +201,8 @@ export async function detectChurnRisk(
       });
     }
 
-    // Signal 3: Contract ending (for annual customers)
+    // Signal 3: Contract ending (for annual customers); kept alongside the
+    // model since it dates the risk
     if (customer.billing_interval === "annual") {
       const monthsToRenewal = 12 - (tenure % 12);
       if (monthsToRenewal <= 2) {
@@ -174,22 +217,22 @@ export async function detectChurnRisk(
       }
     }
 
-    // Signal 4: Usage decline (simulated - would use actual usage data)
-    // In production, compare current usage to historical average
-    const usageDeclineRatio = Math.random(); // Simulated
-    if (usageDeclineRatio > 0.7) {
+    // Signal 4: Usage decline, last 30 days against the 30 before
+    const usageTrend = usageTrends.get(customer.id);
+    if (!prediction && usageTrend !== undefined && usageTrend < -0.3) {
+      const decline = -usageTrend;
       signals.push({
         customerId: customer.id,
         signalType: "usage_decline",
-        severity: usageDeclineRatio > 0.9 ? "critical" : usageDeclineRatio > 0.8 ? "high" : "medium",
-        confidence: usageDeclineRatio,
-        details: `Usage dropped ${((usageDeclineRatio - 0.5) * 100).toFixed(0)}% vs. average`,
+        severity: decline > 0.7 ? "critical" : decline > 0.5 ? "high" : "medium",
+        confidence: Math.min(0.4 + decline / 2, 0.9),
+        details: `Usage dropped ${(decline * 100).toFixed(0)}% vs. the prior 30 days`,
         detectedAt: new Date(),
       });
     }
 
     // Signal 5: Low MRR with long tenure (might not see value)
-    if (tenure > 12 && mrr < 100) {
+    if (!prediction && tenure > 12 && mrr < 100) {
       signals.push({
         customerId: customer.id,
         signalType: "engagement_drop",
@@ -202,7 +245,7 @@ export async function detectChurnRisk(
 
     // Calculate risk score
     if (signals.length > 0) {
-      const riskScore = calculateRiskScore(signals);
+      const riskScore = prediction ? Math.round(prediction.probability * 100) : calculateRiskScore(signals);
 
       if (riskScore >= minRiskScore) {
         allAtRisk.push({
@@ -213,6 +256,9 @@ export async function detectChurnRisk(
           segment: customer.segment_id ? segmentMap.get(customer.segment_id) || "Unknown" : "Unknown",
           signals,
           riskScore,
+          churnProbability: prediction?.probability,
+          churnHorizonDays: prediction?.horizonDays,
+          modelVersion: prediction?.modelVersion,
           recommendedAction: generateChurnAction(signals),
           daysUntilLikely: estimateDaysUntilChurn(signals, tenure),
         });
@@ -247,6 +293,12 @@ export async function detectChurnRisk(
 
   // Generate insights
   const insights = generateChurnInsights(atRiskCustomers, signalDistribution, totalMrrAtRisk, riskBySegment);
+  const scored = atRiskCustomers.find((c) => c.modelVersion !== undefined);
+  if (scored) {
+    insights.unshift(
+      `Risk scores are churn model v${scored.modelVersion} probabilities of churning within ${scored.churnHorizonDays} days.`
+    );
+  }
 
   return {
     atRiskCustomers,
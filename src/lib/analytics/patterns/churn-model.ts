@@ -0,0 +1,329 @@
+/**
+ * Churn Propensity Model
+ * Logistic regression trained on the organization's own churn history.
+ * Customers active at quarterly snapshot dates are examples, with features
+ * as of that date (tenure, MRR, contraction and expansion, health score,
+ * payment recency and frequency against the billing interval, usage level
+ * and trend) and labelled by whether they churned within the horizon.
+ * Scores are calibrated, so they read as the probability of churning within
+ * the horizon.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ChurnModel, Database } from "@/types/database";
+import type { ChurnSignal } from "./churn-detector";
+import {
+  DAY_MS,
+  buildPropensityExamples,
+  describePropensityModel,
+  eventsBetween,
+  fitPropensity,
+  healthAsOf,
+  lastPaymentAsOf,
+  loadCustomerHistory,
+  mrrAsOf,
+  scorePropensity,
+  usageAsOf,
+  type CustomerHistory,
+  type HistoryCustomer,
+  type PropensityAttribution,
+  type PropensityExample,
+  type PropensityFeature,
+} from "./propensity";
+
+type DbClient = SupabaseClient<Database>;
+
+export const CHURN_HORIZON_DAYS = 90;
+
+// Snapshot dates are one horizon apart, going back two years
+const SNAPSHOT_COUNT = 8;
+
+// Features look this far back from their date
+const EVENT_WINDOW_DAYS = 90;
+const PAYMENT_WINDOW_DAYS = 365;
+const MAX_OVERDUE_DAYS = 90;
+const USAGE_WINDOW_DAYS = 60;
+const HEALTH_MAX_AGE_DAYS = 30;
+
+// Fewer churned examples than this can't support a model; the rules stay in place
+const MIN_TRAINING_CHURNED = 20;
+const MIN_VALIDATION_CHURNED = 5;
+
+export interface ChurnFeatureInput {
+  tenureMonths: number;
+  mrr: number;
+  annual: boolean;
+  contractionShare: number; // MRR lost to downgrades over the event window
+  expansionShare: number;
+  healthScore: number | null; // 0-100; null when not scored recently
+  daysOverdue: number; // Since the next bill was due, from the last payment and billing interval
+  paymentRate: number; // Payments over the payment window against those the billing interval expects
+  usageMonthly: number | null; // Primary metric usage per 30 days
+  usageTrend: number | null; // Last 30 days against the 30 before
+  daysSinceLastUse: number | null; // Null without recorded usage
+}
+
+const FEATURES: PropensityFeature<ChurnFeatureInput, ChurnSignal["signalType"]>[] = [
+  {
+    name: "tenure",
+    signal: "engagement_drop",
+    value: (f) => Math.log1p(f.tenureMonths),
+    describe: (f) => `Tenure of ${Math.round(f.tenureMonths)} months`,
+  },
+  {
+    name: "mrr",
+    signal: "engagement_drop",
+    value: (f) => Math.log1p(f.mrr),
+    describe: (f) => `MRR of ${Math.round(f.mrr)}`,
+  },
+  {
+    name: "annual_billing",
+    signal: "contract_ending",
+    value: (f) => (f.annual ? 1 : 0),
+    describe: (f) => (f.annual ? "Annual billing" : "Monthly billing"),
+  },
+  {
+    name: "contraction",
+    signal: "downgrade_recent",
+    value: (f) => f.contractionShare,
+    describe: (f) => `${Math.round(f.contractionShare * 100)}% of MRR lost to downgrades in ${EVENT_WINDOW_DAYS} days`,
+  },
+  {
+    name: "expansion",
+    signal: "engagement_drop",
+    value: (f) => f.expansionShare,
+    describe: (f) => `${Math.round(f.expansionShare * 100)}% MRR expansion in ${EVENT_WINDOW_DAYS} days`,
+  },
+  {
+    name: "health_score",
+    signal: "engagement_drop",
+    value: (f) => (f.healthScore === null ? NaN : f.healthScore / 100),
+    describe: (f) => (f.healthScore === null ? "No recent health score" : `Health score ${Math.round(f.healthScore)}`),
+  },
+  {
+    name: "health_missing",
+    signal: "engagement_drop",
+    value: (f) => (f.healthScore === null ? 1 : 0),
+    describe: (f) => (f.healthScore === null ? "No recent health score" : "Health scored recently"),
+  },
+  {
+    name: "days_overdue",
+    signal: "payment_issues",
+    value: (f) => f.daysOverdue / 30,
+    describe: (f) => (f.daysOverdue > 0 ? `Payment ${Math.round(f.daysOverdue)} days overdue` : "Payments up to date"),
+  },
+  {
+    name: "payment_rate",
+    signal: "payment_issues",
+    value: (f) => f.paymentRate,
+    describe: (f) => `${Math.round(f.paymentRate * 100)}% of expected payments made in the last year`,
+  },
+  {
+    name: "usage_level",
+    signal: "usage_decline",
+    value: (f) => (f.usageMonthly === null ? NaN : Math.log1p(f.usageMonthly)),
+    describe: (f) => (f.usageMonthly === null ? "No recorded usage" : `${Math.round(f.usageMonthly)} uses per month`),
+  },
+  {
+    name: "usage_trend",
+    signal: "usage_decline",
+    value: (f) => (f.usageTrend === null ? NaN : Math.max(-1, Math.min(2, f.usageTrend))),
+    describe: (f) =>
+      f.usageTrend === null
+        ? "No usage trend"
+        : `Usage ${f.usageTrend >= 0 ? "up" : "down"} ${Math.abs(Math.round(f.usageTrend * 100))}% over 30 days`,
+  },
+  {
+    name: "usage_missing",
+    signal: "usage_decline",
+    value: (f) => (f.daysSinceLastUse === null ? 1 : 0),
+    describe: (f) => (f.daysSinceLastUse === null ? `No usage in ${USAGE_WINDOW_DAYS} days` : "Usage recorded"),
+  },
+  {
+    name: "days_since_use",
+    signal: "usage_decline",
+    value: (f) => (f.daysSinceLastUse === null ? NaN : Math.min(f.daysSinceLastUse, USAGE_WINDOW_DAYS) / 30),
+    describe: (f) => (f.daysSinceLastUse === null ? "No recorded usage" : `Last used ${f.daysSinceLastUse} days ago`),
+  },
+];
+
+export type ChurnExample = PropensityExample<ChurnFeatureInput>; // outcome: churned within the horizon
+
+export type ChurnAttribution = PropensityAttribution<ChurnSignal["signalType"]>;
+
+export interface ChurnPrediction {
+  probability: number; // Of churning within horizonDays
+  horizonDays: number;
+  modelVersion: number;
+  attributions: ChurnAttribution[]; // Largest first
+}
+
+export type TrainedChurnModel = Omit<ChurnModel, "id" | "organization_id" | "version" | "created_at">;
+
+export interface ChurnTrainingResult {
+  model: ChurnModel | null; // The stored version; null when there is too little history
+  insights: string[];
+}
+
+/**
+ * A customer's features as of a date. `healthScore` overrides the stored
+ * history, for scoring alongside a fresh health calculation.
+ */
+export function churnFeaturesAsOf(
+  history: CustomerHistory,
+  customer: HistoryCustomer,
+  asOf: number,
+  overrides: { healthScore?: number } = {}
+): ChurnFeatureInput {
+  const mrr = mrrAsOf(history, customer, asOf);
+  const recent = eventsBetween(history, customer.id, asOf - EVENT_WINDOW_DAYS * DAY_MS, asOf);
+  const contraction = recent.filter((e) => e.delta < 0).reduce((sum, e) => sum - e.delta, 0);
+  const expansion = recent.filter((e) => e.delta > 0).reduce((sum, e) => sum + e.delta, 0);
+
+  // Payments the billing interval expects over the window, or since the customer started
+  const periodDays = customer.billingInterval === "annual" ? 365 : 30;
+  const tenureDays = (asOf - customer.startedAt) / DAY_MS;
+  const expectedPayments = Math.max(1, Math.floor(Math.min(PAYMENT_WINDOW_DAYS, tenureDays) / periodDays));
+  const recentPayments = (history.payments.get(customer.id) ?? [])
+    .filter((p) => p.at <= asOf && p.at > asOf - PAYMENT_WINDOW_DAYS * DAY_MS);
+  const lastPayment = lastPaymentAsOf(history, customer.id, asOf);
+  const sinceLastPayment = lastPayment ? (asOf - lastPayment.at) / DAY_MS : Math.min(tenureDays, PAYMENT_WINDOW_DAYS);
+
+  const usage = usageAsOf(history, customer.id, asOf, USAGE_WINDOW_DAYS);
+
+  return {
+    tenureMonths: Math.max(0, tenureDays / 30),
+    mrr,
+    annual: customer.billingInterval === "annual",
+    contractionShare: contraction > 0 ? Math.min(1, contraction / Math.max(mrr + contraction, 1)) : 0,
+    expansionShare: Math.min(2, expansion / Math.max(mrr, 1)),
+    healthScore: overrides.healthScore ?? healthAsOf(history, customer.id, asOf, HEALTH_MAX_AGE_DAYS),
+    daysOverdue: Math.min(MAX_OVERDUE_DAYS, Math.max(0, sinceLastPayment - periodDays)),
+    paymentRate: Math.min(1.5, recentPayments.length / expectedPayments),
+    usageMonthly: usage?.monthlyAverage ?? null,
+    usageTrend: usage?.trend ?? null,
+    daysSinceLastUse: usage?.daysSinceLastUse ?? null,
+  };
+}
+
+/**
+ * Customers active at each snapshot date, labelled by churn within the horizon
+ */
+export function buildChurnExamples(
+  history: CustomerHistory,
+  options: { now?: Date; horizonDays?: number; snapshots?: number } = {}
+): ChurnExample[] {
+  return buildPropensityExamples(history, {
+    now: options.now ?? new Date(),
+    horizonDays: options.horizonDays ?? CHURN_HORIZON_DAYS,
+    snapshots: options.snapshots ?? SNAPSHOT_COUNT,
+    features: (customer, asOf) => churnFeaturesAsOf(history, customer, asOf),
+    outcome: (customer, _asOf, until) => customer.churnedAt !== null && customer.churnedAt <= until,
+  });
+}
+
+/**
+ * Fit, calibrate and validate. Pure; null when there are too few churned
+ * examples.
+ */
+export function trainChurnModel(
+  examples: ChurnExample[],
+  options: { now?: Date; horizonDays?: number } = {}
+): TrainedChurnModel | null {
+  const fitted = fitPropensity(examples, FEATURES, {
+    minPositives: MIN_TRAINING_CHURNED,
+    minValidationPositives: MIN_VALIDATION_CHURNED,
+  });
+  if (!fitted) return null;
+
+  return {
+    model_type: "logistic_regression",
+    horizon_days: options.horizonDays ?? CHURN_HORIZON_DAYS,
+    ...fitted,
+    trained_at: (options.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Train on the organization's history and store the result as a new version
+ */
+export async function trainAndStoreChurnModel(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<ChurnTrainingResult> {
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - (SNAPSHOT_COUNT + 1) * CHURN_HORIZON_DAYS * DAY_MS - (PAYMENT_WINDOW_DAYS + MAX_OVERDUE_DAYS) * DAY_MS);
+  const history = await loadCustomerHistory(supabase, organizationId, { since, now });
+  const examples = buildChurnExamples(history, { now });
+  const trained = trainChurnModel(examples, { now });
+
+  if (!trained) {
+    const churned = examples.filter((e) => e.outcome).length;
+    return {
+      model: null,
+      insights: [
+        `${churned} churns in ${examples.length} customer snapshots are too few to train a churn model; ` +
+          "churn risk stays rule-based",
+      ],
+    };
+  }
+
+  const latest = await getActiveChurnModel(supabase, organizationId);
+  const { data, error } = await supabase
+    .from("churn_models")
+    .insert({ organization_id: organizationId, version: (latest?.version ?? 0) + 1, ...trained } as never)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const model = data as ChurnModel;
+  return { model, insights: describePropensityModel("Churn", "churners", model) };
+}
+
+/**
+ * The latest trained version, or null when none has been trained
+ */
+export async function getActiveChurnModel(supabase: DbClient, organizationId: string): Promise<ChurnModel | null> {
+  const { data, error } = await supabase
+    .from("churn_models")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ChurnModel | null) ?? null;
+}
+
+/**
+ * Calibrated churn probability with each feature's share of the log-odds
+ */
+export function predictChurn(model: ChurnModel, input: ChurnFeatureInput): ChurnPrediction {
+  const { probability, attributions } = scorePropensity(model, FEATURES, input);
+  return { probability, horizonDays: model.horizon_days, modelVersion: model.version, attributions };
+}
+
+/**
+ * Loaded model and recent history for scoring today's customers; null
+ * without a trained model
+ */
+export async function loadChurnScorer(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<((customerId: string, overrides?: { healthScore?: number }) => ChurnPrediction | null) | null> {
+  const model = await getActiveChurnModel(supabase, organizationId);
+  if (!model) return null;
+
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - (PAYMENT_WINDOW_DAYS + MAX_OVERDUE_DAYS) * DAY_MS);
+  const history = await loadCustomerHistory(supabase, organizationId, { since, now });
+  const customers = new Map(history.customers.map((c) => [c.id, c]));
+
+  return (customerId, overrides) => {
+    const customer = customers.get(customerId);
+    if (!customer) return null;
+    return predictChurn(model, churnFeaturesAsOf(history, customer, now.getTime(), overrides));
+  };
+}
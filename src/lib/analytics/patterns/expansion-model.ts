@@ -0,0 +1,631 @@
+/**
+ * Expansion Propensity Model
+ * Logistic regression of an upgrade or expansion within the horizon, trained
+ * like the churn model on customers active at quarterly snapshot dates.
+ * Features (tenure, MRR, tier position, recent expansion, health score,
+ * usage level and trend, utilization of the tier's primary metric limit) are
+ * taken as of each date.
+ *
+ * Which tier a customer moves to comes from the tier-to-tier upgrades seen
+ * in the history, restricted by whether a tier's value metric limits cover
+ * the customer's projected usage. The uplift of a move is the price gap
+ * between tiers at the customer's current discount.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, ExpansionModel, PricingTier } from "@/types/database";
+import { getPrimaryUsageMetric, resolveMetricLimit, type MetricLimit } from "../usage";
+import type { UpgradeSignal } from "./upgrade-detector";
+import {
+  DAY_MS,
+  buildPropensityExamples,
+  describePropensityModel,
+  eventsBetween,
+  fitPropensity,
+  healthAsOf,
+  loadCustomerHistory,
+  mrrAsOf,
+  scorePropensity,
+  selectAll,
+  tierAsOf,
+  usageAsOf,
+  type CustomerHistory,
+  type HistoryCustomer,
+  type PropensityAttribution,
+  type PropensityExample,
+  type PropensityFeature,
+} from "./propensity";
+
+type DbClient = SupabaseClient<Database>;
+
+export const EXPANSION_HORIZON_DAYS = 90;
+
+// Snapshot dates are one horizon apart, going back two years
+const SNAPSHOT_COUNT = 8;
+
+// Features look this far back from their date
+const EVENT_WINDOW_DAYS = 90;
+const USAGE_WINDOW_DAYS = 60;
+const HEALTH_MAX_AGE_DAYS = 30;
+
+// Fewer expansions than this can't support a model; the rules stay in place
+const MIN_TRAINING_EXPANDED = 20;
+const MIN_VALIDATION_EXPANDED = 5;
+
+// A tier whose limits don't cover the customer's projected usage is this
+// much less likely a destination
+const OVER_LIMIT_WEIGHT = 0.2;
+
+// Expansion within the tier, as a share of MRR, before any has been seen
+const DEFAULT_SAME_TIER_UPLIFT = 0.2;
+
+// Predicted timing beyond this is reported as unknown
+const MAX_EXPECTED_DAYS = 365;
+
+export type ExpansionTier = Pick<PricingTier, "id" | "name" | "price_monthly" | "position" | "value_metric_limits">;
+
+export interface ExpansionFeatureInput {
+  tenureMonths: number;
+  mrr: number;
+  annual: boolean;
+  tierName: string | null;
+  tierRank: number | null; // 0 for the lowest tier, 1 for the highest
+  hasHigherTier: boolean;
+  expansionShare: number; // MRR gained over the event window
+  contractionShare: number;
+  healthScore: number | null; // 0-100; null when not scored recently
+  usageMonthly: number | null; // Primary metric usage per 30 days
+  usageTrend: number | null; // Last 30 days against the 30 before
+  utilization: number | null; // Monthly usage against the tier's limit; null when unlimited or unknown
+}
+
+const FEATURES: PropensityFeature<ExpansionFeatureInput, UpgradeSignal["signalType"]>[] = [
+  {
+    name: "tenure",
+    signal: "tenure_milestone",
+    value: (f) => Math.log1p(f.tenureMonths),
+    describe: (f) => `Tenure of ${Math.round(f.tenureMonths)} months`,
+  },
+  {
+    name: "mrr",
+    signal: "feature_exploration",
+    value: (f) => Math.log1p(f.mrr),
+    describe: (f) => `MRR of ${Math.round(f.mrr)}`,
+  },
+  {
+    name: "annual_billing",
+    signal: "feature_exploration",
+    value: (f) => (f.annual ? 1 : 0),
+    describe: (f) => (f.annual ? "Annual billing" : "Monthly billing"),
+  },
+  {
+    name: "tier_rank",
+    signal: "feature_exploration",
+    value: (f) => (f.tierRank === null ? NaN : f.tierRank),
+    describe: (f) => (f.tierName ? `On the ${f.tierName} tier` : "No tier assigned"),
+  },
+  {
+    name: "top_tier",
+    signal: "feature_exploration",
+    value: (f) => (f.hasHigherTier ? 0 : 1),
+    describe: (f) => (f.hasHigherTier ? "Higher tiers available" : "Already on the top tier"),
+  },
+  {
+    name: "prior_expansion",
+    signal: "rapid_growth",
+    value: (f) => f.expansionShare,
+    describe: (f) => `MRR grew ${Math.round(f.expansionShare * 100)}% in ${EVENT_WINDOW_DAYS} days`,
+  },
+  {
+    name: "contraction",
+    signal: "feature_exploration",
+    value: (f) => f.contractionShare,
+    describe: (f) => `${Math.round(f.contractionShare * 100)}% of MRR lost to downgrades in ${EVENT_WINDOW_DAYS} days`,
+  },
+  {
+    name: "health_score",
+    signal: "feature_exploration",
+    value: (f) => (f.healthScore === null ? NaN : f.healthScore / 100),
+    describe: (f) => (f.healthScore === null ? "No recent health score" : `Health score ${Math.round(f.healthScore)}`),
+  },
+  {
+    name: "health_missing",
+    signal: "feature_exploration",
+    value: (f) => (f.healthScore === null ? 1 : 0),
+    describe: (f) => (f.healthScore === null ? "No recent health score" : "Health scored recently"),
+  },
+  {
+    name: "usage_level",
+    signal: "rapid_growth",
+    value: (f) => (f.usageMonthly === null ? NaN : Math.log1p(f.usageMonthly)),
+    describe: (f) => (f.usageMonthly === null ? "No recorded usage" : `${Math.round(f.usageMonthly)} uses per month`),
+  },
+  {
+    name: "usage_trend",
+    signal: "rapid_growth",
+    value: (f) => (f.usageTrend === null ? NaN : Math.max(-1, Math.min(2, f.usageTrend))),
+    describe: (f) =>
+      f.usageTrend === null
+        ? "No usage trend"
+        : `Usage ${f.usageTrend >= 0 ? "up" : "down"} ${Math.abs(Math.round(f.usageTrend * 100))}% over 30 days`,
+  },
+  {
+    name: "utilization",
+    signal: "usage_limit_approaching",
+    value: (f) => (f.utilization === null ? NaN : Math.min(3, f.utilization)),
+    describe: (f) =>
+      f.utilization === null
+        ? "No usage limit on the tier"
+        : `Using ${Math.round(f.utilization * 100)}% of the ${f.tierName ?? "tier"} limit`,
+  },
+  {
+    name: "utilization_missing",
+    signal: "usage_limit_approaching",
+    value: (f) => (f.utilization === null ? 1 : 0),
+    describe: (f) => (f.utilization === null ? "No usage limit on the tier" : "Usage measured against a tier limit"),
+  },
+];
+
+export type ExpansionExample = PropensityExample<ExpansionFeatureInput>; // outcome: upgraded or expanded within the horizon
+
+export type ExpansionAttribution = PropensityAttribution<UpgradeSignal["signalType"]>;
+
+export interface TierOption {
+  tierId: string | null; // Null: expansion within the current tier
+  tierName: string;
+  probability: number; // Of this destination, given an expansion
+  mrrIncrease: number; // At the customer's current discount
+}
+
+export interface ExpansionPrediction {
+  probability: number; // Of an upgrade or expansion within horizonDays
+  horizonDays: number;
+  expectedDays: number | null; // Median wait at the predicted rate; null beyond a year
+  modelVersion: number;
+  nextTier: TierOption | null; // Most likely destination; null without tiers
+  tierOptions: TierOption[]; // Most likely first
+  expectedMrrIncrease: number; // Probability times the uplift over destinations
+  attributions: ExpansionAttribution[]; // Largest first
+}
+
+export interface ExpansionOpportunity extends ExpansionPrediction {
+  rank: number;
+  customerId: string;
+  customerName: string;
+  segment: string | null;
+  currentTier: string | null;
+  currentMrr: number;
+  explanation: string; // The contributions raising the probability, for export
+}
+
+export interface ExpansionRanking {
+  model: ExpansionModel | null;
+  opportunities: ExpansionOpportunity[]; // By expected MRR increase
+  totalExpectedMrr: number;
+  insights: string[];
+}
+
+export type TrainedExpansionModel = Omit<ExpansionModel, "id" | "organization_id" | "version" | "created_at">;
+
+export interface ExpansionTrainingResult {
+  model: ExpansionModel | null; // The stored version; null when there is too little history
+  insights: string[];
+}
+
+export interface ExpansionTierContext {
+  tiers: ExpansionTier[]; // By position
+  byId: Map<string, ExpansionTier>;
+  primaryMetric: string | null;
+}
+
+// =============================================================================
+// FEATURES AND LABELS
+// =============================================================================
+
+/**
+ * A customer's features as of a date
+ */
+export function expansionFeaturesAsOf(
+  history: CustomerHistory,
+  tiers: ExpansionTierContext,
+  customer: HistoryCustomer,
+  asOf: number
+): ExpansionFeatureInput {
+  const mrr = mrrAsOf(history, customer, asOf);
+  const recent = eventsBetween(history, customer.id, asOf - EVENT_WINDOW_DAYS * DAY_MS, asOf);
+  const expansion = recent.filter((e) => e.delta > 0).reduce((sum, e) => sum + e.delta, 0);
+  const contraction = recent.filter((e) => e.delta < 0).reduce((sum, e) => sum - e.delta, 0);
+
+  const tierId = tierAsOf(history, customer, asOf);
+  const tier = tierId ? tiers.byId.get(tierId) : undefined;
+  const tierIndex = tier ? tiers.tiers.indexOf(tier) : -1;
+  const usage = usageAsOf(history, customer.id, asOf, USAGE_WINDOW_DAYS);
+  const limit = tier && usage ? tierLimit(tiers, tier, usage.metric) : null;
+
+  return {
+    tenureMonths: Math.max(0, (asOf - customer.startedAt) / (30 * DAY_MS)),
+    mrr,
+    annual: customer.billingInterval === "annual",
+    tierName: tier?.name ?? null,
+    tierRank: tier ? (tiers.tiers.length > 1 ? tierIndex / (tiers.tiers.length - 1) : 0) : null,
+    hasHigherTier: tier ? tierIndex < tiers.tiers.length - 1 : tiers.tiers.length > 0,
+    expansionShare: Math.min(2, expansion / Math.max(mrr, 1)),
+    contractionShare: contraction > 0 ? Math.min(1, contraction / Math.max(mrr + contraction, 1)) : 0,
+    healthScore: healthAsOf(history, customer.id, asOf, HEALTH_MAX_AGE_DAYS),
+    usageMonthly: usage?.monthlyAverage ?? null,
+    usageTrend: usage?.trend ?? null,
+    utilization: usage && typeof limit === "number" && limit > 0 ? usage.monthlyAverage / limit : null,
+  };
+}
+
+/**
+ * Customers active at each snapshot date, labelled by an upgrade or
+ * expansion within the horizon
+ */
+export function buildExpansionExamples(
+  history: CustomerHistory,
+  tiers: ExpansionTierContext,
+  options: { now?: Date; horizonDays?: number; snapshots?: number } = {}
+): ExpansionExample[] {
+  return buildPropensityExamples(history, {
+    now: options.now ?? new Date(),
+    horizonDays: options.horizonDays ?? EXPANSION_HORIZON_DAYS,
+    snapshots: options.snapshots ?? SNAPSHOT_COUNT,
+    features: (customer, asOf) => expansionFeaturesAsOf(history, tiers, customer, asOf),
+    outcome: (customer, asOf, until) => eventsBetween(history, customer.id, asOf, until).some(isExpansion),
+  });
+}
+
+/**
+ * Upgrades counted from each tier to each tier ("same" within the tier), and
+ * the median share of MRR an expansion within the tier adds
+ */
+export function summarizeTierTransitions(
+  history: CustomerHistory
+): Pick<ExpansionModel, "tier_transitions" | "same_tier_uplift"> {
+  const transitions: Record<string, Record<string, number>> = {};
+  const sameTierUplifts: number[] = [];
+
+  for (const customer of history.customers) {
+    for (const event of history.events.get(customer.id) ?? []) {
+      if (!isExpansion(event)) continue;
+      const from = event.fromTierId ?? tierAsOf(history, customer, event.at - 1);
+      if (!from) continue;
+      const to = event.toTierId && event.toTierId !== from ? event.toTierId : "same";
+      transitions[from] = transitions[from] ?? {};
+      transitions[from][to] = (transitions[from][to] ?? 0) + 1;
+
+      if (to === "same") {
+        const before = mrrAsOf(history, customer, event.at - 1);
+        if (before > 0) sameTierUplifts.push(event.delta / before);
+      }
+    }
+  }
+
+  sameTierUplifts.sort((a, b) => a - b);
+  return {
+    tier_transitions: transitions,
+    same_tier_uplift: sameTierUplifts.length > 0
+      ? Math.round(sameTierUplifts[Math.floor(sameTierUplifts.length / 2)] * 10000) / 10000
+      : DEFAULT_SAME_TIER_UPLIFT,
+  };
+}
+
+// =============================================================================
+// TRAINING
+// =============================================================================
+
+/**
+ * Fit, calibrate and validate. Pure; null when there are too few expansions.
+ */
+export function trainExpansionModel(
+  examples: ExpansionExample[],
+  transitions: Pick<ExpansionModel, "tier_transitions" | "same_tier_uplift">,
+  options: { now?: Date; horizonDays?: number } = {}
+): TrainedExpansionModel | null {
+  const fitted = fitPropensity(examples, FEATURES, {
+    minPositives: MIN_TRAINING_EXPANDED,
+    minValidationPositives: MIN_VALIDATION_EXPANDED,
+  });
+  if (!fitted) return null;
+
+  return {
+    model_type: "logistic_regression",
+    horizon_days: options.horizonDays ?? EXPANSION_HORIZON_DAYS,
+    ...fitted,
+    ...transitions,
+    trained_at: (options.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Train on the organization's history and store the result as a new version
+ */
+export async function trainAndStoreExpansionModel(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<ExpansionTrainingResult> {
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - (SNAPSHOT_COUNT + 1) * EXPANSION_HORIZON_DAYS * DAY_MS - USAGE_WINDOW_DAYS * DAY_MS);
+  const [history, tiers] = await Promise.all([
+    loadCustomerHistory(supabase, organizationId, { since, now }),
+    loadExpansionTiers(supabase, organizationId),
+  ]);
+  const examples = buildExpansionExamples(history, tiers, { now });
+  const trained = trainExpansionModel(examples, summarizeTierTransitions(history), { now });
+
+  if (!trained) {
+    const expanded = examples.filter((e) => e.outcome).length;
+    return {
+      model: null,
+      insights: [
+        `${expanded} expansions in ${examples.length} customer snapshots are too few to train an expansion model; ` +
+          "upgrade candidates stay rule-based",
+      ],
+    };
+  }
+
+  const latest = await getActiveExpansionModel(supabase, organizationId);
+  const { data, error } = await supabase
+    .from("expansion_models")
+    .insert({ organization_id: organizationId, version: (latest?.version ?? 0) + 1, ...trained } as never)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const model = data as ExpansionModel;
+  return { model, insights: describePropensityModel("Expansion", "upgrades and expansions", model) };
+}
+
+/**
+ * The latest trained version, or null when none has been trained
+ */
+export async function getActiveExpansionModel(
+  supabase: DbClient,
+  organizationId: string
+): Promise<ExpansionModel | null> {
+  const { data, error } = await supabase
+    .from("expansion_models")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ExpansionModel | null) ?? null;
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Probability of expanding, where to and how soon, with each feature's share
+ * of the log-odds
+ */
+export function predictExpansion(
+  model: ExpansionModel,
+  tiers: ExpansionTierContext,
+  input: ExpansionFeatureInput & { tierId: string | null }
+): ExpansionPrediction {
+  const { probability, attributions } = scorePropensity(model, FEATURES, input);
+  const tierOptions = rankTierOptions(model, tiers, input);
+  const expectedUplift = tierOptions.reduce((sum, option) => sum + option.probability * option.mrrIncrease, 0);
+
+  // Median wait if the predicted rate held: half the customers with this
+  // probability of expanding within the horizon would have by then
+  const rate = -Math.log(1 - Math.min(probability, 0.9999)) / model.horizon_days;
+  const expectedDays = rate > 0 ? Math.log(2) / rate : Infinity;
+
+  return {
+    probability,
+    horizonDays: model.horizon_days,
+    expectedDays: expectedDays <= MAX_EXPECTED_DAYS ? Math.round(expectedDays) : null,
+    modelVersion: model.version,
+    nextTier: tierOptions[0] ?? null,
+    tierOptions,
+    expectedMrrIncrease: Math.round(probability * expectedUplift * 100) / 100,
+    attributions,
+  };
+}
+
+/**
+ * Loaded model, tiers and recent history for scoring today's customers; null
+ * without a trained model
+ */
+export async function loadExpansionScorer(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<((customerId: string) => ExpansionPrediction | null) | null> {
+  const model = await getActiveExpansionModel(supabase, organizationId);
+  if (!model) return null;
+
+  const now = options.now ?? new Date();
+  const since = new Date(now.getTime() - Math.max(EVENT_WINDOW_DAYS, USAGE_WINDOW_DAYS, HEALTH_MAX_AGE_DAYS) * DAY_MS);
+  const [history, tiers] = await Promise.all([
+    loadCustomerHistory(supabase, organizationId, { since, now }),
+    loadExpansionTiers(supabase, organizationId),
+  ]);
+  const customers = new Map(history.customers.map((c) => [c.id, c]));
+
+  return (customerId) => {
+    const customer = customers.get(customerId);
+    if (!customer) return null;
+    const features = expansionFeaturesAsOf(history, tiers, customer, now.getTime());
+    return predictExpansion(model, tiers, { ...features, tierId: customer.currentTierId });
+  };
+}
+
+/**
+ * Active customers ranked by expected MRR increase, with where they are
+ * likely to move, how soon, and why
+ */
+export async function rankExpansionOpportunities(
+  supabase: DbClient,
+  organizationId: string,
+  options: { limit?: number; now?: Date } = {}
+): Promise<ExpansionRanking> {
+  const model = await getActiveExpansionModel(supabase, organizationId);
+  if (!model) {
+    return {
+      model: null,
+      opportunities: [],
+      totalExpectedMrr: 0,
+      insights: ["No expansion model has been trained yet; train one to rank expansion opportunities"],
+    };
+  }
+
+  const score = await loadExpansionScorer(supabase, organizationId, options);
+  type CustomerRow = {
+    id: string;
+    name: string | null;
+    status: string;
+    mrr: number | null;
+    segment_id: string | null;
+    current_tier_id: string | null;
+  };
+  const [customers, { data: segmentsRaw, error: segmentsError }, tiers] = await Promise.all([
+    selectAll<CustomerRow>(
+      supabase, "unified_customers", "id, name, status, mrr, segment_id, current_tier_id", organizationId
+    ),
+    supabase.from("segments").select("id, name").eq("organization_id", organizationId),
+    loadExpansionTiers(supabase, organizationId),
+  ]);
+  if (segmentsError) throw segmentsError;
+  const segmentNames = new Map(((segmentsRaw || []) as { id: string; name: string }[]).map((s) => [s.id, s.name]));
+
+  const opportunities: ExpansionOpportunity[] = [];
+  for (const customer of customers.filter((c) => c.status === "active")) {
+    const prediction = score?.(customer.id);
+    if (!prediction) continue;
+    opportunities.push({
+      ...prediction,
+      rank: 0,
+      customerId: customer.id,
+      customerName: customer.name || "Unknown",
+      segment: customer.segment_id ? segmentNames.get(customer.segment_id) ?? null : null,
+      currentTier: customer.current_tier_id ? tiers.byId.get(customer.current_tier_id)?.name ?? null : null,
+      currentMrr: Number(customer.mrr) || 0,
+      explanation: prediction.attributions
+        .filter((a) => a.contribution > 0)
+        .slice(0, 3)
+        .map((a) => `${a.description} (+${a.contribution.toFixed(2)})`)
+        .join("; "),
+    });
+  }
+
+  opportunities.sort((a, b) => b.expectedMrrIncrease - a.expectedMrrIncrease);
+  const ranked = opportunities.slice(0, options.limit ?? opportunities.length).map((o, i) => ({ ...o, rank: i + 1 }));
+  const totalExpectedMrr = Math.round(ranked.reduce((sum, o) => sum + o.expectedMrrIncrease, 0) * 100) / 100;
+
+  const likely = ranked.filter((o) => o.probability >= 0.5);
+  const topTier = Object.entries(
+    ranked.reduce<Record<string, number>>((counts, o) => {
+      if (o.nextTier) counts[o.nextTier.tierName] = (counts[o.nextTier.tierName] ?? 0) + 1;
+      return counts;
+    }, {})
+  ).sort(([, a], [, b]) => b - a)[0];
+
+  return {
+    model,
+    opportunities: ranked,
+    totalExpectedMrr,
+    insights: [
+      `${ranked.length} customers ranked by expected expansion MRR, €${totalExpectedMrr.toFixed(0)}/mo in total ` +
+        `within ${model.horizon_days} days`,
+      ...(likely.length > 0 ? [`${likely.length} customers are more likely than not to expand within ${model.horizon_days} days`] : []),
+      ...(topTier ? [`Most common next step: ${topTier[0]} (${topTier[1]} customers)`] : []),
+    ],
+  };
+}
+
+// =============================================================================
+// NEXT TIER
+// =============================================================================
+
+/**
+ * Where a customer would move if they expanded: higher tiers weighted by the
+ * upgrades seen from their tier (nearer tiers first when there are none) and
+ * by whether the tier's limits cover their projected usage, plus expansion
+ * within the current tier
+ */
+function rankTierOptions(
+  model: ExpansionModel,
+  tiers: ExpansionTierContext,
+  input: ExpansionFeatureInput & { tierId: string | null }
+): TierOption[] {
+  const current = input.tierId ? tiers.byId.get(input.tierId) : undefined;
+  const seen = model.tier_transitions[input.tierId ?? ""] ?? {};
+  // Usage a month or two out, if the recent trend continues
+  const projectedUsage = input.usageMonthly !== null
+    ? input.usageMonthly * (1 + Math.max(0, input.usageTrend ?? 0))
+    : null;
+  const fits = (tier: ExpansionTier) => {
+    if (projectedUsage === null) return 1;
+    const limit = tierLimit(tiers, tier, tiers.primaryMetric ?? "");
+    return typeof limit !== "number" || projectedUsage <= limit ? 1 : OVER_LIMIT_WEIGHT;
+  };
+
+  // The customer's discount off list carries over to the new tier
+  const listPrice = Number(current?.price_monthly) || 0;
+  const discount = listPrice > 0 && input.mrr > 0 ? Math.max(0.5, Math.min(1, input.mrr / listPrice)) : 1;
+
+  const options: (TierOption & { weight: number })[] = [];
+  const higher = tiers.tiers.filter((t) => !current || t.position > current.position);
+  higher.forEach((tier, i) => {
+    const price = Number(tier.price_monthly) || 0;
+    options.push({
+      tierId: tier.id,
+      tierName: tier.name,
+      probability: 0,
+      mrrIncrease: Math.max(0, current ? (price - listPrice) * discount : price - input.mrr),
+      weight: ((seen[tier.id] ?? 0) + 1 / (i + 1)) * fits(tier),
+    });
+  });
+  if (current) {
+    options.push({
+      tierId: null,
+      tierName: `More ${current.name}`,
+      probability: 0,
+      mrrIncrease: input.mrr * model.same_tier_uplift,
+      weight: ((seen.same ?? 0) + 0.5) * fits(current),
+    });
+  }
+
+  const total = options.reduce((sum, o) => sum + o.weight, 0);
+  return options
+    .map(({ weight, ...option }) => ({
+      ...option,
+      probability: total > 0 ? Math.round((weight / total) * 1000) / 1000 : 0,
+      mrrIncrease: Math.round(option.mrrIncrease * 100) / 100,
+    }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Active tiers by position, with the primary metric their limits are read for
+ */
+export async function loadExpansionTiers(supabase: DbClient, organizationId: string): Promise<ExpansionTierContext> {
+  const [{ data: tiersRaw }, primaryMetric] = await Promise.all([
+    supabase
+      .from("pricing_tiers")
+      .select("id, name, price_monthly, position, value_metric_limits")
+      .eq("organization_id", organizationId)
+      .eq("is_active", true)
+      .order("position", { ascending: true }),
+    getPrimaryUsageMetric(supabase, organizationId),
+  ]);
+
+  const tiers = ((tiersRaw || []) as ExpansionTier[]).sort((a, b) => a.position - b.position);
+  return { tiers, byId: new Map(tiers.map((t) => [t.id, t])), primaryMetric };
+}
+
+function tierLimit(tiers: ExpansionTierContext, tier: ExpansionTier, metric: string): MetricLimit | null {
+  return resolveMetricLimit(tier.value_metric_limits, metric, tiers.primaryMetric);
+}
+
+function isExpansion(event: { type: string; delta: number }): boolean {
+  return (event.type === "upgrade" || event.type === "expansion") && event.delta > 0;
+}
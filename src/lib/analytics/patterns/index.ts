@@ -26,3 +26,54 @@ export {
   type MonthlyTrend,
   type SeasonalAnalysisResult,
 } from "./seasonal-analyzer";
+
+export {
+  trainChurnModel,
+  trainAndStoreChurnModel,
+  getActiveChurnModel,
+  predictChurn,
+  loadChurnScorer,
+  buildChurnExamples,
+  churnFeaturesAsOf,
+  CHURN_HORIZON_DAYS,
+  type ChurnFeatureInput,
+  type ChurnExample,
+  type ChurnAttribution,
+  type ChurnPrediction,
+  type TrainedChurnModel,
+  type ChurnTrainingResult,
+} from "./churn-model";
+
+export {
+  trainExpansionModel,
+  trainAndStoreExpansionModel,
+  getActiveExpansionModel,
+  predictExpansion,
+  loadExpansionScorer,
+  loadExpansionTiers,
+  rankExpansionOpportunities,
+  buildExpansionExamples,
+  expansionFeaturesAsOf,
+  summarizeTierTransitions,
+  EXPANSION_HORIZON_DAYS,
+  type ExpansionTier,
+  type ExpansionTierContext,
+  type ExpansionFeatureInput,
+  type ExpansionExample,
+  type ExpansionAttribution,
+  type TierOption,
+  type ExpansionPrediction,
+  type ExpansionOpportunity,
+  type ExpansionRanking,
+  type TrainedExpansionModel,
+  type ExpansionTrainingResult,
+} from "./expansion-model";
+
+export {
+  loadCustomerHistory,
+  type CustomerHistory,
+  type HistoryCustomer,
+  type HistoryEvent,
+  type PropensityExample,
+  type PropensityAttribution,
+} from "./propensity";
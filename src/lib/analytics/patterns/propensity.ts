@@ -0,0 +1,592 @@
+/**
+ * Propensity Models
+ * Shared by the churn and expansion models: customer history read as of a
+ * past date, examples at quarterly snapshot dates labelled by what happened
+ * within the horizon after them, and an L2-regularized logistic regression
+ * that is Platt-calibrated on out-of-fold predictions and validated on
+ * held-out customers.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CustomerExpansionEvent,
+  Database,
+  PropensityModelFeature,
+  PropensityModelMetrics,
+  UsageRecord,
+} from "@/types/database";
+import { getPrimaryUsageMetric, summarizeUsage, type CustomerUsageSummary } from "../usage";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+const VALIDATION_SHARE = 5; // One customer in five is held out
+const CALIBRATION_FOLDS = 5;
+const RIDGE_PENALTY = 1;
+
+export interface HistoryCustomer {
+  id: string;
+  status: string;
+  mrr: number;
+  billingInterval: string | null;
+  currentTierId: string | null;
+  startedAt: number;
+  churnedAt: number | null;
+}
+
+export interface HistoryEvent {
+  at: number;
+  type: CustomerExpansionEvent["event_type"];
+  delta: number;
+  fromTierId: string | null;
+  toTierId: string | null;
+}
+
+/**
+ * What features are computed from, loaded once per training or scoring run
+ */
+export interface CustomerHistory {
+  customers: HistoryCustomer[];
+  events: Map<string, HistoryEvent[]>;
+  payments: Map<string, { at: number; amount: number }[]>;
+  health: Map<string, { at: number; score: number }[]>;
+  usage: Map<string, UsageRow[]>; // Primary metric only
+}
+
+type UsageRow = Pick<UsageRecord, "customer_id" | "metric" | "usage_date" | "quantity">;
+
+export interface PropensityExample<T> {
+  customerId: string;
+  snapshotDate: string;
+  features: T;
+  outcome: boolean; // Within the horizon after the snapshot date
+}
+
+export interface PropensityFeature<T, S extends string> {
+  name: string;
+  signal: S; // The detector signal type a contribution is reported as
+  value: (input: T) => number; // NaN when missing
+  describe: (input: T) => string;
+}
+
+export interface PropensityAttribution<S extends string> {
+  feature: string;
+  signal: S;
+  description: string;
+  contribution: number; // Calibrated log-odds against the average customer
+}
+
+export interface FittedPropensity {
+  features: PropensityModelFeature[];
+  intercept: number;
+  calibration: { slope: number; intercept: number };
+  metrics: PropensityModelMetrics;
+}
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * Load customers and their expansion events, subscription payments, health
+ * scores and usage of the primary metric since a date
+ */
+export async function loadCustomerHistory(
+  supabase: DbClient,
+  organizationId: string,
+  options: { since: Date; now?: Date }
+): Promise<CustomerHistory> {
+  const now = (options.now ?? new Date()).getTime();
+  const since = options.since.toISOString();
+  const sinceDate = since.split("T")[0];
+
+  const customerRows = await selectAll<{
+    id: string;
+    status: string;
+    mrr: number | null;
+    billing_interval: string | null;
+    current_tier_id: string | null;
+    tenure_months: number | null;
+    created_at: string;
+    churned_at: string | null;
+  }>(
+    supabase, "unified_customers",
+    "id, status, mrr, billing_interval, current_tier_id, tenure_months, created_at, churned_at", organizationId
+  );
+
+  const eventRows = await selectAll<{
+    customer_id: string;
+    event_type: CustomerExpansionEvent["event_type"];
+    delta_mrr: number | null;
+    from_tier_id: string | null;
+    to_tier_id: string | null;
+    occurred_at: string;
+  }>(
+    supabase, "customer_expansion_events",
+    "id, customer_id, event_type, delta_mrr, from_tier_id, to_tier_id, occurred_at", organizationId, since, "occurred_at"
+  );
+  const paymentRows = await selectAll<{ customer_id: string; amount: number; reporting_amount: number | null; occurred_at: string; transaction_type: string }>(
+    supabase, "transactions", "id, customer_id, amount, reporting_amount, occurred_at, transaction_type", organizationId, since, "occurred_at"
+  );
+  const healthRows = await selectAll<{ customer_id: string; score_date: string; health_score: number }>(
+    supabase, "customer_health_scores", "id, customer_id, score_date, health_score", organizationId, sinceDate, "score_date"
+  );
+
+  const primaryMetric = await getPrimaryUsageMetric(supabase, organizationId);
+  const usageRows = (
+    await selectAll<UsageRow>(
+      supabase, "usage_records", "id, customer_id, metric, usage_date, quantity", organizationId, sinceDate, "usage_date"
+    )
+  ).filter((r) => !primaryMetric || r.metric === primaryMetric);
+
+  const customers: HistoryCustomer[] = customerRows.map((c) => {
+    const churnedAt = c.status === "churned" && c.churned_at ? new Date(c.churned_at).getTime() : null;
+    // Tenure runs to the churn date for churned customers, to now otherwise
+    const startedAt = c.tenure_months != null
+      ? (churnedAt ?? now) - c.tenure_months * MONTH_MS
+      : new Date(c.created_at).getTime();
+    return {
+      id: c.id,
+      status: c.status,
+      mrr: Number(c.mrr) || 0,
+      billingInterval: c.billing_interval,
+      currentTierId: c.current_tier_id,
+      startedAt,
+      churnedAt,
+    };
+  });
+
+  const usage = new Map<string, UsageRow[]>();
+  for (const row of usageRows) {
+    if (!usage.has(row.customer_id)) usage.set(row.customer_id, []);
+    usage.get(row.customer_id)!.push(row);
+  }
+
+  return {
+    customers,
+    events: groupBy(
+      eventRows.map((e) => ({
+        customerId: e.customer_id,
+        at: new Date(e.occurred_at).getTime(),
+        type: e.event_type,
+        delta: Number(e.delta_mrr) || 0,
+        fromTierId: e.from_tier_id,
+        toTierId: e.to_tier_id,
+      }))
+    ),
+    payments: groupBy(
+      paymentRows
+        .filter((t) => t.transaction_type === "subscription")
+        .map((t) => ({ customerId: t.customer_id, at: new Date(t.occurred_at).getTime(), amount: Number(t.reporting_amount ?? t.amount) || 0 }))
+        .filter((t) => t.amount > 0)
+    ),
+    health: groupBy(
+      healthRows.map((h) => ({ customerId: h.customer_id, at: new Date(`${h.score_date}T00:00:00Z`).getTime(), score: Number(h.health_score) || 0 }))
+    ),
+    usage,
+  };
+}
+
+/**
+ * Events in (from, to]
+ */
+export function eventsBetween(history: CustomerHistory, customerId: string, from: number, to: number): HistoryEvent[] {
+  return (history.events.get(customerId) ?? []).filter((e) => e.at > from && e.at <= to);
+}
+
+/**
+ * MRR at a date: today's MRR less later changes, or the last bill before the
+ * date once churned, since a churned customer's MRR is zeroed
+ */
+export function mrrAsOf(history: CustomerHistory, customer: HistoryCustomer, asOf: number): number {
+  if (customer.mrr > 0) {
+    const laterChanges = eventsBetween(history, customer.id, asOf, Infinity).reduce((sum, e) => sum + e.delta, 0);
+    return Math.max(0, customer.mrr - laterChanges);
+  }
+  const lastPayment = lastPaymentAsOf(history, customer.id, asOf);
+  return (lastPayment?.amount ?? 0) / (customer.billingInterval === "annual" ? 12 : 1);
+}
+
+/**
+ * Tier at a date: the tier the first later tier change moved away from, or
+ * the current tier
+ */
+export function tierAsOf(history: CustomerHistory, customer: HistoryCustomer, asOf: number): string | null {
+  const nextChange = eventsBetween(history, customer.id, asOf, Infinity)
+    .filter((e) => e.fromTierId && e.toTierId && e.fromTierId !== e.toTierId)
+    .sort((a, b) => a.at - b.at)[0];
+  return nextChange?.fromTierId ?? customer.currentTierId;
+}
+
+export function lastPaymentAsOf(
+  history: CustomerHistory,
+  customerId: string,
+  asOf: number
+): { at: number; amount: number } | null {
+  let last: { at: number; amount: number } | null = null;
+  for (const payment of history.payments.get(customerId) ?? []) {
+    if (payment.at <= asOf && (!last || payment.at > last.at)) last = payment;
+  }
+  return last;
+}
+
+/**
+ * Latest health score at most maxAgeDays old at the date
+ */
+export function healthAsOf(history: CustomerHistory, customerId: string, asOf: number, maxAgeDays: number): number | null {
+  const latest = (history.health.get(customerId) ?? [])
+    .filter((h) => h.at <= asOf && h.at > asOf - maxAgeDays * DAY_MS)
+    .sort((a, b) => b.at - a.at)[0];
+  return latest?.score ?? null;
+}
+
+/**
+ * Primary metric usage over the window ending at the date
+ */
+export function usageAsOf(
+  history: CustomerHistory,
+  customerId: string,
+  asOf: number,
+  windowDays: number
+): CustomerUsageSummary | null {
+  return (
+    summarizeUsage(history.usage.get(customerId) ?? [], { windowDays, asOf: new Date(asOf) })
+      .sort((a, b) => b.activeDays - a.activeDays)[0] ?? null
+  );
+}
+
+/**
+ * Customers active at each snapshot date, one horizon apart and ending one
+ * horizon before now so every label has fully elapsed
+ */
+export function buildPropensityExamples<T>(
+  history: CustomerHistory,
+  options: {
+    now: Date;
+    horizonDays: number;
+    snapshots: number;
+    features: (customer: HistoryCustomer, asOf: number) => T;
+    outcome: (customer: HistoryCustomer, asOf: number, until: number) => boolean;
+  }
+): PropensityExample<T>[] {
+  const now = options.now.getTime();
+  const horizon = options.horizonDays * DAY_MS;
+  const examples: PropensityExample<T>[] = [];
+
+  for (let k = 0; k < options.snapshots; k++) {
+    const asOf = now - horizon * (k + 1);
+    for (const customer of history.customers) {
+      if (customer.startedAt > asOf) continue;
+      if (customer.churnedAt !== null && customer.churnedAt <= asOf) continue;
+      // Churned without a date: can't tell when, so can't label
+      if (customer.status === "churned" && customer.churnedAt === null) continue;
+
+      examples.push({
+        customerId: customer.id,
+        snapshotDate: new Date(asOf).toISOString(),
+        features: options.features(customer, asOf),
+        outcome: options.outcome(customer, asOf, asOf + horizon),
+      });
+    }
+  }
+
+  return examples;
+}
+
+// =============================================================================
+// TRAINING AND SCORING
+// =============================================================================
+
+/**
+ * Fit, calibrate and validate. Pure; null when there are too few positive or
+ * negative examples to fit, or positives to validate on.
+ */
+export function fitPropensity<T, S extends string>(
+  examples: PropensityExample<T>[],
+  definitions: PropensityFeature<T, S>[],
+  options: { minPositives: number; minValidationPositives: number }
+): FittedPropensity | null {
+  const validation = examples.filter((e) => hashBucket(e.customerId, VALIDATION_SHARE) === 0);
+  const training = examples.filter((e) => hashBucket(e.customerId, VALIDATION_SHARE) !== 0);
+  if (
+    training.filter((e) => e.outcome).length < options.minPositives ||
+    training.filter((e) => !e.outcome).length < options.minPositives ||
+    validation.filter((e) => e.outcome).length < options.minValidationPositives
+  ) {
+    return null;
+  }
+
+  const raw = (rows: PropensityExample<T>[]) => rows.map((e) => definitions.map((f) => f.value(e.features)));
+  const trainingRaw = raw(training);
+  const scaling = definitions.map((_, j) => {
+    const values = trainingRaw.map((row) => row[j]).filter((v) => !Number.isNaN(v));
+    const center = mean(values);
+    const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - center) ** 2, 0) / Math.max(1, values.length - 1));
+    return { mean: center, sd: sd > 1e-9 ? sd : 1 };
+  });
+  const standardize = (rows: number[][]) =>
+    rows.map((row) => row.map((v, j) => (Number.isNaN(v) ? 0 : (v - scaling[j].mean) / scaling[j].sd)));
+
+  const x = standardize(trainingRaw);
+  const y = training.map((e) => (e.outcome ? 1 : 0));
+  const fit = fitLogistic(x, y, RIDGE_PENALTY);
+
+  // Out-of-fold log-odds, so the calibration isn't fit on predictions the model was trained on
+  const folds = training.map((e) => hashBucket(`${e.customerId}:fold`, CALIBRATION_FOLDS));
+  const outOfFold = new Array(training.length).fill(0);
+  for (let fold = 0; fold < CALIBRATION_FOLDS; fold++) {
+    const inFold = folds.map((f) => f === fold);
+    const foldFit = fitLogistic(x.filter((_, i) => !inFold[i]), y.filter((_, i) => !inFold[i]), RIDGE_PENALTY);
+    x.forEach((row, i) => {
+      if (inFold[i]) outOfFold[i] = foldFit.intercept + dot(row, foldFit.coefficients);
+    });
+  }
+  const platt = fitLogistic(outOfFold.map((v) => [v]), y, 0);
+  const calibration = { slope: platt.coefficients[0], intercept: platt.intercept };
+
+  const validationX = standardize(raw(validation));
+  const predicted = validationX.map((row) =>
+    sigmoid(calibration.intercept + calibration.slope * (fit.intercept + dot(row, fit.coefficients)))
+  );
+  const observed = validation.map((e) => (e.outcome ? 1 : 0));
+
+  return {
+    features: definitions.map((f, j) => ({
+      name: f.name,
+      mean: round(scaling[j].mean, 6),
+      sd: round(scaling[j].sd, 6),
+      coefficient: round(fit.coefficients[j], 6),
+    })),
+    intercept: round(fit.intercept, 6),
+    calibration: { slope: round(calibration.slope, 6), intercept: round(calibration.intercept, 6) },
+    metrics: {
+      auc: round(auc(predicted, observed), 4),
+      brier: round(mean(predicted.map((p, i) => (p - observed[i]) ** 2)), 4),
+      log_loss: round(
+        mean(predicted.map((p, i) => {
+          const q = Math.min(1 - 1e-9, Math.max(1e-9, p));
+          return -(observed[i] * Math.log(q) + (1 - observed[i]) * Math.log(1 - q));
+        })),
+        4
+      ),
+      base_rate: round(mean(observed), 4),
+      calibration: calibrationBins(predicted, observed, 10),
+      training_examples: training.length,
+      validation_examples: validation.length,
+      training_positives: y.filter((v) => v === 1).length,
+      validation_positives: observed.filter((v) => v === 1).length,
+      snapshot_dates: [...new Set(examples.map((e) => e.snapshotDate.split("T")[0]))].sort(),
+    },
+  };
+}
+
+/**
+ * Calibrated probability with each feature's share of the log-odds, largest
+ * first. Features the model has but the definitions don't are skipped.
+ */
+export function scorePropensity<T, S extends string>(
+  model: Pick<FittedPropensity, "features" | "intercept" | "calibration">,
+  definitions: PropensityFeature<T, S>[],
+  input: T
+): { probability: number; attributions: PropensityAttribution<S>[] } {
+  const byName = new Map(definitions.map((f) => [f.name, f]));
+  const attributions: PropensityAttribution<S>[] = [];
+  let logOdds = Number(model.intercept);
+
+  for (const feature of model.features) {
+    const definition = byName.get(feature.name);
+    if (!definition) continue;
+    const value = definition.value(input);
+    const z = Number.isNaN(value) ? 0 : (value - feature.mean) / feature.sd;
+    const contribution = feature.coefficient * z;
+    logOdds += contribution;
+    attributions.push({
+      feature: feature.name,
+      signal: definition.signal,
+      description: definition.describe(input),
+      contribution: round(contribution * model.calibration.slope, 3),
+    });
+  }
+
+  attributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  return {
+    probability: round(sigmoid(model.calibration.intercept + model.calibration.slope * logOdds), 4),
+    attributions,
+  };
+}
+
+/**
+ * One-line summary of a stored model's validation, for insights
+ */
+export function describePropensityModel(
+  label: string,
+  outcome: string,
+  model: { version: number; horizon_days: number; features: PropensityModelFeature[]; metrics: PropensityModelMetrics }
+): string[] {
+  const top = [...model.features].sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient))[0];
+  return [
+    `${label} model v${model.version} ranks ${outcome} within ${model.horizon_days} days with AUC ` +
+      `${model.metrics.auc.toFixed(2)} on ${model.metrics.validation_examples} held-out snapshots ` +
+      `(Brier ${model.metrics.brier.toFixed(3)}, base rate ${(model.metrics.base_rate * 100).toFixed(1)}%)`,
+    `Strongest ${label.toLowerCase()} driver: ${top.name.replace(/_/g, " ")} ` +
+      `(${top.coefficient >= 0 ? "+" : ""}${top.coefficient.toFixed(2)} log-odds per SD)`,
+  ];
+}
+
+// =============================================================================
+// MATH
+// =============================================================================
+
+/**
+ * L2-penalized logistic regression by Newton-Raphson; the intercept is not
+ * penalized
+ */
+function fitLogistic(
+  x: number[][],
+  y: number[],
+  penalty: number
+): { intercept: number; coefficients: number[] } {
+  const p = x[0]?.length ?? 0;
+  let beta = new Array(p + 1).fill(0); // Intercept first
+  const rows = x.map((row) => [1, ...row]);
+
+  for (let iteration = 0; iteration < 25; iteration++) {
+    const gradient = beta.map((b, j) => (j === 0 ? 0 : -penalty * b));
+    const hessian = Array.from({ length: p + 1 }, (_, i) =>
+      Array.from({ length: p + 1 }, (_, j) => (i === j && i > 0 ? penalty : 0))
+    );
+
+    rows.forEach((row, i) => {
+      const prob = sigmoid(dot(row, beta));
+      const weight = Math.max(prob * (1 - prob), 1e-9);
+      for (let a = 0; a <= p; a++) {
+        gradient[a] += (y[i] - prob) * row[a];
+        for (let b = a; b <= p; b++) hessian[a][b] += weight * row[a] * row[b];
+      }
+    });
+    for (let a = 0; a <= p; a++) for (let b = 0; b < a; b++) hessian[a][b] = hessian[b][a];
+
+    const step = solve(hessian, gradient);
+    if (!step) break;
+    beta = beta.map((b, j) => b + step[j]);
+    if (Math.max(...step.map(Math.abs)) < 1e-6) break;
+  }
+
+  return { intercept: beta[0], coefficients: beta.slice(1) };
+}
+
+/**
+ * Probability that a random positive scores above a random negative
+ */
+function auc(predicted: number[], observed: number[]): number {
+  const ranked = predicted.map((p, i) => ({ p, y: observed[i] })).sort((a, b) => a.p - b.p);
+  let rankSum = 0;
+  for (let i = 0; i < ranked.length; ) {
+    let j = i;
+    while (j < ranked.length && ranked[j].p === ranked[i].p) j++;
+    const averageRank = (i + 1 + j) / 2; // Ties share their average rank
+    for (let k = i; k < j; k++) if (ranked[k].y === 1) rankSum += averageRank;
+    i = j;
+  }
+  const positives = observed.filter((y) => y === 1).length;
+  const negatives = observed.length - positives;
+  if (positives === 0 || negatives === 0) return 0.5;
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+function calibrationBins(predicted: number[], observed: number[], bins: number): PropensityModelMetrics["calibration"] {
+  const order = predicted.map((_, i) => i).sort((a, b) => predicted[a] - predicted[b]);
+  const result: PropensityModelMetrics["calibration"] = [];
+  for (let b = 0; b < bins; b++) {
+    const slice = order.slice(Math.floor((b * order.length) / bins), Math.floor(((b + 1) * order.length) / bins));
+    if (slice.length === 0) continue;
+    result.push({
+      predicted: round(mean(slice.map((i) => predicted[i])), 4),
+      observed: round(mean(slice.map((i) => observed[i])), 4),
+      count: slice.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Gaussian elimination with partial pivoting; null when singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Stable bucket for a customer id, so a customer is always on the same side
+ * of the split
+ */
+function hashBucket(id: string, buckets: number): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return Math.abs(hash) % buckets;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-Math.max(-30, Math.min(30, z))));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function groupBy<T extends { customerId: string }>(items: T[]): Map<string, Omit<T, "customerId">[]> {
+  const groups = new Map<string, Omit<T, "customerId">[]>();
+  for (const { customerId, ...rest } of items) {
+    if (!groups.has(customerId)) groups.set(customerId, []);
+    groups.get(customerId)!.push(rest);
+  }
+  return groups;
+}
+
+/**
+ * Every row of an organization's table, paged past PostgREST's row cap
+ */
+export async function selectAll<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "customer_expansion_events" | "transactions" | "customer_health_scores" | "usage_records",
+  columns: string,
+  organizationId: string,
+  since?: string,
+  sinceColumn?: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns).eq("organization_id", organizationId);
+    if (since && sinceColumn) query = query.gte(sinceColumn, since);
+    const { data, error } = await query.order("id").range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
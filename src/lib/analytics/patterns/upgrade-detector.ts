@@ -1,10 +1,15 @@
 /**
  * Upgrade Detector
- * Identifies customers showing upgrade readiness signals
+ * Identifies customers showing upgrade readiness signals. With a trained
+ * expansion model the score is its calibrated probability, the signals are
+ * the features driving it and the potential MRR is the price gap to the
+ * predicted next tier; without one, heuristic rules.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import { getUsageSummaries } from "../usage";
+import { loadExpansionScorer } from "./expansion-model";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -30,6 +35,11 @@ export interface UpgradeCandidate {
   overallScore: number; // 0-100
   recommendedAction: string;
   potentialMrrIncrease: number;
+  expansionProbability?: number; // Model probability of expanding within expansionHorizonDays
+  expansionHorizonDays?: number;
+  expectedDaysToExpansion?: number | null;
+  nextTier?: string; // Most likely destination
+  modelVersion?: number;
 }
 
 export interface UpgradeAnalysisResult {
@@ -121,6 +131,20 @@ export async function detectUpgradeCandidates(
     customerGrowth.set(event.customer_id, current + (Number(event.delta_mrr) || 0));
   }
 
+  const scoreExpansion = await loadExpansionScorer(supabase, organizationId);
+
+  // Utilization of the tier's usage limits, for the rules
+  const utilization = new Map<string, { metric: string; utilization: number }>();
+  if (!scoreExpansion) {
+    for (const summary of await getUsageSummaries(supabase, organizationId, { windowDays: 30 })) {
+      if (summary.utilization === null) continue;
+      const current = utilization.get(summary.customerId);
+      if (!current || summary.utilization > current.utilization) {
+        utilization.set(summary.customerId, { metric: summary.metric, utilization: summary.utilization });
+      }
+    }
+  }
+
   // Detect signals for each customer
   const allCandidates: UpgradeCandidate[] = [];
 
@@ -129,6 +153,42 @@ export async function detectUpgradeCandidates(
     const signals: UpgradeSignal[] = [];
     const mrr = Number(customer.mrr) || 0;
 
+    const prediction = scoreExpansion?.(customer.id) ?? null;
+    if (prediction) {
+      // The features raising this customer's probability, largest first and
+      // one per signal type
+      for (const attribution of prediction.attributions.filter((a) => a.contribution > 0)) {
+        if (signals.length >= 3) break;
+        if (signals.some((existing) => existing.signalType === attribution.signal)) continue;
+        signals.push({
+          customerId: customer.id,
+          signalType: attribution.signal,
+          confidence: prediction.probability,
+          details: `${attribution.description} (+${attribution.contribution.toFixed(2)} log-odds, model v${prediction.modelVersion})`,
+          detectedAt: new Date(),
+        });
+      }
+
+      if (signals.length > 0) {
+        allCandidates.push({
+          customerId: customer.id,
+          customerName: customer.name || "Unknown",
+          currentTier: currentTier?.name || "Unknown",
+          currentMrr: mrr,
+          signals,
+          overallScore: Math.round(prediction.probability * 100),
+          recommendedAction: generateRecommendedAction(signals),
+          potentialMrrIncrease: prediction.nextTier?.mrrIncrease ?? 0,
+          expansionProbability: prediction.probability,
+          expansionHorizonDays: prediction.horizonDays,
+          expectedDaysToExpansion: prediction.expectedDays,
+          nextTier: prediction.nextTier?.tierName,
+          modelVersion: prediction.modelVersion,
+        });
+      }
+      continue;
+    }
+
     // Signal 1: Rapid growth (>20% MRR increase in 3 months)
     const growth = customerGrowth.get(customer.id) || 0;
     const growthRate = mrr > 0 ? growth / mrr : 0;
@@ -159,23 +219,16 @@ export async function detectUpgradeCandidates(
       }
     }
 
-    // Signal 3: Usage approaching limits (simulated - would use actual usage data)
-    // In production, this would check actual usage against tier limits
-    if (currentTier && currentTier.value_metric_limits) {
-      const limits = currentTier.value_metric_limits as Record<string, unknown>;
-      if (Object.keys(limits).length > 0) {
-        // Simulate usage check - in production would query actual usage
-        const usageRatio = 0.5 + Math.random() * 0.5; // Simulated
-        if (usageRatio > 0.8) {
-          signals.push({
-            customerId: customer.id,
-            signalType: "usage_limit_approaching",
-            confidence: usageRatio,
-            details: `Approaching ${(usageRatio * 100).toFixed(0)}% of tier limits`,
-            detectedAt: new Date(),
-          });
-        }
-      }
+    // Signal 3: Usage approaching the tier's limits over the last 30 days
+    const usage = utilization.get(customer.id);
+    if (usage && usage.utilization > 0.8) {
+      signals.push({
+        customerId: customer.id,
+        signalType: "usage_limit_approaching",
+        confidence: Math.min(usage.utilization, 0.95),
+        details: `Using ${(usage.utilization * 100).toFixed(0)}% of the tier's ${usage.metric} limit`,
+        detectedAt: new Date(),
+      });
     }
 
     // Signal 4: High-value on low tier
@@ -246,6 +299,12 @@ export async function detectUpgradeCandidates(
 
   // Generate insights
   const insights = generateUpgradeInsights(candidates, signalDistribution, totalPotentialMrr);
+  const scored = candidates.find((c) => c.modelVersion !== undefined);
+  if (scored) {
+    insights.unshift(
+      `Scores are expansion model v${scored.modelVersion} probabilities of upgrading or expanding within ${scored.expansionHorizonDays} days.`
+    );
+  }
 
   return {
     candidates,
@@ -0,0 +1,91 @@
+/**
+ * Dirty Sets
+ * Customers whose analytics inputs changed since a point in time: the
+ * customer row itself (updated_at), and new expansion events, transactions
+ * and usage. Changes are kept with their time, so each module can take the
+ * customers changed since its own last run.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+
+export interface CustomerChangeSet {
+  since: string | null; // Null: every customer counts as changed
+  until: string;
+  // Latest change per customer
+  changedAt: Map<string, string>;
+  // Current segment of customers whose own row changed
+  segmentByCustomer: Map<string, string | null>;
+}
+
+// Tables whose new or updated rows mark a customer changed
+const CHANGE_SOURCES = [
+  { table: "unified_customers", customerColumn: "id", timeColumn: "updated_at" },
+  { table: "customer_expansion_events", customerColumn: "customer_id", timeColumn: "created_at" },
+  { table: "transactions", customerColumn: "customer_id", timeColumn: "created_at" },
+  { table: "usage_records", customerColumn: "customer_id", timeColumn: "updated_at" },
+] as const;
+
+/**
+ * Every customer changed after `since` and up to `until`. Without `since`,
+ * every customer is included.
+ */
+export async function collectCustomerChanges(
+  supabase: DbClient,
+  organizationId: string,
+  since: string | null,
+  until: string
+): Promise<CustomerChangeSet> {
+  const changedAt = new Map<string, string>();
+  const segmentByCustomer = new Map<string, string | null>();
+
+  for (const source of CHANGE_SOURCES) {
+    // Without a starting point only the customers themselves matter
+    if (!since && source.table !== "unified_customers") continue;
+
+    const isCustomers = source.table === "unified_customers";
+    const columns = isCustomers
+      ? "id, updated_at, segment_id"
+      : `id, ${source.customerColumn}, ${source.timeColumn}`;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase
+        .from(source.table)
+        .select(columns)
+        .eq("organization_id", organizationId)
+        .lte(source.timeColumn, until);
+      if (since) query = query.gt(source.timeColumn, since);
+
+      const { data, error } = await query.order("id").range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      for (const row of (data || []) as unknown as Record<string, string | null>[]) {
+        const customerId = row[source.customerColumn];
+        const at = row[source.timeColumn] ?? until;
+        if (!customerId) continue;
+        const previous = changedAt.get(customerId);
+        if (!previous || at > previous) changedAt.set(customerId, at);
+        if (isCustomers) segmentByCustomer.set(customerId, row.segment_id ?? null);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return { since, until, changedAt, segmentByCustomer };
+}
+
+/**
+ * Customers changed after `watermark`; every collected customer when the
+ * module has no watermark yet
+ */
+export function customersChangedSince(changes: CustomerChangeSet, watermark: string | null): string[] {
+  const ids: string[] = [];
+  for (const [customerId, at] of changes.changedAt) {
+    if (!watermark || at > watermark) ids.push(customerId);
+  }
+  return ids;
+}
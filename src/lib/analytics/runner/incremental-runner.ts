@@ -0,0 +1,532 @@
+/**
+ * Incremental Analytics Runner
+ * Runs the analytics modules that are due and have changed inputs, tracked
+ * in analytics_run_log: one incremental_refresh row per run and one child
+ * row per module run. Customer-level modules recompute only the customers
+ * changed since their own last run.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AnalyticsRunLog, Database, Json } from "@/types/database";
+import type { AnalyticsRunProgress } from "../index";
+import { getFxRatesUsed } from "@/lib/services/fx-service";
+import {
+  analyzeCohortRetention,
+  storeCohortRetention,
+  calculateLTV,
+  calculateRetentionMetrics,
+  calculateMRRGrowthMetrics,
+  createEconomicsSnapshot,
+  estimatePriceElasticity,
+  analyzeSurvival,
+} from "../economics";
+import {
+  runSegmentationAnalysis,
+  assignCustomersToSegments,
+  calculateRFMScores,
+  storeRFMScores,
+  assignChangedCustomers,
+  refreshSegmentStats,
+} from "../segmentation";
+import {
+  detectUpgradeCandidates,
+  storeUpgradePatterns,
+  detectChurnRisk,
+  storeChurnPatterns,
+  analyzeSeasonality,
+  storeSeasonalPatterns,
+  getActiveChurnModel,
+  trainAndStoreChurnModel,
+  getActiveExpansionModel,
+  trainAndStoreExpansionModel,
+} from "../patterns";
+import { analyzeMetricCorrelations, storeCorrelationResults } from "../value-metrics";
+import { calculateHealthScores, storeHealthScores } from "../health/health-score-calculator";
+import {
+  ANALYTICS_MODULES,
+  getAnalyticsSchedule,
+  getModuleStates,
+  type AnalyticsModule,
+  type AnalyticsModuleState,
+} from "./schedule";
+import { collectCustomerChanges, customersChangedSince } from "./dirty-set";
+
+type DbClient = SupabaseClient<Database>;
+
+export interface AnalyticsModuleProgress {
+  module: AnalyticsModule;
+  label: string;
+  status: "pending" | "running" | "completed" | "skipped" | "failed";
+  reason?: string; // Why the module was skipped or failed
+  dirtyCustomers: number | null; // Null: every customer is recomputed
+  recordsProcessed?: number;
+  summary?: Record<string, unknown>;
+}
+
+export interface IncrementalAnalyticsOptions {
+  trigger?: "manual" | "scheduled";
+  modules?: AnalyticsModule[]; // Defaults to every module
+  full?: boolean; // Recompute every customer regardless of changes
+  runId?: string; // Continue a run row created by createIncrementalRun
+  onProgress?: (progress: AnalyticsRunProgress) => void;
+}
+
+// Re-cluster instead of placing changed customers into existing segments
+// when this share of customers changed, or the clustering is this old
+const RECLUSTER_DIRTY_SHARE = 0.2;
+const RECLUSTER_MAX_AGE_DAYS = 7;
+
+// Retrain the churn and expansion models once they are this old
+const PROPENSITY_MODEL_MAX_AGE_DAYS = 7;
+
+// Running rows older than this are treated as abandoned
+const STALE_RUN_MINUTES = 60;
+
+type ModuleOutcome = { recordsProcessed: number; summary: Record<string, unknown> };
+
+/**
+ * Create the run row up front, so callers can return its id before the run
+ * starts. Throws a run conflict when another refresh is running.
+ */
+export async function createIncrementalRun(
+  supabase: DbClient,
+  organizationId: string,
+  trigger: "manual" | "scheduled" = "manual"
+): Promise<string> {
+  const runId = crypto.randomUUID();
+  await claimAnalyticsRun(supabase, organizationId, {
+    id: runId,
+    run_type: "incremental_refresh",
+    trigger,
+    completed_steps: 0,
+    current_step: "Planning",
+  });
+  return runId;
+}
+
+/**
+ * Insert a refresh's running row. Only one top-level row per organization
+ * may be running (migration 00023), so the insert is the refresh's claim and
+ * fails with a unique violation when another refresh holds it; see
+ * isAnalyticsRunConflict. Rows left running past the stale cutoff are failed
+ * first, so an abandoned refresh can't hold the claim.
+ */
+export async function claimAnalyticsRun(
+  supabase: DbClient,
+  organizationId: string,
+  row: { id: string; run_type: "full_refresh" | "incremental_refresh" } & Record<string, unknown>
+): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+  const { error: staleError } = await supabase
+    .from("analytics_run_log")
+    .update({
+      status: "failed",
+      completed_at: new Date().toISOString(),
+      errors_count: 1,
+      error_details: [{ error: "Abandoned" }],
+    } as never)
+    .eq("organization_id", organizationId)
+    .eq("status", "running")
+    .is("parent_run_id", null)
+    .lt("started_at", staleBefore);
+  if (staleError) throw staleError;
+
+  const { error } = await supabase.from("analytics_run_log").insert({
+    ...row,
+    organization_id: organizationId,
+    status: "running",
+  } as never);
+  if (error) throw error;
+}
+
+/**
+ * Whether an error is a failed claim: another refresh is already running
+ */
+export function isAnalyticsRunConflict(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return code === "23505" && !!message?.includes("idx_analytics_run_active");
+}
+
+/**
+ * Run the due analytics modules over the customers changed since each
+ * module's last run
+ */
+export async function runIncrementalAnalytics(
+  supabase: DbClient,
+  organizationId: string,
+  options: IncrementalAnalyticsOptions = {}
+): Promise<AnalyticsRunProgress> {
+  const trigger = options.trigger ?? "manual";
+  const runId = options.runId ?? (await createIncrementalRun(supabase, organizationId, trigger));
+  const startedAt = new Date();
+  const watermark = startedAt.toISOString();
+
+  const progress: AnalyticsRunProgress = {
+    runId,
+    status: "running",
+    currentStep: "Planning",
+    totalSteps: 0,
+    completedSteps: 0,
+    startedAt,
+    modules: [],
+  };
+
+  const saveProgress = async (fields: Record<string, unknown> = {}) => {
+    options.onProgress?.(progress);
+    await supabase
+      .from("analytics_run_log")
+      .update({
+        total_steps: progress.totalSteps,
+        completed_steps: progress.completedSteps,
+        current_step: progress.currentStep,
+        dirty_customers: progress.dirtyCustomers ?? null,
+        result_summary: { mode: options.full ? "full" : "incremental", modules: progress.modules } as unknown as Json,
+        ...fields,
+      } as never)
+      .eq("id", runId);
+  };
+
+  try {
+    // Plan: which modules are due, and which customers each must recompute
+    const schedule = await getAnalyticsSchedule(supabase, organizationId);
+    const states = await getModuleStates(supabase, organizationId, schedule);
+    const requested = ANALYTICS_MODULES.filter((m) => !options.modules || options.modules.includes(m.module));
+
+    const watermarks = requested.map((m) => states[m.module].watermark);
+    const since = options.full || watermarks.some((w) => !w) ? null : watermarks.sort()[0];
+    const changes = await collectCustomerChanges(supabase, organizationId, since, watermark);
+    const totalCustomers = await countCustomers(supabase, organizationId);
+
+    const dirtySets = new Map<AnalyticsModule, string[] | null>();
+    for (const definition of requested) {
+      const state = states[definition.module];
+      const dirty = options.full || !state.watermark ? null : customersChangedSince(changes, state.watermark);
+      const entry: AnalyticsModuleProgress = {
+        module: definition.module,
+        label: definition.label,
+        status: "pending",
+        dirtyCustomers: dirty ? dirty.length : null,
+      };
+
+      if (trigger === "scheduled" && state.nextDueAt && state.nextDueAt > watermark) {
+        entry.status = "skipped";
+        entry.reason = `Not due until ${state.nextDueAt}`;
+      } else if (dirty && dirty.length === 0) {
+        entry.status = "skipped";
+        entry.reason = `No data changes since ${state.watermark}`;
+      } else {
+        dirtySets.set(definition.module, dirty);
+      }
+      progress.modules!.push(entry);
+    }
+
+    const allDirty = customersChangedSince(changes, since);
+    progress.dirtyCustomers = since ? allDirty.length : totalCustomers;
+    progress.totalSteps = dirtySets.size;
+    progress.currentStep = dirtySets.size > 0 ? "Starting" : "Nothing to refresh";
+    await saveProgress();
+
+    for (const entry of progress.modules!) {
+      if (entry.status !== "pending") continue;
+      const dirty = dirtySets.get(entry.module) ?? null;
+
+      entry.status = "running";
+      progress.currentStep = entry.label;
+      await saveProgress();
+
+      const moduleRunId = crypto.randomUUID();
+      await supabase.from("analytics_run_log").insert({
+        id: moduleRunId,
+        organization_id: organizationId,
+        run_type: entry.module,
+        status: "running",
+        parent_run_id: runId,
+        trigger,
+        total_steps: 1,
+        completed_steps: 0,
+        current_step: entry.label,
+        data_watermark: watermark,
+        dirty_customers: dirty ? dirty.length : totalCustomers,
+      } as never);
+
+      try {
+        const outcome = await runModule(supabase, organizationId, entry.module, dirty, {
+          state: states[entry.module],
+          totalCustomers,
+          now: startedAt,
+        });
+        entry.status = "completed";
+        entry.recordsProcessed = outcome.recordsProcessed;
+        entry.summary = outcome.summary;
+
+        await supabase
+          .from("analytics_run_log")
+          .update({
+            status: "completed",
+            completed_at: new Date().toISOString(),
+            completed_steps: 1,
+            records_processed: outcome.recordsProcessed,
+            result_summary: outcome.summary as Json,
+          } as never)
+          .eq("id", moduleRunId);
+      } catch (error) {
+        entry.status = "failed";
+        entry.reason = error instanceof Error ? error.message : "Unknown error";
+
+        await supabase
+          .from("analytics_run_log")
+          .update({
+            status: "failed",
+            completed_at: new Date().toISOString(),
+            errors_count: 1,
+            error_details: [{ error: entry.reason }],
+          } as never)
+          .eq("id", moduleRunId);
+        throw error;
+      }
+
+      progress.completedSteps += 1;
+      await saveProgress();
+    }
+
+    progress.status = "completed";
+    progress.currentStep = "Complete";
+    progress.completedAt = new Date();
+    await saveProgress({
+      status: "completed",
+      completed_at: progress.completedAt.toISOString(),
+      data_watermark: watermark,
+      records_processed: progress.modules!.reduce((sum, m) => sum + (m.recordsProcessed ?? 0), 0),
+      fx_rates: await getFxRatesUsed(supabase, organizationId),
+    });
+
+    return progress;
+  } catch (error) {
+    progress.status = "failed";
+    progress.error = error instanceof Error ? error.message : "Unknown error";
+    progress.completedAt = new Date();
+    for (const entry of progress.modules!) {
+      if (entry.status === "pending") {
+        entry.status = "skipped";
+        entry.reason = "An earlier module failed";
+      }
+    }
+    await saveProgress({
+      status: "failed",
+      completed_at: progress.completedAt.toISOString(),
+      errors_count: 1,
+      error_details: [{ error: progress.error }],
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Progress of a run as stored in analytics_run_log, for polling
+ */
+export async function getAnalyticsRunProgress(
+  supabase: DbClient,
+  organizationId: string,
+  runId: string
+): Promise<AnalyticsRunProgress | null> {
+  const { data, error } = await supabase
+    .from("analytics_run_log")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", runId)
+    .single();
+  if (error && error.code !== "PGRST116") throw error;
+  if (!data) return null;
+
+  const run = data as AnalyticsRunLog;
+  const summary = (run.result_summary ?? {}) as { modules?: AnalyticsModuleProgress[] };
+  const errors = Array.isArray(run.error_details) ? (run.error_details as { error?: string }[]) : [];
+
+  return {
+    runId: run.id,
+    status: run.status,
+    currentStep: run.current_step ?? "",
+    totalSteps: run.total_steps ?? 0,
+    completedSteps: run.completed_steps,
+    startedAt: new Date(run.started_at),
+    completedAt: run.completed_at ? new Date(run.completed_at) : undefined,
+    error: errors[0]?.error,
+    modules: Array.isArray(summary.modules) ? summary.modules : undefined,
+    dirtyCustomers: run.dirty_customers ?? undefined,
+  };
+}
+
+/**
+ * The organization's refresh still running, if any
+ */
+export async function getActiveAnalyticsRun(
+  supabase: DbClient,
+  organizationId: string
+): Promise<string | null> {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("analytics_run_log")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("status", "running")
+    .in("run_type", ["full_refresh", "incremental_refresh"])
+    .gte("started_at", staleBefore)
+    .order("started_at", { ascending: false })
+    .limit(1);
+  if (error) throw error;
+
+  return ((data || []) as { id: string }[])[0]?.id ?? null;
+}
+
+async function runModule(
+  supabase: DbClient,
+  organizationId: string,
+  module: AnalyticsModule,
+  dirty: string[] | null,
+  context: { state: AnalyticsModuleState; totalCustomers: number; now: Date }
+): Promise<ModuleOutcome> {
+  switch (module) {
+    case "cohort_retention": {
+      const cohorts = await analyzeCohortRetention(supabase, organizationId);
+      await storeCohortRetention(supabase, organizationId, cohorts);
+      return { recordsProcessed: cohorts.length, summary: { cohorts: cohorts.length } };
+    }
+
+    case "segmentation":
+      return runSegmentation(supabase, organizationId, dirty, context);
+
+    case "pattern_detection": {
+      const modelAgeDays = (model: { trained_at: string } | null) =>
+        model ? (context.now.getTime() - new Date(model.trained_at).getTime()) / (1000 * 60 * 60 * 24) : Infinity;
+      const churnModel = await getActiveChurnModel(supabase, organizationId);
+      const retrained = modelAgeDays(churnModel) > PROPENSITY_MODEL_MAX_AGE_DAYS
+        ? await trainAndStoreChurnModel(supabase, organizationId, { now: context.now })
+        : null;
+      const expansionModel = await getActiveExpansionModel(supabase, organizationId);
+      const retrainedExpansion = modelAgeDays(expansionModel) > PROPENSITY_MODEL_MAX_AGE_DAYS
+        ? await trainAndStoreExpansionModel(supabase, organizationId, { now: context.now })
+        : null;
+
+      const upgrades = await detectUpgradeCandidates(supabase, organizationId);
+      await storeUpgradePatterns(supabase, organizationId, upgrades);
+      const churn = await detectChurnRisk(supabase, organizationId);
+      await storeChurnPatterns(supabase, organizationId, churn);
+      const seasonality = await analyzeSeasonality(supabase, organizationId);
+      await storeSeasonalPatterns(supabase, organizationId, seasonality);
+      return {
+        recordsProcessed: upgrades.candidates.length + churn.atRiskCustomers.length,
+        summary: {
+          upgradeCandidates: upgrades.candidates.length,
+          atRiskCustomers: churn.atRiskCustomers.length,
+          churnModelVersion: retrained?.model?.version ?? churnModel?.version ?? null,
+          churnModelRetrained: Boolean(retrained?.model),
+          expansionModelVersion: retrainedExpansion?.model?.version ?? expansionModel?.version ?? null,
+          expansionModelRetrained: Boolean(retrainedExpansion?.model),
+          hasSeasonality: seasonality.hasSeasonality,
+        },
+      };
+    }
+
+    case "value_metrics": {
+      const correlations = await analyzeMetricCorrelations(supabase, organizationId);
+      await storeCorrelationResults(supabase, organizationId, correlations);
+      return {
+        recordsProcessed: correlations.correlations.length,
+        summary: { correlations: correlations.correlations.length },
+      };
+    }
+
+    case "health_scores": {
+      const health = await calculateHealthScores(supabase, organizationId, { customerIds: dirty ?? undefined });
+      await storeHealthScores(supabase, organizationId, health.scores);
+      return {
+        recordsProcessed: health.scores.length,
+        summary: { scored: health.scores.length, distribution: health.distribution },
+      };
+    }
+
+    case "economics_snapshot": {
+      const survival = await analyzeSurvival(supabase, organizationId);
+      const ltvMetrics = await calculateLTV(supabase, organizationId, { survival });
+      const retentionMetrics = await calculateRetentionMetrics(supabase, organizationId);
+      const mrrGrowthMetrics = await calculateMRRGrowthMetrics(supabase, organizationId);
+      const priceElasticity = await estimatePriceElasticity(supabase, organizationId);
+      await createEconomicsSnapshot(supabase, organizationId, {
+        ltvMetrics,
+        retentionMetrics,
+        mrrGrowthMetrics,
+        totalCustomers: context.totalCustomers,
+        priceElasticity,
+        survival,
+      });
+      return {
+        recordsProcessed: 1,
+        summary: {
+          totalCustomers: context.totalCustomers,
+          priceChanges: priceElasticity.priceChanges,
+          elasticityEstimated: priceElasticity.pooled !== null,
+          monthlyChurnHazard: survival.overall.monthlyHazard,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Re-cluster when much has changed or the clustering is old; otherwise only
+ * re-score and re-place the changed customers
+ */
+async function runSegmentation(
+  supabase: DbClient,
+  organizationId: string,
+  dirty: string[] | null,
+  context: { state: AnalyticsModuleState; totalCustomers: number; now: Date }
+): Promise<ModuleOutcome> {
+  const lastReclustered = context.state.lastReclusteredAt;
+  const clusteringAgeDays = lastReclustered
+    ? (context.now.getTime() - new Date(lastReclustered).getTime()) / (1000 * 60 * 60 * 24)
+    : Infinity;
+  const recluster =
+    !dirty ||
+    clusteringAgeDays > RECLUSTER_MAX_AGE_DAYS ||
+    dirty.length >= context.totalCustomers * RECLUSTER_DIRTY_SHARE;
+
+  if (recluster) {
+    const segmentation = await runSegmentationAnalysis(supabase, organizationId);
+    await assignCustomersToSegments(supabase, organizationId, segmentation);
+    const rfmScores = await calculateRFMScores(supabase, organizationId);
+    await storeRFMScores(supabase, organizationId, rfmScores);
+    return {
+      recordsProcessed: rfmScores.length,
+      summary: { reclustered: true, segments: segmentation.segments.length },
+    };
+  }
+
+  // RFM scores are quintiles over every customer; only changed ones are stored
+  const dirtySet = new Set(dirty);
+  const rfmScores = (await calculateRFMScores(supabase, organizationId)).filter((s) => dirtySet.has(s.customerId));
+  await storeRFMScores(supabase, organizationId, rfmScores);
+
+  const placement = await assignChangedCustomers(supabase, organizationId, dirty);
+  await refreshSegmentStats(supabase, organizationId, placement.segmentIds);
+
+  return {
+    recordsProcessed: placement.customersChecked,
+    summary: {
+      reclustered: false,
+      reassigned: placement.reassigned,
+      segmentsRefreshed: placement.segmentIds.length,
+    },
+  };
+}
+
+async function countCustomers(supabase: DbClient, organizationId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("unified_customers")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", organizationId)
+    .eq("status", "active");
+  if (error) throw error;
+  return count ?? 0;
+}
@@ -0,0 +1,8 @@
+/**
+ * Analytics Runner Module
+ * Scheduled, incremental analytics refreshes backed by analytics_run_log
+ */
+
+export * from "./schedule";
+export * from "./dirty-set";
+export * from "./incremental-runner";
@@ -0,0 +1,160 @@
+/**
+ * Analytics Module Schedule
+ * The modules an analytics refresh is made of, how often each may run, and
+ * where each last left off according to analytics_run_log
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AnalyticsRunLog, Database, Json } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+export type AnalyticsModule =
+  | "cohort_retention"
+  | "segmentation"
+  | "pattern_detection"
+  | "value_metrics"
+  | "health_scores"
+  | "economics_snapshot";
+
+export interface AnalyticsModuleDefinition {
+  module: AnalyticsModule;
+  label: string;
+  // "customer" modules recompute only changed customers; "global" ones
+  // recompute organization-wide results whenever anything changed
+  scope: "customer" | "global";
+  intervalMinutes: number; // Default minimum time between scheduled runs
+}
+
+// In run order: segments before the patterns and health scores that read
+// them, the economics snapshot last
+export const ANALYTICS_MODULES: AnalyticsModuleDefinition[] = [
+  { module: "cohort_retention", label: "Cohort retention", scope: "global", intervalMinutes: 24 * 60 },
+  { module: "segmentation", label: "Segmentation and RFM", scope: "customer", intervalMinutes: 60 },
+  { module: "pattern_detection", label: "Behavioral patterns", scope: "global", intervalMinutes: 6 * 60 },
+  { module: "value_metrics", label: "Value metric correlations", scope: "global", intervalMinutes: 7 * 24 * 60 },
+  { module: "health_scores", label: "Health scores", scope: "customer", intervalMinutes: 60 },
+  { module: "economics_snapshot", label: "Economics snapshot", scope: "global", intervalMinutes: 24 * 60 },
+];
+
+/** Minutes between scheduled runs, per module */
+export type AnalyticsSchedule = Record<AnalyticsModule, number>;
+
+export interface AnalyticsModuleState {
+  module: AnalyticsModule;
+  intervalMinutes: number;
+  lastRunId: string | null;
+  lastCompletedAt: string | null;
+  // Data changed after this was not seen by the last run
+  watermark: string | null;
+  nextDueAt: string | null; // Null when the module has never run
+  // Segmentation only: when customers were last fully re-clustered
+  lastReclusteredAt?: string | null;
+}
+
+// How far back to look for each module's last run
+const STATE_LOOKBACK_ROWS = 200;
+
+export function isAnalyticsModule(value: unknown): value is AnalyticsModule {
+  return ANALYTICS_MODULES.some((m) => m.module === value);
+}
+
+/**
+ * Default intervals with the organization's overrides from
+ * organizations.settings.analytics_schedule
+ */
+export async function getAnalyticsSchedule(supabase: DbClient, organizationId: string): Promise<AnalyticsSchedule> {
+  const settings = await getSettings(supabase, organizationId);
+  const overrides = (settings.analytics_schedule ?? {}) as Record<string, unknown>;
+
+  const schedule = {} as AnalyticsSchedule;
+  for (const { module, intervalMinutes } of ANALYTICS_MODULES) {
+    const override = overrides[module];
+    schedule[module] = typeof override === "number" && override >= 0 ? override : intervalMinutes;
+  }
+  return schedule;
+}
+
+/**
+ * Store interval overrides; modules not mentioned keep theirs
+ */
+export async function updateAnalyticsSchedule(
+  supabase: DbClient,
+  organizationId: string,
+  intervals: Partial<AnalyticsSchedule>
+): Promise<AnalyticsSchedule> {
+  const settings = await getSettings(supabase, organizationId);
+  const current = (settings.analytics_schedule ?? {}) as Record<string, number>;
+
+  const { error } = await supabase
+    .from("organizations")
+    .update({ settings: { ...settings, analytics_schedule: { ...current, ...intervals } } } as never)
+    .eq("id", organizationId);
+  if (error) throw error;
+
+  return getAnalyticsSchedule(supabase, organizationId);
+}
+
+/**
+ * Where each module last left off. A full refresh counts as a run of every
+ * module.
+ */
+export async function getModuleStates(
+  supabase: DbClient,
+  organizationId: string,
+  schedule?: AnalyticsSchedule
+): Promise<Record<AnalyticsModule, AnalyticsModuleState>> {
+  const intervals = schedule ?? (await getAnalyticsSchedule(supabase, organizationId));
+
+  const { data, error } = await supabase
+    .from("analytics_run_log")
+    .select("id, run_type, started_at, completed_at, data_watermark, result_summary")
+    .eq("organization_id", organizationId)
+    .eq("status", "completed")
+    .in("run_type", ["full_refresh", ...ANALYTICS_MODULES.map((m) => m.module)])
+    .order("started_at", { ascending: false })
+    .limit(STATE_LOOKBACK_ROWS);
+  if (error) throw error;
+
+  type RunRow = Pick<AnalyticsRunLog, "id" | "run_type" | "started_at" | "completed_at" | "data_watermark" | "result_summary">;
+  const rows = (data || []) as RunRow[];
+
+  const states = {} as Record<AnalyticsModule, AnalyticsModuleState>;
+  for (const { module } of ANALYTICS_MODULES) {
+    const last = rows.find((r) => r.run_type === module || r.run_type === "full_refresh");
+    const completedAt = last ? last.completed_at ?? last.started_at : null;
+    states[module] = {
+      module,
+      intervalMinutes: intervals[module],
+      lastRunId: last?.id ?? null,
+      lastCompletedAt: completedAt,
+      watermark: last ? last.data_watermark ?? last.started_at : null,
+      nextDueAt: completedAt
+        ? new Date(new Date(completedAt).getTime() + intervals[module] * 60 * 1000).toISOString()
+        : null,
+    };
+  }
+
+  const reclustered = rows.find(
+    (r) => r.run_type === "full_refresh" || (r.run_type === "segmentation" && isReclusterRun(r.result_summary))
+  );
+  states.segmentation.lastReclusteredAt = reclustered ? reclustered.completed_at ?? reclustered.started_at : null;
+
+  return states;
+}
+
+function isReclusterRun(summary: Json): boolean {
+  return !!summary && typeof summary === "object" && !Array.isArray(summary) && summary.reclustered === true;
+}
+
+async function getSettings(supabase: DbClient, organizationId: string): Promise<Record<string, Json | undefined>> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", organizationId)
+    .single();
+  if (error && error.code !== "PGRST116") throw error;
+
+  const settings = (data as { settings?: Json } | null)?.settings;
+  return settings && typeof settings === "object" && !Array.isArray(settings) ? { ...settings } : {};
+}
@@ -0,0 +1,146 @@
+/**
+ * Incremental Segment Assignment
+ * Between full re-clusterings, places changed customers in the existing
+ * segment whose MRR range fits them (or whose average MRR is closest) and
+ * refreshes the economics of the segments they left or joined
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+const LOOKUP_CHUNK = 200;
+const PAGE_SIZE = 1000;
+
+export interface IncrementalSegmentationResult {
+  customersChecked: number;
+  reassigned: number;
+  segmentIds: string[]; // Segments whose membership or economics may have changed
+}
+
+type SegmentRange = { id: string; avgMrr: number; min: number; max: number };
+
+/**
+ * Keep each changed active customer in its segment while its MRR still fits
+ * the segment's range; otherwise move it to the best-fitting segment
+ */
+export async function assignChangedCustomers(
+  supabase: DbClient,
+  organizationId: string,
+  customerIds: string[]
+): Promise<IncrementalSegmentationResult> {
+  const { data: segmentsRaw, error: segmentsError } = await supabase
+    .from("segments")
+    .select("id, criteria, avg_mrr")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true);
+  if (segmentsError) throw segmentsError;
+
+  const segments = ((segmentsRaw || []) as { id: string; criteria: Record<string, unknown> | null; avg_mrr: number | null }[])
+    .map((s) => ({ id: s.id, avgMrr: Number(s.avg_mrr) || 0, ...mrrRange(s.criteria) }));
+  if (segments.length === 0) return { customersChecked: 0, reassigned: 0, segmentIds: [] };
+
+  type CustomerSegment = { id: string; mrr: number | null; status: string | null; segment_id: string | null };
+  const customers: CustomerSegment[] = [];
+  for (let i = 0; i < customerIds.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from("unified_customers")
+      .select("id, mrr, status, segment_id")
+      .eq("organization_id", organizationId)
+      .in("id", customerIds.slice(i, i + LOOKUP_CHUNK));
+    if (error) throw error;
+    customers.push(...((data || []) as CustomerSegment[]));
+  }
+
+  const touched = new Set<string>();
+  const moves = new Map<string, string[]>();
+  for (const customer of customers) {
+    if (customer.segment_id) touched.add(customer.segment_id);
+    // Churned customers stay where they were; segment economics only count active ones
+    if (customer.status !== "active") continue;
+
+    const mrr = Number(customer.mrr) || 0;
+    const current = segments.find((s) => s.id === customer.segment_id);
+    if (current && mrr >= current.min && mrr <= current.max) continue;
+
+    const target = bestSegment(segments, mrr);
+    if (target.id === customer.segment_id) continue;
+    if (!moves.has(target.id)) moves.set(target.id, []);
+    moves.get(target.id)!.push(customer.id);
+    touched.add(target.id);
+  }
+
+  let reassigned = 0;
+  for (const [segmentId, ids] of moves) {
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK) {
+      const { error } = await supabase
+        .from("unified_customers")
+        .update({ segment_id: segmentId } as never)
+        .eq("organization_id", organizationId)
+        .in("id", ids.slice(i, i + LOOKUP_CHUNK));
+      if (error) throw error;
+    }
+    reassigned += ids.length;
+  }
+
+  return { customersChecked: customers.length, reassigned, segmentIds: [...touched] };
+}
+
+/**
+ * Recount customers and revenue for the given segments from their current
+ * active members
+ */
+export async function refreshSegmentStats(
+  supabase: DbClient,
+  organizationId: string,
+  segmentIds: string[]
+): Promise<void> {
+  for (const segmentId of segmentIds) {
+    const mrrs: number[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("unified_customers")
+        .select("id, mrr")
+        .eq("organization_id", organizationId)
+        .eq("segment_id", segmentId)
+        .eq("status", "active")
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+      mrrs.push(...((data || []) as { mrr: number | null }[]).map((c) => Number(c.mrr) || 0));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const totalRevenue = mrrs.reduce((sum, mrr) => sum + mrr, 0);
+    const { error } = await supabase
+      .from("segments")
+      .update({
+        customer_count: mrrs.length,
+        total_revenue: totalRevenue,
+        avg_mrr: mrrs.length > 0 ? totalRevenue / mrrs.length : 0,
+      } as never)
+      .eq("organization_id", organizationId)
+      .eq("id", segmentId);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Generated segments store `mrrRange: { min, max }`; hand-made ones may use
+ * `mrr_range: [min, max]`
+ */
+function mrrRange(criteria: Record<string, unknown> | null): { min: number; max: number } {
+  const generated = criteria?.mrrRange as { min?: number; max?: number } | undefined;
+  const manual = criteria?.mrr_range as [number, number] | undefined;
+  return {
+    min: generated?.min ?? manual?.[0] ?? -Infinity,
+    max: generated?.max ?? manual?.[1] ?? Infinity,
+  };
+}
+
+function bestSegment(segments: SegmentRange[], mrr: number): SegmentRange {
+  const fitting = segments.filter((s) => mrr >= s.min && mrr <= s.max);
+  const candidates = fitting.length > 0 ? fitting : segments;
+  return candidates.reduce((best, s) => (Math.abs(s.avgMrr - mrr) < Math.abs(best.avgMrr - mrr) ? s : best));
+}
@@ -27,3 +27,9 @@ export {
   type SegmentDefinition,
   type SegmentationAnalysisResult,
 } from "./segment-assigner";
+
+export {
+  assignChangedCustomers,
+  refreshSegmentStats,
+  type IncrementalSegmentationResult,
+} from "./incremental-assigner";
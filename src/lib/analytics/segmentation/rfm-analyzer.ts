@@ -57,11 +57,16 @@ export async function calculateRFMScores(
   // Get transaction data per customer
   const { data: transactionsRaw } = await supabase
     .from("transactions")
-    .select("customer_id, amount, occurred_at")
+    .select("customer_id, amount, reporting_amount, occurred_at")
     .eq("organization_id", organizationId)
     .gte("occurred_at", cutoffDate.toISOString());
 
-  type Transaction = { customer_id: string; amount: number | null; occurred_at: string };
+  type Transaction = {
+    customer_id: string;
+    amount: number | null;
+    reporting_amount: number | null; // Null until converted; amount is then already in the reporting currency or has no rate
+    occurred_at: string;
+  };
   const transactions = (transactionsRaw || []) as Transaction[];
 
   // Aggregate by customer
@@ -91,7 +96,7 @@ export async function calculateRFMScores(
     }
 
     data.transactionCount++;
-    data.totalRevenue += Number(tx.amount) || 0;
+    data.totalRevenue += Number(tx.reporting_amount ?? tx.amount) || 0;
   }
 
   // If no transactions, fall back to customer MRR data
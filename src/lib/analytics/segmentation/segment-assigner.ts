@@ -338,17 +338,29 @@ export async function assignCustomersToSegments(
   const segments = (segmentsRaw || []) as SegmentId[];
   const segmentIdMap = new Map(segments.map((s) => [s.name, s.id]));
 
+  // Current assignments, so customers already in place aren't rewritten
+  // (a rewrite bumps updated_at and marks them changed for incremental runs)
+  const { data: assignedRaw } = await supabase
+    .from("unified_customers")
+    .select("id, segment_id")
+    .eq("organization_id", organizationId)
+    .eq("status", "active");
+  const currentSegment = new Map(
+    ((assignedRaw || []) as { id: string; segment_id: string | null }[]).map((c) => [c.id, c.segment_id])
+  );
+
   // Update customer segment assignments
   for (const cluster of analysisResult.clusteringResult.clusters) {
     const segmentName = cluster.suggestedName;
     const segmentId = segmentIdMap.get(segmentName);
 
     if (!segmentId) continue;
+    const members = cluster.members.filter((id) => currentSegment.get(id) !== segmentId);
 
     // Update in batches
     const batchSize = 500;
-    for (let i = 0; i < cluster.members.length; i += batchSize) {
-      const batch = cluster.members.slice(i, i + batchSize);
+    for (let i = 0; i < members.length; i += batchSize) {
+      const batch = members.slice(i, i + batchSize);
       await supabase
         .from("unified_customers")
         .update({ segment_id: segmentId } as never)
@@ -0,0 +1,17 @@
+/**
+ * Usage Module
+ * Exports usage aggregation functions
+ */
+
+export {
+  usageMetricKey,
+  resolveMetricLimit,
+  summarizeUsage,
+  getUsageSummaries,
+  getMonthlyUsage,
+  getPrimaryUsageMetric,
+  type MetricLimit,
+  type CustomerUsageSummary,
+  type MonthlyUsage,
+  type UsageAggregationOptions,
+} from "./usage-aggregator";
@@ -0,0 +1,283 @@
+/**
+ * Usage Aggregator
+ * Rolls per-day usage records up into per-customer, per-metric summaries
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, UsageRecord } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Usage in the most recent TREND_DAYS is compared with the TREND_DAYS before
+const TREND_DAYS = 30;
+
+export type MetricLimit = number | "unlimited";
+
+export interface CustomerUsageSummary {
+  customerId: string;
+  metric: string;
+  total: number;
+  activeDays: number; // Days with any usage in the window
+  avgDaily: number; // Over every day of the window, idle days included
+  monthlyAverage: number; // Usage per 30 days
+  recentTotal: number; // Last 30 days
+  priorTotal: number; // The 30 days before that
+  trend: number | null; // Fractional change recent vs prior; null without prior usage
+  lastUsedOn: string | null; // YYYY-MM-DD
+  daysSinceLastUse: number | null;
+  limit: MetricLimit | null; // The customer's tier limit for the metric
+  utilization: number | null; // monthlyAverage / limit
+}
+
+export interface MonthlyUsage {
+  month: string; // YYYY-MM
+  metric: string;
+  total: number;
+  customers: number; // Customers with any usage that month
+}
+
+export interface UsageAggregationOptions {
+  windowDays?: number;
+  asOf?: Date;
+  metrics?: string[];
+  customerIds?: string[];
+}
+
+type UsageRow = Pick<UsageRecord, "customer_id" | "metric" | "usage_date" | "quantity">;
+
+/**
+ * Key usage records are stored under: the snake_case form of a value metric
+ * or limit name ("API calls" → "api_calls")
+ */
+export function usageMetricKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * A tier's limit for a metric. Limits are keyed loosely ("labels" for
+ * "shipping labels"), so the primary metric falls back to the first limit,
+ * the same convention the value metric examples use.
+ */
+export function resolveMetricLimit(
+  limits: Record<string, MetricLimit> | null | undefined,
+  metric: string,
+  primaryMetric: string | null
+): MetricLimit | null {
+  if (!limits) return null;
+  const entries = Object.entries(limits);
+  const match = entries.find(([name]) => usageMetricKey(name) === metric);
+  if (match) return match[1];
+  if (metric === primaryMetric && entries.length > 0) return entries[0][1];
+  return null;
+}
+
+/**
+ * Summarize usage rows per customer and metric over the window ending asOf
+ */
+export function summarizeUsage(
+  rows: UsageRow[],
+  options: { windowDays?: number; asOf?: Date } = {}
+): CustomerUsageSummary[] {
+  const windowDays = options.windowDays ?? 90;
+  const asOf = startOfDay(options.asOf ?? new Date());
+  const windowStart = asOf.getTime() - (windowDays - 1) * DAY_MS;
+  const recentStart = asOf.getTime() - (TREND_DAYS - 1) * DAY_MS;
+  const priorStart = recentStart - TREND_DAYS * DAY_MS;
+
+  const groups = new Map<string, UsageRow[]>();
+  for (const row of rows) {
+    const key = `${row.customer_id}|${row.metric}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const summaries: CustomerUsageSummary[] = [];
+  for (const group of groups.values()) {
+    let total = 0;
+    let recentTotal = 0;
+    let priorTotal = 0;
+    let lastUsed = -Infinity;
+    const activeDays = new Set<string>();
+
+    for (const row of group) {
+      const day = Date.parse(`${row.usage_date}T00:00:00Z`);
+      const quantity = Number(row.quantity) || 0;
+      if (day < windowStart || day > asOf.getTime() || quantity <= 0) continue;
+
+      total += quantity;
+      activeDays.add(row.usage_date);
+      if (day >= recentStart) recentTotal += quantity;
+      else if (day >= priorStart) priorTotal += quantity;
+      lastUsed = Math.max(lastUsed, day);
+    }
+
+    const hasUsage = lastUsed > -Infinity;
+    summaries.push({
+      customerId: group[0].customer_id,
+      metric: group[0].metric,
+      total,
+      activeDays: activeDays.size,
+      avgDaily: total / windowDays,
+      monthlyAverage: (total / windowDays) * 30,
+      recentTotal,
+      priorTotal,
+      trend: priorTotal > 0 ? (recentTotal - priorTotal) / priorTotal : null,
+      lastUsedOn: hasUsage ? new Date(lastUsed).toISOString().split("T")[0] : null,
+      daysSinceLastUse: hasUsage ? Math.round((asOf.getTime() - lastUsed) / DAY_MS) : null,
+      limit: null,
+      utilization: null,
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Usage summaries for an organization, with each customer's tier limit and
+ * utilization filled in
+ */
+export async function getUsageSummaries(
+  supabase: DbClient,
+  organizationId: string,
+  options: UsageAggregationOptions = {}
+): Promise<CustomerUsageSummary[]> {
+  const windowDays = options.windowDays ?? 90;
+  const asOf = options.asOf ?? new Date();
+  const from = new Date(startOfDay(asOf).getTime() - (windowDays - 1) * DAY_MS);
+
+  const rows = await selectUsageRows(supabase, organizationId, from, asOf, options);
+  const summaries = summarizeUsage(rows, { windowDays, asOf });
+  if (summaries.length === 0) return summaries;
+
+  const [primaryMetric, limitsByCustomer] = await Promise.all([
+    getPrimaryUsageMetric(supabase, organizationId),
+    getCustomerTierLimits(supabase, organizationId),
+  ]);
+
+  for (const summary of summaries) {
+    const limit = resolveMetricLimit(limitsByCustomer.get(summary.customerId), summary.metric, primaryMetric);
+    summary.limit = limit;
+    summary.utilization = typeof limit === "number" && limit > 0 ? summary.monthlyAverage / limit : null;
+  }
+
+  return summaries;
+}
+
+/**
+ * Total usage per calendar month and metric, optionally for one customer
+ */
+export async function getMonthlyUsage(
+  supabase: DbClient,
+  organizationId: string,
+  options: { months?: number; metric?: string; customerId?: string; asOf?: Date } = {}
+): Promise<MonthlyUsage[]> {
+  const asOf = options.asOf ?? new Date();
+  const from = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - ((options.months ?? 12) - 1), 1));
+
+  const rows = await selectUsageRows(supabase, organizationId, from, asOf, {
+    metrics: options.metric ? [options.metric] : undefined,
+    customerIds: options.customerId ? [options.customerId] : undefined,
+  });
+
+  const months = new Map<string, { total: number; customers: Set<string> }>();
+  for (const row of rows) {
+    const key = `${row.usage_date.slice(0, 7)}|${row.metric}`;
+    if (!months.has(key)) months.set(key, { total: 0, customers: new Set() });
+    const month = months.get(key)!;
+    month.total += Number(row.quantity) || 0;
+    month.customers.add(row.customer_id);
+  }
+
+  return [...months.entries()]
+    .map(([key, month]) => {
+      const [monthKey, metric] = key.split("|");
+      return { month: monthKey, metric, total: month.total, customers: month.customers.size };
+    })
+    .sort((a, b) => a.month.localeCompare(b.month) || a.metric.localeCompare(b.metric));
+}
+
+/**
+ * Usage key of the organization's primary value metric, if it has one
+ */
+export async function getPrimaryUsageMetric(
+  supabase: DbClient,
+  organizationId: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from("value_metrics")
+    .select("name")
+    .eq("organization_id", organizationId)
+    .eq("metric_type", "primary")
+    .eq("is_active", true)
+    .limit(1);
+
+  const rows = (data || []) as { name: string }[];
+  return rows.length > 0 ? usageMetricKey(rows[0].name) : null;
+}
+
+async function getCustomerTierLimits(
+  supabase: DbClient,
+  organizationId: string
+): Promise<Map<string, Record<string, MetricLimit>>> {
+  const [{ data: customersRaw }, { data: tiersRaw }] = await Promise.all([
+    supabase
+      .from("unified_customers")
+      .select("id, current_tier_id")
+      .eq("organization_id", organizationId)
+      .not("current_tier_id", "is", null),
+    supabase
+      .from("pricing_tiers")
+      .select("id, value_metric_limits")
+      .eq("organization_id", organizationId),
+  ]);
+
+  const tiers = (tiersRaw || []) as { id: string; value_metric_limits: Record<string, MetricLimit> | null }[];
+  const limitsByTier = new Map(tiers.map((t) => [t.id, t.value_metric_limits || {}]));
+
+  const limitsByCustomer = new Map<string, Record<string, MetricLimit>>();
+  for (const customer of (customersRaw || []) as { id: string; current_tier_id: string | null }[]) {
+    const limits = customer.current_tier_id ? limitsByTier.get(customer.current_tier_id) : undefined;
+    if (limits) limitsByCustomer.set(customer.id, limits);
+  }
+  return limitsByCustomer;
+}
+
+async function selectUsageRows(
+  supabase: DbClient,
+  organizationId: string,
+  from: Date,
+  to: Date,
+  filters: { metrics?: string[]; customerIds?: string[] }
+): Promise<UsageRow[]> {
+  const rows: UsageRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from("usage_records")
+      .select("customer_id, metric, usage_date, quantity")
+      .eq("organization_id", organizationId)
+      .gte("usage_date", toDateString(from))
+      .lte("usage_date", toDateString(to));
+    if (filters.metrics) query = query.in("metric", filters.metrics);
+    if (filters.customerIds) query = query.in("customer_id", filters.customerIds);
+
+    const { data, error } = await query.order("id").range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as UsageRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
@@ -5,6 +5,7 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/database";
+import { getUsageSummaries, type CustomerUsageSummary } from "../usage";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -208,6 +209,18 @@ async function getCustomerMetricsWithOutcomes(
     }
   }
 
+  // Recorded usage in the window before the cutoff, so it predates the
+  // outcomes (churned customers go quiet after churning)
+  const usageSummaries = await getUsageSummaries(supabase, organizationId, {
+    asOf: cutoffDate,
+  });
+  const usageByCustomer = new Map<string, CustomerUsageSummary[]>();
+  for (const summary of usageSummaries) {
+    if (!usageByCustomer.has(summary.customerId)) usageByCustomer.set(summary.customerId, []);
+    usageByCustomer.get(summary.customerId)!.push(summary);
+  }
+  const usageMetrics = [...new Set(usageSummaries.map((u) => u.metric))];
+
   // Build metrics for each customer
   const result: CustomerMetrics[] = [];
 
@@ -228,16 +241,32 @@ async function getCustomerMetricsWithOutcomes(
       churned && customer.churned_at && new Date(customer.churned_at) > cutoffDate;
     const expansionAmount = expansionByCustomer.get(customer.id) || 0;
 
+    const metrics: Record<string, number> = {
+      mrr,
+      tenure_months: tenure,
+      company_size: companySize,
+    };
+
+    if (usageMetrics.length > 0) {
+      // Customers with no usage of a metric recorded used none of it
+      for (const metric of usageMetrics) {
+        metrics[`${metric}_monthly`] = 0;
+        metrics[`${metric}_active_days`] = 0;
+      }
+      for (const usage of usageByCustomer.get(customer.id) || []) {
+        metrics[`${usage.metric}_monthly`] = usage.monthlyAverage;
+        metrics[`${usage.metric}_active_days`] = usage.activeDays;
+        if (usage.trend !== null) metrics[`${usage.metric}_trend`] = usage.trend;
+        if (usage.utilization !== null) metrics[`${usage.metric}_utilization`] = usage.utilization;
+      }
+    } else {
+      // No usage recorded: fall back to a spend-based proxy
+      metrics.mrr_per_employee = mrr / Math.max(companySize * 10, 1); // Rough estimate
+    }
+
     result.push({
       customerId: customer.id,
-      metrics: {
-        mrr,
-        tenure_months: tenure,
-        company_size: companySize,
-        mrr_per_employee: mrr / Math.max(companySize * 10, 1), // Rough estimate
-        // In production, would include actual usage metrics:
-        // api_calls_monthly, active_users, feature_adoption, etc.
-      },
+      metrics,
       outcome: {
         retained: !churnedAfterCutoff,
         expanded: expansionAmount > 0,
@@ -315,7 +344,23 @@ function getMetricDescription(metricName: string): string {
     login_frequency: "Average logins per week",
   };
 
-  return descriptions[metricName] || metricName.replace(/_/g, " ");
+  if (descriptions[metricName]) return descriptions[metricName];
+
+  // Usage metrics are named <metric key>_<aggregate>
+  const usage = metricName.match(/^(.+)_(monthly|active_days|trend|utilization)$/);
+  if (usage) {
+    const metric = usage[1].replace(/_/g, " ");
+    const aggregates: Record<string, string> = {
+      monthly: `${metric} per month`,
+      active_days: `Days with ${metric} usage`,
+      trend: `${metric} usage trend (last 30 days vs prior)`,
+      utilization: `${metric} as a share of the tier limit`,
+    };
+    const description = aggregates[usage[2]];
+    return description.charAt(0).toUpperCase() + description.slice(1);
+  }
+
+  return metricName.replace(/_/g, " ");
 }
 
 /**
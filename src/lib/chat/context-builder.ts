@@ -128,10 +128,14 @@ export function buildSystemPromptFromDb(
   ontologyContext: string,
   agentId?: AgentId,
   companyName?: string,
-  currencySymbol?: string
+  currencySymbol?: string,
+  reportingCurrency?: string
 ): string {
   const name = companyName ?? "B2B SaaS company";
   const currency = currencySymbol ?? "€";
+  const currencyInstruction = reportingCurrency
+    ? `- All amounts are in ${reportingCurrency}; format them with the ${currency} symbol and thousand separators, and say when a figure was converted from another currency`
+    : `- Format currency with ${currency} symbol and thousand separators`;
 
   const basePrompt = `You are a pricing analyst assistant for ${name}.
 You have access to REAL business data from the database and should answer questions with ACTUAL numbers from the data below.
@@ -142,7 +146,7 @@ ${ontologyContext}
 
 ## Instructions
 - Always cite specific numbers from the data above
-- Format currency with ${currency} symbol and thousand separators
+${currencyInstruction}
 - Format percentages with one decimal place
 - Be concise but comprehensive
 - If asked about something not in the data, say so clearly
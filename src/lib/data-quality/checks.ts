@@ -0,0 +1,272 @@
+/**
+ * Data Quality Checks
+ *
+ * Pure checks over already-loaded rows. Each check measures the share of
+ * records with a problem and scores it against the share at which the
+ * problem blocks analysis: 0% scores 100, the blocking share scores 0.
+ */
+
+import type {
+  DataQualityCheckId,
+  DataQualityCheckResult,
+  DataQualityIssue,
+  DataQualityReport,
+} from "@/types/data-quality";
+
+export interface DataQualityCustomer {
+  id: string;
+  email: string | null;
+  status: string;
+  segment_id: string | null;
+  current_tier_id: string | null;
+  churned_at: string | null;
+  mrr: number;
+  billing_interval: "monthly" | "annual" | null;
+}
+
+export interface DataQualityInput {
+  organizationId: string;
+  customers: DataQualityCustomer[];
+  tiers: { id: string; name: string }[]; // Active tiers
+  // Subscription revenue invoiced per customer over one billing month;
+  // annual customers' invoices cover twelve
+  invoicedByCustomer: Map<string, number>;
+  invoiceMonth: string | null; // YYYY-MM of the invoices; null when there are none
+  // Defaults the pricing loader substituted for missing data
+  fallbacks: string[];
+  now?: Date;
+}
+
+interface CheckOutcome {
+  result: DataQualityCheckResult;
+  issues: DataQualityIssue[];
+}
+
+interface Thresholds {
+  warnAbove: number; // Problem share above which the check warns
+  blockAt: number; // Problem share at which the check blocks
+}
+
+const CHECKS: Record<DataQualityCheckId, { label: string; weight: number } & Thresholds> = {
+  segment_coverage: { label: "Segment assignments", weight: 0.25, warnAbove: 0.1, blockAt: 0.5 },
+  empty_tiers: { label: "Tiers with customers", weight: 0.15, warnAbove: 0, blockAt: 1 },
+  churn_dates: { label: "Churn dates", weight: 0.15, warnAbove: 0, blockAt: 0.5 },
+  mrr_reconciliation: { label: "MRR vs invoices", weight: 0.25, warnAbove: 0.1, blockAt: 0.5 },
+  duplicate_emails: { label: "Duplicate emails", weight: 0.1, warnAbove: 0, blockAt: 0.1 },
+  fallback_defaults: { label: "Defaults in place of data", weight: 0.1, warnAbove: 0, blockAt: Infinity },
+};
+
+// A customer's invoices and MRR disagree when they differ by more than this
+const RECONCILIATION_TOLERANCE = 0.1;
+
+// Each substituted default costs this much of the fallback check's score
+const FALLBACK_PENALTY = 25;
+
+const MAX_EXAMPLES = 5;
+
+/**
+ * Run every check and score the data
+ */
+export function buildDataQualityReport(input: DataQualityInput): DataQualityReport {
+  const outcomes = [
+    checkSegmentCoverage(input),
+    checkEmptyTiers(input),
+    checkChurnDates(input),
+    checkMrrReconciliation(input),
+    checkDuplicateEmails(input),
+    checkFallbacks(input),
+  ];
+
+  const checks = outcomes.map((o) => o.result);
+  const issues = outcomes.flatMap((o) => o.issues);
+
+  // Skipped checks drop out of the weighting
+  const scored = checks.filter((c) => c.status !== "skipped");
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight > 0
+    ? Math.round(scored.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight)
+    : 0;
+
+  return {
+    organization_id: input.organizationId,
+    generated_at: (input.now ?? new Date()).toISOString(),
+    score,
+    blocking: issues.some((i) => i.severity === "blocking"),
+    checks,
+    issues,
+    confidence_factor: dataQualityConfidenceFactor(score),
+  };
+}
+
+/**
+ * How much of its confidence the council keeps at a given score: all of it
+ * at 100, 60% at 0
+ */
+export function dataQualityConfidenceFactor(score: number): number {
+  return Math.round((0.6 + 0.4 * Math.max(0, Math.min(100, score)) / 100) * 100) / 100;
+}
+
+function checkSegmentCoverage(input: DataQualityInput): CheckOutcome {
+  const active = input.customers.filter((c) => c.status !== "churned");
+  const unassigned = active.filter((c) => !c.segment_id);
+
+  return measure("segment_coverage", unassigned.length, active.length, {
+    detail: `${active.length - unassigned.length} of ${active.length} active customers have a segment`,
+    message: `${unassigned.length} active customers have no segment; segment economics and elasticities leave them out`,
+    examples: unassigned.map((c) => c.id),
+  });
+}
+
+function checkEmptyTiers(input: DataQualityInput): CheckOutcome {
+  if (input.tiers.length === 0) {
+    return {
+      result: result("empty_tiers", 0, "blocking", null, "No active pricing tiers"),
+      issues: [{
+        check: "empty_tiers",
+        severity: "blocking",
+        message: "No active pricing tiers; options would be generated against default tiers",
+        affected: 0,
+      }],
+    };
+  }
+
+  const tierIds = new Set(
+    input.customers.filter((c) => c.status !== "churned" && c.current_tier_id).map((c) => c.current_tier_id)
+  );
+  const empty = input.tiers.filter((t) => !tierIds.has(t.id));
+
+  return measure("empty_tiers", empty.length, input.tiers.length, {
+    detail: `${input.tiers.length - empty.length} of ${input.tiers.length} active tiers have active customers`,
+    message: `${empty.length} active tiers have no active customers: ${empty.map((t) => t.name).join(", ")}`,
+    examples: empty.map((t) => t.name),
+  });
+}
+
+function checkChurnDates(input: DataQualityInput): CheckOutcome {
+  const churned = input.customers.filter((c) => c.status === "churned");
+  const undated = churned.filter((c) => !c.churned_at);
+
+  return measure("churn_dates", undated.length, churned.length, {
+    detail: `${churned.length - undated.length} of ${churned.length} churned customers have a churn date`,
+    message: `${undated.length} churned customers have no churned_at; retention and survival curves can't place them`,
+    examples: undated.map((c) => c.id),
+  });
+}
+
+function checkMrrReconciliation(input: DataQualityInput): CheckOutcome {
+  const invoiced = input.customers.filter(
+    (c) => c.status !== "churned" && c.mrr > 0 && input.invoicedByCustomer.has(c.id)
+  );
+
+  if (!input.invoiceMonth || invoiced.length === 0) {
+    return {
+      result: result("mrr_reconciliation", 0, "skipped", null, "No subscription invoices to reconcile against"),
+      issues: [{
+        check: "mrr_reconciliation",
+        severity: "warning",
+        message: "No subscription invoices for paying customers; MRR can't be checked against billing",
+        affected: 0,
+      }],
+    };
+  }
+
+  // An annual invoice pays for twelve months of MRR
+  const monthlyInvoiced = (c: DataQualityCustomer) =>
+    (input.invoicedByCustomer.get(c.id) ?? 0) / (c.billing_interval === "annual" ? 12 : 1);
+  const mismatched = invoiced.filter((c) => Math.abs(monthlyInvoiced(c) - c.mrr) / c.mrr > RECONCILIATION_TOLERANCE);
+  const totalMrr = invoiced.reduce((sum, c) => sum + c.mrr, 0);
+  const totalInvoiced = invoiced.reduce((sum, c) => sum + monthlyInvoiced(c), 0);
+  const deviation = totalMrr > 0 ? (totalInvoiced - totalMrr) / totalMrr : 0;
+
+  return measure("mrr_reconciliation", mismatched.length, invoiced.length, {
+    detail: `${input.invoiceMonth} invoices are ${formatSignedPercent(deviation)} against MRR for ` +
+      `${invoiced.length} invoiced customers`,
+    message: `${mismatched.length} customers' ${input.invoiceMonth} subscription invoices differ from their MRR ` +
+      `by more than ${Math.round(RECONCILIATION_TOLERANCE * 100)}%`,
+    examples: mismatched.map((c) => c.id),
+  });
+}
+
+function checkDuplicateEmails(input: DataQualityInput): CheckOutcome {
+  const byEmail = new Map<string, number>();
+  for (const c of input.customers) {
+    const email = c.email?.trim().toLowerCase();
+    if (email) byEmail.set(email, (byEmail.get(email) ?? 0) + 1);
+  }
+  const duplicated = [...byEmail].filter(([, count]) => count > 1);
+  // Every customer beyond the first per email is a likely duplicate
+  const extra = duplicated.reduce((sum, [, count]) => sum + count - 1, 0);
+
+  return measure("duplicate_emails", extra, input.customers.length, {
+    detail: `${duplicated.length} email address${duplicated.length === 1 ? " is" : "es are"} shared by more than one customer`,
+    message: `${extra} customers share an email with another customer; they may be counted twice until merged`,
+    examples: duplicated.map(([email]) => email),
+  });
+}
+
+function checkFallbacks(input: DataQualityInput): CheckOutcome {
+  const count = input.fallbacks.length;
+  return {
+    result: result(
+      "fallback_defaults",
+      Math.max(0, 100 - count * FALLBACK_PENALTY),
+      count > 0 ? "warning" : "pass",
+      count,
+      count > 0 ? `${count} inputs use defaults` : "Every input comes from data"
+    ),
+    issues: input.fallbacks.map((message) => ({
+      check: "fallback_defaults" as const,
+      severity: "warning" as const,
+      message,
+      affected: 0,
+    })),
+  };
+}
+
+/**
+ * Score a problem share against the check's thresholds, with one issue when
+ * it warns or blocks
+ */
+function measure(
+  id: DataQualityCheckId,
+  problems: number,
+  total: number,
+  text: { detail: string; message: string; examples: string[] }
+): CheckOutcome {
+  const { blockAt, warnAbove } = CHECKS[id];
+  if (total === 0) {
+    return { result: result(id, 0, "skipped", null, text.detail), issues: [] };
+  }
+
+  const share = problems / total;
+  const status = share >= blockAt ? "blocking" : share > warnAbove ? "warning" : "pass";
+  const score = Math.round(100 * (1 - Math.min(1, share / blockAt)));
+
+  return {
+    result: result(id, score, status, share, text.detail),
+    issues: status === "pass"
+      ? []
+      : [{
+          check: id,
+          severity: status,
+          message: text.message,
+          affected: problems,
+          examples: text.examples.slice(0, MAX_EXAMPLES),
+        }],
+  };
+}
+
+function result(
+  id: DataQualityCheckId,
+  score: number,
+  status: DataQualityCheckResult["status"],
+  value: number | null,
+  detail: string
+): DataQualityCheckResult {
+  return { id, label: CHECKS[id].label, score, weight: CHECKS[id].weight, status, value, detail };
+}
+
+function formatSignedPercent(value: number): string {
+  const pct = Math.round(value * 1000) / 10;
+  return `${pct >= 0 ? "+" : ""}${pct}%`;
+}
@@ -0,0 +1,6 @@
+/**
+ * Data Quality Module
+ * Coverage and consistency checks run before a pricing analysis
+ */
+
+export * from "./checks";
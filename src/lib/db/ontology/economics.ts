@@ -193,6 +193,9 @@ export async function computeAndSaveEconomicsSnapshot(
     })
   );
 
+  // Keep the estimated price sensitivity model until it is re-estimated
+  const previous = await getLatestEconomicsSnapshot(supabase, organizationId);
+
   return createEconomicsSnapshot(supabase, organizationId, {
     snapshot_date: new Date().toISOString().split("T")[0],
     total_mrr: totalMrr,
@@ -204,6 +207,6 @@ export async function computeAndSaveEconomicsSnapshot(
     concentration_risk_level: concentrationRiskLevel,
     concentration_description: concentrationDescription,
     segment_economics: segmentEconomics,
-    price_sensitivity_model: {},
+    price_sensitivity_model: previous?.price_sensitivity_model ?? {},
   });
 }
@@ -0,0 +1,82 @@
+/**
+ * Document Parser
+ * Reads uploaded text, Markdown and PDF documents into plain text and splits
+ * it into chunks small enough for one extraction call each
+ */
+
+import type { DocumentChunk } from "@/types/document-ingestion";
+import { extractPdfText } from "./pdf-text";
+
+const TEXT_EXTENSIONS = /\.(txt|text|md|markdown)$/i;
+const PDF_EXTENSION = /\.pdf$/i;
+
+export const DEFAULT_CHUNK_CHARS = 6000;
+const CHUNK_OVERLAP_CHARS = 400;
+
+/**
+ * Plain text of a document by extension. Markdown keeps its headings and
+ * table pipes, which read fine to the model.
+ */
+export function parseDocument(fileName: string, content: Buffer): string {
+  let text: string;
+  if (PDF_EXTENSION.test(fileName)) {
+    text = extractPdfText(content);
+  } else if (TEXT_EXTENSIONS.test(fileName)) {
+    text = content.toString("utf8").replace(/^\ufeff/, "");
+  } else {
+    throw new Error(`${fileName} is not a text, Markdown or PDF document`);
+  }
+
+  text = text.replace(/\r\n?/g, "\n").trim();
+  if (!text) throw new Error(`${fileName} has no readable text`);
+  return text;
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, breaking between paragraphs
+ * where possible and carrying a short overlap so a price isn't cut off from
+ * the tier name above it
+ */
+export function chunkDocument(
+  document: string,
+  text: string,
+  maxChars: number = DEFAULT_CHUNK_CHARS
+): DocumentChunk[] {
+  const overlap = Math.min(CHUNK_OVERLAP_CHARS, Math.floor(maxChars / 4));
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => splitLong(p, maxChars));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      // Start the overlap at a line or word boundary
+      const boundary = Math.max(tail.indexOf("\n") + 1, tail.indexOf(" ") + 1);
+      current = overlap > 0 && tail.length - boundary + paragraph.length + 2 <= maxChars ? tail.slice(boundary) : "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((chunk, index) => ({ document, index, text: chunk }));
+}
+
+function splitLong(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = Math.max(window.lastIndexOf("\n"), window.lastIndexOf(". ") + 1, window.lastIndexOf(" "));
+    const at = cut > maxChars / 2 ? cut : maxChars;
+    pieces.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
@@ -0,0 +1,10 @@
+/**
+ * Document Ingestion Module
+ * Parsing, chunking, LLM extraction and profile diffing for documents
+ * uploaded during setup
+ */
+
+export * from "./pdf-text";
+export * from "./document-parser";
+export * from "./profile-extraction";
+export * from "./profile-diff";
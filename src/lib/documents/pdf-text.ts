@@ -0,0 +1,500 @@
+/**
+ * PDF Text
+ * Pulls the text out of a PDF's page content streams, page by page. Streams
+ * are inflated with Node's zlib, and fonts with a ToUnicode CMap are decoded
+ * through it (the rest are read as Latin-1), which covers pricing pages and
+ * decks exported from browsers, Office, Google Slides and Keynote. Scanned
+ * PDFs have no text to find.
+ */
+
+import { inflateSync } from "zlib";
+
+interface PdfObject {
+  dict: string;
+  stream?: Buffer; // Decoded; absent when the object has no stream or it can't be decoded
+}
+
+interface CMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { kind: "string"; bytes: Buffer }
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "array"; items: Token[] }
+  | { kind: "operator"; value: string };
+
+// TJ offsets (thousandths of an em) wider than this read as a word break
+const TJ_SPACE_THRESHOLD = -200;
+const MAX_PAGE_DEPTH = 32;
+
+// Inflated size limits, so a small PDF can't expand into gigabytes; a single
+// stream over the limit is skipped, the document over its limit is rejected
+const MAX_STREAM_BYTES = 50 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 200 * 1024 * 1024;
+
+// WinAnsiEncoding differs from Latin-1 only in 0x80-0x9F (€, curly quotes, dashes)
+const WIN_ANSI_HIGH =
+  "\u20ac\ufffd\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\ufffd\u017d\ufffd" +
+  "\ufffd\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\ufffd\u017e\u0178";
+
+/**
+ * The text of every page, pages separated by a blank line
+ */
+export function extractPdfText(content: Buffer): string {
+  if (content.toString("latin1", 0, 1024).indexOf("%PDF-") < 0) throw new Error("Not a valid PDF file");
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(content.toString("latin1"))) {
+    throw new Error("Encrypted PDFs can't be read; export an unprotected copy");
+  }
+
+  const objects = readObjects(content);
+  const pages = pageList(objects);
+  const texts: string[] = [];
+
+  if (pages.length > 0) {
+    for (const page of pages) {
+      const fonts = pageFonts(objects, page.resources);
+      const contents = refList(page.dict, "Contents")
+        .map((num) => objects.get(num)?.stream)
+        .filter((stream): stream is Buffer => !!stream);
+      texts.push(readContentStream(Buffer.concat(contents.flatMap((c) => [c, Buffer.from("\n")])), fonts));
+    }
+  } else {
+    // No page tree to follow: read every content-looking stream in file order
+    for (const object of objects.values()) {
+      if (object.stream && /\bBT\b/.test(object.stream.toString("latin1"))) {
+        texts.push(readContentStream(object.stream, new Map()));
+      }
+    }
+  }
+
+  return texts
+    .map(cleanText)
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// ---------------------------------------------------------------------------
+// Objects
+// ---------------------------------------------------------------------------
+
+function readObjects(content: Buffer): Map<number, PdfObject> {
+  const source = content.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const objectStreams: PdfObject[] = [];
+  const budget = { remaining: MAX_DOCUMENT_BYTES };
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(source))) {
+    const num = Number(match[1]);
+    const start = match.index + match[0].length;
+    const endObj = source.indexOf("endobj", start);
+    const streamAt = source.indexOf("stream", start);
+
+    if (streamAt >= 0 && (endObj < 0 || streamAt < endObj)) {
+      const dict = source.slice(start, streamAt);
+      let dataStart = streamAt + "stream".length;
+      if (source[dataStart] === "\r") dataStart++;
+      if (source[dataStart] === "\n") dataStart++;
+
+      const length = Number(dict.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/)?.[1]);
+      const declaredEnd = dataStart + length;
+      const dataEnd =
+        Number.isFinite(length) && /^\s*endstream/.test(source.slice(declaredEnd, declaredEnd + 20))
+          ? declaredEnd
+          : source.indexOf("endstream", dataStart);
+      if (dataEnd < 0) break;
+
+      const object = { dict, stream: decodeStream(dict, content.subarray(dataStart, dataEnd), budget) };
+      objects.set(num, object);
+      if (/\/Type\s*\/ObjStm\b/.test(dict)) objectStreams.push(object);
+      header.lastIndex = dataEnd;
+    } else {
+      if (endObj < 0) break;
+      objects.set(num, { dict: source.slice(start, endObj) });
+      header.lastIndex = endObj;
+    }
+  }
+
+  // Objects packed into object streams (PDF 1.5+); plain objects win on a clash
+  for (const { dict, stream } of objectStreams) {
+    if (!stream) continue;
+    const text = stream.toString("latin1");
+    const count = Number(dict.match(/\/N\s+(\d+)/)?.[1] ?? 0);
+    const first = Number(dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+    const offsets = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const num = offsets[i * 2];
+      const from = first + offsets[i * 2 + 1];
+      const to = i + 1 < count ? first + offsets[(i + 1) * 2 + 1] : text.length;
+      if (!objects.has(num)) objects.set(num, { dict: text.slice(from, to) });
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Inflate a stream, charging its size to the document's budget. Images are
+ * left encoded since they hold no text.
+ */
+function decodeStream(dict: string, data: Buffer, budget: { remaining: number }): Buffer | undefined {
+  const filters = [...(dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? "").matchAll(/\/(\w+)/g)].map((m) => m[1]);
+  if (filters.length === 0) return data;
+  if (filters.length > 1 || (filters[0] !== "FlateDecode" && filters[0] !== "Fl")) return undefined;
+  if (/\/Subtype\s*\/Image\b/.test(dict)) return undefined;
+
+  const limit = Math.min(MAX_STREAM_BYTES, budget.remaining);
+  const inflate = (finishFlush?: number) =>
+    inflateSync(data, { maxOutputLength: Math.max(1, limit), ...(finishFlush !== undefined && { finishFlush }) });
+  let decoded: Buffer | undefined;
+  try {
+    decoded = inflate();
+  } catch (error) {
+    // Truncated streams still inflate up to the damage
+    if (!isTooLarge(error)) {
+      try {
+        decoded = inflate(2 /* Z_SYNC_FLUSH */);
+      } catch (retryError) {
+        if (!isTooLarge(retryError)) return undefined;
+      }
+    }
+  }
+
+  if (!decoded || decoded.length > limit) {
+    if (limit < MAX_STREAM_BYTES) {
+      throw new Error(`PDF content is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB uncompressed`);
+    }
+    return undefined;
+  }
+  budget.remaining -= decoded.length;
+  return decoded;
+}
+
+function isTooLarge(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE";
+}
+
+function ref(dict: string, key: string): number | undefined {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+  return match ? Number(match[1]) : undefined;
+}
+
+function refList(dict: string, key: string): number[] {
+  const single = ref(dict, key);
+  if (single !== undefined) return [single];
+  const array = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`))?.[1] ?? "";
+  return [...array.matchAll(/(\d+)\s+\d+\s+R/g)].map((m) => Number(m[1]));
+}
+
+/**
+ * A dictionary-valued entry, inline or by reference
+ */
+function dictEntry(objects: Map<number, PdfObject>, dict: string, key: string): string | undefined {
+  const num = ref(dict, key);
+  if (num !== undefined) return objects.get(num)?.dict;
+
+  const at = dict.search(new RegExp(`/${key}\\s*<<`));
+  if (at < 0) return undefined;
+  const open = dict.indexOf("<<", at);
+  let depth = 0;
+  for (let i = open; i < dict.length - 1; i++) {
+    if (dict.startsWith("<<", i)) {
+      depth++;
+      i++;
+    } else if (dict.startsWith(">>", i)) {
+      depth--;
+      i++;
+      if (depth === 0) return dict.slice(open + 2, i - 1);
+    }
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Pages and fonts
+// ---------------------------------------------------------------------------
+
+function pageList(objects: Map<number, PdfObject>): { dict: string; resources?: string }[] {
+  const catalog = [...objects.values()].find((o) => /\/Type\s*\/Catalog\b/.test(o.dict));
+  const root = catalog ? ref(catalog.dict, "Pages") : undefined;
+  if (root === undefined) return [];
+
+  const pages: { dict: string; resources?: string }[] = [];
+  const visit = (num: number, inherited: string | undefined, depth: number) => {
+    const node = objects.get(num);
+    if (!node || depth > MAX_PAGE_DEPTH) return;
+    const resources = dictEntry(objects, node.dict, "Resources") ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+      for (const kid of refList(node.dict, "Kids")) visit(kid, resources, depth + 1);
+    } else {
+      pages.push({ dict: node.dict, resources });
+    }
+  };
+  visit(root, undefined, 0);
+  return pages;
+}
+
+function pageFonts(objects: Map<number, PdfObject>, resources: string | undefined): Map<string, CMap | null> {
+  const fonts = new Map<string, CMap | null>();
+  const fontDict = resources ? dictEntry(objects, resources, "Font") : undefined;
+  if (!fontDict) return fonts;
+
+  for (const [, name, num] of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(num));
+    const cmapNum = font ? ref(font.dict, "ToUnicode") : undefined;
+    const cmap = cmapNum !== undefined ? objects.get(cmapNum)?.stream : undefined;
+    fonts.set(name, cmap ? parseCMap(cmap.toString("latin1")) : null);
+  }
+  return fonts;
+}
+
+function parseCMap(text: string): CMap {
+  const map = new Map<number, string>();
+  const codeSpace = text.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeBytes = codeSpace ? Math.max(1, codeSpace[1].length / 2) : 1;
+
+  for (const [, body] of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(src, 16), utf16Hex(dst));
+    }
+  }
+
+  for (const [, body] of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+    for (const [, lo, hi, dst] of ranges) {
+      const from = parseInt(lo, 16);
+      const to = parseInt(hi, 16);
+      if (dst.startsWith("[")) {
+        const targets = [...dst.matchAll(/<([0-9a-fA-F]*)>/g)].map((m) => m[1]);
+        targets.forEach((target, i) => map.set(from + i, utf16Hex(target)));
+      } else {
+        const base = dst.slice(1, -1);
+        const prefix = base.slice(0, -4);
+        const last = parseInt(base.slice(-4) || "0", 16);
+        for (let code = from; code <= to && code - from < 0x10000; code++) {
+          map.set(code, utf16Hex(prefix + (last + code - from).toString(16).padStart(4, "0")));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+function utf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) units.push(parseInt(hex.slice(i, i + 4), 16));
+  if (units.length === 0 && hex.length > 0) units.push(parseInt(hex, 16));
+  return String.fromCharCode(...units);
+}
+
+function decodeText(bytes: Buffer, cmap: CMap | null | undefined): string {
+  if (!cmap) {
+    return bytes.toString("latin1").replace(/[\u0080-\u009f]/g, (c) => WIN_ANSI_HIGH[c.charCodeAt(0) - 0x80]);
+  }
+  let text = "";
+  for (let i = 0; i + cmap.codeBytes <= bytes.length; i += cmap.codeBytes) {
+    const code = cmap.codeBytes === 2 ? bytes.readUInt16BE(i) : bytes[i];
+    text += cmap.map.get(code) ?? (cmap.codeBytes === 1 ? String.fromCharCode(code) : "");
+  }
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+function readContentStream(stream: Buffer, fonts: Map<string, CMap | null>): string {
+  const tokens = tokenize(stream);
+  let out = "";
+  let font: CMap | null | undefined;
+  let lastY: number | undefined;
+  let operands: Token[] = [];
+
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += " ";
+  };
+  const show = (token: Token | undefined) => {
+    if (token?.kind === "string") out += decodeText(token.bytes, font);
+  };
+
+  for (const token of tokens) {
+    if (token.kind !== "operator") {
+      operands.push(token);
+      continue;
+    }
+    const numbers = operands.filter((o) => o.kind === "number").map((o) => (o as { value: number }).value);
+
+    switch (token.value) {
+      case "Tf": {
+        const name = operands.find((o) => o.kind === "name");
+        font = name?.kind === "name" ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case "Tj":
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case "TJ": {
+        const array = operands[operands.length - 1];
+        if (array?.kind !== "array") break;
+        for (const item of array.items) {
+          if (item.kind === "number" && item.value < TJ_SPACE_THRESHOLD) space();
+          else show(item);
+        }
+        break;
+      }
+      case "Td":
+      case "TD":
+        if (numbers[1]) newline();
+        else space();
+        break;
+      case "Tm": {
+        const y = numbers[5];
+        if (lastY !== undefined && y !== lastY) newline();
+        else space();
+        lastY = y;
+        break;
+      }
+      case "T*":
+        newline();
+        break;
+      case "ET":
+        space();
+        break;
+    }
+    operands = [];
+  }
+
+  return out;
+}
+
+function tokenize(stream: Buffer): Token[] {
+  const tokens: Token[] = [];
+  const stack: Token[][] = [tokens];
+  const push = (token: Token) => stack[stack.length - 1].push(token);
+  const isWhite = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+  const isDelimiter = (c: number) => "()<>[]{}/%".includes(String.fromCharCode(c));
+  let i = 0;
+
+  while (i < stream.length) {
+    const c = stream[i];
+    if (isWhite(c)) {
+      i++;
+    } else if (c === 0x25 /* % */) {
+      while (i < stream.length && stream[i] !== 0x0a && stream[i] !== 0x0d) i++;
+    } else if (c === 0x28 /* ( */) {
+      const [bytes, end] = readLiteralString(stream, i);
+      push({ kind: "string", bytes });
+      i = end;
+    } else if (c === 0x3c /* < */ && stream[i + 1] === 0x3c) {
+      i += 2; // Dictionaries (marked-content properties) carry no text
+      let depth = 1;
+      while (i < stream.length && depth > 0) {
+        if (stream[i] === 0x3c && stream[i + 1] === 0x3c) {
+          depth++;
+          i++;
+        } else if (stream[i] === 0x3e && stream[i + 1] === 0x3e) {
+          depth--;
+          i++;
+        }
+        i++;
+      }
+    } else if (c === 0x3c) {
+      const end = stream.indexOf(0x3e, i);
+      const hex = stream.toString("latin1", i + 1, end < 0 ? stream.length : end).replace(/\s+/g, "");
+      push({ kind: "string", bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex") });
+      i = end < 0 ? stream.length : end + 1;
+    } else if (c === 0x5b /* [ */) {
+      stack.push([]);
+      i++;
+    } else if (c === 0x5d /* ] */) {
+      const items = stack.length > 1 ? stack.pop()! : [];
+      push({ kind: "array", items });
+      i++;
+    } else if (c === 0x2f /* / */) {
+      let end = i + 1;
+      while (end < stream.length && !isWhite(stream[end]) && !isDelimiter(stream[end])) end++;
+      push({ kind: "name", value: stream.toString("latin1", i + 1, end) });
+      i = end;
+    } else {
+      let end = i + 1;
+      while (end < stream.length && !isWhite(stream[end]) && !isDelimiter(stream[end])) end++;
+      const word = stream.toString("latin1", i, end);
+      i = end;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ kind: "number", value: Number(word) });
+      } else if (word === "ID") {
+        // Inline image data runs to the next whitespace-delimited EI
+        const image = stream.indexOf("EI", i + 1, "latin1");
+        i = image < 0 ? stream.length : image + 2;
+      } else if (stack.length === 1) {
+        push({ kind: "operator", value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readLiteralString(stream: Buffer, start: number): [Buffer, number] {
+  const bytes: number[] = [];
+  let depth = 0;
+  let i = start;
+
+  while (i < stream.length) {
+    const c = stream[i];
+    if (c === 0x5c /* \ */) {
+      const next = stream[i + 1];
+      const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+      if (next >= 0x30 && next <= 0x37) {
+        let octal = "";
+        let j = i + 1;
+        while (j < i + 4 && stream[j] >= 0x30 && stream[j] <= 0x37) octal += String.fromCharCode(stream[j++]);
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i = j;
+        continue;
+      }
+      if (next === 0x0d || next === 0x0a) {
+        i += next === 0x0d && stream[i + 2] === 0x0a ? 3 : 2; // Line continuation
+        continue;
+      }
+      bytes.push(escapes[next] ?? next);
+      i += 2;
+      continue;
+    }
+    if (c === 0x28) {
+      depth++;
+      if (depth > 1) bytes.push(c);
+    } else if (c === 0x29) {
+      depth--;
+      if (depth === 0) return [Buffer.from(bytes), i + 1];
+      bytes.push(c);
+    } else {
+      bytes.push(c);
+    }
+    i++;
+  }
+  return [Buffer.from(bytes), i];
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffd]/g, "")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,237 @@
+/**
+ * Profile Diff
+ * Compares what documents say against the stored CompanyProfile as a list of
+ * reviewable changes, and applies the ones the user accepts
+ */
+
+import type {
+  CompanyProfile,
+  CompanyTierProfile,
+  CompetitorProfile,
+  StrategicPositioning,
+} from "@/types/company-profile";
+import type {
+  CompetitorChangeField,
+  DocumentExtraction,
+  ProfileChange,
+  ProfileChangeValue,
+  TierChangeField,
+  ValueMetricLimits,
+} from "@/types/document-ingestion";
+import { nameKey, unionText } from "./profile-extraction";
+
+const EMPTY_POSITIONING: StrategicPositioning = {
+  value_proposition: "",
+  target_segments: [],
+  key_advantages: [],
+  key_risks: [],
+  pricing_philosophy: "",
+};
+
+const TIER_FIELD_LABELS: Record<TierChangeField, string> = {
+  price_monthly: "Monthly price",
+  price_annual: "Annual price",
+  features: "Features",
+  value_metric_limits: "Limits",
+};
+
+const COMPETITOR_FIELD_LABELS: Record<CompetitorChangeField, string> = {
+  positioning: "Positioning",
+  pricing_model: "Pricing model",
+  price_range: "Price range",
+  key_differentiators: "Differentiators",
+};
+
+const POSITIONING_LABELS: Record<keyof StrategicPositioning, string> = {
+  value_proposition: "Value proposition",
+  target_segments: "Target segments",
+  key_advantages: "Key advantages",
+  key_risks: "Key risks",
+  pricing_philosophy: "Pricing philosophy",
+};
+
+/**
+ * Every difference between the extraction and the profile. Lists only ever
+ * grow (the change's `after` is the union), and a document that is silent on
+ * a field leaves it alone.
+ */
+export function diffProfile(profile: CompanyProfile, extraction: DocumentExtraction): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+
+  for (const tier of extraction.pricing_tiers) {
+    const current = profile.pricing_tiers.find((t) => nameKey(t.name) === nameKey(tier.name));
+    if (!current) {
+      const priceMonthly = tier.price_monthly ?? (tier.price_annual !== undefined ? round(tier.price_annual / 12) : undefined);
+      // A tier without a price can't be modelled
+      if (priceMonthly === undefined) continue;
+      changes.push({
+        id: changeId("pricing_tiers", tier.name),
+        section: "pricing_tiers",
+        target: tier.name,
+        label: `New tier: ${tier.name}`,
+        before: null,
+        after: {
+          name: tier.name,
+          price_monthly: priceMonthly,
+          ...(tier.price_annual !== undefined ? { price_annual: tier.price_annual } : {}),
+          features: tier.features,
+          value_metric_limits: tier.value_metric_limits,
+          customer_share: 0,
+          revenue_share: 0,
+          position: 0, // Placed by price when applied
+        },
+        sources: tier.sources,
+      });
+      continue;
+    }
+
+    const tierChange = (field: TierChangeField, before: ProfileChangeValue | null, after: ProfileChangeValue) =>
+      changes.push({
+        id: changeId("pricing_tiers", current.name, field),
+        section: "pricing_tiers",
+        target: current.name,
+        field,
+        label: `${current.name} · ${TIER_FIELD_LABELS[field]}`,
+        before,
+        after,
+        sources: tier.sources,
+      });
+
+    if (tier.price_monthly !== undefined && !samePrice(tier.price_monthly, current.price_monthly)) {
+      tierChange("price_monthly", current.price_monthly, tier.price_monthly);
+    }
+    if (tier.price_annual !== undefined && !samePrice(tier.price_annual, current.price_annual)) {
+      tierChange("price_annual", current.price_annual ?? null, tier.price_annual);
+    }
+    const features = unionText(current.features, tier.features);
+    if (features.length > current.features.length) tierChange("features", current.features, features);
+    const limits: ValueMetricLimits = { ...current.value_metric_limits, ...tier.value_metric_limits };
+    if (Object.entries(limits).some(([metric, limit]) => current.value_metric_limits[metric] !== limit)) {
+      tierChange("value_metric_limits", current.value_metric_limits, limits);
+    }
+  }
+
+  for (const competitor of extraction.competitors) {
+    const current = (profile.competitors ?? []).find((c) => nameKey(c.name) === nameKey(competitor.name));
+    if (!current) {
+      changes.push({
+        id: changeId("competitors", competitor.name),
+        section: "competitors",
+        target: competitor.name,
+        label: `New competitor: ${competitor.name}`,
+        before: null,
+        after: {
+          name: competitor.name,
+          positioning: competitor.positioning ?? "",
+          pricing_model: competitor.pricing_model ?? "",
+          ...(competitor.price_range ? { price_range: competitor.price_range } : {}),
+          key_differentiators: competitor.key_differentiators,
+        },
+        sources: competitor.sources,
+      });
+      continue;
+    }
+
+    const competitorChange = (field: CompetitorChangeField, before: ProfileChangeValue | null, after: ProfileChangeValue) =>
+      changes.push({
+        id: changeId("competitors", current.name, field),
+        section: "competitors",
+        target: current.name,
+        field,
+        label: `${current.name} · ${COMPETITOR_FIELD_LABELS[field]}`,
+        before,
+        after,
+        sources: competitor.sources,
+      });
+
+    for (const field of ["positioning", "pricing_model", "price_range"] as const) {
+      const value = competitor[field];
+      if (value && !sameText(value, current[field])) competitorChange(field, current[field] ?? null, value);
+    }
+    const differentiators = unionText(current.key_differentiators, competitor.key_differentiators);
+    if (differentiators.length > current.key_differentiators.length) {
+      competitorChange("key_differentiators", current.key_differentiators, differentiators);
+    }
+  }
+
+  const positioning = profile.strategic_positioning ?? EMPTY_POSITIONING;
+  const found = extraction.strategic_positioning;
+  const positioningChange = (target: keyof StrategicPositioning, before: string | string[], after: string | string[]) =>
+    changes.push({
+      id: `strategic_positioning:${target}`,
+      section: "strategic_positioning",
+      target,
+      label: POSITIONING_LABELS[target],
+      before: (Array.isArray(before) ? before.length > 0 : !!before) ? before : null,
+      after,
+      sources: extraction.positioning_sources,
+    });
+
+  for (const field of ["value_proposition", "pricing_philosophy"] as const) {
+    const value = found[field];
+    if (value && !sameText(value, positioning[field])) positioningChange(field, positioning[field], value);
+  }
+  for (const field of ["target_segments", "key_advantages", "key_risks"] as const) {
+    const merged = unionText(positioning[field], found[field]);
+    if (merged.length > positioning[field].length) positioningChange(field, positioning[field], merged);
+  }
+
+  return changes;
+}
+
+/**
+ * The profile with the accepted changes applied. New tiers slot in by
+ * monthly price and tier positions are renumbered; changes whose tier or
+ * competitor no longer exists are skipped.
+ */
+export function applyProfileChanges(profile: CompanyProfile, changes: ProfileChange[]): CompanyProfile {
+  const next: CompanyProfile = structuredClone(profile);
+
+  for (const change of changes) {
+    if (change.section === "pricing_tiers") {
+      const tiers = [...next.pricing_tiers].sort((a, b) => a.position - b.position);
+      const index = tiers.findIndex((t) => nameKey(t.name) === nameKey(change.target));
+      if (change.field) {
+        if (index >= 0) Object.assign(tiers[index], { [change.field]: change.after });
+      } else if (index < 0) {
+        const tier = change.after as CompanyTierProfile;
+        const at = tiers.findIndex((t) => t.price_monthly > tier.price_monthly);
+        tiers.splice(at < 0 ? tiers.length : at, 0, { ...tier });
+      }
+      tiers.forEach((tier, i) => (tier.position = i + 1));
+      next.pricing_tiers = tiers;
+    } else if (change.section === "competitors") {
+      const competitors = next.competitors ?? [];
+      const current = competitors.find((c) => nameKey(c.name) === nameKey(change.target));
+      if (change.field) {
+        if (current) Object.assign(current, { [change.field]: change.after });
+      } else if (!current) {
+        competitors.push({ ...(change.after as CompetitorProfile) });
+      }
+      next.competitors = competitors;
+    } else {
+      next.strategic_positioning = {
+        ...(next.strategic_positioning ?? EMPTY_POSITIONING),
+        [change.target]: change.after,
+      };
+    }
+  }
+
+  return next;
+}
+
+function changeId(section: ProfileChange["section"], target: string, field?: string): string {
+  return [section, nameKey(target), field ?? "new"].join(":");
+}
+
+function samePrice(a: number, b: number | undefined): boolean {
+  return b !== undefined && Math.abs(a - b) < 0.005;
+}
+
+function sameText(a: string, b: string | undefined): boolean {
+  return a.trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,303 @@
+/**
+ * Profile Extraction
+ * Asks the model for the pricing facts in each document chunk (tiers with
+ * prices and limits, competitors, target segments and positioning) and
+ * merges the answers into one DocumentExtraction.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import type { CompanyProfile } from "@/types/company-profile";
+import type {
+  DocumentChunk,
+  DocumentExtraction,
+  DocumentSource,
+  ExtractedCompetitor,
+  ExtractedTier,
+} from "@/types/document-ingestion";
+
+/**
+ * The slice of the Anthropic client extraction uses
+ */
+export interface ExtractionLLMClient {
+  messages: {
+    create(
+      params: Anthropic.MessageCreateParamsNonStreaming
+    ): Promise<Pick<Anthropic.Message, "content">>;
+  };
+}
+
+export interface ProfileExtractionOptions {
+  // Defaults to an Anthropic client built from ANTHROPIC_API_KEY
+  client?: ExtractionLLMClient;
+  model?: string;
+}
+
+export interface ChunkExtractionResult {
+  extraction: DocumentExtraction;
+  // One per chunk whose call failed or whose reply didn't validate
+  warnings: string[];
+}
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+const limitSchema = z.union([z.number(), z.literal("unlimited")]);
+const sourceFields = { quote: z.string().optional() };
+
+const chunkExtractionSchema = z.object({
+  pricing_tiers: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        price_monthly: z.number().nonnegative().nullish(),
+        price_annual: z.number().nonnegative().nullish(),
+        features: z.array(z.string()).default([]),
+        value_metric_limits: z.record(z.string(), limitSchema).default({}),
+        ...sourceFields,
+      })
+    )
+    .default([]),
+  competitors: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        positioning: z.string().nullish(),
+        pricing_model: z.string().nullish(),
+        price_range: z.string().nullish(),
+        key_differentiators: z.array(z.string()).default([]),
+        ...sourceFields,
+      })
+    )
+    .default([]),
+  strategic_positioning: z
+    .object({
+      value_proposition: z.string().nullish(),
+      pricing_philosophy: z.string().nullish(),
+      target_segments: z.array(z.string()).default([]),
+      key_advantages: z.array(z.string()).default([]),
+      key_risks: z.array(z.string()).default([]),
+      ...sourceFields,
+    })
+    .default({ target_segments: [], key_advantages: [], key_risks: [] }),
+});
+
+let defaultClient: ExtractionLLMClient | null = null;
+
+/**
+ * Whether extraction can run without an injected client
+ */
+export function isProfileExtractionAvailable(): boolean {
+  return !!process.env.ANTHROPIC_API_KEY;
+}
+
+/**
+ * Extract from each chunk in turn and merge the results. A chunk that fails
+ * is reported in `warnings` and contributes nothing.
+ */
+export async function extractProfileFacts(
+  chunks: DocumentChunk[],
+  profile: CompanyProfile,
+  options: ProfileExtractionOptions = {}
+): Promise<ChunkExtractionResult> {
+  const client = options.client ?? getDefaultClient();
+  const extractions: DocumentExtraction[] = [];
+  const warnings: string[] = [];
+
+  for (const chunk of chunks) {
+    try {
+      extractions.push(await extractChunk(client, chunk, profile, options.model ?? DEFAULT_MODEL));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      console.warn(`Document extraction failed for ${chunk.document} part ${chunk.index + 1}:`, error);
+      warnings.push(`${chunk.document} (part ${chunk.index + 1}) could not be read: ${reason}`);
+    }
+  }
+
+  return { extraction: mergeExtractions(extractions), warnings };
+}
+
+async function extractChunk(
+  client: ExtractionLLMClient,
+  chunk: DocumentChunk,
+  profile: CompanyProfile,
+  model: string
+): Promise<DocumentExtraction> {
+  const response = await client.messages.create({
+    model,
+    max_tokens: 2048,
+    system: buildExtractionPrompt(profile),
+    messages: [
+      {
+        role: "user",
+        content: `Document: ${chunk.document} (part ${chunk.index + 1})\n\n${chunk.text}`,
+      },
+    ],
+  });
+
+  const text = response.content.find((block) => block.type === "text");
+  const jsonStr = (text?.type === "text" ? text.text : "").replace(/```json\n?|\n?```/g, "").trim();
+  const parsed = chunkExtractionSchema.parse(JSON.parse(jsonStr));
+  const source = (quote?: string): DocumentSource[] => [{ document: chunk.document, ...(quote ? { quote } : {}) }];
+  const positioning = parsed.strategic_positioning;
+
+  return {
+    pricing_tiers: parsed.pricing_tiers.map((tier) => ({
+      name: tier.name.trim(),
+      price_monthly: tier.price_monthly ?? undefined,
+      price_annual: tier.price_annual ?? undefined,
+      features: tier.features,
+      value_metric_limits: tier.value_metric_limits,
+      sources: source(tier.quote),
+    })),
+    competitors: parsed.competitors.map((competitor) => ({
+      name: competitor.name.trim(),
+      positioning: competitor.positioning ?? undefined,
+      pricing_model: competitor.pricing_model ?? undefined,
+      price_range: competitor.price_range ?? undefined,
+      key_differentiators: competitor.key_differentiators,
+      sources: source(competitor.quote),
+    })),
+    strategic_positioning: {
+      value_proposition: positioning.value_proposition ?? undefined,
+      pricing_philosophy: positioning.pricing_philosophy ?? undefined,
+      target_segments: positioning.target_segments,
+      key_advantages: positioning.key_advantages,
+      key_risks: positioning.key_risks,
+    },
+    positioning_sources: hasPositioning(positioning) ? source(positioning.quote) : [],
+  };
+}
+
+/**
+ * Combine per-chunk extractions. Tiers and competitors are matched by name;
+ * the first value a field gets wins and lists are unioned.
+ */
+export function mergeExtractions(extractions: DocumentExtraction[]): DocumentExtraction {
+  const tiers = new Map<string, ExtractedTier>();
+  const competitors = new Map<string, ExtractedCompetitor>();
+  const merged: DocumentExtraction = {
+    pricing_tiers: [],
+    competitors: [],
+    strategic_positioning: { target_segments: [], key_advantages: [], key_risks: [] },
+    positioning_sources: [],
+  };
+
+  for (const extraction of extractions) {
+    for (const tier of extraction.pricing_tiers) {
+      const existing = tiers.get(nameKey(tier.name));
+      if (!existing) {
+        tiers.set(nameKey(tier.name), { ...tier, features: unionText([], tier.features), sources: [...tier.sources] });
+        continue;
+      }
+      existing.price_monthly ??= tier.price_monthly;
+      existing.price_annual ??= tier.price_annual;
+      existing.features = unionText(existing.features, tier.features);
+      existing.value_metric_limits = { ...tier.value_metric_limits, ...existing.value_metric_limits };
+      existing.sources.push(...tier.sources);
+    }
+
+    for (const competitor of extraction.competitors) {
+      const existing = competitors.get(nameKey(competitor.name));
+      if (!existing) {
+        competitors.set(nameKey(competitor.name), {
+          ...competitor,
+          key_differentiators: unionText([], competitor.key_differentiators),
+          sources: [...competitor.sources],
+        });
+        continue;
+      }
+      existing.positioning ??= competitor.positioning;
+      existing.pricing_model ??= competitor.pricing_model;
+      existing.price_range ??= competitor.price_range;
+      existing.key_differentiators = unionText(existing.key_differentiators, competitor.key_differentiators);
+      existing.sources.push(...competitor.sources);
+    }
+
+    const positioning = extraction.strategic_positioning;
+    const target = merged.strategic_positioning;
+    target.value_proposition ??= positioning.value_proposition;
+    target.pricing_philosophy ??= positioning.pricing_philosophy;
+    target.target_segments = unionText(target.target_segments, positioning.target_segments);
+    target.key_advantages = unionText(target.key_advantages, positioning.key_advantages);
+    target.key_risks = unionText(target.key_risks, positioning.key_risks);
+    merged.positioning_sources.push(...extraction.positioning_sources);
+  }
+
+  merged.pricing_tiers = [...tiers.values()];
+  merged.competitors = [...competitors.values()];
+  return merged;
+}
+
+/**
+ * "Pro Plan", "pro" and "PRO tier" are the same tier
+ */
+export function nameKey(name: string): string {
+  const normalized = name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return normalized.replace(/\b(plan|tier|package|edition)\b/g, "").replace(/\s+/g, " ").trim() || normalized;
+}
+
+/**
+ * `base` plus the entries of `extra` not already in it, ignoring case
+ */
+export function unionText(base: string[], extra: string[]): string[] {
+  const seen = new Set(base.map((item) => item.trim().toLowerCase()));
+  const result = [...base];
+  for (const item of extra) {
+    const key = item.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(item.trim());
+  }
+  return result;
+}
+
+function hasPositioning(positioning: z.infer<typeof chunkExtractionSchema>["strategic_positioning"]): boolean {
+  return (
+    !!positioning.value_proposition ||
+    !!positioning.pricing_philosophy ||
+    positioning.target_segments.length > 0 ||
+    positioning.key_advantages.length > 0 ||
+    positioning.key_risks.length > 0
+  );
+}
+
+function buildExtractionPrompt(profile: CompanyProfile): string {
+  const tiers = profile.pricing_tiers.map((t) => t.name).join(", ") || "none yet";
+  const competitors = (profile.competitors ?? []).map((c) => c.name).join(", ") || "none yet";
+
+  return `You read documents from ${profile.name} (pricing pages, board decks, strategy docs) and pull out facts for its pricing model. Prices are in ${profile.currency} unless the text says otherwise.
+
+Known pricing tiers: ${tiers}
+Known competitors: ${competitors}
+Primary value metric: ${profile.primary_value_metric}
+
+Only report what the text states about ${profile.name}'s own tiers, its competitors, and its strategy. Use a known tier or competitor name when the text refers to it. Omit anything not in the text; do not estimate. price_monthly is the monthly list price; price_annual is the price for a full year. Limits use the value metric as key and a number or "unlimited" as value. Give each item a short verbatim quote it came from.
+
+Return ONLY valid JSON (no markdown, no explanation):
+
+{
+  "pricing_tiers": [
+    { "name": "Tier", "price_monthly": number | null, "price_annual": number | null, "features": ["..."], "value_metric_limits": { "metric": number | "unlimited" }, "quote": "..." }
+  ],
+  "competitors": [
+    { "name": "Competitor", "positioning": "..." | null, "pricing_model": "..." | null, "price_range": "..." | null, "key_differentiators": ["..."], "quote": "..." }
+  ],
+  "strategic_positioning": {
+    "value_proposition": "..." | null,
+    "pricing_philosophy": "Value-based" | "Penetration" | "Premium" | "Competitive" | null,
+    "target_segments": ["..."],
+    "key_advantages": ["..."],
+    "key_risks": ["..."],
+    "quote": "..."
+  }
+}`;
+}
+
+function getDefaultClient(): ExtractionLLMClient {
+  if (!defaultClient) {
+    defaultClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return defaultClient;
+}
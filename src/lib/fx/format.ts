@@ -0,0 +1,22 @@
+/**
+ * Currency Formatting
+ * Amounts rendered with the code's own symbol and placement ("€12,400",
+ * "CHF 12,400", "¥1,240,000"), for prompts and reports
+ */
+
+/**
+ * Format an amount in an ISO 4217 currency. Unknown codes fall back to the
+ * symbol (or code) in front of the number.
+ */
+export function formatMoney(amount: number, currency: string, fallbackSymbol?: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${fallbackSymbol ?? `${currency} `}${amount.toLocaleString()}`;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * FX Module
+ * Exchange rate parsing, lookup and currency formatting
+ */
+
+export * from "./rate-table";
+export * from "./rate-file-parser";
+export * from "./format";
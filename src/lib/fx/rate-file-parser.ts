@@ -0,0 +1,121 @@
+/**
+ * FX Rate File Parser
+ * Reads daily rates from a parsed CSV/XLSX sheet in either layout:
+ *   long: date, base, quote, rate (base may be omitted: date, currency, rate)
+ *   wide: date, then one column per currency code, as central banks publish
+ * Layouts without a base column quote each currency against `base`:
+ * 1 base = rate units of the currency.
+ */
+
+import type { ParsedSheet } from "@/types/billing-import";
+import type { FxImportError, FxRateInput } from "@/types/fx";
+import { normalizeHeader, parseDate } from "@/lib/import";
+
+const DATE_HEADERS = ["date", "rate_date", "day", "time_period", "as_of"];
+const BASE_HEADERS = ["base", "base_currency", "from", "from_currency", "source_currency"];
+const QUOTE_HEADERS = ["quote", "quote_currency", "to", "to_currency", "target_currency", "currency", "currency_code"];
+const RATE_HEADERS = ["rate", "fx_rate", "exchange_rate", "value", "obs_value", "close"];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export interface ParsedFxRates {
+  rates: FxRateInput[];
+  errors: FxImportError[];
+  layout: "long" | "wide";
+}
+
+export function parseFxRateSheet(sheet: ParsedSheet, options: { base?: string } = {}): ParsedFxRates {
+  const normalized = sheet.headers.map(normalizeHeader);
+  const find = (names: string[]) => {
+    for (const name of names) {
+      const index = normalized.indexOf(name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  const dateCol = find(DATE_HEADERS);
+  if (dateCol < 0) throw new Error(`No date column; expected one of: ${DATE_HEADERS.join(", ")}`);
+
+  const base = options.base?.trim().toUpperCase();
+  if (base !== undefined && !CURRENCY_PATTERN.test(base)) {
+    throw new Error(`Base currency must be a three-letter ISO code, got "${options.base}"`);
+  }
+
+  const rates: FxRateInput[] = [];
+  const errors: FxImportError[] = [];
+  const rateCol = find(RATE_HEADERS);
+  const quoteCol = find(QUOTE_HEADERS);
+
+  if (rateCol >= 0 && quoteCol >= 0) {
+    const baseCol = find(BASE_HEADERS);
+    if (baseCol < 0 && !base) throw new Error("The file has no base currency column; choose a base currency");
+
+    sheet.rows.forEach((row, i) => {
+      const rowNumber = i + 2;
+      const rowBase = baseCol >= 0 ? row[baseCol].toUpperCase() : base!;
+      const quote = row[quoteCol].toUpperCase();
+      const date = parseDate(row[dateCol]);
+      const rate = parseRate(row[rateCol]);
+
+      if (!date) errors.push({ row: rowNumber, message: `Unreadable date "${row[dateCol]}"` });
+      else if (!CURRENCY_PATTERN.test(rowBase)) errors.push({ row: rowNumber, message: `Invalid base currency "${rowBase}"` });
+      else if (!CURRENCY_PATTERN.test(quote)) errors.push({ row: rowNumber, message: `Invalid quote currency "${quote}"` });
+      else if (rate === null) errors.push({ row: rowNumber, message: `Rate must be a positive number, got "${row[rateCol]}"` });
+      else if (rowBase !== quote) {
+        rates.push({ rate_date: date.slice(0, 10), base_currency: rowBase, quote_currency: quote, rate });
+      }
+    });
+    return { rates, errors, layout: "long" };
+  }
+
+  // Wide: every other column headed by a currency code
+  const currencyCols = sheet.headers
+    .map((header, index) => ({ code: header.trim().toUpperCase(), index }))
+    .filter(({ code, index }) => index !== dateCol && CURRENCY_PATTERN.test(code));
+  if (currencyCols.length === 0) {
+    throw new Error("Expected date, base, quote and rate columns, or a date column and one column per currency code");
+  }
+  if (!base) throw new Error("Rates with one column per currency need a base currency");
+
+  sheet.rows.forEach((row, i) => {
+    const rowNumber = i + 2;
+    const date = parseDate(row[dateCol]);
+    if (!date) {
+      errors.push({ row: rowNumber, message: `Unreadable date "${row[dateCol]}"` });
+      return;
+    }
+    for (const { code, index } of currencyCols) {
+      const raw = row[index];
+      // Published tables leave holidays blank or mark them N/A
+      if (!raw || /^(n\/?a|-|—)$/i.test(raw)) continue;
+      const rate = parseRate(raw);
+      if (rate === null) {
+        errors.push({ row: rowNumber, message: `${code} rate must be a positive number, got "${raw}"` });
+      } else if (code !== base) {
+        rates.push({ rate_date: date.slice(0, 10), base_currency: base, quote_currency: code, rate });
+      }
+    }
+  });
+  return { rates, errors, layout: "wide" };
+}
+
+/**
+ * Rates carry four or more decimals, so a lone comma is always the decimal
+ * separator ("1,0845"); with both present the later one is
+ */
+export function parseRate(value: string): number | null {
+  let text = value.trim().replace(/\s/g, "");
+  if (!/^[\d.,]+$/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    text = lastComma > lastDot ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    text = text.replace(",", ".");
+  }
+
+  const parsed = Number(text);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
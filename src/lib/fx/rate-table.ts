@@ -0,0 +1,101 @@
+/**
+ * FX Rate Table
+ * In-memory lookup over daily rates. A pair is answered from its own rates,
+ * the inverse pair's, or through a currency both sides are quoted against
+ * (EUR → USD via GBP). The rate for a date is the latest on or before it;
+ * dates before the first rate use the first rate.
+ */
+
+import type { FxRateInput } from "@/types/fx";
+
+export interface RateLookup {
+  rate: number;
+  rateDate: string; // YYYY-MM-DD; the older of the two legs for a cross rate
+}
+
+export interface RateTable {
+  currencies: string[];
+  rateFor(from: string, to: string, date: string): RateLookup | null;
+}
+
+type Series = { dates: string[]; rates: number[] };
+
+export function createRateTable(rates: FxRateInput[]): RateTable {
+  const byPair = new Map<string, { date: string; rate: number }[]>();
+  for (const r of rates) {
+    if (!(r.rate > 0)) continue;
+    const key = pairKey(r.base_currency.toUpperCase(), r.quote_currency.toUpperCase());
+    if (!byPair.has(key)) byPair.set(key, []);
+    byPair.get(key)!.push({ date: r.rate_date, rate: r.rate });
+  }
+
+  const series = new Map<string, Series>();
+  const neighbours = new Map<string, Set<string>>();
+  for (const [key, points] of byPair) {
+    points.sort((a, b) => a.date.localeCompare(b.date));
+    series.set(key, { dates: points.map((p) => p.date), rates: points.map((p) => p.rate) });
+
+    const [base, quote] = key.split("/");
+    if (!neighbours.has(base)) neighbours.set(base, new Set());
+    if (!neighbours.has(quote)) neighbours.set(quote, new Set());
+    neighbours.get(base)!.add(quote);
+    neighbours.get(quote)!.add(base);
+  }
+
+  const direct = (from: string, to: string, date: string): RateLookup | null => {
+    const forward = series.get(pairKey(from, to));
+    if (forward) return lookup(forward, date, false);
+    const inverse = series.get(pairKey(to, from));
+    if (inverse) return lookup(inverse, date, true);
+    return null;
+  };
+
+  return {
+    currencies: [...neighbours.keys()].sort(),
+    rateFor(fromCurrency, toCurrency, date) {
+      const from = fromCurrency.toUpperCase();
+      const to = toCurrency.toUpperCase();
+      const day = date.slice(0, 10);
+      if (from === to) return { rate: 1, rateDate: day };
+
+      const found = direct(from, to, day);
+      if (found) return found;
+
+      // Cross through a shared currency, preferring the freshest pair of legs
+      let best: RateLookup | null = null;
+      for (const pivot of neighbours.get(from) ?? []) {
+        if (!neighbours.get(to)?.has(pivot)) continue;
+        const first = direct(from, pivot, day);
+        const second = direct(pivot, to, day);
+        if (!first || !second) continue;
+        const rateDate = first.rateDate < second.rateDate ? first.rateDate : second.rateDate;
+        if (!best || rateDate > best.rateDate) best = { rate: first.rate * second.rate, rateDate };
+      }
+      return best;
+    },
+  };
+}
+
+function lookup(series: Series, date: string, invert: boolean): RateLookup {
+  // Last index with dates[i] <= date
+  let low = 0;
+  let high = series.dates.length - 1;
+  let index = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series.dates[mid] <= date) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (index < 0) index = 0;
+
+  const rate = series.rates[index];
+  return { rate: invert ? 1 / rate : rate, rateDate: series.dates[index] };
+}
+
+function pairKey(base: string, quote: string): string {
+  return `${base}/${quote}`;
+}
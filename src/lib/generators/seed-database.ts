@@ -12,6 +12,7 @@ import { generateHubSpotData } from "./synthetic/hubspot-data";
 import { generateHubSpotDataFromProfile } from "./synthetic/hubspot-data";
 import { generateOntologyData } from "./synthetic/ontology-data";
 import { generateOntologyDataFromProfile } from "./synthetic/ontology-data";
+import { generateUsageDataFromProfile, type UsageCustomerRef } from "./synthetic/usage-data";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -35,6 +36,7 @@ export interface SeedResult {
     tiers: number;
     valueMetrics: number;
     patterns: number;
+    usageRecords: number;
   };
   error?: string;
 }
@@ -58,6 +60,7 @@ export async function seedDatabase(
     tiers: 0,
     valueMetrics: 0,
     patterns: 0,
+    usageRecords: 0,
   };
 
   try {
@@ -335,6 +338,7 @@ async function clearOrganizationData(
     "patterns",
     "value_metrics",
     "transactions",
+    "usage_records",
     "customer_expansion_events",
     "unified_customers",
     "products",
@@ -389,6 +393,7 @@ export async function seedDatabaseFromProfile(
     tiers: 0,
     valueMetrics: 0,
     patterns: 0,
+    usageRecords: 0,
   };
 
   try {
@@ -692,16 +697,60 @@ export async function seedDatabaseFromProfile(
 
     // Insert in batches to avoid timeout
     const batchSize = 500;
-    let insertedCount = 0;
+    const insertedCustomers: UnifiedCustomer[] = [];
     for (let i = 0; i < unifiedCustomers.length; i += batchSize) {
       const batch = unifiedCustomers.slice(i, i + batchSize);
       const { data } = await supabase
         .from("unified_customers")
         .upsert(batch as never[], { onConflict: "id" })
         .select();
-      insertedCount += data?.length || 0;
+      insertedCustomers.push(...((data || []) as UnifiedCustomer[]));
     }
-    stats.unifiedCustomers = insertedCount;
+    stats.unifiedCustomers = insertedCustomers.length;
+
+    // Step 6b: Generate daily usage of the profile's value metrics
+    console.log("Generating usage records from profile...");
+    const stripeMetadataById = new Map(
+      customers.map((c) => [c.id, c.metadata as Record<string, unknown>])
+    );
+    const canceledStripeCustomers = new Set(
+      ((subscriptions || []) as { customer_id: string | null; status: string }[])
+        .filter((sub) => sub.status === "canceled" && sub.customer_id)
+        .map((sub) => sub.customer_id as string)
+    );
+
+    const usageCustomers: UsageCustomerRef[] = insertedCustomers
+      .filter((c) => c.stripe_customer_id)
+      .map((c) => {
+        const metadata = stripeMetadataById.get(c.stripe_customer_id!) || {};
+        return {
+          customerId: c.id,
+          segment: String(metadata.segment || ""),
+          tier: String(metadata.tier || ""),
+          mrr: Number(c.mrr) || 0,
+          status: canceledStripeCustomers.has(c.stripe_customer_id!)
+            ? "churning"
+            : c.status === "at_risk"
+              ? "at_risk"
+              : "active",
+        };
+      });
+
+    const usageData = generateUsageDataFromProfile(
+      organizationId,
+      usageCustomers,
+      profile
+    );
+
+    console.log("Inserting usage records...");
+    const usageBatchSize = 1000;
+    for (let i = 0; i < usageData.records.length; i += usageBatchSize) {
+      const batch = usageData.records.slice(i, i + usageBatchSize);
+      await supabase.from("usage_records").upsert(batch as never[], {
+        onConflict: "organization_id,customer_id,metric,usage_date",
+      });
+    }
+    stats.usageRecords = usageData.records.length;
 
     // Step 7: Create initial ontology snapshot
     console.log("Creating ontology snapshot...");
@@ -64,6 +64,17 @@ const DEAL_STAGES = [
   "closedlost",
 ];
 
+// HubSpot original source values
+const LEAD_SOURCES = [
+  "ORGANIC_SEARCH",
+  "PAID_SEARCH",
+  "DIRECT_TRAFFIC",
+  "REFERRALS",
+  "SOCIAL_MEDIA",
+  "EMAIL_MARKETING",
+  "OFFLINE",
+];
+
 function randomInRange(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
@@ -175,6 +186,7 @@ export function generateHubSpotData(
     const companyCreatedDate = stripeCustomer.stripeCreated
       ? new Date(stripeCustomer.stripeCreated)
       : randomDate(twoYearsAgo, oneYearAgo);
+    const leadSource = LEAD_SOURCES[randomInRange(0, LEAD_SOURCES.length - 1)];
 
     companies.push({
       organization_id: organizationId,
@@ -225,10 +237,12 @@ export function generateHubSpotData(
         jobtitle: generateJobTitle(segment),
         lifecycle_stage: "customer",
         lead_status: "Connected",
+        lead_source: leadSource,
         associated_company_id: hubspotCompanyId,
         properties: {
           is_primary: i === 0,
           stripe_customer_id: stripeCustomer.stripeId,
+          hs_analytics_source: leadSource,
         },
         hubspot_created: companyCreatedDate.toISOString(),
         hubspot_updated: now.toISOString(),
@@ -388,6 +402,7 @@ export function generateHubSpotDataFromProfile(
     const companyCreatedDate = stripeCustomer.stripeCreated
       ? new Date(stripeCustomer.stripeCreated)
       : randomDate(twoYearsAgo, oneYearAgo);
+    const leadSource = LEAD_SOURCES[randomInRange(0, LEAD_SOURCES.length - 1)];
 
     companies.push({
       organization_id: organizationId,
@@ -442,10 +457,12 @@ export function generateHubSpotDataFromProfile(
         jobtitle: generateJobTitle(companySize),
         lifecycle_stage: "customer",
         lead_status: "Connected",
+        lead_source: leadSource,
         associated_company_id: hubspotCompanyId,
         properties: {
           is_primary: i === 0,
           stripe_customer_id: stripeCustomer.stripeId,
+          hs_analytics_source: leadSource,
         },
         hubspot_created: companyCreatedDate.toISOString(),
         hubspot_updated: now.toISOString(),
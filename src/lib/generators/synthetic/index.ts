@@ -4,6 +4,8 @@ export { generateHubSpotData, generateHubSpotDataFromProfile } from "./hubspot-d
 export type { StripeCustomerRef, GeneratedHubSpotData } from "./hubspot-data";
 export { generateOntologyData, generateOntologyDataFromProfile } from "./ontology-data";
 export type { GeneratedOntologyData } from "./ontology-data";
+export { generateUsageDataFromProfile } from "./usage-data";
+export type { UsageCustomerRef, GeneratedUsageData } from "./usage-data";
 export {
   generateCompanyName,
   generateFirstName,
@@ -0,0 +1,176 @@
+/**
+ * Synthetic Usage Data Generator
+ * Generates daily usage_records from a CompanyProfile: each customer uses
+ * its tier's allowance of the primary value metric to a varying degree,
+ * grows at its segment's expansion rate, and fades out ahead of churn.
+ * Secondary value metrics are sampled weekly.
+ */
+
+import type { Database } from "@/types/database";
+import type { CompanyProfile } from "@/types/company-profile";
+import { resolveMetricLimit, usageMetricKey } from "@/lib/analytics/usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the week's usage by day, Sunday first; averages to 1
+const WEEKDAY_FACTORS = [0.5, 1.2, 1.2, 1.2, 1.2, 1.2, 0.5];
+
+export interface UsageCustomerRef {
+  customerId: string; // unified_customers.id
+  segment: string; // Profile segment name
+  tier: string; // Profile tier name
+  mrr: number;
+  // "churning" customers have cancelled; their usage fades out over the window
+  status: "active" | "at_risk" | "churning";
+}
+
+export interface GeneratedUsageData {
+  records: Database["public"]["Tables"]["usage_records"]["Insert"][];
+}
+
+export function generateUsageDataFromProfile(
+  organizationId: string,
+  customers: UsageCustomerRef[],
+  profile: CompanyProfile,
+  options: { days?: number; now?: Date } = {}
+): GeneratedUsageData {
+  const days = options.days ?? 60;
+  const now = options.now ?? new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  const primaryMetric = usageMetricKey(profile.primary_value_metric);
+  const secondaryMetrics = profile.secondary_value_metrics.map(usageMetricKey);
+  const sortedTiers = [...profile.pricing_tiers].sort((a, b) => a.position - b.position);
+  const segments = new Map(profile.segments.map((s) => [s.name.toLowerCase(), s]));
+
+  // Unlimited tiers are anchored to the largest finite allowance
+  const largestLimit = Math.max(
+    0,
+    ...sortedTiers.map((t) => resolveMetricLimit(t.value_metric_limits, primaryMetric, primaryMetric))
+      .filter((limit): limit is number => typeof limit === "number")
+  );
+
+  const records: GeneratedUsageData["records"] = [];
+
+  for (const customer of customers) {
+    const tierIndex = Math.max(0, sortedTiers.findIndex((t) => t.name.toLowerCase() === customer.tier.toLowerCase()));
+    const tier = sortedTiers[tierIndex];
+    const segment = segments.get(customer.segment.toLowerCase());
+    // How much of its allowance the customer uses, 0.3-0.9
+    const intensity = 0.3 + Math.random() * 0.6;
+    const multiplierAt = buildMultiplier(customer.status, segment?.expansion_rate ?? 0, days);
+
+    // Primary metric: a record for each day with any usage
+    const base = primaryBase(
+      tier ? resolveMetricLimit(tier.value_metric_limits, primaryMetric, primaryMetric) : null,
+      largestLimit,
+      intensity,
+      customer.mrr
+    );
+
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = new Date(today - offset * DAY_MS);
+      const monthsElapsed = (days - 1 - offset) / 30;
+      const mean = (base / 30) * multiplierAt(monthsElapsed) * WEEKDAY_FACTORS[date.getUTCDay()];
+      const quantity = samplePoisson(mean);
+      if (quantity > 0) {
+        records.push(usageRecord(organizationId, customer.customerId, primaryMetric, date, quantity));
+      }
+    }
+
+    // Secondary metrics: a weekly reading
+    for (const metric of secondaryMetrics) {
+      const limit = tier ? resolveMetricLimit(tier.value_metric_limits, metric, primaryMetric) : null;
+      // Without a limit to anchor to, scale with the tier
+      const reading = typeof limit === "number" && limit > 0 ? limit * intensity : (tierIndex + 1) * (2 + 8 * intensity);
+
+      for (let offset = days - 1; offset >= 0; offset -= 7) {
+        const date = new Date(today - offset * DAY_MS);
+        const value = Math.round(reading * multiplierAt((days - 1 - offset) / 30) * (0.9 + Math.random() * 0.2));
+        if (value > 0) {
+          records.push(usageRecord(organizationId, customer.customerId, metric, date, value));
+        }
+      }
+    }
+  }
+
+  return { records };
+}
+
+/**
+ * Monthly primary usage at the start of the window
+ */
+function primaryBase(
+  limit: number | "unlimited" | null,
+  largestLimit: number,
+  intensity: number,
+  mrr: number
+): number {
+  if (typeof limit === "number" && limit > 0) return limit * intensity;
+  if (limit === "unlimited" && largestLimit > 0) return largestLimit * (1 + intensity * 2);
+  // No allowances in the profile: usage follows spend
+  return Math.max(1, mrr * 10 * intensity);
+}
+
+/**
+ * Usage relative to the start of the window, by months elapsed
+ */
+function buildMultiplier(
+  status: UsageCustomerRef["status"],
+  expansionRate: number,
+  days: number
+): (monthsElapsed: number) => number {
+  const windowMonths = Math.max(1, (days - 1) / 30);
+
+  if (status === "churning") {
+    // Usage drops away from somewhere in the first half of the window
+    const declineStart = Math.random() * windowMonths * 0.5;
+    return (m) =>
+      m < declineStart ? 1 : Math.max(0.02, 1 - (m - declineStart) / (windowMonths - declineStart));
+  }
+
+  if (status === "at_risk") {
+    return (m) => 1 - 0.5 * (m / windowMonths);
+  }
+
+  // Chance the customer expands at some point in the window
+  const expands = Math.random() < 1 - Math.pow(1 - expansionRate, windowMonths);
+  const monthlyGrowth = expands ? 0.1 + Math.random() * 0.2 : (Math.random() - 0.5) * 0.1;
+  return (m) => Math.pow(1 + monthlyGrowth, m);
+}
+
+function usageRecord(
+  organizationId: string,
+  customerId: string,
+  metric: string,
+  date: Date,
+  quantity: number
+): GeneratedUsageData["records"][number] {
+  return {
+    organization_id: organizationId,
+    customer_id: customerId,
+    metric,
+    usage_date: date.toISOString().split("T")[0],
+    quantity,
+    source: "synthetic",
+  };
+}
+
+/**
+ * Poisson draw; a normal approximation for large means
+ */
+function samplePoisson(mean: number): number {
+  if (mean <= 0) return 0;
+  if (mean > 30) {
+    const gaussian = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * gaussian));
+  }
+  const threshold = Math.exp(-mean);
+  let count = 0;
+  let product = Math.random();
+  while (product > threshold) {
+    count++;
+    product *= Math.random();
+  }
+  return count;
+}
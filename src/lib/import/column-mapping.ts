@@ -0,0 +1,256 @@
+/**
+ * Column Mapping
+ * The fields each import entity needs, the header names Chargebee, Recurly,
+ * Paddle and typical homegrown exports use for them, and auto-detection of
+ * the entity, source system and column mapping from a file's headers
+ */
+
+import type {
+  ColumnMapping,
+  ImportEntity,
+  ImportField,
+  ImportSource,
+  ParsedSheet,
+} from "@/types/billing-import";
+
+const CUSTOMER_REFERENCE_FIELDS: ImportField[] = [
+  {
+    key: "customer_external_id",
+    label: "Customer ID",
+    type: "string",
+    aliases: ["customer_id", "customers_id", "account_code", "account_id", "customer", "customer_code", "customer_handle"],
+  },
+  {
+    key: "customer_email",
+    label: "Customer email",
+    type: "email",
+    aliases: ["customer_email", "email", "account_email", "billing_email", "email_address"],
+  },
+];
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  customers: [
+    {
+      key: "external_id",
+      label: "Customer ID",
+      type: "string",
+      required: true,
+      aliases: ["customer_id", "customers_id", "id", "account_code", "account_id", "customer_code", "customer_handle", "customer"],
+    },
+    { key: "name", label: "Name", type: "string", aliases: ["name", "customer_name", "full_name", "account_name", "display_name"] },
+    { key: "first_name", label: "First name", type: "string", aliases: ["first_name", "firstname", "given_name"] },
+    { key: "last_name", label: "Last name", type: "string", aliases: ["last_name", "lastname", "surname", "family_name"] },
+    { key: "email", label: "Email", type: "email", aliases: ["email", "email_address", "customer_email", "account_email", "billing_email"] },
+    {
+      key: "company_name",
+      label: "Company",
+      type: "string",
+      aliases: ["company", "company_name", "organization", "organisation", "business_name", "account_company"],
+    },
+    {
+      key: "country",
+      label: "Country",
+      type: "string",
+      aliases: ["country", "country_code", "billing_country", "billing_address_country", "address_country"],
+    },
+    { key: "industry", label: "Industry", type: "string", aliases: ["industry", "vertical", "sector"] },
+    {
+      key: "employee_count",
+      label: "Employees",
+      type: "integer",
+      aliases: ["employee_count", "employees", "number_of_employees", "numberofemployees", "headcount"],
+    },
+    {
+      key: "created_at",
+      label: "Customer since",
+      type: "date",
+      aliases: ["created_at", "created", "signup_date", "signed_up_at", "customer_since", "account_created_at"],
+    },
+  ],
+  subscriptions: [
+    {
+      key: "external_id",
+      label: "Subscription ID",
+      type: "string",
+      aliases: ["subscription_id", "subscriptions_id", "id", "uuid", "subscription_uuid"],
+    },
+    ...CUSTOMER_REFERENCE_FIELDS,
+    {
+      key: "plan",
+      label: "Plan",
+      type: "string",
+      aliases: ["plan", "plan_id", "plan_code", "plan_name", "item_price_id", "price_name", "product", "product_name"],
+    },
+    { key: "mrr", label: "MRR", type: "number", aliases: ["mrr", "monthly_recurring_revenue", "subscription_mrr"] },
+    {
+      key: "amount",
+      label: "Price per interval",
+      type: "number",
+      aliases: ["plan_amount", "unit_amount", "amount", "price", "unit_price", "recurring_price", "plan_unit_price", "subscription_amount"],
+    },
+    { key: "quantity", label: "Quantity", type: "number", aliases: ["quantity", "plan_quantity", "seats", "units"] },
+    {
+      key: "interval",
+      label: "Billing interval",
+      type: "string",
+      aliases: ["billing_period_unit", "interval_unit", "plan_interval_unit", "billing_cycle_interval", "interval", "billing_interval", "billing_cycle"],
+    },
+    {
+      key: "interval_count",
+      label: "Intervals per billing period",
+      type: "integer",
+      aliases: ["billing_period", "interval_length", "plan_interval_length", "billing_cycle_frequency", "interval_count"],
+    },
+    { key: "status", label: "Status", type: "string", aliases: ["status", "state", "subscription_status"] },
+    {
+      key: "started_at",
+      label: "Start date",
+      type: "date",
+      required: true,
+      aliases: ["started_at", "start_date", "activated_at", "subscription_start", "begins_at", "created_at", "created"],
+    },
+    {
+      key: "ended_at",
+      label: "End date",
+      type: "date",
+      aliases: ["cancelled_at", "canceled_at", "ended_at", "end_date", "expires_at", "expired_at", "cancellation_date", "churned_at"],
+    },
+    { key: "currency", label: "Currency", type: "string", aliases: ["currency", "currency_code"] },
+  ],
+  invoices: [
+    {
+      key: "external_id",
+      label: "Invoice ID",
+      type: "string",
+      aliases: ["invoice_id", "invoices_id", "invoice_number", "transaction_id", "id", "number", "receipt_id"],
+    },
+    ...CUSTOMER_REFERENCE_FIELDS,
+    {
+      key: "amount",
+      label: "Amount",
+      type: "number",
+      required: true,
+      aliases: ["amount_paid", "total", "grand_total", "amount", "invoice_total", "total_amount", "paid_amount"],
+    },
+    { key: "currency", label: "Currency", type: "string", aliases: ["currency", "currency_code"] },
+    {
+      key: "occurred_at",
+      label: "Date",
+      type: "date",
+      required: true,
+      aliases: ["paid_at", "paid_on", "billed_at", "invoice_date", "date", "closed_at", "issued_at", "created_at", "created"],
+    },
+    { key: "status", label: "Status", type: "string", aliases: ["status", "state", "payment_status"] },
+    { key: "type", label: "Type", type: "string", aliases: ["type", "transaction_type", "invoice_type", "line_type"] },
+  ],
+};
+
+// Normalized headers (or, prefixed with "value:", cell value patterns) that
+// give away the billing system an export came from
+const SOURCE_SIGNATURES: Record<Exclude<ImportSource, "generic">, (string | RegExp)[]> = {
+  chargebee: ["billing_period_unit", "item_price_id", "customers_id", "subscriptions_id", "invoices_id", "plan_quantity", "amount_paid"],
+  recurly: ["account_code", "interval_length", "plan_code", "activated_at", "expires_at"],
+  paddle: ["billing_cycle_interval", "billing_cycle_frequency", "grand_total", "billed_at", /^(ctm|sub|txn|pri)_[a-z0-9]{10,}$/],
+};
+
+// Prefixes an export may put in front of a field's usual name
+const HEADER_PREFIXES = ["customers_", "customer_", "subscriptions_", "subscription_", "invoices_", "invoice_", "account_"];
+
+/**
+ * "Customer Id", "customers.id" and "customerId" → "customer_id"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Best mapping of the entity's fields onto the headers: exact alias matches
+ * first (in alias order), then matches once a prefix like "customer_" is
+ * dropped from the header. Each header is used at most once.
+ */
+export function autoMapColumns(entity: ImportEntity, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  const fields = IMPORT_FIELDS[entity];
+
+  const assign = (match: (header: string, alias: string) => boolean) => {
+    for (const field of fields) {
+      if (mapping[field.key]) continue;
+      for (const alias of field.aliases) {
+        const index = normalized.findIndex((h, i) => !used.has(i) && match(h, alias));
+        if (index >= 0) {
+          mapping[field.key] = headers[index];
+          used.add(index);
+          break;
+        }
+      }
+    }
+  };
+
+  assign((header, alias) => header === alias);
+  assign((header, alias) =>
+    HEADER_PREFIXES.some((prefix) => header.startsWith(prefix) && header.slice(prefix.length) === alias)
+  );
+
+  for (const field of fields) mapping[field.key] ??= null;
+  return mapping;
+}
+
+/**
+ * Which entity a file most likely holds: the one whose required fields all
+ * map and that maps the most columns, nudged by the file name
+ */
+export function detectImportEntity(fileName: string, headers: string[]): ImportEntity {
+  const entities: ImportEntity[] = ["customers", "subscriptions", "invoices"];
+  const hint = fileName.toLowerCase();
+  const hints: Record<ImportEntity, RegExp> = {
+    customers: /customer|account|contact/,
+    subscriptions: /subscription|plan/,
+    invoices: /invoice|transaction|payment|charge/,
+  };
+
+  const score = (entity: ImportEntity) => {
+    const mapping = autoMapColumns(entity, headers);
+    const fields = IMPORT_FIELDS[entity];
+    const required = fields.filter((f) => f.required);
+    const mapped = fields.filter((f) => mapping[f.key]).length;
+    const complete = required.every((f) => mapping[f.key]) && hasCustomerReference(entity, mapping);
+    return (complete ? 100 : 0) + mapped + (hints[entity].test(hint) ? 3 : 0);
+  };
+
+  return entities.reduce((best, entity) => (score(entity) > score(best) ? entity : best));
+}
+
+/**
+ * The billing system an export came from, or "generic" when nothing gives
+ * it away
+ */
+export function detectImportSource(sheet: ParsedSheet): ImportSource {
+  const headers = new Set(sheet.headers.map(normalizeHeader));
+  const values = sheet.rows.slice(0, 20).flat();
+
+  let best: ImportSource = "generic";
+  let bestHits = 0;
+  for (const [source, signatures] of Object.entries(SOURCE_SIGNATURES) as [ImportSource, (string | RegExp)[]][]) {
+    const hits = signatures.filter((signature) =>
+      typeof signature === "string" ? headers.has(signature) : values.some((v) => signature.test(v))
+    ).length;
+    if (hits > bestHits) {
+      best = source;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Subscriptions and invoices are tied to a customer by ID or email
+ */
+export function hasCustomerReference(entity: ImportEntity, mapping: ColumnMapping): boolean {
+  return entity === "customers" || !!mapping.customer_external_id || !!mapping.customer_email;
+}
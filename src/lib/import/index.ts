@@ -0,0 +1,8 @@
+/**
+ * Billing Import Module
+ * Parsing, column mapping and row validation for CSV/XLSX billing exports
+ */
+
+export * from "./spreadsheet-parser";
+export * from "./column-mapping";
+export * from "./row-validation";
@@ -0,0 +1,303 @@
+/**
+ * Row Validation
+ * Turns mapped spreadsheet rows into typed customer, subscription and
+ * invoice records, collecting an error per bad cell instead of failing the
+ * whole file
+ */
+
+import type {
+  ColumnMapping,
+  ImportEntity,
+  ImportField,
+  ImportRowError,
+  ParsedSheet,
+} from "@/types/billing-import";
+import { IMPORT_FIELDS, hasCustomerReference } from "./column-mapping";
+
+export interface CustomerReference {
+  customerExternalId?: string;
+  customerEmail?: string;
+}
+
+export interface ImportedCustomer {
+  row: number;
+  externalId: string;
+  name: string;
+  email?: string;
+  companyName?: string;
+  country?: string;
+  industry?: string;
+  employeeCount?: number;
+  createdAt?: string;
+}
+
+export interface ImportedSubscription extends CustomerReference {
+  row: number;
+  externalId?: string;
+  plan?: string;
+  mrr: number; // Major currency units per month
+  interval?: "monthly" | "annual";
+  live: boolean;
+  startedAt: string;
+  endedAt?: string;
+  currency?: string;
+}
+
+export interface ImportedInvoice extends CustomerReference {
+  row: number;
+  externalId?: string;
+  amount: number;
+  currency?: string;
+  occurredAt: string;
+  type: "subscription" | "usage" | "one_time" | "refund";
+  paid: boolean;
+}
+
+export interface ImportedRows {
+  customers: ImportedCustomer[];
+  subscriptions: ImportedSubscription[];
+  invoices: ImportedInvoice[];
+}
+
+export interface RowValidationResult<E extends ImportEntity> {
+  rows: ImportedRows[E];
+  errors: ImportRowError[];
+}
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENDED_STATUSES = ["cancelled", "canceled", "expired", "ended", "inactive", "churned", "terminated", "paused"];
+const UNPAID_STATUSES = ["draft", "pending", "void", "voided", "failed", "not_paid", "payment_due", "open", "unpaid", "billed"];
+const INTERVAL_MONTHS: Record<string, number> = {
+  day: 12 / 365,
+  daily: 12 / 365,
+  week: 12 / 52,
+  weekly: 12 / 52,
+  month: 1,
+  monthly: 1,
+  quarter: 3,
+  quarterly: 3,
+  year: 12,
+  yearly: 12,
+  annual: 12,
+  annually: 12,
+};
+
+/**
+ * Validate every row of a sheet for an entity under a column mapping.
+ * Mapping problems (a required field without a column) are reported once
+ * against the header row.
+ */
+export function validateImportRows<E extends ImportEntity>(
+  entity: E,
+  sheet: ParsedSheet,
+  mapping: ColumnMapping
+): RowValidationResult<E> {
+  const fields = IMPORT_FIELDS[entity];
+  const errors: ImportRowError[] = [];
+
+  for (const field of fields) {
+    const header = mapping[field.key];
+    if (header && !sheet.headers.includes(header)) {
+      errors.push({ row: 1, field: field.key, message: `Column "${header}" is not in the file` });
+    } else if (field.required && !header) {
+      errors.push({ row: 1, field: field.key, message: `${field.label} must be mapped to a column` });
+    }
+  }
+  if (!hasCustomerReference(entity, mapping)) {
+    errors.push({ row: 1, field: "customer_external_id", message: "Customer ID or customer email must be mapped" });
+  }
+  if (entity === "subscriptions" && !mapping.mrr && !mapping.amount) {
+    errors.push({ row: 1, field: "mrr", message: "MRR or price per interval must be mapped" });
+  }
+  if (errors.length > 0) return { rows: [] as ImportedRows[E], errors };
+
+  const columns = new Map(fields.map((f) => [f.key, sheet.headers.indexOf(mapping[f.key] ?? "")]));
+  const rows: ImportedRows[E][number][] = [];
+
+  sheet.rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const rowErrors: ImportRowError[] = [];
+    const values: Record<string, string | number | undefined> = {};
+
+    for (const field of fields) {
+      const column = columns.get(field.key) ?? -1;
+      const raw = column >= 0 ? cells[column] : "";
+      if (!raw) {
+        if (field.required) rowErrors.push({ row: rowNumber, field: field.key, message: `${field.label} is empty` });
+        continue;
+      }
+      const parsed = parseCell(field, raw);
+      if (parsed === null) {
+        rowErrors.push({ row: rowNumber, field: field.key, message: `${field.label} "${raw}" is not a valid ${field.type}` });
+      } else {
+        values[field.key] = parsed;
+      }
+    }
+
+    const record = rowErrors.length === 0 ? buildRecord(entity, rowNumber, values, rowErrors) : null;
+    if (record && rowErrors.length === 0) rows.push(record);
+    errors.push(...rowErrors);
+  });
+
+  return { rows: rows as ImportedRows[E], errors };
+}
+
+function buildRecord(
+  entity: ImportEntity,
+  row: number,
+  values: Record<string, string | number | undefined>,
+  errors: ImportRowError[]
+): ImportedRows[ImportEntity][number] | null {
+  const text = (key: string) => values[key] as string | undefined;
+  const number = (key: string) => values[key] as number | undefined;
+  const reference: CustomerReference = {
+    customerExternalId: text("customer_external_id"),
+    customerEmail: text("customer_email"),
+  };
+
+  if (entity !== "customers" && !reference.customerExternalId && !reference.customerEmail) {
+    errors.push({ row, field: "customer_external_id", message: "Customer ID and customer email are both empty" });
+    return null;
+  }
+
+  if (entity === "customers") {
+    const personName = [text("first_name"), text("last_name")].filter(Boolean).join(" ");
+    const name = text("name") || personName || text("company_name") || text("email");
+    if (!name) {
+      errors.push({ row, field: "name", message: "Name, company and email are all empty" });
+      return null;
+    }
+    return {
+      row,
+      externalId: text("external_id")!,
+      name,
+      email: text("email"),
+      companyName: text("company_name"),
+      country: text("country"),
+      industry: text("industry"),
+      employeeCount: number("employee_count"),
+      createdAt: text("created_at"),
+    } satisfies ImportedCustomer;
+  }
+
+  if (entity === "subscriptions") {
+    const intervalText = text("interval")?.toLowerCase().replace(/^(\d+)\s*/, "");
+    const intervalMonths = intervalText ? INTERVAL_MONTHS[intervalText.replace(/s$/, "")] : 1;
+    if (intervalMonths === undefined) {
+      errors.push({ row, field: "interval", message: `Billing interval "${text("interval")}" is not recognised` });
+      return null;
+    }
+    const periodMonths = intervalMonths * (number("interval_count") || 1);
+    const mrr = number("mrr") ?? ((number("amount") ?? 0) * (number("quantity") ?? 1)) / periodMonths;
+    const endedAt = text("ended_at");
+    const status = text("status")?.toLowerCase().replace(/[\s-]+/g, "_");
+    const live = status ? !ENDED_STATUSES.includes(status) : !endedAt || new Date(endedAt) > new Date();
+
+    return {
+      row,
+      ...reference,
+      externalId: text("external_id"),
+      plan: text("plan"),
+      mrr: Math.round(mrr * 100) / 100,
+      interval: periodMonths === 12 ? "annual" : periodMonths === 1 ? "monthly" : undefined,
+      live,
+      startedAt: text("started_at")!,
+      endedAt: live ? undefined : endedAt,
+      currency: text("currency")?.toLowerCase(),
+    } satisfies ImportedSubscription;
+  }
+
+  const amount = number("amount")!;
+  const type = text("type")?.toLowerCase() ?? "";
+  const status = text("status")?.toLowerCase().replace(/[\s-]+/g, "_");
+  return {
+    row,
+    ...reference,
+    externalId: text("external_id"),
+    amount,
+    currency: text("currency")?.toLowerCase(),
+    occurredAt: text("occurred_at")!,
+    type:
+      amount < 0 || /refund|credit/.test(type)
+        ? "refund"
+        : /usage|metered/.test(type)
+          ? "usage"
+          : /one.?time|charge|setup/.test(type)
+            ? "one_time"
+            : "subscription",
+    paid: !status || !UNPAID_STATUSES.includes(status),
+  } satisfies ImportedInvoice;
+}
+
+/**
+ * A cell's value for its field's type, or null when it doesn't parse
+ */
+export function parseCell(field: Pick<ImportField, "type">, raw: string): string | number | null {
+  const value = raw.trim();
+  switch (field.type) {
+    case "string":
+      return value;
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value.toLowerCase() : null;
+    case "number":
+      return parseAmount(value);
+    case "integer": {
+      // "1.200" is a thousands separator in a count, not a decimal point
+      const parsed = parseAmount(/^\d{1,3}(\.\d{3})+$/.test(value) ? value.replace(/\./g, "") : value);
+      return parsed === null ? null : Math.round(parsed);
+    }
+    case "date":
+      return parseDate(value);
+  }
+}
+
+/**
+ * "€1.234,50", "$1,234.50", "(12.00)" and "1 234" all parse; when both a
+ * comma and a dot appear the later one is the decimal separator
+ */
+export function parseAmount(value: string): number | null {
+  let text = value.replace(/[^\d,.\-()]/g, "");
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  text = text.replace(/[()-]/g, "");
+  if (!/\d/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    text = lastComma > lastDot ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    // A single comma followed by one or two digits is a decimal comma
+    text = /^\d*,\d{1,2}$/.test(text) ? text.replace(",", ".") : text.replace(/,/g, "");
+  }
+
+  const parsed = Number(text);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * ISO dates, "DD/MM/YYYY" and "DD.MM.YYYY", Unix timestamps and Excel date
+ * serials, as an ISO timestamp
+ */
+export function parseDate(value: string): string | null {
+  if (/^\d{9,10}$/.test(value)) return new Date(Number(value) * 1000).toISOString();
+  if (/^\d{12,13}$/.test(value)) return new Date(Number(value)).toISOString();
+  if (/^\d{4,5}(\.\d+)?$/.test(value)) {
+    const serial = Number(value);
+    return serial > 20000 && serial < 80000 ? new Date(EXCEL_EPOCH_MS + serial * DAY_MS).toISOString() : null;
+  }
+
+  const dayFirst = value.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dayFirst) {
+    const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] = dayFirst;
+    const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+    return date.getUTCMonth() === +month - 1 ? date.toISOString() : null;
+  }
+
+  const iso = value.replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, "$1T$2");
+  const parsed = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(iso) ? `${iso}T00:00:00Z` : iso);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
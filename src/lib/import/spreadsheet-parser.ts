@@ -0,0 +1,229 @@
+/**
+ * Spreadsheet Parser
+ * Reads CSV and XLSX billing exports into a header row and string cells.
+ * XLSX files are unzipped with Node's zlib and only the first worksheet is
+ * read, so this runs server-side only.
+ */
+
+import { inflateRawSync } from "zlib";
+import type { ParsedSheet } from "@/types/billing-import";
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// Uncompressed size limits, so a small zip can't inflate into gigabytes
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_WORKBOOK_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Parse an uploaded file by extension: `.xlsx` as a workbook, anything else
+ * as delimited text. Blank rows are dropped.
+ */
+export function parseSpreadsheet(fileName: string, content: Buffer): ParsedSheet {
+  const rows = /\.xlsx$/i.test(fileName) ? readXlsxRows(content) : parseCsv(content.toString("utf8"));
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim() !== ""));
+  if (nonEmpty.length === 0) throw new Error(`${fileName} has no rows`);
+
+  const headers = nonEmpty[0].map((h) => h.trim());
+  const width = headers.length;
+  return {
+    headers,
+    rows: nonEmpty.slice(1).map((row) => Array.from({ length: width }, (_, i) => (row[i] ?? "").trim())),
+  };
+}
+
+/**
+ * RFC 4180 CSV with quoted fields, doubled quotes and newlines inside
+ * quotes. The delimiter (comma, semicolon or tab) is taken from the header
+ * line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = CSV_DELIMITERS.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Cells of the workbook's first worksheet. Shared and inline strings are
+ * resolved; numbers (including date serials) come back as written.
+ */
+export function readXlsxRows(content: Buffer): string[][] {
+  const files = readZip(content);
+  const text = (path: string) => files.get(path)?.toString("utf8");
+
+  const sharedStrings = [...(text("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) =>
+    readTextRuns(m[1])
+  );
+
+  const sheetPath = firstSheetPath(text("xl/workbook.xml"), text("xl/_rels/workbook.xml.rels"));
+  const sheet = text(sheetPath);
+  if (!sheet) throw new Error("Workbook has no worksheets");
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], "r") ?? rows.length + 1);
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], "r");
+      const column = ref ? columnIndex(ref) : cells.length;
+      const type = attribute(cellMatch[1], "t");
+      const body = cellMatch[2] ?? "";
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = readTextRuns(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      while (cells.length < column) cells.push("");
+      cells[column] = value;
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(cells);
+  }
+  return rows;
+}
+
+function firstSheetPath(workbook?: string, rels?: string): string {
+  const relId = workbook?.match(/<sheet\b[^>]*?r:id="([^"]+)"/)?.[1];
+  const target = relId
+    ? [...(rels ?? "").matchAll(/<Relationship\b([^>]*?)\/?>/g)]
+        .map((m) => m[1])
+        .find((attrs) => attribute(attrs, "Id") === relId)
+    : undefined;
+  const path = target ? attribute(target, "Target") : undefined;
+  if (!path) return "xl/worksheets/sheet1.xml";
+  return path.startsWith("/") ? path.slice(1) : `xl/${path.replace(/^\.\//, "")}`;
+}
+
+// Concatenated <t> runs, so rich text comes back as plain text
+function readTextRuns(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join("");
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+// "C12" → 2
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, "")) index = index * 26 + (char.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Entries of a zip archive by path, read through the central directory.
+ * Supports the stored and deflate methods, which is all XLSX writers use.
+ * Throws when an entry or the whole archive inflates past the size limits.
+ */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  const END_OF_DIRECTORY = 0x06054b50;
+  const DIRECTORY_ENTRY = 0x02014b50;
+  const LOCAL_HEADER = 0x04034b50;
+
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a valid XLSX file");
+
+  const entries = new Map<string, Buffer>();
+  let remaining = MAX_WORKBOOK_BYTES;
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== DIRECTORY_ENTRY) throw new Error("Corrupt XLSX directory");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) throw new Error(`Corrupt XLSX entry ${name}`);
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let entry: Buffer;
+    if (method === 0) entry = data;
+    else if (method === 8) entry = inflateEntry(name, data, remaining);
+    else continue;
+    if (entry.length > Math.min(MAX_ENTRY_BYTES, remaining)) throw tooLarge(name, remaining);
+    remaining -= entry.length;
+    entries.set(name, entry);
+  }
+  return entries;
+}
+
+function inflateEntry(name: string, data: Buffer, remaining: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, Math.min(MAX_ENTRY_BYTES, remaining)) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge(name, remaining);
+    throw error;
+  }
+}
+
+function tooLarge(name: string, remaining: number): Error {
+  return remaining < MAX_ENTRY_BYTES
+    ? new Error(`XLSX file is larger than ${MAX_WORKBOOK_BYTES / 1024 / 1024} MB uncompressed`)
+    : new Error(`XLSX entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB uncompressed`);
+}
@@ -0,0 +1,207 @@
+/**
+ * Council Policy
+ *
+ * Per-organization rules for how the pricing council votes: agent weights,
+ * veto rights and confidence thresholds. Stored under
+ * `organizations.settings.council_policy`; organizations without one get the
+ * default policy, which is an equal-weight vote with no vetoes.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/types/database";
+import type { AgentId } from "@/types/agents";
+import type {
+  CouncilEvaluation,
+  CouncilPolicy,
+  CouncilRecommendation,
+  CouncilVetoRule,
+  PricingOption,
+} from "@/types/pricing-flow";
+
+type DbClient = SupabaseClient<Database>;
+
+const AGENT_IDS: AgentId[] = ["CFO", "CRO", "CPO", "CMO", "CSO", "CTO", "COO", "CDO"];
+const VETO_LEVELS: CouncilVetoRule["at"][] = ["oppose", "strongly_oppose"];
+
+export const DEFAULT_COUNCIL_POLICY: CouncilPolicy = {
+  agent_weights: {},
+  vetoes: [],
+  min_agent_confidence: 0,
+  min_option_confidence: 0,
+};
+
+/**
+ * Ranking value of each consensus level; ties are broken by weighted score
+ */
+const CONSENSUS_RANK: Record<CouncilRecommendation["consensus"], number> = {
+  strong: 4,
+  moderate: 3,
+  weak: 1,
+  divided: 0,
+};
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Load an organization's council policy, falling back to the default
+ */
+export async function loadCouncilPolicy(
+  supabase: DbClient,
+  organizationId: string
+): Promise<CouncilPolicy> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", organizationId)
+    .single();
+
+  if (error) throw error;
+  return parseCouncilPolicy((data as { settings: Json } | null)?.settings ?? null);
+}
+
+/**
+ * Store a council policy, leaving the rest of the organization's settings intact
+ */
+export async function saveCouncilPolicy(
+  supabase: DbClient,
+  organizationId: string,
+  policy: CouncilPolicy
+): Promise<CouncilPolicy> {
+  const { data: org, error: readError } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", organizationId)
+    .single();
+
+  if (readError) throw readError;
+
+  const settings = (org as { settings: Json } | null)?.settings;
+  const current = isObject(settings) ? settings : {};
+
+  const { error } = await supabase
+    .from("organizations")
+    .update({ settings: { ...current, council_policy: policy } } as never)
+    .eq("id", organizationId);
+
+  if (error) throw error;
+  return policy;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing & validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the policy out of `organizations.settings`. Settings are hand-edited
+ * JSON, so anything malformed falls back to the default for that field.
+ */
+export function parseCouncilPolicy(settings: Json | null): CouncilPolicy {
+  const raw: unknown = isObject(settings) ? settings.council_policy : undefined;
+  if (!isObject(raw)) return DEFAULT_COUNCIL_POLICY;
+
+  const agentWeights: CouncilPolicy["agent_weights"] = {};
+  if (isObject(raw.agent_weights)) {
+    for (const [agent, weight] of Object.entries(raw.agent_weights)) {
+      if (AGENT_IDS.includes(agent as AgentId) && typeof weight === "number" && weight >= 0) {
+        agentWeights[agent as AgentId] = weight;
+      }
+    }
+  }
+
+  const vetoes = Array.isArray(raw.vetoes)
+    ? raw.vetoes.filter(
+        (v): v is CouncilVetoRule =>
+          isObject(v) &&
+          AGENT_IDS.includes(v.agent as AgentId) &&
+          VETO_LEVELS.includes(v.at as CouncilVetoRule["at"])
+      )
+    : [];
+
+  return {
+    agent_weights: agentWeights,
+    vetoes,
+    min_agent_confidence: asFraction(raw.min_agent_confidence),
+    min_option_confidence: asFraction(raw.min_option_confidence),
+  };
+}
+
+/**
+ * Strict validation for policies submitted through the API
+ */
+export function validateCouncilPolicy(input: unknown): string | null {
+  if (!isObject(input)) return "policy must be an object";
+
+  if (input.agent_weights !== undefined) {
+    if (!isObject(input.agent_weights)) return "agent_weights must be an object";
+    for (const [agent, weight] of Object.entries(input.agent_weights)) {
+      if (!AGENT_IDS.includes(agent as AgentId)) return `Unknown agent in agent_weights: ${agent}`;
+      if (typeof weight !== "number" || weight < 0) return `agent_weights.${agent} must be a non-negative number`;
+    }
+  }
+
+  if (input.vetoes !== undefined) {
+    if (!Array.isArray(input.vetoes)) return "vetoes must be an array";
+    for (const [i, veto] of input.vetoes.entries()) {
+      if (!isObject(veto) || !AGENT_IDS.includes(veto.agent as AgentId)) {
+        return `vetoes[${i}].agent must be one of: ${AGENT_IDS.join(", ")}`;
+      }
+      if (!VETO_LEVELS.includes(veto.at as CouncilVetoRule["at"])) {
+        return `vetoes[${i}].at must be one of: ${VETO_LEVELS.join(", ")}`;
+      }
+    }
+  }
+
+  for (const key of ["min_agent_confidence", "min_option_confidence"] as const) {
+    const value = input[key];
+    if (value !== undefined && (typeof value !== "number" || value < 0 || value > 1)) {
+      return `${key} must be a number between 0 and 1`;
+    }
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Ranking
+// ---------------------------------------------------------------------------
+
+/**
+ * Order options by council outcome: blocked options last, then consensus,
+ * then weighted score
+ */
+export function rankEvaluatedOptions(
+  options: PricingOption[],
+  evaluations: CouncilEvaluation[]
+): { option: PricingOption; evaluation: CouncilEvaluation }[] {
+  return options
+    .map((option, i) => ({ option, evaluation: evaluations[i] }))
+    .sort((a, b) => {
+      const ra = a.evaluation.recommendation;
+      const rb = b.evaluation.recommendation;
+      if (!!ra.blocked_by !== !!rb.blocked_by) return ra.blocked_by ? 1 : -1;
+      const byConsensus = CONSENSUS_RANK[rb.consensus] - CONSENSUS_RANK[ra.consensus];
+      if (byConsensus !== 0) return byConsensus;
+      return (rb.weighted_score ?? 0) - (ra.weighted_score ?? 0);
+    });
+}
+
+/**
+ * The top-ranked option, unless every option is blocked by the policy
+ */
+export function pickRecommendedOption(
+  options: PricingOption[],
+  evaluations: CouncilEvaluation[]
+): PricingOption | null {
+  const top = rankEvaluatedOptions(options, evaluations)[0];
+  return top && !top.evaluation.recommendation.blocked_by ? top.option : null;
+}
+
+function asFraction(value: unknown): number {
+  return typeof value === "number" && value >= 0 && value <= 1 ? value : 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
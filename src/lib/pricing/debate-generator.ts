@@ -1,10 +1,72 @@
 /**
  * Generate agent debate messages from council evaluations
+ *
+ * The debate runs in rounds. Round 1 is every agent's opening position. In
+ * each later round every agent reads the previous round, answers the strongest
+ * argument against its stance, and may revise its recommendation and
+ * confidence. Agents are pulled toward the confidence-weighted view of the
+ * room, and more confident agents move less. The debate ends when nobody's
+ * recommendation changes and everyone has settled, or at the round limit.
  */
 
 import type { AgentId } from "@/types/agents";
 import type { PricingOption, CouncilEvaluation, AgentView } from "@/types/pricing-flow";
-import type { DebateMessage, DebateSummary } from "@/types/demo";
+import type {
+  DebateMessage,
+  DebateSummary,
+  DebateRoundSnapshot,
+  StanceChange,
+} from "@/types/demo";
+import { councilViews } from "@/lib/pricing/flow-engine";
+
+export interface DebateOptions {
+  maxRounds?: number; // Including the opening round
+}
+
+export interface DebateResult {
+  messages: DebateMessage[];
+  summary: DebateSummary;
+}
+
+const DEFAULT_MAX_ROUNDS = 4;
+
+/** Upper bound on caller-supplied rounds; each round re-scores every agent */
+export const MAX_ROUNDS = 5;
+
+/** How far an agent moves toward the room per round, before its own confidence damps it */
+const SUSCEPTIBILITY = 0.6;
+
+/** Score gap below which another agent's view isn't worth rebutting */
+const MIN_DISAGREEMENT = 0.5;
+
+/** A round where nobody's score moves more than this counts as settled */
+const SETTLED_SHIFT = 0.1;
+
+const CONFIDENCE_FLOOR = 0.3;
+const CONFIDENCE_CEILING = 0.95;
+
+const SCORES: Record<AgentView["recommendation"], number> = {
+  strongly_support: 2,
+  support: 1,
+  neutral: 0,
+  oppose: -1,
+  strongly_oppose: -2,
+};
+
+const RECOMMENDATIONS: AgentView["recommendation"][] = [
+  "strongly_oppose",
+  "oppose",
+  "neutral",
+  "support",
+  "strongly_support",
+];
+
+interface AgentState {
+  view: AgentView;
+  score: number; // Continuous; the recommendation is its nearest level
+  recommendation: AgentView["recommendation"];
+  confidence: number;
+}
 
 // Map recommendation to stance
 function mapToStance(recommendation: string): "support" | "oppose" | "caution" {
@@ -17,188 +79,287 @@ function mapToStance(recommendation: string): "support" | "oppose" | "caution" {
   return "caution";
 }
 
+function scoreToRecommendation(score: number): AgentView["recommendation"] {
+  return RECOMMENDATIONS[Math.max(0, Math.min(4, Math.round(score) + 2))];
+}
+
+function label(recommendation: AgentView["recommendation"]): string {
+  return recommendation.replace("_", " ");
+}
+
 // Generate initial position message
-function generatePositionMessage(
-  view: AgentView,
-  index: number
-): DebateMessage {
+function generatePositionMessage(view: AgentView, index: number): DebateMessage {
   return {
-    id: `pos-${view.agent}-${Date.now()}`,
-    agentId: view.agent as AgentId,
+    id: `r1-pos-${view.agent}`,
+    agentId: view.agent,
     type: "position",
     content: view.reasoning,
     stance: mapToStance(view.recommendation),
     confidence: view.confidence,
     keyPoints: view.key_points,
-    timestamp: index * 1000, // Stagger by 1 second
+    timestamp: index * 1000,
+    round: 1,
   };
 }
 
-// Generate key point messages
-function generatePointMessages(
-  view: AgentView,
-  baseIndex: number
-): DebateMessage[] {
-  return view.key_points.slice(0, 2).map((point, i) => ({
-    id: `point-${view.agent}-${i}-${Date.now()}`,
-    agentId: view.agent as AgentId,
-    type: "point" as const,
-    content: point,
-    stance: mapToStance(view.recommendation),
-    confidence: view.confidence,
-    timestamp: (baseIndex + i + 1) * 500,
-  }));
+/**
+ * Move one agent a round forward, given where everyone stood last round
+ */
+function reviseStance(
+  agent: AgentState,
+  others: AgentState[]
+): { next: AgentState; challenger: AgentState | null } {
+  // The strongest opposing argument: far from us, and held with conviction
+  const challenger = others.reduce<AgentState | null>((best, o) => {
+    const weight = Math.abs(o.score - agent.score) * o.confidence;
+    const bestWeight = best ? Math.abs(best.score - agent.score) * best.confidence : 0;
+    return Math.abs(o.score - agent.score) >= MIN_DISAGREEMENT && weight > bestWeight ? o : best;
+  }, null);
+
+  const totalWeight = others.reduce((sum, o) => sum + o.confidence, 0);
+  const pull = totalWeight > 0
+    ? others.reduce((sum, o) => sum + o.confidence * (o.score - agent.score), 0) / totalWeight
+    : 0;
+  const score = Math.max(-2, Math.min(2, agent.score + pull * SUSCEPTIBILITY * (1 - agent.confidence)));
+  const recommendation = scoreToRecommendation(score);
+  const changed = recommendation !== agent.recommendation;
+
+  // Company firms up conviction; changing your mind costs some
+  const stance = mapToStance(recommendation);
+  const agreeing = others.filter((o) => mapToStance(o.recommendation) === stance).length;
+  const agreement = others.length > 0 ? agreeing / others.length : 1;
+  const confidence = Math.max(
+    CONFIDENCE_FLOOR,
+    Math.min(CONFIDENCE_CEILING, agent.confidence + 0.1 * (agreement - 0.5) - (changed ? 0.05 : 0))
+  );
+
+  return {
+    next: { ...agent, score, recommendation, confidence: Math.round(confidence * 100) / 100 },
+    challenger,
+  };
 }
 
-// Generate cross-discussion responses
-function generateResponseMessages(
-  views: AgentView[]
-): DebateMessage[] {
-  const responses: DebateMessage[] = [];
-  let timestamp = 5000;
-
-  // CFO responds to growth concerns
-  const cfoView = views.find((v) => v.agent === "CFO");
-  const croView = views.find((v) => v.agent === "CRO");
-
-  if (cfoView && croView && mapToStance(croView.recommendation) !== mapToStance(cfoView.recommendation)) {
-    responses.push({
-      id: `resp-CFO-CRO-${Date.now()}`,
-      agentId: "CFO",
-      type: "response",
-      content: `Responding to ${croView.agent}'s concern about churn: While I understand the revenue growth perspective, we need to consider the long-term unit economics. The customers most likely to churn are often unprofitable anyway.`,
-      stance: mapToStance(cfoView.recommendation),
-      confidence: cfoView.confidence,
-      timestamp: timestamp,
-    });
-    timestamp += 1000;
+function responseContent(
+  before: AgentState,
+  after: AgentState,
+  challenger: AgentState | null,
+  round: number
+): string {
+  const ownPoint = before.view.key_points[0];
+  if (!challenger) {
+    return `The room is broadly with me here. ${ownPoint ? `${ownPoint}.` : ""} Holding at ${label(after.recommendation)}.`;
   }
 
-  // CPO responds to strategy
-  const cpoView = views.find((v) => v.agent === "CPO");
-  const csoView = views.find((v) => v.agent === "CSO");
-
-  if (cpoView && csoView) {
-    responses.push({
-      id: `resp-CPO-CSO-${Date.now()}`,
-      agentId: "CPO",
-      type: "response",
-      content: `Building on ${csoView.agent}'s strategic point: From a product perspective, we should ensure any pricing change reinforces our value proposition. The key is aligning price with the value customers actually receive.`,
-      stance: mapToStance(cpoView.recommendation),
-      confidence: cpoView.confidence,
-      timestamp: timestamp,
-    });
-  }
+  // Alternate between the challenger's two leading points so rounds don't repeat verbatim
+  const points = challenger.view.key_points.slice(0, 2);
+  const argument = points.length > 0 ? points[(round - 2) % points.length] : challenger.view.reasoning;
 
-  return responses;
+  if (after.recommendation !== before.recommendation) {
+    return `${challenger.view.agent} makes a fair point: "${argument}". ` +
+      `I'm moving from ${label(before.recommendation)} to ${label(after.recommendation)}.`;
+  }
+  return `I hear ${challenger.view.agent} on "${argument}", but I'm holding at ${label(after.recommendation)}` +
+    `${ownPoint ? ` — ${ownPoint.charAt(0).toLowerCase()}${ownPoint.slice(1)}` : ""}.`;
 }
 
-// Generate synthesis message
-function generateSynthesis(
-  evaluation: CouncilEvaluation
-): DebateMessage {
+function snapshotRound(round: number, states: AgentState[]): DebateRoundSnapshot {
+  const averageScore = states.length > 0
+    ? states.reduce((sum, s) => sum + SCORES[s.recommendation], 0) / states.length
+    : 0;
+  const stances = states.map((s) => mapToStance(s.recommendation));
+  const hasOpposition = stances.includes("oppose");
+  const hasSupport = stances.includes("support");
+
+  // Same thresholds the council synthesis uses
+  let consensus: DebateSummary["consensus"];
+  if (averageScore >= 1.5) consensus = "strong";
+  else if (averageScore >= 0.5) consensus = "moderate";
+  else if (hasOpposition && hasSupport) consensus = "divided";
+  else consensus = "weak";
+
   return {
-    id: `synth-${Date.now()}`,
-    agentId: "CFO", // Moderator
-    type: "synthesis",
-    content: evaluation.recommendation.summary,
-    stance: evaluation.recommendation.consensus === "strong" || evaluation.recommendation.consensus === "moderate"
-      ? "support"
-      : "caution",
-    confidence: 0.85,
-    keyPoints: evaluation.recommendation.trade_offs,
-    timestamp: 10000,
+    round,
+    consensus,
+    averageScore: Math.round(averageScore * 100) / 100,
+    recommendations: Object.fromEntries(states.map((s) => [s.view.agent, s.recommendation])),
   };
 }
 
 /**
- * Generate a complete debate from a council evaluation
+ * Run the debate, yielding each message as it is produced. The generator's
+ * return value carries the summary.
  */
-export function generateDebate(
+export function* debateMessages(
   option: PricingOption,
-  evaluation: CouncilEvaluation
-): DebateMessage[] {
-  const messages: DebateMessage[] = [];
+  evaluation: CouncilEvaluation,
+  options: DebateOptions = {}
+): Generator<DebateMessage, DebateSummary> {
+  const maxRounds = Math.min(MAX_ROUNDS, Math.max(1, options.maxRounds ?? DEFAULT_MAX_ROUNDS));
+  const views = councilViews(evaluation);
+  let timestamp = 0;
+
+  let states: AgentState[] = views.map((view) => ({
+    view,
+    score: SCORES[view.recommendation],
+    recommendation: view.recommendation,
+    confidence: view.confidence,
+  }));
+
+  // Round 1: opening positions
+  for (const [index, view] of views.entries()) {
+    const message = generatePositionMessage(view, index);
+    timestamp = message.timestamp;
+    yield message;
+  }
+
+  const rounds: DebateRoundSnapshot[] = [snapshotRound(1, states)];
+  const stanceChanges: StanceChange[] = [];
+  let converged = false;
+
+  for (let round = 2; round <= maxRounds && !converged; round++) {
+    // Everyone revises against the previous round at once, so speaking order doesn't matter
+    const revisions = states.map((agent) =>
+      reviseStance(agent, states.filter((o) => o !== agent))
+    );
+
+    for (const [i, { next, challenger }] of revisions.entries()) {
+      const before = states[i];
+      const changed = next.recommendation !== before.recommendation;
+      timestamp += 1000;
+
+      if (changed) {
+        stanceChanges.push({
+          agentId: before.view.agent,
+          round,
+          from: before.recommendation,
+          to: next.recommendation,
+          confidenceFrom: before.confidence,
+          confidenceTo: next.confidence,
+          persuadedBy: challenger?.view.agent,
+        });
+      }
+
+      yield {
+        id: `r${round}-resp-${before.view.agent}`,
+        agentId: before.view.agent,
+        type: challenger ? "response" : "point",
+        content: responseContent(before, next, challenger, round),
+        stance: mapToStance(next.recommendation),
+        confidence: next.confidence,
+        timestamp,
+        round,
+        stanceChange: changed ? { from: before.recommendation, to: next.recommendation } : undefined,
+      };
+    }
+
+    const anyChanged = revisions.some(({ next }, i) => next.recommendation !== states[i].recommendation);
+    const settled = revisions.every(({ next }, i) => Math.abs(next.score - states[i].score) < SETTLED_SHIFT);
+    const unanimous = new Set(revisions.map(({ next }) => mapToStance(next.recommendation))).size <= 1;
+
+    states = revisions.map(({ next }) => next);
+    rounds.push(snapshotRound(round, states));
+    converged = unanimous || (!anyChanged && settled);
+  }
+
+  const summary = buildSummary(option, evaluation, states, rounds, stanceChanges, converged);
+
+  yield {
+    id: `synth-${option.id}`,
+    agentId: "CFO", // Moderator
+    type: "synthesis",
+    content: summary.recommendation,
+    stance: summary.consensus === "strong" || summary.consensus === "moderate" ? "support" : "caution",
+    confidence: summary.confidence,
+    keyPoints: evaluation.recommendation.trade_offs,
+    timestamp: timestamp + 1000,
+    round: rounds.length,
+  };
 
-  const views = [
-    evaluation.finance_view,
-    evaluation.growth_view,
-    evaluation.product_view,
-    evaluation.strategy_view,
-  ];
-
-  // 1. Initial positions
-  views.forEach((view, index) => {
-    messages.push(generatePositionMessage(view, index));
-  });
-
-  // 2. Key points (select most important)
-  views.forEach((view, index) => {
-    const points = generatePointMessages(view, views.length + index * 2);
-    messages.push(...points);
-  });
-
-  // 3. Cross-discussion
-  const responses = generateResponseMessages(views);
-  messages.push(...responses);
-
-  // 4. Synthesis
-  messages.push(generateSynthesis(evaluation));
-
-  // Sort by timestamp
-  return messages.sort((a, b) => a.timestamp - b.timestamp);
+  return summary;
 }
 
-/**
- * Generate debate summary from evaluation
- */
-export function generateDebateSummary(
+function buildSummary(
   option: PricingOption,
-  evaluation: CouncilEvaluation
+  evaluation: CouncilEvaluation,
+  states: AgentState[],
+  rounds: DebateRoundSnapshot[],
+  stanceChanges: StanceChange[],
+  converged: boolean
 ): DebateSummary {
-  const views = [
-    evaluation.finance_view,
-    evaluation.growth_view,
-    evaluation.product_view,
-    evaluation.strategy_view,
-  ];
-
   const supporting: AgentId[] = [];
   const opposing: AgentId[] = [];
   const cautious: AgentId[] = [];
 
-  views.forEach((view) => {
-    const stance = mapToStance(view.recommendation);
-    if (stance === "support") {
-      supporting.push(view.agent as AgentId);
-    } else if (stance === "oppose") {
-      opposing.push(view.agent as AgentId);
-    } else {
-      cautious.push(view.agent as AgentId);
-    }
-  });
+  for (const state of states) {
+    const stance = mapToStance(state.recommendation);
+    if (stance === "support") supporting.push(state.view.agent);
+    else if (stance === "oppose") opposing.push(state.view.agent);
+    else cautious.push(state.view.agent);
+  }
+
+  const first = rounds[0];
+  const last = rounds[rounds.length - 1];
+  const movement = stanceChanges.length === 0
+    ? `No agent changed position over ${rounds.length} round${rounds.length === 1 ? "" : "s"}.`
+    : `After ${rounds.length} rounds and ${stanceChanges.length} stance change${stanceChanges.length === 1 ? "" : "s"}, ` +
+      (first.consensus === last.consensus
+        ? `consensus held at ${last.consensus}`
+        : `consensus moved from ${first.consensus} to ${last.consensus}`) +
+      `${converged ? "" : " (round limit reached before the council settled)"}.`;
 
   return {
     optionId: option.id,
-    consensus: evaluation.recommendation.consensus,
+    consensus: last.consensus,
     supportingAgents: supporting,
     opposingAgents: opposing,
     cautiousAgents: cautious,
     keyTradeoffs: evaluation.recommendation.trade_offs,
-    recommendation: evaluation.recommendation.summary,
-    confidence: views.reduce((sum, v) => sum + v.confidence, 0) / views.length,
+    recommendation: `${evaluation.recommendation.summary} ${movement}`,
+    confidence: states.length > 0
+      ? Math.round((states.reduce((sum, s) => sum + s.confidence, 0) / states.length) * 100) / 100
+      : 0,
+    rounds,
+    stanceChanges,
+    converged,
   };
 }
 
 /**
- * Get debate messages with delays for animation
+ * Run a complete debate from a council evaluation
  */
-export async function* streamDebateMessages(
-  messages: DebateMessage[],
-  delayMs: number = 500
-): AsyncGenerator<DebateMessage> {
-  for (const message of messages) {
-    await new Promise((resolve) => setTimeout(resolve, delayMs));
-    yield message;
+export function runDebate(
+  option: PricingOption,
+  evaluation: CouncilEvaluation,
+  options: DebateOptions = {}
+): DebateResult {
+  const messages: DebateMessage[] = [];
+  const generator = debateMessages(option, evaluation, options);
+
+  let step = generator.next();
+  while (!step.done) {
+    messages.push(step.value);
+    step = generator.next();
   }
+
+  return { messages, summary: step.value };
+}
+
+/**
+ * Generate a complete debate from a council evaluation
+ */
+export function generateDebate(
+  option: PricingOption,
+  evaluation: CouncilEvaluation
+): DebateMessage[] {
+  return runDebate(option, evaluation).messages;
+}
+
+/**
+ * Generate debate summary from evaluation
+ */
+export function generateDebateSummary(
+  option: PricingOption,
+  evaluation: CouncilEvaluation
+): DebateSummary {
+  return runDebate(option, evaluation).summary;
 }
@@ -25,10 +25,25 @@ import {
   UnitEconomics,
   PricingStructure,
   CompetitiveContext,
+  ImpactModel,
+  PricingChange,
+  CouncilPolicy,
 } from "@/types/pricing-flow";
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { loadPricingDataFromOntology, OntologyDataResult } from "@/lib/pricing/ontology-to-flow";
+import { parseTargets, simulatePricingChanges, SimulationCustomer } from "@/lib/pricing/price-simulator";
+import type { MonteCarloOptions } from "@/lib/pricing/monte-carlo";
+import { AGENTS, AgentId } from "@/types/agents";
+import {
+  DEFAULT_COUNCIL_POLICY,
+  loadCouncilPolicy,
+  pickRecommendedOption,
+} from "@/lib/pricing/council-policy";
+import { saveAnalysisRun } from "@/lib/services/analysis-run-service";
+import { assessDataQuality } from "@/lib/services/data-quality-service";
+import type { Database, DecisionRecord as DbDecisionRecord } from "@/types/database";
+import type { DataQualityCheckId, DataQualityReport } from "@/types/data-quality";
 
 // =============================================================================
 // FLOW STATE MANAGEMENT
@@ -118,7 +133,9 @@ export function generatePricingOptions(
   segments: DetectedSegment[],
   economics: UnitEconomics,
   pricingStructure: PricingStructure,
-  competitiveContext?: CompetitiveContext
+  customers: SimulationCustomer[],
+  competitiveContext?: CompetitiveContext,
+  monteCarlo?: MonteCarloOptions
 ): PricingOption[] {
   const options: PricingOption[] = [];
   const tiers = pricingStructure.tiers;
@@ -127,11 +144,12 @@ export function generatePricingOptions(
   const midTier = tiers[Math.floor(tiers.length / 2)];
   const ctx = competitiveContext;
 
-  const totalArr = Object.entries(economics.arpu_by_segment)
-    .reduce((sum, [segId, arpu]) => {
-      const seg = segments.find((s) => s.id === segId);
-      return sum + arpu * (seg?.customer_count || 0) * 12;
-    }, 0);
+  // Every option's impact is simulated customer-by-customer against the real base
+  const simulate = (changes: PricingOption["changes"], timeToFullImpactMonths: number): ImpactModel =>
+    simulatePricingChanges(changes, customers, segments, economics.sensitivity_model, pricingStructure, {
+      timeToFullImpactMonths,
+      monteCarlo,
+    }).impact_model;
 
   // Build competitive pricing reference
   const compPricing = ctx ? competitorPricingSummary(ctx) : "";
@@ -141,14 +159,9 @@ export function generatePricingOptions(
   const secondBottomSegment = findSecondLowestValueSegment(segments);
 
   if (bottomSegment && secondBottomSegment) {
-    const affectedCustomers =
-      bottomSegment.customer_count + Math.floor(secondBottomSegment.customer_count * 0.5);
-    const expectedChurnRate = 0.25;
     const minimumFee = lowestTier && lowestTier.price > 0
       ? Math.round(lowestTier.price * 0.5)
       : (midTier ? Math.round(midTier.price * 0.1) : 4.95);
-    const remainingCustomers = affectedCustomers * (1 - expectedChurnRate);
-    const newRevenue = remainingCustomers * minimumFee * 12;
 
     // Competitive note for minimum fee
     const competitorsWithFree = ctx?.competitors.filter((c) =>
@@ -158,36 +171,30 @@ export function generatePricingOptions(
       ? ` Competitors with free tiers: ${competitorsWithFree.map((c) => c.name).join(", ")}.`
       : "";
 
+    const changes: PricingOption["changes"] = [
+      {
+        type: "minimum",
+        target: "all",
+        from: `${lowestTier?.price || 0}`,
+        to: `${minimumFee}/mo`,
+        description: "New platform minimum fee for all accounts",
+      },
+      {
+        type: "feature",
+        target: lowestTier?.name || "Free tier",
+        from: lowestTier?.name || "Free",
+        to: `Starter (${minimumFee})`,
+        description: `Convert ${lowestTier?.name || "Free"} tier to paid minimum`,
+      },
+    ];
+
     options.push({
       id: "platform-minimum",
       type: "minimum",
       description:
         `Introduce a ${minimumFee}/month platform minimum for all accounts. Addresses unprofitable long-tail while maintaining accessibility.${competitorNote}`,
-      changes: [
-        {
-          type: "minimum",
-          target: "all",
-          from: `${lowestTier?.price || 0}`,
-          to: `${minimumFee}/mo`,
-          description: "New platform minimum fee for all accounts",
-        },
-        {
-          type: "feature",
-          target: lowestTier?.name || "Free tier",
-          from: lowestTier?.name || "Free",
-          to: `Starter (${minimumFee})`,
-          description: `Convert ${lowestTier?.name || "Free"} tier to paid minimum`,
-        },
-      ],
-      impact_model: {
-        expected_arr_change: Math.round(newRevenue * 0.7),
-        expected_arr_change_percent: totalArr > 0 ? Math.round((newRevenue * 0.7 / totalArr) * 100 * 10) / 10 : 2.5,
-        optimistic_arr_change: Math.round(newRevenue),
-        pessimistic_arr_change: Math.round(newRevenue * 0.4),
-        expected_churn_increase: expectedChurnRate,
-        time_to_full_impact_months: 6,
-        confidence: 0.75,
-      },
+      changes,
+      impact_model: simulate(changes, 6),
       risk_profile: "moderate",
       complexity: "low",
     });
@@ -211,36 +218,30 @@ export function generatePricingOptions(
   ) || [];
   const trendNote = usageTrends.length > 0 ? ` Market trend: ${usageTrends[0]}.` : "";
 
+  const usageChanges: PricingOption["changes"] = [
+    {
+      type: "structure",
+      target: "pricing_model",
+      from: pricingStructure.model_type,
+      to: "Pure Usage",
+      description: `Remove subscription tiers, charge per ${metricName} only`,
+    },
+    {
+      type: "price",
+      target: `per_${metricName.toLowerCase().replace(/\s+/g, "_")}`,
+      from: "Variable",
+      to: "Flat rate",
+      description: `Standardized per-${metricName.toLowerCase()} pricing across all volumes`,
+    },
+  ];
+
   options.push({
     id: "usage-pricing",
     type: "value_metric_change",
     description:
       `Shift to pure usage-based pricing based on ${metricName}. Aligns revenue directly with customer value received.${usageNote}${trendNote}`,
-    changes: [
-      {
-        type: "structure",
-        target: "pricing_model",
-        from: pricingStructure.model_type,
-        to: "Pure Usage",
-        description: `Remove subscription tiers, charge per ${metricName} only`,
-      },
-      {
-        type: "price",
-        target: `per_${metricName.toLowerCase().replace(/\s+/g, "_")}`,
-        from: "Variable",
-        to: "Flat rate",
-        description: `Standardized per-${metricName.toLowerCase()} pricing across all volumes`,
-      },
-    ],
-    impact_model: {
-      expected_arr_change: Math.round(totalArr * -0.015),
-      expected_arr_change_percent: -1.5,
-      optimistic_arr_change: Math.round(totalArr * 0.02),
-      pessimistic_arr_change: Math.round(totalArr * -0.04),
-      expected_churn_increase: 0.02,
-      time_to_full_impact_months: 12,
-      confidence: usageCompetitors.length > 0 ? 0.6 : 0.55,
-    },
+    changes: usageChanges,
+    impact_model: simulate(usageChanges, 12),
     risk_profile: "high",
     complexity: "high",
   });
@@ -248,10 +249,6 @@ export function generatePricingOptions(
   // Option 3: Top-Tier Price Increase
   const topSegment = findHighestValueSegment(segments);
   if (topSegment && highestTier) {
-    const priceIncreasePercent = 0.15;
-    const expectedRetention = 0.95;
-    const topSegmentArr = topSegment.revenue_share * totalArr;
-
     const topTierNewPrice = Math.round(highestTier.price * 1.2);
     const secondHighestTier = tiers.length > 1 ? tiers[tiers.length - 2] : null;
     const secondTierNewPrice = secondHighestTier ? Math.round(secondHighestTier.price * 1.2) : null;
@@ -291,17 +288,9 @@ export function generatePricingOptions(
       id: "enterprise-premium",
       type: "price_increase",
       description:
-        `15% price increase on ${topSegment.name} segment tiers with enhanced SLA and dedicated support. Captures more value from highest-value segment.${compNote}`,
+        `20% price increase on ${topSegment.name} segment tiers with enhanced SLA and dedicated support. Captures more value from highest-value segment.${compNote}`,
       changes,
-      impact_model: {
-        expected_arr_change: Math.round(topSegmentArr * priceIncreasePercent * expectedRetention),
-        expected_arr_change_percent: Math.round(topSegment.revenue_share * priceIncreasePercent * expectedRetention * 100 * 10) / 10,
-        optimistic_arr_change: Math.round(topSegmentArr * priceIncreasePercent),
-        pessimistic_arr_change: Math.round(topSegmentArr * priceIncreasePercent * 0.7),
-        expected_churn_increase: 0.005,
-        time_to_full_impact_months: 3,
-        confidence: 0.85,
-      },
+      impact_model: simulate(changes, 3),
       risk_profile: "low",
       complexity: "low",
     });
@@ -327,43 +316,37 @@ export function generatePricingOptions(
       ? ` Aligns with competitor models (${tieredCompetitors.map((c) => c.name).join(", ")}).`
       : "";
 
+    const restructureChanges: PricingOption["changes"] = [
+      {
+        type: "tier",
+        target: lowTiers.map((t) => t.name).join(" + "),
+        from: `${lowTiers.length} tier${lowTiers.length > 1 ? "s" : ""}`,
+        to: `Starter (${starterPrice})`,
+        description: `Merge ${lowTiers.map((t) => t.name).join(" and ")} into Starter tier`,
+      },
+      {
+        type: "tier",
+        target: midTiers.map((t) => t.name).join(" + "),
+        from: `${midTiers.length} tier${midTiers.length > 1 ? "s" : ""}`,
+        to: `Growth (${growthPrice})`,
+        description: `Merge ${midTiers.map((t) => t.name).join(" and ")} into Growth tier`,
+      },
+      {
+        type: "tier",
+        target: highTiers.map((t) => t.name).join(" + ") || "Top tier",
+        from: highTiers.length > 0 ? `${highTiers[highTiers.length - 1].name} (${highTiers[highTiers.length - 1].price})` : "N/A",
+        to: `Enterprise (${enterprisePrice})`,
+        description: `Rebrand as Enterprise with enhanced features`,
+      },
+    ];
+
     options.push({
       id: "tier-restructure",
       type: "packaging",
       description:
         `Simplify to 3 tiers (Starter, Growth, Enterprise) with clearer value differentiation. Reduces complexity and improves upgrade path.${tierNote}`,
-      changes: [
-        {
-          type: "tier",
-          target: lowTiers.map((t) => t.name).join(" + "),
-          from: `${lowTiers.length} tier${lowTiers.length > 1 ? "s" : ""}`,
-          to: `Starter (${starterPrice})`,
-          description: `Merge ${lowTiers.map((t) => t.name).join(" and ")} into Starter tier`,
-        },
-        {
-          type: "tier",
-          target: midTiers.map((t) => t.name).join(" + "),
-          from: `${midTiers.length} tier${midTiers.length > 1 ? "s" : ""}`,
-          to: `Growth (${growthPrice})`,
-          description: `Merge ${midTiers.map((t) => t.name).join(" and ")} into Growth tier`,
-        },
-        {
-          type: "tier",
-          target: highTiers.map((t) => t.name).join(" + ") || "Top tier",
-          from: highTiers.length > 0 ? `${highTiers[highTiers.length - 1].name} (${highTiers[highTiers.length - 1].price})` : "N/A",
-          to: `Enterprise (${enterprisePrice})`,
-          description: `Rebrand as Enterprise with enhanced features`,
-        },
-      ],
-      impact_model: {
-        expected_arr_change: Math.round(totalArr * 0.042),
-        expected_arr_change_percent: 4.2,
-        optimistic_arr_change: Math.round(totalArr * 0.075),
-        pessimistic_arr_change: Math.round(totalArr * 0.015),
-        expected_churn_increase: 0.03,
-        time_to_full_impact_months: 9,
-        confidence: 0.65,
-      },
+      changes: restructureChanges,
+      impact_model: simulate(restructureChanges, 9),
       risk_profile: "moderate",
       complexity: "medium",
     });
@@ -372,6 +355,61 @@ export function generatePricingOptions(
   return options;
 }
 
+export interface CustomPricingOptionInput {
+  id: string;
+  type: PricingOption["type"];
+  description: string;
+  changes: PricingChange[];
+  timeToFullImpactMonths?: number;
+  // Derived from the simulated impact and the kinds of change when omitted
+  risk_profile?: PricingOption["risk_profile"];
+  complexity?: PricingOption["complexity"];
+}
+
+/**
+ * Build a user-authored option, simulated the same way as the generated ones
+ */
+export function buildCustomPricingOption(
+  input: CustomPricingOptionInput,
+  segments: DetectedSegment[],
+  economics: UnitEconomics,
+  pricingStructure: PricingStructure,
+  customers: SimulationCustomer[],
+  monteCarlo?: MonteCarloOptions
+): PricingOption {
+  const impact = simulatePricingChanges(
+    input.changes,
+    customers,
+    segments,
+    economics.sensitivity_model,
+    pricingStructure,
+    { timeToFullImpactMonths: input.timeToFullImpactMonths ?? 6, monteCarlo }
+  ).impact_model;
+
+  return {
+    id: input.id,
+    type: input.type,
+    description: input.description,
+    changes: input.changes,
+    impact_model: impact,
+    risk_profile: input.risk_profile ?? assessRiskProfile(impact),
+    complexity: input.complexity ?? assessComplexity(input.changes),
+  };
+}
+
+function assessRiskProfile(impact: ImpactModel): PricingOption["risk_profile"] {
+  const downside = impact.distribution?.probability_arr_decrease ?? (impact.expected_arr_change < 0 ? 1 : 0);
+  if (downside > 0.3 || impact.expected_churn_increase > 0.1) return "high";
+  if (downside > 0.1 || impact.expected_churn_increase > 0.03) return "moderate";
+  return "low";
+}
+
+function assessComplexity(changes: PricingChange[]): PricingOption["complexity"] {
+  if (changes.some((c) => c.type === "structure")) return "high";
+  if (changes.some((c) => c.type === "tier" || c.type === "limit" || c.type === "feature")) return "medium";
+  return "low";
+}
+
 // =============================================================================
 // STEP 6: COUNCIL EVALUATION (with competitive context)
 // =============================================================================
@@ -380,29 +418,67 @@ export function evaluateWithCouncil(
   option: PricingOption,
   segments: DetectedSegment[],
   economics: UnitEconomics,
-  competitiveContext?: CompetitiveContext
+  competitiveContext?: CompetitiveContext,
+  policy: CouncilPolicy = DEFAULT_COUNCIL_POLICY,
+  dataQuality?: DataQualityReport
 ): CouncilEvaluation {
-  const ctx = competitiveContext;
-  const financeView = evaluateAsFinance(option, economics, ctx);
-  const growthView = evaluateAsGrowth(option, segments, ctx);
-  const productView = evaluateAsProduct(option, ctx);
-  const strategyView = evaluateAsStrategy(option, economics, ctx);
-
-  const recommendation = synthesizeRecommendation(
-    option,
-    [financeView, growthView, productView, strategyView]
-  );
+  const views = evaluateAgentsWithRules(option, segments, economics, competitiveContext, dataQuality);
+  return assembleCouncilEvaluation(option, views, policy, dataQuality);
+}
+
+/**
+ * Every agent's view from the threshold rules, in council seating order
+ */
+export function evaluateAgentsWithRules(
+  option: PricingOption,
+  segments: DetectedSegment[],
+  economics: UnitEconomics,
+  ctx?: CompetitiveContext,
+  dataQuality?: DataQualityReport
+): AgentView[] {
+  return [
+    evaluateAsFinance(option, economics, ctx),
+    evaluateAsGrowth(option, segments, ctx),
+    evaluateAsProduct(option, ctx),
+    evaluateAsMarketing(option, ctx),
+    evaluateAsStrategy(option, economics, ctx),
+    evaluateAsTechnology(option),
+    evaluateAsOperations(option, segments),
+    evaluateAsData(option, segments, dataQuality),
+  ];
+}
+
+/**
+ * Synthesize agent views — however they were produced — into an evaluation.
+ * With a data-quality report, every confidence is scaled by its factor first.
+ */
+export function assembleCouncilEvaluation(
+  option: PricingOption,
+  views: AgentView[],
+  policy: CouncilPolicy = DEFAULT_COUNCIL_POLICY,
+  dataQuality?: DataQualityReport
+): CouncilEvaluation {
+  const factor = dataQuality?.confidence_factor ?? 1;
+  const discounted = factor < 1
+    ? views.map((v) => ({ ...v, confidence: Math.round(v.confidence * factor * 100) / 100 }))
+    : views;
 
   return {
     option_id: option.id,
-    finance_view: financeView,
-    growth_view: growthView,
-    product_view: productView,
-    strategy_view: strategyView,
-    recommendation,
+    agent_views: Object.fromEntries(discounted.map((v) => [v.agent, v])),
+    recommendation: synthesizeRecommendation(option, discounted, policy, dataQuality),
   };
 }
 
+/**
+ * All views in an evaluation, in council seating order
+ */
+export function councilViews(evaluation: CouncilEvaluation): AgentView[] {
+  return (Object.keys(AGENTS) as AgentId[])
+    .map((id) => evaluation.agent_views[id])
+    .filter((v): v is AgentView => v !== undefined);
+}
+
 function evaluateAsFinance(
   option: PricingOption,
   economics: UnitEconomics,
@@ -435,6 +511,31 @@ function evaluateAsFinance(
     keyPoints.push("Warning: High revenue concentration increases risk of price increase");
   }
 
+  if (option.type === "discount_strategy") {
+    keyPoints.push("Discounting trades margin for volume — only pays off if retention or win rate improves");
+  }
+
+  // Weigh the option's churn against the churn the business already runs at
+  const hazard = economics.churn_hazard;
+  if (hazard && hazard.monthly_hazard > 0) {
+    const [low, high] = hazard.monthly_hazard_ci;
+    keyPoints.push(
+      `Baseline churn hazard is ${(hazard.monthly_hazard * 100).toFixed(1)}%/month ` +
+        `(95% CI ${(low * 100).toFixed(1)}–${(high * 100).toFixed(1)}%) across ${hazard.customers} customers`
+    );
+
+    const monthsOfChurn = impact.expected_churn_increase / hazard.monthly_hazard;
+    if (monthsOfChurn >= 1) {
+      keyPoints.push(`Expected churn equals ${monthsOfChurn.toFixed(1)} months of baseline churn`);
+    }
+    if (monthsOfChurn > 6 && recommendation === "strongly_support") recommendation = "support";
+
+    const driver = [...hazard.drivers].sort((a, b) => b.hazard_ratio - a.hazard_ratio)[0];
+    if (option.type === "price_increase" && driver && driver.hazard_ratio > 1) {
+      keyPoints.push(`${driver.label} already churns at ${driver.hazard_ratio.toFixed(2)}x the baseline hazard`);
+    }
+  }
+
   if (impact.time_to_full_impact_months > 6) {
     keyPoints.push(`Extended timeline (${impact.time_to_full_impact_months}mo) delays cash flow benefit`);
   }
@@ -459,8 +560,11 @@ function evaluateAsFinance(
     recommendation,
     impact: {
       arr_change: impact.expected_arr_change,
-      margin_impact: option.type === "price_increase" ? "Positive" : "Neutral",
+      margin_impact: option.type === "price_increase"
+        ? "Positive"
+        : option.type === "discount_strategy" ? "Negative" : "Neutral",
       cash_flow_timing: `${impact.time_to_full_impact_months} months`,
+      ...(hazard && { baseline_churn_hazard: `${(hazard.monthly_hazard * 100).toFixed(1)}%/month` }),
     },
     confidence: impact.confidence,
   };
@@ -503,6 +607,10 @@ function evaluateAsGrowth(
     if (recommendation !== "oppose") recommendation = "support";
   }
 
+  if (option.type === "discount_strategy") {
+    keyPoints.push("Targeted discounts can lift win rate and protect at-risk accounts");
+  }
+
   // Buying factors that affect growth
   if (ctx?.market?.buying_factors.length) {
     const pricingFactor = ctx.market.buying_factors.find((f) =>
@@ -560,6 +668,14 @@ function evaluateAsProduct(option: PricingOption, ctx?: CompetitiveContext): Age
     keyPoints.push("May need free trial period to maintain conversion");
   }
 
+  if (option.type === "discount_strategy") {
+    keyPoints.push("Discounts change what customers pay, not what they get — value alignment is unchanged");
+  }
+
+  if (option.changes.some((c) => c.type === "limit")) {
+    keyPoints.push("Included-unit limits set where customers hit natural upgrade moments");
+  }
+
   if (option.changes.some((c) => c.type === "feature")) {
     keyPoints.push("Feature changes require product development coordination");
   }
@@ -659,6 +775,8 @@ function evaluateAsStrategy(
       if (recommendation === "neutral") recommendation = "oppose";
     } else if (option.type === "minimum" && philosophy === "penetration") {
       keyPoints.push(`Platform minimum aligns with transitioning from penetration to value-based pricing`);
+    } else if (option.type === "discount_strategy" && philosophy !== "penetration") {
+      keyPoints.push(`Discounting conflicts with ${philosophy} pricing philosophy — anchors customers to lower prices`);
     }
   }
 
@@ -677,6 +795,8 @@ function evaluateAsStrategy(
       ? "positions us as a premium platform while addressing profitability"
       : option.type === "price_increase"
       ? "captures more value but increases concentration risk"
+      : option.type === "discount_strategy"
+      ? "buys volume now at the cost of anchoring future price expectations"
       : "provides tactical improvement without major strategic shift"
   }${competitorClause}. The ${option.complexity} complexity ${
     option.complexity === "low" ? "allows quick iteration" : "requires careful execution"
@@ -698,9 +818,389 @@ function evaluateAsStrategy(
   };
 }
 
+// -----------------------------------------------------------------------------
+// Criteria-driven evaluators: each answers its agent's evaluationCriteria in
+// order, and the vote follows the net score of the answers
+// -----------------------------------------------------------------------------
+
+interface CriterionFinding {
+  finding: string;
+  score: -1 | 0 | 1; // concern / neutral / favorable
+}
+
+/** Billing-system effort per kind of change, in engineering weeks */
+const BILLING_EFFORT_WEEKS: Record<PricingChange["type"], number> = {
+  price: 1,
+  discount: 1,
+  minimum: 2,
+  feature: 2,
+  limit: 3,
+  tier: 3,
+  structure: 8,
+};
+
+/** Share of affected customers expected to contact support about a change */
+const SUPPORT_CONTACT_RATE = 0.15;
+
+/** Data-quality checks covering the data each kind of change is priced and simulated on */
+const DATA_REQUIREMENTS: Record<PricingChange["type"], DataQualityCheckId[]> = {
+  price: ["mrr_reconciliation"],
+  discount: ["mrr_reconciliation"],
+  minimum: ["mrr_reconciliation"],
+  feature: ["empty_tiers"],
+  limit: ["empty_tiers"],
+  tier: ["empty_tiers"],
+  structure: ["mrr_reconciliation"],
+};
+
+/**
+ * Affected customers needed before a shift in their churn stands out from
+ * month-to-month noise; below the lower bound it can't be told apart at all
+ */
+const MEASURABLE_CUSTOMERS = { reliable: 400, minimum: 100 };
+
+function viewFromCriteria(
+  agent: AgentId,
+  findings: CriterionFinding[],
+  reasoning: string,
+  impact: AgentView["impact"],
+  confidence: number
+): AgentView {
+  const questions = AGENTS[agent].evaluationCriteria;
+  const net = findings.reduce((sum, f) => sum + f.score, 0);
+
+  let recommendation: AgentView["recommendation"] = "neutral";
+  if (net >= 3) recommendation = "strongly_support";
+  else if (net >= 1) recommendation = "support";
+  else if (net <= -3) recommendation = "strongly_oppose";
+  else if (net <= -1) recommendation = "oppose";
+
+  // Lead with whatever pushed the vote hardest
+  const keyPoints = [...findings]
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .map((f) => f.finding);
+
+  return {
+    agent,
+    reasoning,
+    key_points: keyPoints,
+    recommendation,
+    impact,
+    confidence,
+    criteria: findings.map((f, i) => ({ question: questions[i] ?? "", finding: f.finding })),
+  };
+}
+
+function evaluateAsMarketing(option: PricingOption, ctx?: CompetitiveContext): AgentView {
+  const impact = option.impact_model;
+  const philosophy = ctx?.positioning?.pricing_philosophy?.toLowerCase();
+  const findings: CriterionFinding[] = [];
+
+  // How does this affect market positioning?
+  if (option.type === "discount_strategy") {
+    findings.push({ finding: "Discounting pulls positioning toward the low end of the market", score: -1 });
+  } else if ((option.type === "price_increase" || option.type === "minimum") && philosophy !== "penetration") {
+    findings.push({ finding: "Higher entry price reinforces a premium position", score: 1 });
+  } else if (option.type === "packaging" || option.type === "new_tier") {
+    findings.push({ finding: "A cleaner tier ladder makes the positioning easier to read", score: 1 });
+  } else {
+    findings.push({ finding: "Positioning is largely unchanged", score: 0 });
+  }
+
+  // What's the messaging challenge/opportunity?
+  if (option.changes.length > 3) {
+    findings.push({ finding: `${option.changes.length} simultaneous changes are hard to land in one announcement`, score: -1 });
+  } else if (ctx?.positioning?.value_proposition) {
+    findings.push({ finding: `Message can lead with the value proposition: "${ctx.positioning.value_proposition}"`, score: 1 });
+  } else {
+    findings.push({ finding: "Change is simple enough to explain, but needs a value story", score: 0 });
+  }
+
+  // How will the market perceive this?
+  if (impact.expected_churn_increase > 0.05) {
+    findings.push({ finding: `Visible churn (${(impact.expected_churn_increase * 100).toFixed(1)}%) risks reading as a squeeze on customers`, score: -1 });
+  } else {
+    findings.push({ finding: "Low churn keeps the change from becoming a market story", score: 0 });
+  }
+
+  // Does this differentiate or commoditize?
+  const competitorModels = ctx?.competitors.map((c) => c.pricing_model).filter(Boolean) ?? [];
+  if (option.type === "discount_strategy") {
+    findings.push({ finding: "Competing on discounts commoditizes the offer", score: -1 });
+  } else if (option.type === "value_metric_change" || option.type === "packaging") {
+    findings.push({
+      finding: competitorModels.length > 0
+        ? `Distinct packaging vs. competitor models (${competitorModels.slice(0, 2).join(", ")})`
+        : "Packaging around our value metric differentiates the offer",
+      score: 1,
+    });
+  } else {
+    findings.push({ finding: "Neither differentiates nor commoditizes", score: 0 });
+  }
+
+  // What channel implications exist?
+  if (option.type === "minimum") {
+    findings.push({ finding: "Adds friction to self-serve signup and top-of-funnel channels", score: -1 });
+  } else {
+    findings.push({ finding: "Sales and partner channels need updated collateral", score: 0 });
+  }
+
+  const reasoning = `From a marketing perspective, the question is how this reads from the outside. ` +
+    (ctx?.competitors.length
+      ? `With ${ctx.competitors.length} competitors in view, the story has to explain why we are worth the price.`
+      : "The story has to explain why we are worth the price.");
+
+  return viewFromCriteria(
+    "CMO",
+    findings,
+    reasoning,
+    {
+      positioning: option.type === "discount_strategy" ? "Diluted" : option.type === "minimum" ? "Premium" : "Unchanged",
+      messaging_complexity: option.changes.length > 3 ? "High" : "Low",
+    },
+    ctx?.positioning ? 0.75 : 0.65
+  );
+}
+
+function evaluateAsTechnology(option: PricingOption): AgentView {
+  const changeTypes = Array.from(new Set(option.changes.map((c) => c.type)));
+  const effortWeeks = changeTypes.reduce((sum, t) => sum + BILLING_EFFORT_WEEKS[t], 0);
+  const needsMetering = changeTypes.includes("structure") || option.type === "value_metric_change";
+  const findings: CriterionFinding[] = [];
+
+  // What technical changes are required?
+  const work: Record<PricingChange["type"], string> = {
+    price: "price book update",
+    discount: "discount rules",
+    minimum: "minimum-charge logic",
+    feature: "feature gating",
+    limit: "entitlement enforcement",
+    tier: "plan migration",
+    structure: "new billing model",
+  };
+  findings.push({
+    finding: `Billing work: ${changeTypes.map((t) => work[t]).join(", ")}`,
+    score: changeTypes.includes("structure") ? -1 : changeTypes.every((t) => t === "price" || t === "discount") ? 1 : 0,
+  });
+
+  // How complex is the implementation?
+  findings.push({
+    finding: `${option.complexity.charAt(0).toUpperCase() + option.complexity.slice(1)} implementation complexity`,
+    score: option.complexity === "high" ? -1 : option.complexity === "low" ? 1 : 0,
+  });
+
+  // What's the timeline estimate?
+  findings.push({
+    finding: `Roughly ${effortWeeks} engineering week${effortWeeks === 1 ? "" : "s"} of billing work`,
+    score: effortWeeks > 8 ? -1 : effortWeeks <= 2 ? 1 : 0,
+  });
+
+  // Are there billing system constraints?
+  if (needsMetering) {
+    findings.push({ finding: "Requires usage metering and invoicing variable amounts", score: -1 });
+  } else if (changeTypes.includes("minimum")) {
+    findings.push({ finding: "Minimums need a true-up charge, which most billing systems support", score: 0 });
+  } else {
+    findings.push({ finding: "Fits standard subscription billing", score: 1 });
+  }
+
+  // What technical debt is created?
+  if (changeTypes.includes("structure")) {
+    findings.push({ finding: "Two billing models run in parallel until migration completes", score: -1 });
+  } else if (changeTypes.includes("price") || changeTypes.includes("tier")) {
+    findings.push({ finding: "Legacy plans must be kept for grandfathered customers", score: 0 });
+  } else {
+    findings.push({ finding: "No lasting technical debt", score: 1 });
+  }
+
+  const reasoning = `From a technology perspective, this is about ${effortWeeks} weeks of billing-system work` +
+    `${needsMetering ? ", and it depends on reliable usage metering" : ""}. ` +
+    `The ${option.complexity} complexity ${option.complexity === "high" ? "warrants a staged rollout behind flags" : "is manageable"}.`;
+
+  return viewFromCriteria(
+    "CTO",
+    findings,
+    reasoning,
+    {
+      effort_weeks: effortWeeks,
+      metering_required: needsMetering ? "Yes" : "No",
+    },
+    0.8
+  );
+}
+
+function evaluateAsOperations(option: PricingOption, segments: DetectedSegment[]): AgentView {
+  const impact = option.impact_model;
+  const totalCustomers = segments.reduce((sum, s) => sum + s.customer_count, 0);
+  const affected = impact.affected_customers;
+  const affectedShare = affected !== undefined && totalCustomers > 0 ? affected / totalCustomers : null;
+  const supportContacts = affected !== undefined ? Math.round(affected * SUPPORT_CONTACT_RATE) : null;
+  const findings: CriterionFinding[] = [];
+
+  // How do we operationalize this?
+  if (affected !== undefined && affectedShare !== null) {
+    findings.push({
+      finding: `Migrate ${affected.toLocaleString()} customers (${(affectedShare * 100).toFixed(0)}% of the base)`,
+      score: affectedShare > 0.5 ? -1 : affectedShare < 0.1 ? 1 : 0,
+    });
+  } else {
+    findings.push({ finding: "Number of affected customers is unknown", score: 0 });
+  }
+
+  // Does the team have capacity?
+  if (supportContacts !== null) {
+    findings.push({
+      finding: `Expect ~${supportContacts.toLocaleString()} support contacts during rollout`,
+      score: supportContacts > 500 ? -1 : supportContacts < 50 ? 1 : 0,
+    });
+  } else {
+    findings.push({ finding: "Support load can't be sized without affected-customer counts", score: 0 });
+  }
+
+  // What processes need to change?
+  if (option.changes.some((c) => c.type === "structure" || c.type === "limit")) {
+    findings.push({ finding: "Support needs usage visibility to explain limits and overages", score: -1 });
+  } else if (option.type === "discount_strategy") {
+    findings.push({ finding: "Sales needs an approval workflow for discounts", score: 0 });
+  } else {
+    findings.push({ finding: "Update pricing page, contracts and quoting", score: 0 });
+  }
+
+  // What's the rollout plan?
+  if (impact.time_to_full_impact_months <= 3) {
+    findings.push({ finding: "Single-wave rollout is feasible", score: 1 });
+  } else {
+    findings.push({ finding: `Phased rollout over ${impact.time_to_full_impact_months} months with grandfathering`, score: 0 });
+  }
+
+  // What could go wrong in execution?
+  if (impact.pessimistic_arr_change < 0) {
+    findings.push({
+      finding: `Downside case loses ${Math.abs(impact.pessimistic_arr_change).toLocaleString()} ARR — define rollback criteria up front`,
+      score: -1,
+    });
+  } else {
+    findings.push({ finding: "Even the pessimistic case is revenue-positive", score: 1 });
+  }
+
+  const reasoning = `From an operations perspective, execution load scales with how many customers are touched` +
+    `${affected !== undefined ? ` — ${affected.toLocaleString()} here` : ""}. ` +
+    `Support, billing ops and account management need to be staffed for the rollout window.`;
+
+  return viewFromCriteria(
+    "COO",
+    findings,
+    reasoning,
+    {
+      affected_customers: affected ?? "Unknown",
+      support_contacts: supportContacts ?? "Unknown",
+      rollout: impact.time_to_full_impact_months <= 3 ? "Single wave" : "Phased",
+    },
+    affected !== undefined ? 0.75 : 0.6
+  );
+}
+
+function evaluateAsData(
+  option: PricingOption,
+  segments: DetectedSegment[],
+  dataQuality?: DataQualityReport
+): AgentView {
+  const impact = option.impact_model;
+  const distribution = impact.distribution;
+  const targets = option.changes.flatMap((c) => parseTargets(c.target));
+  const segmentNames = new Set(segments.map((s) => s.name.toLowerCase()));
+  const totalCustomers = segments.reduce((sum, s) => sum + s.customer_count, 0);
+  const affected = impact.affected_customers;
+  const findings: CriterionFinding[] = [];
+
+  // Is the data behind this option reliable?
+  if (!dataQuality) {
+    findings.push({ finding: "No data-quality report to check the inputs against", score: 0 });
+  } else if (dataQuality.blocking) {
+    findings.push({
+      finding: `Blocking data-quality issues: ${dataQuality.issues.filter((i) => i.severity === "blocking").map((i) => i.message).join("; ")}`,
+      score: -1,
+    });
+  } else if (dataQuality.issues.length > 0) {
+    findings.push({
+      finding: `Data quality scores ${dataQuality.score}/100 with ${dataQuality.issues.length} warning${dataQuality.issues.length === 1 ? "" : "s"}`,
+      score: 0,
+    });
+  } else {
+    findings.push({ finding: `Data quality scores ${dataQuality.score}/100 with no issues`, score: 1 });
+  }
+
+  // Do we capture the data this option depends on?
+  const required = new Set(option.changes.flatMap((c) => DATA_REQUIREMENTS[c.type]));
+  if (targets.some((t) => segmentNames.has(t))) required.add("segment_coverage");
+  const failing = (dataQuality?.checks ?? []).filter((c) => required.has(c.id) && (c.status === "warning" || c.status === "blocking"));
+  const needsMetering = option.changes.some((c) => c.type === "structure" || c.type === "limit");
+  if (failing.length > 0) {
+    findings.push({ finding: `Depends on data with open issues: ${failing.map((c) => c.label).join(", ")}`, score: -1 });
+  } else if (needsMetering) {
+    findings.push({ finding: "Bills on per-customer usage, which must be metered for every affected account first", score: 0 });
+  } else if (dataQuality) {
+    findings.push({ finding: "The billing and plan data it relies on passes its checks", score: 1 });
+  } else {
+    findings.push({ finding: "Can't confirm the billing and plan data it relies on", score: 0 });
+  }
+
+  // Can we measure its impact?
+  if (affected === undefined) {
+    findings.push({ finding: "Number of affected customers is unknown, so the effect can't be sized", score: 0 });
+  } else if (affected >= MEASURABLE_CUSTOMERS.reliable) {
+    findings.push({ finding: `${affected.toLocaleString()} affected customers is enough to measure churn and ARR shifts`, score: 1 });
+  } else if (affected >= MEASURABLE_CUSTOMERS.minimum) {
+    findings.push({ finding: `With ${affected.toLocaleString()} affected customers only a large churn shift will show`, score: 0 });
+  } else {
+    findings.push({ finding: `Only ${affected.toLocaleString()} affected customers; their churn can't be told apart from noise`, score: -1 });
+  }
+
+  // Is there a control group to compare against?
+  const everyone = targets.includes("all") || (affected !== undefined && totalCustomers > 0 && affected >= totalCustomers);
+  findings.push(
+    everyone
+      ? { finding: "Every customer is affected: only before/after comparisons, which seasonality confounds", score: -1 }
+      : { finding: "Customers outside the change form a control group", score: 1 }
+  );
+
+  // How certain is the forecast?
+  if (!distribution) {
+    findings.push({ finding: "No simulated range around the forecast", score: 0 });
+  } else if (distribution.p10_arr_change < 0 && distribution.p90_arr_change > 0) {
+    findings.push({
+      finding: `Forecast range spans losses and gains (P10 ${distribution.p10_arr_change.toLocaleString()} to P90 ${distribution.p90_arr_change.toLocaleString()} ARR)`,
+      score: -1,
+    });
+  } else if (distribution.p90_arr_change - distribution.p10_arr_change <= Math.abs(distribution.p50_arr_change)) {
+    findings.push({ finding: "Forecast range is narrower than the expected change", score: 1 });
+  } else {
+    findings.push({ finding: "Forecast range is wide but points one way", score: 0 });
+  }
+
+  const reasoning = `From a data perspective, a decision is only as good as its inputs and only learnable if its outcome can be measured. ` +
+    (everyone
+      ? "With no untouched customers, staging the rollout would give a comparison group."
+      : "The customers it doesn't touch give a baseline to measure it against.");
+
+  return viewFromCriteria(
+    "CDO",
+    findings,
+    reasoning,
+    {
+      data_quality_score: dataQuality?.score ?? "Unknown",
+      control_group: everyone ? "None" : "Untargeted customers",
+      metering_required: needsMetering ? "Yes" : "No",
+    },
+    dataQuality ? 0.8 : 0.6
+  );
+}
+
 function synthesizeRecommendation(
   option: PricingOption,
-  views: AgentView[]
+  views: AgentView[],
+  policy: CouncilPolicy,
+  dataQuality?: DataQualityReport
 ): CouncilRecommendation {
   const scoreMap: Record<AgentView["recommendation"], number> = {
     strongly_support: 2,
@@ -710,10 +1210,16 @@ function synthesizeRecommendation(
     strongly_oppose: -2,
   };
 
-  const totalScore = views.reduce((sum, v) => sum + scoreMap[v.recommendation], 0);
-  const avgScore = totalScore / views.length;
+  // Views below the policy's confidence floor abstain; the rest vote with their policy weight
+  const voting = views.filter((v) => v.confidence >= policy.min_agent_confidence);
+  const abstaining = views.filter((v) => v.confidence < policy.min_agent_confidence);
+  const weightOf = (v: AgentView) => policy.agent_weights[v.agent] ?? 1;
+
+  const totalWeight = voting.reduce((sum, v) => sum + weightOf(v), 0);
+  const totalScore = voting.reduce((sum, v) => sum + scoreMap[v.recommendation] * weightOf(v), 0);
+  const avgScore = totalWeight > 0 ? totalScore / totalWeight : 0;
 
-  const recommendations = views.map((v) => v.recommendation);
+  const recommendations = voting.map((v) => v.recommendation);
   const hasOpposition = recommendations.some((r) => r === "oppose" || r === "strongly_oppose");
   const hasSupport = recommendations.some((r) => r === "support" || r === "strongly_support");
 
@@ -723,12 +1229,55 @@ function synthesizeRecommendation(
   else if (hasOpposition && hasSupport) consensus = "divided";
   else consensus = "weak";
 
+  // Vetoes and the option confidence floor override the vote
+  const vetoingView = policy.vetoes
+    .map((rule) => voting.find((v) => v.agent === rule.agent && scoreMap[v.recommendation] <= scoreMap[rule.at]))
+    .find((v) => v !== undefined);
+  const qualityFactor = dataQuality?.confidence_factor ?? 1;
+  const optionConfidence = option.impact_model.confidence * qualityFactor;
+
+  let blockedBy: string | undefined;
+  if (vetoingView) {
+    blockedBy = `${vetoingView.agent} veto (${vetoingView.recommendation.replace("_", " ")})`;
+  } else if (optionConfidence < policy.min_option_confidence) {
+    blockedBy = `model confidence ${Math.round(optionConfidence * 100)}%` +
+      `${qualityFactor < 1 ? " after the data-quality discount" : ""} is below the ` +
+      `${Math.round(policy.min_option_confidence * 100)}% minimum`;
+  }
+
   const reasoningChain: string[] = [];
 
-  if (avgScore > 0) {
-    reasoningChain.push(`Overall positive assessment (score: ${avgScore.toFixed(1)}/2)`);
+  const weighted = voting.filter((v) => weightOf(v) !== 1);
+  const weightNote = weighted.length > 0
+    ? `, weighted ${weighted.map((v) => `${v.agent} ${weightOf(v)}x`).join(", ")}`
+    : "";
+
+  if (vetoingView) {
+    reasoningChain.push(
+      `Blocked by ${vetoingView.agent} veto: voted ${vetoingView.recommendation.replace("_", " ")}, ` +
+        `which the council policy treats as a veto regardless of the overall score (${avgScore.toFixed(1)}/2)`
+    );
+  } else if (blockedBy) {
+    reasoningChain.push(`Blocked by confidence threshold: ${blockedBy}`);
+  } else if (avgScore > 0) {
+    reasoningChain.push(`Overall positive assessment (score: ${avgScore.toFixed(1)}/2${weightNote})`);
   } else {
-    reasoningChain.push(`Mixed or negative assessment (score: ${avgScore.toFixed(1)}/2)`);
+    reasoningChain.push(`Mixed or negative assessment (score: ${avgScore.toFixed(1)}/2${weightNote})`);
+  }
+
+  if (dataQuality && qualityFactor < 1) {
+    const warnings = dataQuality.issues.filter((i) => i.severity === "warning").length;
+    reasoningChain.push(
+      `Confidence discounted to ${Math.round(qualityFactor * 100)}% for data quality ` +
+        `${dataQuality.score}/100 (${warnings} warning${warnings === 1 ? "" : "s"})`
+    );
+  }
+
+  for (const view of abstaining) {
+    reasoningChain.push(
+      `${view.agent} abstained: confidence ${Math.round(view.confidence * 100)}% is below the ` +
+        `${Math.round(policy.min_agent_confidence * 100)}% threshold`
+    );
   }
 
   for (const view of views) {
@@ -749,7 +1298,9 @@ function synthesizeRecommendation(
   }
 
   let summary: string;
-  if (avgScore >= 1) {
+  if (blockedBy) {
+    summary = `The council cannot recommend this option under the current policy: ${blockedBy}.`;
+  } else if (avgScore >= 1) {
     summary = `The council recommends proceeding with "${option.description.substring(0, 50)}..." ` +
       `with ${consensus} consensus. Expected ARR impact: ${option.impact_model.expected_arr_change.toLocaleString()}.`;
   } else if (avgScore >= 0) {
@@ -766,6 +1317,9 @@ function synthesizeRecommendation(
     reasoning_chain: reasoningChain,
     trade_offs: tradeOffs,
     summary,
+    weighted_score: Math.round(avgScore * 100) / 100,
+    blocked_by: blockedBy,
+    data_quality_score: dataQuality?.score,
   };
 }
 
@@ -773,21 +1327,18 @@ function synthesizeRecommendation(
 // STEP 7: DECISION RECORD
 // =============================================================================
 
-export function createDecisionRecord(
-  question: string,
-  options: PricingOption[],
-  chosenOptionId: string,
-  reasoning: string,
-  ontologySnapshotId: string
-): DecisionRecord {
+/**
+ * The flow's view of a persisted decision record
+ */
+export function toFlowDecisionRecord(record: DbDecisionRecord): DecisionRecord {
   return {
-    id: `dec_${Math.random().toString(36).substring(2, 10)}`,
-    timestamp: new Date(),
-    question,
-    options_considered: options.map((o) => o.id),
-    chosen_option: chosenOptionId,
-    reasoning,
-    ontology_snapshot_id: ontologySnapshotId,
+    id: record.id,
+    timestamp: new Date(record.created_at),
+    question: record.question,
+    options_considered: record.options_considered,
+    chosen_option: record.chosen_option_id ?? "",
+    reasoning: record.reasoning,
+    ontology_snapshot_id: record.ontology_snapshot_id,
   };
 }
 
@@ -797,17 +1348,25 @@ export function createDecisionRecord(
 
 export interface FlowResult {
   state: PricingFlowState;
+  runId: string | null; // Null when the run wasn't persisted
   summary: OntologyDataResult["summary"];
   segments: DetectedSegment[];
   options: PricingOption[];
   evaluations: CouncilEvaluation[];
   recommendedOption: PricingOption | null;
   competitiveContext: CompetitiveContext;
+  dataQuality: DataQualityReport;
 }
 
+/**
+ * Run steps 1-7 from the ontology. Data with blocking quality issues stops
+ * after step 4 with no options, unless `allowBlockingIssues` is set; the
+ * result's data-quality report says why.
+ */
 export async function runFullPricingFlow(
   organizationId: string,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  flowOptions: { monteCarlo?: MonteCarloOptions; persist?: boolean; allowBlockingIssues?: boolean } = {}
 ): Promise<FlowResult> {
   const data = await loadPricingDataFromOntology(supabase, organizationId);
 
@@ -815,6 +1374,10 @@ export async function runFullPricingFlow(
     throw new Error("No company data found. Please set up a company first.");
   }
 
+  const dataQuality = await assessDataQuality(supabase as SupabaseClient<Database>, organizationId, {
+    fallbacks: data.fallbacks,
+  });
+
   let state = createFlowState(organizationId);
 
   state = {
@@ -825,52 +1388,94 @@ export async function runFullPricingFlow(
     economics: data.economics,
   };
 
-  const options = generatePricingOptions(
+  if (dataQuality.blocking && !flowOptions.allowBlockingIssues) {
+    return {
+      state,
+      runId: null,
+      summary: data.summary,
+      segments: data.segments,
+      options: [],
+      evaluations: [],
+      recommendedOption: null,
+      competitiveContext: data.competitiveContext,
+      dataQuality,
+    };
+  }
+
+  const generated = generatePricingOptions(
     data.segments,
     data.economics,
     data.pricingStructure,
-    data.competitiveContext
+    data.customers,
+    data.competitiveContext,
+    flowOptions.monteCarlo
   );
 
   state = {
     ...state,
     current_step: 5,
-    options,
+    options: generated,
   };
 
-  const evaluations: CouncilEvaluation[] = options.map((option) =>
-    evaluateWithCouncil(option, data.segments, data.economics, data.competitiveContext)
+  const policy = await loadCouncilPolicy(supabase, organizationId);
+  const generatedEvaluations: CouncilEvaluation[] = generated.map((option) =>
+    evaluateWithCouncil(option, data.segments, data.economics, data.competitiveContext, policy, dataQuality)
   );
 
-  const scoredOptions = evaluations.map((e, i) => ({
-    evaluation: e,
-    option: options[i],
-    score:
-      e.recommendation.consensus === "strong"
-        ? 4
-        : e.recommendation.consensus === "moderate"
-        ? 3
-        : e.recommendation.consensus === "weak"
-        ? 1
-        : 0,
-  }));
-
-  scoredOptions.sort((a, b) => b.score - a.score);
-  const recommendedOption = scoredOptions[0]?.option || null;
+  const generatedRecommendation = pickRecommendedOption(generated, generatedEvaluations);
 
   state = {
     ...state,
     current_step: 6,
-    evaluation: evaluations[0],
+    evaluation: generatedEvaluations[0],
   };
 
+  let options = generated;
+  let evaluations = generatedEvaluations;
+  let recommendedOption = generatedRecommendation;
+  let runId: string | null = null;
+
+  // Step 7: store the run, its options and evaluations, and the decision
+  if (flowOptions.persist !== false) {
+    const saved = await saveAnalysisRun(supabase as SupabaseClient<Database>, organizationId, {
+      inputs: {
+        segments: data.segments,
+        economics: data.economics,
+        pricingStructure: data.pricingStructure,
+        competitiveContext: data.competitiveContext,
+        summary: data.summary,
+        dataQuality,
+      },
+      options: generated,
+      evaluations: generatedEvaluations,
+      recommendedOption: generatedRecommendation,
+      councilMode: "rules",
+      policy,
+      parameters: flowOptions.monteCarlo,
+    });
+
+    ({ options, evaluations, recommendedOption } = saved.run);
+    runId = saved.run.run.id;
+
+    state = {
+      ...state,
+      current_step: 7,
+      options,
+      evaluation: evaluations[0],
+      decision: toFlowDecisionRecord(saved.decision),
+      completed_at: new Date(),
+    };
+  }
+
   return {
     state,
+    runId,
     summary: data.summary,
     segments: data.segments,
     options,
     evaluations,
     recommendedOption,
     competitiveContext: data.competitiveContext,
+    dataQuality,
   };
 }
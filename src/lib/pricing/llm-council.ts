@@ -0,0 +1,218 @@
+/**
+ * LLM Council
+ *
+ * Optional council mode where each agent's AgentView comes from Claude instead
+ * of the threshold rules. Each agent is prompted with its own expertise and
+ * evaluationCriteria, the option, and the ontology context; the reply must be
+ * JSON matching AgentView. Any agent whose call fails or whose reply doesn't
+ * validate falls back to its rule-based view, so the council always seats
+ * every agent.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { AGENTS, AgentId } from "@/types/agents";
+import type {
+  AgentView,
+  CompetitiveContext,
+  CouncilEvaluation,
+  CouncilPolicy,
+  DetectedSegment,
+  PricingOption,
+  UnitEconomics,
+} from "@/types/pricing-flow";
+import type { DataQualityReport } from "@/types/data-quality";
+import {
+  assembleCouncilEvaluation,
+  evaluateAgentsWithRules,
+  evaluateWithCouncil,
+} from "@/lib/pricing/flow-engine";
+import { DEFAULT_COUNCIL_POLICY } from "@/lib/pricing/council-policy";
+
+/**
+ * The slice of the Anthropic client the council uses
+ */
+export interface CouncilLLMClient {
+  messages: {
+    create(
+      params: Anthropic.MessageCreateParamsNonStreaming
+    ): Promise<Pick<Anthropic.Message, "content">>;
+  };
+}
+
+export interface LLMCouncilOptions {
+  // Defaults to an Anthropic client built from ANTHROPIC_API_KEY
+  client?: CouncilLLMClient;
+  // Output of buildOntologyContext for the organization
+  ontologyContext: string;
+  model?: string;
+}
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+const agentViewSchema = z.object({
+  reasoning: z.string().min(1),
+  key_points: z.array(z.string().min(1)).min(1).max(8),
+  recommendation: z.enum(["strongly_support", "support", "neutral", "oppose", "strongly_oppose"]),
+  impact: z.record(z.string(), z.union([z.string(), z.number()])),
+  confidence: z.number().min(0).max(1),
+  criteria: z.array(z.object({ question: z.string(), finding: z.string() })).optional(),
+});
+
+let defaultClient: CouncilLLMClient | null = null;
+
+/**
+ * Whether the LLM council can run without an injected client
+ */
+export function isLLMCouncilAvailable(): boolean {
+  return !!process.env.ANTHROPIC_API_KEY;
+}
+
+/**
+ * Evaluate an option with every agent's view coming from the LLM, falling
+ * back to the rules per agent
+ */
+export async function evaluateWithLLMCouncil(
+  option: PricingOption,
+  segments: DetectedSegment[],
+  economics: UnitEconomics,
+  competitiveContext: CompetitiveContext | undefined,
+  options: LLMCouncilOptions,
+  policy: CouncilPolicy = DEFAULT_COUNCIL_POLICY,
+  dataQuality?: DataQualityReport
+): Promise<CouncilEvaluation> {
+  const client = options.client ?? getDefaultClient();
+  const ruleViews = evaluateAgentsWithRules(option, segments, economics, competitiveContext, dataQuality);
+
+  const views = await Promise.all(
+    ruleViews.map(async (fallback) => {
+      try {
+        return await askAgent(client, fallback.agent, option, options);
+      } catch (error) {
+        console.warn(`LLM council: ${fallback.agent} fell back to rules:`, error);
+        return { ...fallback, source: "rules" as const };
+      }
+    })
+  );
+
+  return assembleCouncilEvaluation(option, views, policy, dataQuality);
+}
+
+/**
+ * Evaluate a batch of options, with the LLM when `llm` is given and with the
+ * rules otherwise. Options run one at a time to keep concurrent calls at one
+ * per agent.
+ */
+export async function evaluateOptionsWithCouncil(
+  options: PricingOption[],
+  segments: DetectedSegment[],
+  economics: UnitEconomics,
+  competitiveContext: CompetitiveContext | undefined,
+  policy: CouncilPolicy,
+  llm?: LLMCouncilOptions,
+  dataQuality?: DataQualityReport
+): Promise<CouncilEvaluation[]> {
+  if (!llm) {
+    return options.map((option) =>
+      evaluateWithCouncil(option, segments, economics, competitiveContext, policy, dataQuality)
+    );
+  }
+
+  const evaluations: CouncilEvaluation[] = [];
+  for (const option of options) {
+    evaluations.push(
+      await evaluateWithLLMCouncil(option, segments, economics, competitiveContext, llm, policy, dataQuality)
+    );
+  }
+  return evaluations;
+}
+
+async function askAgent(
+  client: CouncilLLMClient,
+  agent: AgentId,
+  option: PricingOption,
+  options: LLMCouncilOptions
+): Promise<AgentView> {
+  const response = await client.messages.create({
+    model: options.model ?? DEFAULT_MODEL,
+    max_tokens: 1500,
+    system: buildAgentPrompt(agent),
+    messages: [
+      {
+        role: "user",
+        content: buildOptionMessage(option, options.ontologyContext),
+      },
+    ],
+  });
+
+  const text = response.content[0]?.type === "text" ? response.content[0].text : "";
+  const jsonStr = text.replace(/```json\n?|\n?```/g, "").trim();
+  const parsed = agentViewSchema.parse(JSON.parse(jsonStr));
+
+  return { ...parsed, agent, source: "llm" };
+}
+
+function buildAgentPrompt(agent: AgentId): string {
+  const def = AGENTS[agent];
+  return `You are the ${def.title} (${def.name}) on a B2B SaaS pricing council, evaluating one pricing option.
+
+Your expertise:
+${def.expertise.map((e) => `- ${e}`).join("\n")}
+
+Answer each of your evaluation criteria, in this order:
+${def.evaluationCriteria.map((c, i) => `${i + 1}. ${c}`).join("\n")}
+
+Ground every claim in the option's impact model and the business context you are given. Do not invent numbers.
+
+Return ONLY valid JSON (no markdown, no explanation):
+
+{
+  "reasoning": "2-3 sentences from your perspective",
+  "key_points": ["most decisive point first", "..."],
+  "recommendation": "strongly_support" | "support" | "neutral" | "oppose" | "strongly_oppose",
+  "impact": { "short_label": "value from your lens" },
+  "confidence": 0.0-1.0,
+  "criteria": [{ "question": "criterion text", "finding": "your answer" }]
+}`;
+}
+
+function buildOptionMessage(option: PricingOption, ontologyContext: string): string {
+  // The histogram is noise for the prompt; the percentiles carry the range
+  const { distribution, ...impact } = option.impact_model;
+  const range = distribution
+    ? {
+        p10_arr_change: distribution.p10_arr_change,
+        p50_arr_change: distribution.p50_arr_change,
+        p90_arr_change: distribution.p90_arr_change,
+        probability_arr_decrease: distribution.probability_arr_decrease,
+      }
+    : undefined;
+
+  return `## Pricing option
+
+${JSON.stringify(
+  {
+    type: option.type,
+    description: option.description,
+    changes: option.changes,
+    impact_model: { ...impact, range },
+    risk_profile: option.risk_profile,
+    complexity: option.complexity,
+  },
+  null,
+  2
+)}
+
+## Business context
+
+${ontologyContext}`;
+}
+
+function getDefaultClient(): CouncilLLMClient {
+  if (!defaultClient) {
+    defaultClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return defaultClient;
+}
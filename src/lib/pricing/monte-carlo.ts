@@ -0,0 +1,145 @@
+/**
+ * Seeded Monte Carlo Runner
+ *
+ * Deterministic sampling utilities for impact modelling. The same seed always
+ * produces the same draws, so any number that ends up in a deck can be
+ * reproduced later from the seed stored alongside it.
+ */
+
+import type { ImpactDistribution } from "@/types/pricing-flow";
+
+export interface MonteCarloOptions {
+  seed?: number;
+  iterations?: number;
+  histogramBins?: number;
+}
+
+export interface SeededRandom {
+  /** Uniform in [0, 1) */
+  next(): number;
+  /** Normal draw via Box-Muller */
+  normal(mean: number, sd: number): number;
+}
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_HISTOGRAM_BINS = 20;
+
+// Caller-supplied iteration counts above this would pin a request's CPU
+export const MAX_ITERATIONS = 20000;
+
+/**
+ * Check a request's seed and iteration count; the error message, or null when valid
+ */
+export function validateMonteCarloOptions(options: { seed?: unknown; iterations?: unknown }): string | null {
+  if (options.seed !== undefined && !Number.isSafeInteger(options.seed)) {
+    return "seed must be an integer";
+  }
+  if (
+    options.iterations !== undefined &&
+    (!Number.isInteger(options.iterations) || (options.iterations as number) < 1 || (options.iterations as number) > MAX_ITERATIONS)
+  ) {
+    return `iterations must be an integer from 1 to ${MAX_ITERATIONS}`;
+  }
+  return null;
+}
+
+/**
+ * mulberry32 — small, fast, and good enough for simulation
+ */
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = (mean: number, sd: number) => {
+    if (sd === 0) return mean;
+    const u1 = Math.max(next(), Number.EPSILON);
+    const u2 = next();
+    return mean + sd * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  };
+
+  return { next, normal };
+}
+
+/**
+ * Stable 32-bit seed from a string (FNV-1a), for when callers don't pass one
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Run `sample` once per iteration and summarize the ARR-change outcomes
+ */
+export function runMonteCarlo(
+  sample: (rng: SeededRandom) => number,
+  options: MonteCarloOptions & { seed: number }
+): ImpactDistribution {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const rng = createSeededRandom(options.seed);
+
+  const outcomes: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    outcomes.push(sample(rng));
+  }
+  outcomes.sort((a, b) => a - b);
+
+  const decreases = outcomes.filter((o) => o < 0).length;
+
+  return {
+    seed: options.seed,
+    iterations,
+    p10_arr_change: Math.round(percentile(outcomes, 0.1)),
+    p50_arr_change: Math.round(percentile(outcomes, 0.5)),
+    p90_arr_change: Math.round(percentile(outcomes, 0.9)),
+    probability_arr_decrease: iterations > 0 ? Math.round((decreases / iterations) * 1000) / 1000 : 0,
+    histogram: buildHistogram(outcomes, options.histogramBins ?? DEFAULT_HISTOGRAM_BINS),
+  };
+}
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function buildHistogram(sorted: number[], bins: number): ImpactDistribution["histogram"] {
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) {
+    return [{ bin_start: Math.round(min), bin_end: Math.round(max), count: sorted.length }];
+  }
+
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: bins }, (_, i) => ({
+    bin_start: Math.round(min + i * width),
+    bin_end: Math.round(min + (i + 1) * width),
+    count: 0,
+  }));
+
+  for (const value of sorted) {
+    const bin = Math.min(bins - 1, Math.floor((value - min) / width));
+    histogram[bin].count++;
+  }
+
+  return histogram;
+}
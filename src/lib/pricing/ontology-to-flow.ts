@@ -17,6 +17,7 @@ import type {
   ValueMetric as FlowValueMetric,
   ConcentrationMetrics,
   PriceSensitivityModel,
+  ChurnHazard,
   CompetitiveContext,
 } from "@/types/pricing-flow";
 import type {
@@ -24,6 +25,7 @@ import type {
   PricingTier as DbPricingTier,
   ValueMetric as DbValueMetric,
   EconomicsSnapshot,
+  SurvivalModelSummary,
   Competitor,
 } from "@/types/database";
 
@@ -32,6 +34,7 @@ import { getPricingTiers } from "@/lib/db/ontology/tiers";
 import { getValueMetrics } from "@/lib/db/ontology/value-metrics";
 import { getLatestEconomicsSnapshot } from "@/lib/db/ontology/economics";
 import { getCompetitors } from "@/lib/db/ontology/competitors";
+import { loadSimulationCustomers, SimulationCustomer } from "@/lib/pricing/price-simulator";
 
 // ---------------------------------------------------------------------------
 // Result type
@@ -42,6 +45,7 @@ export interface OntologyDataResult {
   economics: UnitEconomics;
   pricingStructure: PricingStructure;
   competitiveContext: CompetitiveContext;
+  customers: SimulationCustomer[]; // Empty when loaded without customers
   summary: {
     totalCustomers: number;
     totalMrr: number;
@@ -49,6 +53,8 @@ export interface OntologyDataResult {
     nrr: number;
     avgLtv: number;
   };
+  // Defaults substituted for missing ontology data, for the data-quality report
+  fallbacks: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -57,7 +63,8 @@ export interface OntologyDataResult {
 
 export async function loadPricingDataFromOntology(
   supabase: SupabaseClient,
-  organizationId: string
+  organizationId: string,
+  options: { includeCustomers?: boolean } = {}
 ): Promise<OntologyDataResult | null> {
   try {
     // Fetch everything from the ontology in parallel
@@ -87,6 +94,10 @@ export async function loadPricingDataFromOntology(
     // Map competitive context
     const competitiveContext = mapCompetitiveContext(dbCompetitors, snapshot);
 
+    // Active customers for customer-level price simulation; summaries skip the paging
+    const customers =
+      options.includeCustomers === false ? [] : await loadSimulationCustomers(supabase, organizationId, dbTiers);
+
     // Build summary from snapshot or derive from segments
     const totalCustomers = snapshot?.total_customers ?? segments.reduce((s, seg) => s + seg.customer_count, 0);
     const totalMrr = snapshot?.total_mrr ?? 0;
@@ -100,6 +111,7 @@ export async function loadPricingDataFromOntology(
       economics,
       pricingStructure,
       competitiveContext,
+      customers,
       summary: {
         totalCustomers,
         totalMrr,
@@ -107,6 +119,7 @@ export async function loadPricingDataFromOntology(
         nrr: snapshot?.net_revenue_retention ?? 112,
         avgLtv: snapshot ? (totalCustomers > 0 ? avgLtv : 0) : avgLtv,
       },
+      fallbacks: describeFallbacks(dbSegments, dbTiers, snapshot),
     };
   } catch (error) {
     console.error("Failed to load pricing data from ontology:", error);
@@ -257,6 +270,18 @@ function mapEconomics(
             .filter(([, v]) => v.optimal_price_range)
             .map(([k, v]) => [k, v.optimal_price_range!])
         ),
+        evidence: Object.fromEntries(
+          Object.entries(snapshot.price_sensitivity_model)
+            .filter(([, v]) => v.provenance && v.elasticity_ci && v.churn_per_pct_increase_ci)
+            .map(([k, v]) => [k, {
+              elasticity_ci: v.elasticity_ci!,
+              churn_per_percent_increase_ci: v.churn_per_pct_increase_ci!,
+              treated: v.provenance!.treated,
+              control: v.provenance!.control,
+              pooled: v.provenance!.pooled,
+              estimated_at: v.provenance!.estimated_at,
+            }])
+        ),
       }
     : {
         segment_elasticity: Object.fromEntries(
@@ -276,6 +301,21 @@ function mapEconomics(
     churn_by_tier: churnByTier,
     concentration,
     sensitivity_model: sensitivityModel,
+    churn_hazard: snapshot?.survival_model ? mapChurnHazard(snapshot.survival_model) : undefined,
+  };
+}
+
+function mapChurnHazard(survival: SurvivalModelSummary): ChurnHazard {
+  return {
+    monthly_hazard: survival.monthly_hazard,
+    monthly_hazard_ci: survival.monthly_hazard_ci,
+    median_lifetime_months: survival.median_lifetime_months,
+    survival_12m: survival.survival_12m,
+    customers: survival.customers,
+    events: survival.events,
+    drivers: survival.hazard_ratios
+      .filter((h) => h.p_value < 0.05)
+      .map((h) => ({ label: h.label, hazard_ratio: h.hazard_ratio, ci: h.ci })),
   };
 }
 
@@ -326,6 +366,38 @@ function mapCompetitiveContext(
   return { competitors, market, positioning };
 }
 
+/**
+ * The defaults the mappers substitute, in words
+ */
+function describeFallbacks(
+  dbSegments: Segment[],
+  dbTiers: DbPricingTier[],
+  snapshot: EconomicsSnapshot | null
+): string[] {
+  const fallbacks: string[] = [];
+
+  if (dbTiers.length === 0) {
+    fallbacks.push("No active pricing tiers: default Free/Starter/Pro/Enterprise tiers are used");
+  }
+  if (!snapshot) {
+    fallbacks.push("No economics snapshot: NRR defaults to 112% and concentration is estimated from segments");
+  } else if (!snapshot.price_sensitivity_model || Object.keys(snapshot.price_sensitivity_model).length === 0) {
+    fallbacks.push("No price sensitivity model: elasticities are estimated from segment revenue share");
+  } else if (!Object.values(snapshot.price_sensitivity_model).some((v) => v.provenance)) {
+    fallbacks.push("Price sensitivity is not estimated from past price changes: elasticities are assumptions");
+  }
+
+  const withoutCurve = dbSegments.filter((s) => !(s.retention_curve?.length > 0));
+  if (withoutCurve.length > 0) {
+    fallbacks.push(
+      `${withoutCurve.length} segments have no retention curve: a default curve is used ` +
+        `(${withoutCurve.map((s) => s.name).join(", ")})`
+    );
+  }
+
+  return fallbacks;
+}
+
 // ---------------------------------------------------------------------------
 // Fallback tiers (same as old adapter)
 // ---------------------------------------------------------------------------
@@ -0,0 +1,573 @@
+/**
+ * Price Change Simulator
+ *
+ * Applies a set of PricingChange entries to every active customer and
+ * aggregates the per-customer outcomes into an ImpactModel.
+ *
+ * Each customer's response is driven by their segment's entry in the
+ * PriceSensitivityModel:
+ * - churn_per_percent_increase → probability the customer churns
+ * - segment_elasticity → constant-elasticity demand response; whatever part
+ *   of it churn doesn't explain becomes contraction among customers who stay
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, PricingTier as DbPricingTier } from "@/types/database";
+import {
+  runMonteCarlo,
+  seedFromString,
+  MonteCarloOptions,
+  SeededRandom,
+} from "@/lib/pricing/monte-carlo";
+import type {
+  DetectedSegment,
+  ImpactModel,
+  PricingChange,
+  PricingStructure,
+  PriceSensitivityModel,
+} from "@/types/pricing-flow";
+
+type DbClient = SupabaseClient<Database>;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SimulationCustomer {
+  id: string;
+  segment_id?: string;
+  tier_id?: string;
+  tier_name?: string;
+  mrr: number;
+  billing_interval: "monthly" | "annual";
+}
+
+export interface CustomerSimulationResult {
+  customer_id: string;
+  segment_id?: string;
+  current_mrr: number;
+  new_mrr: number; // List MRR after the change, before any churn/contraction
+  price_change_percent: number; // Effective % change in the customer's bill
+  churn_probability: number;
+  expected_mrr: number; // new_mrr weighted by retention and contraction
+}
+
+export interface SimulationResult {
+  customers: CustomerSimulationResult[];
+  affected_customers: number;
+  current_arr: number;
+  impact_model: ImpactModel;
+}
+
+export interface SimulationOptions {
+  // Option-level parameter the customer base can't tell us
+  timeToFullImpactMonths: number;
+  // Defaults to a seed derived from the changes themselves
+  monteCarlo?: MonteCarloOptions;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Price shocks above this are capped when looking up sensitivity (free → paid is "100%") */
+const MAX_SENSITIVITY_SHOCK = 1;
+
+/** Deep cuts are capped too — constant elasticity blows up as the price approaches zero */
+const MIN_SENSITIVITY_SHOCK = -0.5;
+
+/** Perceived price shock for structural changes that have no explicit new price */
+const STRUCTURAL_CHANGE_SHOCK = 0.1;
+
+/**
+ * Share of a limit change customers actually feel — most accounts don't sit at
+ * their allowance, so halving it is not a 100% price increase for everyone
+ */
+const LIMIT_UTILIZATION = 0.5;
+
+/** No segment churns with certainty; some customers always absorb the change */
+const MAX_CHURN_PROBABILITY = 0.95;
+
+/**
+ * Relative spread of sampled parameters. Segments the sensitivity model
+ * covers get the tighter band; segments on the org-wide fallback the wider one.
+ * Segments estimated from past price changes use their confidence interval.
+ */
+const PARAMETER_CV = { covered: 0.25, fallback: 0.5 };
+
+/** Floor for the expansion-rate spread so flat segments still carry some uncertainty */
+const MIN_EXPANSION_SD = 0.02;
+
+/** Parameter bucket for customers without a segment assignment */
+const UNSEGMENTED = "__unsegmented";
+
+/** Rows per request; PostgREST caps a response at 1000 */
+const PAGE_SIZE = 1000;
+
+// ---------------------------------------------------------------------------
+// Loader
+// ---------------------------------------------------------------------------
+
+/**
+ * Load active customers in the shape the simulator needs
+ */
+export async function loadSimulationCustomers(
+  supabase: DbClient,
+  organizationId: string,
+  tiers: DbPricingTier[]
+): Promise<SimulationCustomer[]> {
+  type CustomerRow = {
+    id: string;
+    segment_id: string | null;
+    current_tier_id: string | null;
+    mrr: number | null;
+    billing_interval: string | null;
+  };
+
+  const rows: CustomerRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("unified_customers")
+      .select("id, segment_id, current_tier_id, mrr, billing_interval")
+      .eq("organization_id", organizationId)
+      .eq("status", "active")
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as CustomerRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const tierNames = new Map(tiers.map((t) => [t.id, t.name]));
+
+  return rows.map((c) => ({
+    id: c.id,
+    segment_id: c.segment_id ?? undefined,
+    tier_id: c.current_tier_id ?? undefined,
+    tier_name: c.current_tier_id ? tierNames.get(c.current_tier_id) : undefined,
+    mrr: Number(c.mrr) || 0,
+    billing_interval: c.billing_interval === "annual" ? "annual" : "monthly",
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulate a set of pricing changes across the customer base.
+ *
+ * The expected case uses the sensitivity model as-is. The range comes from a
+ * seeded Monte Carlo run that samples each segment's elasticity, churn
+ * sensitivity and expansion rate around the snapshot values.
+ */
+export function simulatePricingChanges(
+  changes: PricingChange[],
+  customers: SimulationCustomer[],
+  segments: DetectedSegment[],
+  sensitivity: PriceSensitivityModel,
+  pricingStructure: PricingStructure,
+  options: SimulationOptions
+): SimulationResult {
+  const segmentById = new Map(segments.map((s) => [s.id, s]));
+  const fallback = averageSensitivity(sensitivity);
+
+  const priced = customers.map((customer) =>
+    priceCustomer(changes, customer, segmentById, sensitivity, pricingStructure)
+  );
+  const affected = priced.filter((p) => p.shock !== 0);
+
+  const results: CustomerSimulationResult[] = priced.map((p) => {
+    const { churnProbability, expectedMrr } = respond(p, p.sensitivity ?? fallback);
+    return {
+      customer_id: p.customer.id,
+      segment_id: p.customer.segment_id,
+      current_mrr: p.customer.mrr,
+      new_mrr: p.newMrr,
+      price_change_percent: Math.round(p.priceChange * 1000) / 10,
+      churn_probability: churnProbability,
+      expected_mrr: expectedMrr,
+    };
+  });
+
+  const currentArr = customers.reduce((sum, c) => sum + c.mrr, 0) * 12;
+  const expectedArrChange = results.reduce((sum, r) => sum + (r.expected_mrr - r.current_mrr), 0) * 12;
+  const expectedChurned = results.reduce((sum, r) => sum + r.churn_probability, 0);
+
+  // Sample segment parameters and re-run only the customers the change touches.
+  // Customers with identical pricing respond identically, so each group runs once.
+  const distributions = deriveParameterDistributions(affected, segmentById, fallback);
+  const groups = groupIdenticalCustomers(affected);
+  const distribution = runMonteCarlo(
+    (rng) => {
+      const sampled = new Map(
+        Array.from(distributions, ([key, d]) => [key, sampleParameters(d, rng)])
+      );
+      let arrChange = 0;
+      for (const { priced: p, count } of groups) {
+        const params = sampled.get(p.segmentKey)!;
+        const { expectedMrr } = respond(p, params);
+        arrChange += (expectedMrr - p.customer.mrr) * 12 * params.expansionFactor * count;
+      }
+      return arrChange;
+    },
+    {
+      ...options.monteCarlo,
+      seed: options.monteCarlo?.seed ?? seedFromString(JSON.stringify(changes)),
+    }
+  );
+
+  // Confidence: how sure we are of the direction, discounted by how much of the
+  // revenue at stake the sensitivity model actually covers
+  const atStake = affected.reduce((sum, p) => sum + Math.max(p.customer.mrr, p.newMrr), 0);
+  const covered = affected
+    .filter((p) => p.sensitivity)
+    .reduce((sum, p) => sum + Math.max(p.customer.mrr, p.newMrr), 0);
+  const coverage = atStake > 0 ? covered / atStake : affected.length > 0 ? 0 : 1;
+  const directional = Math.max(distribution.probability_arr_decrease, 1 - distribution.probability_arr_decrease);
+  const confidence = directional * (0.5 + 0.5 * coverage);
+
+  return {
+    customers: results,
+    affected_customers: affected.length,
+    current_arr: currentArr,
+    impact_model: {
+      expected_arr_change: Math.round(expectedArrChange),
+      expected_arr_change_percent: currentArr > 0
+        ? Math.round((expectedArrChange / currentArr) * 100 * 10) / 10
+        : 0,
+      optimistic_arr_change: distribution.p90_arr_change,
+      pessimistic_arr_change: distribution.p10_arr_change,
+      expected_churn_increase: customers.length > 0
+        ? Math.round((expectedChurned / customers.length) * 10000) / 10000
+        : 0,
+      affected_customers: affected.length,
+      time_to_full_impact_months: options.timeToFullImpactMonths,
+      confidence: Math.round(confidence * 100) / 100,
+      distribution,
+    },
+  };
+}
+
+interface PricedCustomer {
+  customer: SimulationCustomer;
+  segmentKey: string;
+  sensitivity: SegmentSensitivity | null;
+  newMrr: number;
+  priceChange: number; // Fractional change in the customer's bill
+  shock: number; // Perceived change used for the sensitivity lookup
+}
+
+/**
+ * Work out what a customer pays after the changes — independent of any
+ * sensitivity parameters, so it only runs once per simulation
+ */
+function priceCustomer(
+  changes: PricingChange[],
+  customer: SimulationCustomer,
+  segmentById: Map<string, DetectedSegment>,
+  sensitivity: PriceSensitivityModel,
+  pricingStructure: PricingStructure
+): PricedCustomer {
+  const segment = customer.segment_id ? segmentById.get(customer.segment_id) : undefined;
+  const { newMrr, structuralShock, limitShock } = applyChanges(changes, customer, segment, pricingStructure);
+  const priceChange = customer.mrr > 0
+    ? (newMrr - customer.mrr) / customer.mrr
+    : newMrr > 0 ? MAX_SENSITIVITY_SHOCK : 0;
+
+  return {
+    customer,
+    segmentKey: segment?.id ?? UNSEGMENTED,
+    sensitivity: segment ? lookupSensitivity(sensitivity, segment) : null,
+    newMrr,
+    priceChange,
+    // Tighter limits compound with any price change: paying more for less
+    shock: (priceChange !== 0 ? priceChange : structuralShock) + limitShock,
+  };
+}
+
+function groupIdenticalCustomers(priced: PricedCustomer[]): { priced: PricedCustomer; count: number }[] {
+  const groups = new Map<string, { priced: PricedCustomer; count: number }>();
+  for (const p of priced) {
+    const key = `${p.segmentKey}|${p.sensitivity ? 1 : 0}|${p.customer.mrr}|${p.newMrr}|${p.shock}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { priced: p, count: 1 });
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * A customer's response to their new price under a given set of parameters
+ */
+function respond(
+  priced: PricedCustomer,
+  params: SegmentSensitivity
+): { churnProbability: number; expectedMrr: number } {
+  const { shock, newMrr } = priced;
+  let churnProbability = 0;
+  let demandFactor = 1;
+
+  if (shock > 0) {
+    const cappedShock = Math.min(shock, MAX_SENSITIVITY_SHOCK);
+    churnProbability = Math.min(MAX_CHURN_PROBABILITY, params.churnPerPct * cappedShock * 100);
+    // Constant-elasticity demand is the total response; churn already accounts for part of it
+    const retainedDemand = Math.pow(1 + cappedShock, params.elasticity);
+    demandFactor = Math.min(1, retainedDemand / (1 - churnProbability));
+  } else if (shock < 0) {
+    // Price cuts: retained customers grow into the lower price
+    demandFactor = Math.pow(1 + Math.max(shock, MIN_SENSITIVITY_SHOCK), params.elasticity);
+  }
+
+  return {
+    churnProbability,
+    expectedMrr: newMrr * (1 - churnProbability) * demandFactor,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parameter sampling
+// ---------------------------------------------------------------------------
+
+interface ParameterDistribution {
+  elasticity: { mean: number; sd: number };
+  churnPerPct: { mean: number; sd: number };
+  expansionRate: { mean: number; sd: number };
+}
+
+interface SampledParameters extends SegmentSensitivity {
+  // Realized expansion relative to plan; scales how the ARR delta plays out over the year
+  expansionFactor: number;
+}
+
+function deriveParameterDistributions(
+  affected: PricedCustomer[],
+  segmentById: Map<string, DetectedSegment>,
+  fallback: SegmentSensitivity
+): Map<string, ParameterDistribution> {
+  const distributions = new Map<string, ParameterDistribution>();
+
+  for (const p of affected) {
+    if (distributions.has(p.segmentKey)) continue;
+
+    const params = p.sensitivity ?? fallback;
+    const cv = p.sensitivity ? PARAMETER_CV.covered : PARAMETER_CV.fallback;
+    const expansionRate = segmentById.get(p.segmentKey)?.expansion_rate ?? 0;
+
+    distributions.set(p.segmentKey, {
+      elasticity: { mean: params.elasticity, sd: params.elasticitySd ?? Math.abs(params.elasticity) * cv },
+      churnPerPct: { mean: params.churnPerPct, sd: params.churnPerPctSd ?? params.churnPerPct * cv },
+      expansionRate: { mean: expansionRate, sd: Math.max(MIN_EXPANSION_SD, Math.abs(expansionRate) * cv) },
+    });
+  }
+
+  return distributions;
+}
+
+function sampleParameters(d: ParameterDistribution, rng: SeededRandom): SampledParameters {
+  const expansion = Math.max(-0.9, rng.normal(d.expansionRate.mean, d.expansionRate.sd));
+  return {
+    elasticity: Math.min(0, rng.normal(d.elasticity.mean, d.elasticity.sd)),
+    churnPerPct: Math.max(0, rng.normal(d.churnPerPct.mean, d.churnPerPct.sd)),
+    expansionFactor: (1 + expansion) / (1 + d.expansionRate.mean),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Change application
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply all changes targeting a customer.
+ * Returns the new list MRR, plus the perceived shock of any structural or
+ * limit change that has no explicit price attached.
+ */
+function applyChanges(
+  changes: PricingChange[],
+  customer: SimulationCustomer,
+  segment: DetectedSegment | undefined,
+  pricingStructure: PricingStructure
+): { newMrr: number; structuralShock: number; limitShock: number } {
+  let newMrr = customer.mrr;
+  let structuralShock = 0;
+  let limitShock = 0;
+
+  for (const change of changes) {
+    // Structural changes reshape the whole model, whatever their target label says
+    if (change.type !== "structure" && !targetsCustomer(change.target, customer, segment)) continue;
+
+    const to = parseAmount(change.to);
+
+    switch (change.type) {
+      case "price":
+      case "tier": {
+        if (to === null) continue;
+        // Tier merges describe "from" as a tier count, so always price them off the current tier
+        const tierPrice = currentTierPrice(customer, pricingStructure);
+        const from = change.type === "price" ? parseAmount(change.from) ?? tierPrice : tierPrice;
+        // Scale the customer's actual bill by the list-price change so discounts carry over
+        if (from && from > 0) {
+          newMrr = newMrr * (to / from);
+        } else {
+          newMrr = Math.max(newMrr, to);
+        }
+        break;
+      }
+      case "minimum": {
+        if (to === null) continue;
+        newMrr = Math.max(newMrr, to);
+        break;
+      }
+      case "discount": {
+        // Discounts are % off list; re-discount the customer's bill from the old rate
+        const from = parseAmount(change.from) ?? 0;
+        if (to === null || from >= 100 || to >= 100) continue;
+        newMrr = newMrr * ((100 - to) / (100 - from));
+        break;
+      }
+      case "limit": {
+        // Fewer included units for the same price is a per-unit price increase
+        const from = parseLimit(change.from);
+        const limit = parseLimit(change.to);
+        if (from === null || limit === null || limit === 0 || from === limit) continue;
+        const perUnitChange = Math.min(MAX_SENSITIVITY_SHOCK, Math.max(MIN_SENSITIVITY_SHOCK, from / limit - 1));
+        limitShock += perUnitChange * LIMIT_UTILIZATION;
+        break;
+      }
+      case "structure":
+        structuralShock = Math.max(structuralShock, STRUCTURAL_CHANGE_SHOCK);
+        break;
+      case "feature":
+        // Feature changes alter what customers get, not what they pay
+        break;
+    }
+  }
+
+  return { newMrr, structuralShock, limitShock };
+}
+
+/**
+ * The names a change target lists, lowercased: "Starter + Growth" targets two tiers
+ */
+export function parseTargets(target: string): string[] {
+  return target.split("+").map((t) => t.trim().toLowerCase());
+}
+
+/**
+ * A change targets "all", a tier name, a segment name, a billing interval
+ * ("monthly" / "annual"), or a "A + B" list of those
+ */
+function targetsCustomer(
+  target: string,
+  customer: SimulationCustomer,
+  segment: DetectedSegment | undefined
+): boolean {
+  const names = parseTargets(target);
+  if (names.includes("all")) return true;
+  if (customer.tier_name && names.includes(customer.tier_name.toLowerCase())) return true;
+  if (customer.tier_id && names.includes(customer.tier_id.toLowerCase())) return true;
+  if (segment && names.includes(segment.name.toLowerCase())) return true;
+  if (names.includes(customer.billing_interval)) return true;
+  return false;
+}
+
+/**
+ * Targets in `changes` that match no tier, segment or billing interval —
+ * a typo there would otherwise silently simulate as "no one affected"
+ */
+export function findUnmatchedTargets(
+  changes: PricingChange[],
+  segments: DetectedSegment[],
+  pricingStructure: PricingStructure
+): string[] {
+  const known = new Set([
+    "all",
+    "monthly",
+    "annual",
+    ...pricingStructure.tiers.flatMap((t) => [t.id.toLowerCase(), t.name.toLowerCase()]),
+    ...segments.map((s) => s.name.toLowerCase()),
+  ]);
+
+  const unmatched = changes
+    .filter((c) => c.type !== "structure")
+    .flatMap((c) => parseTargets(c.target))
+    .filter((t) => !known.has(t));
+
+  return Array.from(new Set(unmatched));
+}
+
+function currentTierPrice(
+  customer: SimulationCustomer,
+  pricingStructure: PricingStructure
+): number | null {
+  const tier = pricingStructure.tiers.find(
+    (t) => t.id === customer.tier_id || t.name === customer.tier_name
+  );
+  return tier ? tier.price : null;
+}
+
+/**
+ * Pull the first number out of change values like 49, "49", "4.95/mo" or "Starter (55)"
+ */
+export function parseAmount(value: string | number): number | null {
+  if (typeof value === "number") return value;
+  const match = value.match(/(\d+(?:\.\d+)?)\s*(?:\/mo)?\)?\s*$/) ?? value.match(/(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Included-unit allowances: a number, or "unlimited"
+ */
+function parseLimit(value: string | number): number | null {
+  if (typeof value === "string" && value.trim().toLowerCase() === "unlimited") return Infinity;
+  return parseAmount(value);
+}
+
+// ---------------------------------------------------------------------------
+// Sensitivity lookup
+// ---------------------------------------------------------------------------
+
+interface SegmentSensitivity {
+  elasticity: number;
+  churnPerPct: number;
+  // Spread implied by an estimated 95% interval
+  elasticitySd?: number;
+  churnPerPctSd?: number;
+}
+
+/**
+ * Snapshots key the model by segment id or by segment name, depending on who wrote them
+ */
+function lookupSensitivity(
+  sensitivity: PriceSensitivityModel,
+  segment: DetectedSegment
+): SegmentSensitivity | null {
+  const keys = [segment.id, segment.name, segment.name.toLowerCase()];
+  const key = keys.find(
+    (k) => k in sensitivity.segment_elasticity && k in sensitivity.churn_per_percent_increase
+  );
+  if (!key) return null;
+  const evidence = sensitivity.evidence?.[key];
+  return {
+    elasticity: sensitivity.segment_elasticity[key],
+    churnPerPct: sensitivity.churn_per_percent_increase[key],
+    elasticitySd: evidence && ciToSd(evidence.elasticity_ci),
+    churnPerPctSd: evidence && ciToSd(evidence.churn_per_percent_increase_ci),
+  };
+}
+
+function ciToSd([lo, hi]: [number, number]): number {
+  return (hi - lo) / (2 * 1.96);
+}
+
+function averageSensitivity(sensitivity: PriceSensitivityModel): SegmentSensitivity {
+  const elasticities = Object.values(sensitivity.segment_elasticity);
+  const churnRates = Object.values(sensitivity.churn_per_percent_increase);
+  const avg = (values: number[], fallback: number) =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : fallback;
+
+  return {
+    elasticity: avg(elasticities, -0.5),
+    churnPerPct: avg(churnRates, 0.005),
+  };
+}
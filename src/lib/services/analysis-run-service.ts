@@ -0,0 +1,276 @@
+/**
+ * Analysis Run Service
+ * Persists pricing flow runs: an ontology snapshot, the generated options and
+ * their council evaluations, and a decision record for the recommendation
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AgentEvaluation,
+  AnalysisRun,
+  Database,
+  DecisionRecord,
+  Json,
+  OntologySnapshot,
+} from "@/types/database";
+import type {
+  CouncilEvaluation,
+  CouncilPolicy,
+  PricingOption,
+} from "@/types/pricing-flow";
+import type { DataQualityReport } from "@/types/data-quality";
+import type { OntologyDataResult } from "@/lib/pricing/ontology-to-flow";
+import type { MonteCarloOptions } from "@/lib/pricing/monte-carlo";
+import { createOntologySnapshot } from "@/lib/db/ontology/snapshots";
+import { createDecisionRecord, createPricingOption } from "./decision-service";
+
+type DbClient = SupabaseClient<Database>;
+
+/**
+ * The flow inputs a run was computed from. Customers are left out: they are
+ * only needed to simulate options, and replays re-evaluate stored options.
+ * The loader's fallbacks are part of the data-quality report the council
+ * discounted its confidence by; runs before the report have none.
+ */
+export type AnalysisRunInputs = Omit<OntologyDataResult, "customers" | "fallbacks"> & {
+  dataQuality?: DataQualityReport;
+};
+
+export interface SaveAnalysisRunOptions {
+  inputs: AnalysisRunInputs;
+  options: PricingOption[];
+  evaluations: CouncilEvaluation[];
+  recommendedOption: PricingOption | null;
+  councilMode: AnalysisRun["council_mode"];
+  policy: CouncilPolicy;
+  parameters?: MonteCarloOptions;
+}
+
+export interface UnpackedAnalysisRun {
+  run: AnalysisRun;
+  inputs: AnalysisRunInputs;
+  options: PricingOption[];
+  evaluations: CouncilEvaluation[];
+  recommendedOption: PricingOption | null;
+  policy: CouncilPolicy;
+  parameters: MonteCarloOptions;
+}
+
+export type AnalysisRunListItem = Pick<
+  AnalysisRun,
+  | "id"
+  | "organization_id"
+  | "ontology_snapshot_id"
+  | "council_mode"
+  | "recommended_option_id"
+  | "decision_record_id"
+  | "created_at"
+>;
+
+const DECISION_QUESTION = "Which pricing change should we pursue?";
+
+/**
+ * Persist a completed flow run. Options are stored in pricing_options and
+ * evaluations in council_evaluations; the returned options and evaluations
+ * carry the pricing_options ids in place of the flow's generated ids.
+ */
+export async function saveAnalysisRun(
+  supabase: DbClient,
+  organizationId: string,
+  options: SaveAnalysisRunOptions
+): Promise<{
+  run: UnpackedAnalysisRun;
+  decision: DecisionRecord;
+  snapshot: OntologySnapshot;
+}> {
+  const snapshot = await createOntologySnapshot(supabase, organizationId, {
+    description: `Analysis run snapshot (${options.options.length} options)`,
+    triggeredBy: "analysis_run",
+    triggerDetails: {
+      action: "analysis_run",
+      council_mode: options.councilMode,
+    },
+  });
+
+  const { data: created, error: runError } = await supabase
+    .from("analysis_runs")
+    .insert({
+      organization_id: organizationId,
+      ontology_snapshot_id: snapshot.id,
+      council_mode: options.councilMode,
+      council_policy: options.policy as unknown as Json,
+      parameters: (options.parameters ?? {}) as unknown as Json,
+      inputs: options.inputs as unknown as Json,
+      options: [],
+      evaluations: [],
+    } as never)
+    .select()
+    .single();
+
+  if (runError) throw runError;
+  const runId = (created as AnalysisRun).id;
+
+  // Options one at a time so each flow id maps to its row
+  const idMap = new Map<string, string>();
+  for (const option of options.options) {
+    const saved = await createPricingOption(supabase, organizationId, {
+      ...toPricingOptionRow(option),
+      status: option.id === options.recommendedOption?.id ? "proposed" : "draft",
+      analysis_run_id: runId,
+    });
+    idMap.set(option.id, saved.id);
+  }
+
+  const savedOptions = options.options.map((o) => ({ ...o, id: idMap.get(o.id)! }));
+  const savedEvaluations = options.evaluations.map((e) => {
+    const optionId = idMap.get(e.option_id)!;
+    return {
+      ...e,
+      option_id: optionId,
+      recommendation: { ...e.recommendation, option_id: optionId },
+    };
+  });
+  const recommendedOption = options.recommendedOption
+    ? savedOptions.find((o) => o.id === idMap.get(options.recommendedOption!.id)) ?? null
+    : null;
+
+  if (savedEvaluations.length > 0) {
+    const { error: evalError } = await supabase.from("council_evaluations").insert(
+      savedEvaluations.map((e) => ({
+        organization_id: organizationId,
+        pricing_option_id: e.option_id,
+        agent_evaluations: e.agent_views as Record<string, AgentEvaluation>,
+        consensus_level: e.recommendation.consensus,
+        reasoning_chain: e.recommendation.reasoning_chain,
+        trade_offs: e.recommendation.trade_offs,
+        modifications_suggested: e.recommendation.modifications ?? [],
+        summary: e.recommendation.summary,
+        overall_score: e.recommendation.weighted_score ?? 0,
+        analysis_run_id: runId,
+      })) as never
+    );
+    if (evalError) throw evalError;
+  }
+
+  const chosenEvaluation = recommendedOption
+    ? savedEvaluations.find((e) => e.option_id === recommendedOption.id)
+    : undefined;
+
+  const { decision } = await createDecisionRecord(supabase, organizationId, {
+    question: DECISION_QUESTION,
+    context: { analysis_run_id: runId, council_mode: options.councilMode },
+    optionsConsidered: savedOptions.map((o) => o.id),
+    chosenOptionId: recommendedOption?.id,
+    reasoning: chosenEvaluation
+      ? chosenEvaluation.recommendation.summary
+      : "No option was recommended: every option was blocked by the council policy.",
+    decidedBy: "council",
+    decisionConfidence: chosenEvaluation ? averageConfidence(chosenEvaluation) : undefined,
+    ontologySnapshotId: snapshot.id,
+  });
+
+  const { data: updated, error: updateError } = await supabase
+    .from("analysis_runs")
+    .update({
+      options: savedOptions as unknown as Json,
+      evaluations: savedEvaluations as unknown as Json,
+      recommended_option_id: recommendedOption?.id,
+      decision_record_id: decision.id,
+    } as never)
+    .eq("organization_id", organizationId)
+    .eq("id", runId)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+
+  return {
+    run: unpackAnalysisRun(updated as AnalysisRun),
+    decision,
+    snapshot,
+  };
+}
+
+/**
+ * Get a run by id
+ */
+export async function getAnalysisRun(
+  supabase: DbClient,
+  organizationId: string,
+  runId: string
+): Promise<UnpackedAnalysisRun | null> {
+  const { data, error } = await supabase
+    .from("analysis_runs")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", runId)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return data ? unpackAnalysisRun(data as AnalysisRun) : null;
+}
+
+/**
+ * List an organization's runs, newest first, without their payloads
+ */
+export async function getAnalysisRuns(
+  supabase: DbClient,
+  organizationId: string,
+  options?: { limit?: number }
+): Promise<AnalysisRunListItem[]> {
+  let query = supabase
+    .from("analysis_runs")
+    .select(
+      "id, organization_id, ontology_snapshot_id, council_mode, recommended_option_id, decision_record_id, created_at"
+    )
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false });
+
+  if (options?.limit) {
+    query = query.limit(options.limit);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as AnalysisRunListItem[];
+}
+
+/**
+ * The pricing_options columns for a flow option
+ */
+export function toPricingOptionRow(option: PricingOption) {
+  const impact = option.impact_model;
+  return {
+    option_type: option.type,
+    description: option.description,
+    changes: option.changes,
+    expected_arr_change: impact.expected_arr_change,
+    expected_arr_change_percent: impact.expected_arr_change_percent,
+    optimistic_arr_change: impact.optimistic_arr_change,
+    pessimistic_arr_change: impact.pessimistic_arr_change,
+    expected_churn_increase: impact.expected_churn_increase,
+    time_to_full_impact_months: impact.time_to_full_impact_months,
+    confidence: impact.confidence,
+    risk_profile: option.risk_profile,
+    complexity: option.complexity,
+  };
+}
+
+function unpackAnalysisRun(run: AnalysisRun): UnpackedAnalysisRun {
+  const options = run.options as unknown as PricingOption[];
+  return {
+    run,
+    inputs: run.inputs as unknown as AnalysisRunInputs,
+    options,
+    evaluations: run.evaluations as unknown as CouncilEvaluation[],
+    recommendedOption: options.find((o) => o.id === run.recommended_option_id) ?? null,
+    policy: run.council_policy as unknown as CouncilPolicy,
+    parameters: run.parameters as unknown as MonteCarloOptions,
+  };
+}
+
+function averageConfidence(evaluation: CouncilEvaluation): number {
+  const views = Object.values(evaluation.agent_views);
+  if (views.length === 0) return 0;
+  return views.reduce((sum, v) => sum + (v?.confidence ?? 0), 0) / views.length;
+}
@@ -0,0 +1,107 @@
+/**
+ * API Connection Service
+ * Shared bookkeeping for the Stripe and HubSpot connectors: the
+ * api_connections row per provider, and sync progress stored as JSON in its
+ * sync_status column
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ApiConnection, Database } from "@/types/database";
+
+type DbClient = SupabaseClient<Database>;
+
+/**
+ * The fields every connector's sync status carries
+ */
+export interface SyncStatusBase {
+  state: "running" | "succeeded" | "failed";
+  pages: number;
+  started_at: string;
+  finished_at?: string;
+  error?: string;
+}
+
+// A running sync older than this is assumed to have died
+const STALE_SYNC_MS = 60 * 60 * 1000;
+
+/**
+ * The organization's connection to a provider, if one exists
+ */
+export async function getApiConnection(
+  supabase: DbClient,
+  organizationId: string,
+  provider: ApiConnection["provider"]
+): Promise<ApiConnection | null> {
+  const { data, error } = await supabase
+    .from("api_connections")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("provider", provider)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return data as ApiConnection | null;
+}
+
+/**
+ * The organization's connection to a provider, created as pending if missing
+ */
+export async function getOrCreateApiConnection(
+  supabase: DbClient,
+  organizationId: string,
+  provider: ApiConnection["provider"]
+): Promise<ApiConnection> {
+  const existing = await getApiConnection(supabase, organizationId, provider);
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from("api_connections")
+    .insert({
+      organization_id: organizationId,
+      provider,
+      status: "pending",
+      metadata: {},
+    } as never)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ApiConnection;
+}
+
+export async function updateApiConnection(
+  supabase: DbClient,
+  connectionId: string,
+  updates: Database["public"]["Tables"]["api_connections"]["Update"]
+): Promise<void> {
+  const { error } = await supabase
+    .from("api_connections")
+    .update(updates as never)
+    .eq("id", connectionId);
+  if (error) throw error;
+}
+
+/**
+ * Read a sync_status value written by a connector
+ */
+export function parseSyncStatus<T extends SyncStatusBase = SyncStatusBase>(
+  value?: string | null
+): T | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && "state" in parsed ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a sync is in progress; running syncs that went stale don't count
+ */
+export function isSyncRunning(status: SyncStatusBase | null, now: Date = new Date()): boolean {
+  return (
+    status?.state === "running" &&
+    now.getTime() - new Date(status.started_at).getTime() < STALE_SYNC_MS
+  );
+}
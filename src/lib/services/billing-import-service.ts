@@ -0,0 +1,474 @@
+/**
+ * Billing Import Service
+ * Loads customer, subscription and invoice exports (CSV/XLSX from
+ * Chargebee, Recurly, Paddle or a homegrown system) into unified_customers,
+ * transactions and customer_expansion_events. Customers are matched on
+ * their ID in the source system, then email; subscriptions set each
+ * customer's MRR, tier, tenure and churn (except for customers billed
+ * through Stripe) and yield expansion events where one subscription
+ * replaced another at a different price. Amounts in other currencies are
+ * converted into the reporting currency. Re-importing a file updates
+ * rather than duplicates.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ColumnMapping,
+  ImportEntity,
+  ImportPreview,
+  ImportResult,
+  ImportRowError,
+  ImportSource,
+  ParsedSheet,
+} from "@/types/billing-import";
+import type { Database, PricingTier, UnifiedCustomer } from "@/types/database";
+import { getPricingTiers } from "@/lib/db/ontology/tiers";
+import {
+  IMPORT_FIELDS,
+  autoMapColumns,
+  detectImportEntity,
+  detectImportSource,
+  parseSpreadsheet,
+  validateImportRows,
+  type CustomerReference,
+  type ImportedCustomer,
+  type ImportedInvoice,
+  type ImportedSubscription,
+} from "@/lib/import";
+import { billingCurrencyFields } from "./subscription-billing-service";
+import { loadCurrencyConverter, transactionCurrencyFields } from "./fx-service";
+
+type DbClient = SupabaseClient<Database>;
+
+/**
+ * Stored under unified_customers.metadata.import
+ */
+export interface CustomerImportMetadata {
+  source: ImportSource;
+  external_id: string;
+  file_name: string;
+  imported_at: string;
+}
+
+export interface BillingImportOptions {
+  entity?: ImportEntity;
+  mapping?: ColumnMapping;
+  source?: ImportSource;
+  now?: Date;
+}
+
+// Expansion events derived from imports carry this reason prefix, so a
+// re-import can replace them
+const IMPORTED_EVENT_REASON = "Imported:";
+// A subscription starting this soon after another ended replaces it
+const REPLACEMENT_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+const PREVIEW_ROWS = 5;
+const MAX_REPORTED_ERRORS = 500;
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 500;
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a file and detect what it holds and how its columns map, validating
+ * every row without writing anything
+ */
+export function previewBillingImport(
+  fileName: string,
+  content: Buffer,
+  options: Pick<BillingImportOptions, "entity" | "mapping"> = {}
+): ImportPreview {
+  const sheet = parseSpreadsheet(fileName, content);
+  const entity = options.entity ?? detectImportEntity(fileName, sheet.headers);
+  const mapping = options.mapping ?? autoMapColumns(entity, sheet.headers);
+  const { rows, errors } = validateImportRows(entity, sheet, mapping);
+
+  return {
+    entity,
+    source: detectImportSource(sheet),
+    headers: sheet.headers,
+    mapping,
+    fields: IMPORT_FIELDS[entity],
+    sampleRows: sheet.rows.slice(0, PREVIEW_ROWS),
+    rowCount: sheet.rows.length,
+    validRows: rows.length,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+  };
+}
+
+/**
+ * Validate and write a file's rows, then log the import with its error
+ * report. Rows that fail validation or reference unknown customers are
+ * skipped; the rest are written.
+ */
+export async function importBillingFile(
+  supabase: DbClient,
+  organizationId: string,
+  fileName: string,
+  content: Buffer,
+  options: BillingImportOptions = {}
+): Promise<ImportResult & { importId: string }> {
+  const sheet = parseSpreadsheet(fileName, content);
+  const entity = options.entity ?? detectImportEntity(fileName, sheet.headers);
+  const mapping = options.mapping ?? autoMapColumns(entity, sheet.headers);
+  const source = options.source ?? detectImportSource(sheet);
+  const now = options.now ?? new Date();
+
+  const result: ImportResult = {
+    entity,
+    source,
+    totalRows: sheet.rows.length,
+    imported: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    expansionEvents: 0,
+    errors: [],
+  };
+
+  const context: ImportContext = { supabase, organizationId, fileName, source, now, result };
+  if (entity === "customers") {
+    await importCustomers(context, validate(context, "customers", sheet, mapping));
+  } else if (entity === "subscriptions") {
+    await importSubscriptions(context, validate(context, "subscriptions", sheet, mapping));
+  } else {
+    await importInvoices(context, validate(context, "invoices", sheet, mapping));
+  }
+
+  result.skipped = result.totalRows - result.imported;
+  result.errors = result.errors.sort((a, b) => a.row - b.row).slice(0, MAX_REPORTED_ERRORS);
+
+  const { data, error } = await supabase
+    .from("billing_imports")
+    .insert({
+      organization_id: organizationId,
+      file_name: fileName,
+      entity,
+      source,
+      mapping,
+      total_rows: result.totalRows,
+      imported_rows: result.imported,
+      skipped_rows: result.skipped,
+      errors: result.errors,
+    } as never)
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  return { ...result, importId: (data as { id: string }).id };
+}
+
+interface ImportContext {
+  supabase: DbClient;
+  organizationId: string;
+  fileName: string;
+  source: ImportSource;
+  now: Date;
+  result: ImportResult;
+}
+
+function validate<E extends ImportEntity>(
+  context: ImportContext,
+  entity: E,
+  sheet: ParsedSheet,
+  mapping: ColumnMapping
+) {
+  const { rows, errors } = validateImportRows(entity, sheet, mapping);
+  context.result.errors.push(...errors);
+  return rows;
+}
+
+async function importCustomers(context: ImportContext, rows: ImportedCustomer[]): Promise<void> {
+  const { supabase, organizationId, result } = context;
+  const customers = await loadCustomers(context);
+  const seen = new Map<string, number>();
+  const toInsert: Record<string, unknown>[] = [];
+
+  for (const row of rows) {
+    const firstRow = seen.get(row.externalId);
+    if (firstRow) {
+      result.errors.push({ row: row.row, field: "external_id", message: `Duplicate customer ID (first on row ${firstRow})` });
+      continue;
+    }
+    seen.set(row.externalId, row.row);
+
+    const metadata: CustomerImportMetadata = {
+      source: context.source,
+      external_id: row.externalId,
+      file_name: context.fileName,
+      imported_at: context.now.toISOString(),
+    };
+    const existing = customers.find({ customerExternalId: row.externalId, customerEmail: row.email });
+
+    if (existing) {
+      // A customer from an earlier import takes the file's values; one that
+      // came from Stripe only has its gaps filled
+      const owned = !!getImportMetadata(existing);
+      const pick = <K extends keyof UnifiedCustomer>(key: K, value: UnifiedCustomer[K] | undefined) =>
+        value !== undefined && (owned || existing[key] == null) ? { [key]: value } : {};
+
+      const { error } = await supabase
+        .from("unified_customers")
+        .update({
+          ...pick("name", row.name),
+          ...pick("email", row.email),
+          ...pick("company_name", row.companyName),
+          ...pick("country", row.country),
+          ...pick("industry", row.industry),
+          ...pick("employee_count", row.employeeCount),
+          ...(owned && row.createdAt && { created_at: row.createdAt }),
+          metadata: { ...(existing.metadata as Record<string, unknown>), import: metadata },
+        } as never)
+        .eq("organization_id", organizationId)
+        .eq("id", existing.id);
+      if (error) throw error;
+      result.updated++;
+    } else {
+      toInsert.push({
+        organization_id: organizationId,
+        name: row.name,
+        email: row.email,
+        company_name: row.companyName,
+        country: row.country,
+        industry: row.industry,
+        employee_count: row.employeeCount,
+        mrr: 0,
+        ltv: 0,
+        tenure_months: 0,
+        status: "active",
+        metadata: { import: metadata },
+        ...(row.createdAt && { created_at: row.createdAt }),
+      });
+    }
+    result.imported++;
+  }
+
+  for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
+    const { error } = await supabase.from("unified_customers").insert(toInsert.slice(i, i + BATCH_SIZE) as never);
+    if (error) throw error;
+  }
+  result.created += toInsert.length;
+}
+
+async function importSubscriptions(context: ImportContext, rows: ImportedSubscription[]): Promise<void> {
+  const { supabase, organizationId, result, now } = context;
+  const customers = await loadCustomers(context);
+  const tiers = await getPricingTiers(supabase, organizationId);
+  const converter = await loadCurrencyConverter(supabase, organizationId);
+  // MRR in the reporting currency, at the rate of `date`
+  const reportingMrr = (s: ImportedSubscription, date: string | Date) => converter.convert(s.mrr, s.currency, date).amount;
+
+  const byCustomer = new Map<string, { customer: UnifiedCustomer; subscriptions: ImportedSubscription[] }>();
+  for (const row of rows) {
+    const customer = customers.find(row);
+    if (!customer) {
+      result.errors.push(unknownCustomerError(row));
+      continue;
+    }
+    if (customer.stripe_customer_id) {
+      result.errors.push({ row: row.row, message: `${customer.name} is billed through Stripe; its subscriptions come from the Stripe sync` });
+      continue;
+    }
+    const entry = byCustomer.get(customer.id) ?? { customer, subscriptions: [] };
+    entry.subscriptions.push(row);
+    byCustomer.set(customer.id, entry);
+    result.imported++;
+  }
+
+  const customerIds = [...byCustomer.keys()];
+  for (let i = 0; i < customerIds.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("customer_expansion_events")
+      .delete()
+      .eq("organization_id", organizationId)
+      .in("customer_id", customerIds.slice(i, i + BATCH_SIZE))
+      .like("reason", `${IMPORTED_EVENT_REASON}%`);
+    if (error) throw error;
+  }
+
+  const events: Record<string, unknown>[] = [];
+  for (const { customer, subscriptions } of byCustomer.values()) {
+    const sorted = [...subscriptions].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    const live = sorted.filter((s) => s.live);
+    const largest = [...live].sort((a, b) => reportingMrr(b, now) - reportingMrr(a, now))[0];
+    const startedAt = sorted[0].startedAt;
+    const endedAt = live.length === 0
+      ? sorted.map((s) => s.endedAt ?? s.startedAt).reduce((a, b) => (a > b ? a : b))
+      : undefined;
+    const until = endedAt ? new Date(endedAt) : now;
+    const imported = !!getImportMetadata(customer);
+
+    const { error } = await supabase
+      .from("unified_customers")
+      .update({
+        ...billingCurrencyFields(
+          converter,
+          live.map((s) => ({
+            live: true,
+            mrr: reportingMrr(s, now),
+            currency: s.currency?.toUpperCase(),
+            mrrBilling: s.mrr,
+            fx: converter.convert(1, s.currency, now),
+          }))
+        ),
+        tenure_months: Math.max(0, Math.floor((until.getTime() - new Date(startedAt).getTime()) / MONTH_MS)),
+        billing_interval: largest?.interval ?? customer.billing_interval,
+        current_tier_id: matchTier(largest?.plan, tiers)?.id ?? customer.current_tier_id,
+        status: live.length > 0 ? (customer.status === "churned" ? "active" : customer.status) : "churned",
+        churned_at: endedAt ?? null,
+        ...(imported && startedAt < customer.created_at && { created_at: startedAt }),
+      } as never)
+      .eq("organization_id", organizationId)
+      .eq("id", customer.id);
+    if (error) throw error;
+    result.updated++;
+
+    for (let i = 1; i < sorted.length; i++) {
+      const from = sorted[i - 1];
+      const to = sorted[i];
+      const fromMrr = reportingMrr(from, to.startedAt);
+      const toMrr = reportingMrr(to, to.startedAt);
+      if (!from.endedAt || fromMrr === toMrr) continue;
+      const gap = new Date(to.startedAt).getTime() - new Date(from.endedAt).getTime();
+      if (Math.abs(gap) > REPLACEMENT_WINDOW_MS) continue;
+
+      const fromTier = matchTier(from.plan, tiers);
+      const toTier = matchTier(to.plan, tiers);
+      events.push({
+        organization_id: organizationId,
+        customer_id: customer.id,
+        event_type:
+          fromTier && toTier && fromTier.id !== toTier.id
+            ? toTier.position > fromTier.position ? "upgrade" : "downgrade"
+            : toMrr > fromMrr ? "expansion" : "contraction",
+        from_mrr: fromMrr,
+        to_mrr: toMrr,
+        from_tier_id: fromTier?.id,
+        to_tier_id: toTier?.id,
+        reason: `${IMPORTED_EVENT_REASON} ${from.plan ?? "subscription"} → ${to.plan ?? "subscription"} (${context.source})`,
+        occurred_at: to.startedAt,
+      });
+    }
+  }
+
+  for (let i = 0; i < events.length; i += BATCH_SIZE) {
+    const { error } = await supabase.from("customer_expansion_events").insert(events.slice(i, i + BATCH_SIZE) as never);
+    if (error) throw error;
+  }
+  result.expansionEvents = events.length;
+}
+
+async function importInvoices(context: ImportContext, rows: ImportedInvoice[]): Promise<void> {
+  const { supabase, organizationId, result } = context;
+  const customers = await loadCustomers(context);
+  const converter = await loadCurrencyConverter(supabase, organizationId);
+  const seen = new Map<string, number>();
+  const transactions: Record<string, unknown>[] = [];
+
+  for (const row of rows) {
+    if (!row.paid) continue;
+    const customer = customers.find(row);
+    if (!customer) {
+      result.errors.push(unknownCustomerError(row));
+      continue;
+    }
+
+    // Without an invoice id, the customer, date and amount identify the row
+    const externalId = row.externalId ?? `${customer.id}:${row.occurredAt}:${row.amount}`;
+    const firstRow = seen.get(externalId);
+    if (firstRow) {
+      result.errors.push({ row: row.row, field: "external_id", message: `Duplicate invoice (first on row ${firstRow})` });
+      continue;
+    }
+    seen.set(externalId, row.row);
+
+    const amount = row.type === "refund" ? -Math.abs(row.amount) : row.amount;
+    transactions.push({
+      organization_id: organizationId,
+      customer_id: customer.id,
+      transaction_type: row.type,
+      amount,
+      // Without a currency column amounts are in the reporting currency
+      currency: row.currency ?? converter.reportingCurrency.toLowerCase(),
+      ...transactionCurrencyFields(converter, amount, row.currency, row.occurredAt),
+      quantity: 1,
+      import_source: context.source,
+      external_id: externalId,
+      occurred_at: row.occurredAt,
+    });
+    result.imported++;
+  }
+
+  for (let i = 0; i < transactions.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("transactions")
+      .upsert(transactions.slice(i, i + BATCH_SIZE) as never, {
+        onConflict: "organization_id,import_source,external_id",
+      });
+    if (error) throw error;
+  }
+  result.created += transactions.length;
+}
+
+/**
+ * The organization's customers, findable by imported customer ID or email
+ */
+async function loadCustomers(context: ImportContext) {
+  const customers: UnifiedCustomer[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await context.supabase
+      .from("unified_customers")
+      .select("*")
+      .eq("organization_id", context.organizationId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    customers.push(...((data || []) as UnifiedCustomer[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const byExternalId = new Map<string, UnifiedCustomer>();
+  const byEmail = new Map<string, UnifiedCustomer>();
+  for (const customer of customers) {
+    const externalId = getImportMetadata(customer)?.external_id;
+    if (externalId) byExternalId.set(externalId, customer);
+    if (customer.email && !byEmail.has(customer.email.toLowerCase())) byEmail.set(customer.email.toLowerCase(), customer);
+  }
+
+  return {
+    find: (reference: CustomerReference): UnifiedCustomer | undefined =>
+      (reference.customerExternalId && byExternalId.get(reference.customerExternalId)) ||
+      (reference.customerEmail ? byEmail.get(reference.customerEmail.toLowerCase()) : undefined),
+  };
+}
+
+function getImportMetadata(customer: Pick<UnifiedCustomer, "metadata">): CustomerImportMetadata | null {
+  const value = (customer.metadata as Record<string, unknown> | null)?.import;
+  return value && typeof value === "object" ? (value as CustomerImportMetadata) : null;
+}
+
+function unknownCustomerError(row: CustomerReference & { row: number }): ImportRowError {
+  return {
+    row: row.row,
+    field: row.customerExternalId ? "customer_external_id" : "customer_email",
+    message: `No customer ${row.customerExternalId ?? row.customerEmail}; import the customers file first`,
+  };
+}
+
+/**
+ * The pricing tier a plan belongs to: an exact name match, else the longest
+ * tier name inside the plan ("pro-annual-eur" → Pro)
+ */
+function matchTier(plan: string | undefined, tiers: PricingTier[]): PricingTier | undefined {
+  if (!plan) return undefined;
+  const normalized = plan.toLowerCase();
+  return (
+    tiers.find((t) => t.name.toLowerCase() === normalized) ??
+    tiers
+      .filter((t) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(t.name.toLowerCase())}([^a-z0-9]|$)`).test(normalized))
+      .sort((a, b) => b.name.length - a.name.length)[0]
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
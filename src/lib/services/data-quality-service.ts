@@ -0,0 +1,117 @@
+/**
+ * Data Quality Service
+ * Loads what the data-quality checks need — customers, active tiers and the
+ * latest month of subscription invoices — and builds the report that gates
+ * a pricing analysis.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database";
+import type { DataQualityReport } from "@/types/data-quality";
+import { buildDataQualityReport, type DataQualityCustomer } from "@/lib/data-quality";
+
+type DbClient = SupabaseClient<Database>;
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Check the organization's unified data. `fallbacks` lists the defaults the
+ * pricing loader substituted, so the report can say so.
+ */
+export async function assessDataQuality(
+  supabase: DbClient,
+  organizationId: string,
+  options: { fallbacks?: string[]; now?: Date } = {}
+): Promise<DataQualityReport> {
+  const customers: DataQualityCustomer[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("unified_customers")
+      .select("id, email, status, segment_id, current_tier_id, churned_at, mrr, billing_interval")
+      .eq("organization_id", organizationId)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of (data || []) as Record<string, unknown>[]) {
+      customers.push({
+        id: row.id as string,
+        email: (row.email as string | null) ?? null,
+        status: row.status as string,
+        segment_id: (row.segment_id as string | null) ?? null,
+        current_tier_id: (row.current_tier_id as string | null) ?? null,
+        churned_at: (row.churned_at as string | null) ?? null,
+        mrr: Number(row.mrr) || 0,
+        billing_interval: (row.billing_interval as DataQualityCustomer["billing_interval"]) ?? null,
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { data: tiers, error: tiersError } = await supabase
+    .from("pricing_tiers")
+    .select("id, name")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true);
+  if (tiersError) throw tiersError;
+
+  const { invoiceMonth, invoicedByCustomer } = await loadLatestInvoiceMonth(supabase, organizationId);
+
+  return buildDataQualityReport({
+    organizationId,
+    customers,
+    tiers: (tiers || []) as { id: string; name: string }[],
+    invoicedByCustomer,
+    invoiceMonth,
+    fallbacks: options.fallbacks ?? [],
+    now: options.now,
+  });
+}
+
+/**
+ * Subscription revenue per customer in the latest calendar month that has
+ * any, in the reporting currency
+ */
+async function loadLatestInvoiceMonth(
+  supabase: DbClient,
+  organizationId: string
+): Promise<{ invoiceMonth: string | null; invoicedByCustomer: Map<string, number> }> {
+  const invoicedByCustomer = new Map<string, number>();
+
+  const { data: latest, error: latestError } = await supabase
+    .from("transactions")
+    .select("occurred_at")
+    .eq("organization_id", organizationId)
+    .eq("transaction_type", "subscription")
+    .order("occurred_at", { ascending: false })
+    .limit(1);
+  if (latestError) throw latestError;
+
+  const latestAt = ((latest || []) as { occurred_at: string }[])[0]?.occurred_at;
+  if (!latestAt) return { invoiceMonth: null, invoicedByCustomer };
+
+  const invoiceMonth = latestAt.slice(0, 7);
+  const monthStart = new Date(`${invoiceMonth}-01T00:00:00.000Z`);
+  const nextMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, customer_id, amount, reporting_amount")
+      .eq("organization_id", organizationId)
+      .eq("transaction_type", "subscription")
+      .gte("occurred_at", monthStart.toISOString())
+      .lt("occurred_at", nextMonth.toISOString())
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const t of (data || []) as { customer_id: string; amount: number; reporting_amount: number | null }[]) {
+      const amount = Number(t.reporting_amount ?? t.amount) || 0;
+      invoicedByCustomer.set(t.customer_id, (invoicedByCustomer.get(t.customer_id) ?? 0) + amount);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { invoiceMonth, invoicedByCustomer };
+}
@@ -0,0 +1,387 @@
+/**
+ * Decision Outcome Service
+ * Measures what implemented decisions actually did, from MRR movements and
+ * churn in the affected segments and tiers before and after the decision,
+ * and scores them against the impact model the council saw
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, DecisionRecord, PricingOption } from "@/types/database";
+import type { ImpactModel, PricingChange } from "@/types/pricing-flow";
+import { calculateMRRMovements, type MRRMovement } from "@/lib/analytics/economics/mrr-movements";
+import { analyzeChurn } from "@/lib/analytics/economics/retention-metrics";
+import { getSegments } from "@/lib/db/ontology/segments";
+import { getPricingTiers } from "@/lib/db/ontology/tiers";
+import { parseTargets } from "@/lib/pricing/price-simulator";
+import { getDecisionWithContext, recordDecisionOutcome } from "./decision-service";
+import { getAnalysisRun } from "./analysis-run-service";
+
+type DbClient = SupabaseClient<Database>;
+
+/**
+ * What the council expected, from the stored impact model
+ */
+export type OutcomeExpectation = Pick<
+  ImpactModel,
+  | "expected_arr_change"
+  | "optimistic_arr_change"
+  | "pessimistic_arr_change"
+  | "expected_churn_increase"
+  | "time_to_full_impact_months"
+>;
+
+export interface OutcomeActuals {
+  arrChange: number; // Annualized change in net new MRR vs the pre-decision baseline
+  churnChange: number; // Extra churned customers as a share of the customer base
+  segmentChurn: { name: string; before: number; after: number }[];
+}
+
+export interface MeasuredOutcome {
+  decisionId: string;
+  expected: OutcomeExpectation;
+  actual: OutcomeActuals;
+  accuracyScore: number;
+  learnings: string[];
+  window: { start: string; decisionDate: string; end: string; complete: boolean };
+  scope: { segments: string[]; tiers: string[] } | "all";
+  before: MRRMovement;
+  after: MRRMovement;
+}
+
+export type OutcomeMeasurement =
+  | { status: "measured"; outcome: MeasuredOutcome; decision: DecisionRecord }
+  | { status: "skipped"; reason: string };
+
+const DEFAULT_IMPACT_MONTHS = 3;
+
+// analyzeChurn only looks at customers acquired within its lookback; reach
+// back far enough to cover the established base a pricing change hits
+const CHURN_LOOKBACK_MONTHS = 60;
+const ARR_WEIGHT = 0.7;
+const CHURN_WEIGHT = 0.3;
+
+// Floors on the error scale so near-zero expectations don't blow up the score
+const MIN_ARR_SCALE = 1000;
+const MIN_CHURN_SCALE = 0.01;
+
+/**
+ * Measure one decision and write the outcome back. Decisions are only
+ * measured once their chosen option is implemented and its impact window
+ * has closed; `force` measures whatever has happened so far and stores it
+ * without marking the decision measured.
+ */
+export async function measureDecisionOutcome(
+  supabase: DbClient,
+  organizationId: string,
+  decisionId: string,
+  options: { now?: Date; force?: boolean } = {}
+): Promise<OutcomeMeasurement | null> {
+  const now = options.now ?? new Date();
+  const context = await getDecisionWithContext(supabase, organizationId, decisionId);
+  if (!context) return null;
+
+  const { decision, chosenOption } = context;
+  if (!chosenOption) {
+    return { status: "skipped", reason: "No option was chosen" };
+  }
+  if (chosenOption.status !== "implemented" && !options.force) {
+    return { status: "skipped", reason: `Chosen option is ${chosenOption.status}, not implemented` };
+  }
+
+  const expected = await loadExpectation(supabase, organizationId, decision, chosenOption);
+  const windowMonths = expected.time_to_full_impact_months || DEFAULT_IMPACT_MONTHS;
+
+  const decisionDate = new Date(decision.created_at);
+  const windowStart = addMonths(decisionDate, -windowMonths);
+  const fullWindowEnd = addMonths(decisionDate, windowMonths);
+
+  if (fullWindowEnd > now && !options.force) {
+    return {
+      status: "skipped",
+      reason: `Impact window closes on ${fullWindowEnd.toISOString().slice(0, 10)}`,
+    };
+  }
+  const windowEnd = fullWindowEnd < now ? fullWindowEnd : now;
+
+  const scope = await resolveScope(supabase, organizationId, chosenOption.changes);
+  // The movement filters intersect, so changes aimed at both segments and
+  // tiers are measured across the whole base
+  const scopeFilter =
+    scope === "all" || (scope.segmentIds && scope.tierIds)
+      ? null
+      : { segmentIds: scope.segmentIds, tierIds: scope.tierIds };
+
+  const before = await calculateMRRMovements(supabase, organizationId, {
+    periodStart: windowStart,
+    periodEnd: decisionDate,
+    ...scopeFilter,
+  });
+  const after = await calculateMRRMovements(supabase, organizationId, {
+    periodStart: decisionDate,
+    periodEnd: windowEnd,
+    ...scopeFilter,
+  });
+
+  // The impact model's churn is a share of the whole base, so scale by that
+  const baseCustomers = scopeFilter
+    ? (await calculateMRRMovements(supabase, organizationId, {
+        periodStart: decisionDate,
+        periodEnd: windowEnd,
+      })).startingCustomers
+    : after.startingCustomers;
+
+  // Compare like-for-like lengths when a forced measurement cuts the window short
+  const elapsed = (windowEnd.getTime() - decisionDate.getTime()) / (decisionDate.getTime() - windowStart.getTime());
+  const arrChange = Math.round((after.netNewMrr - before.netNewMrr * elapsed) * 12);
+  const churnChange =
+    baseCustomers > 0
+      ? Math.round(((after.churnedCustomers - before.churnedCustomers * elapsed) / baseCustomers) * 10000) / 10000
+      : 0;
+
+  const [churnBefore, churnAfter] = await Promise.all([
+    analyzeChurn(supabase, organizationId, { asOf: decisionDate, lookbackMonths: CHURN_LOOKBACK_MONTHS }),
+    analyzeChurn(supabase, organizationId, { asOf: windowEnd, lookbackMonths: CHURN_LOOKBACK_MONTHS }),
+  ]);
+
+  const segmentChurn =
+    scope === "all"
+      ? [{ name: "All customers", before: churnBefore.overallChurnRate, after: churnAfter.overallChurnRate }]
+      : [
+          ...scope.segmentNames.map((name) => ({
+            name,
+            before: churnBefore.churnBySegment[name] ?? 0,
+            after: churnAfter.churnBySegment[name] ?? 0,
+          })),
+          ...scope.tierNames.map((name) => ({
+            name: `${name} tier`,
+            before: churnBefore.churnByTier[name] ?? 0,
+            after: churnAfter.churnByTier[name] ?? 0,
+          })),
+        ];
+
+  const actual: OutcomeActuals = { arrChange, churnChange, segmentChurn };
+  const { accuracyScore, learnings } = scoreDecisionOutcome(expected, actual);
+
+  if (windowEnd < fullWindowEnd) {
+    learnings.push(
+      `Measured ${Math.round(elapsed * windowMonths * 10) / 10} of ${windowMonths} months into the impact window; revisit once it closes.`
+    );
+  }
+
+  // A partial measurement leaves the decision unmeasured, so the outcome job
+  // replaces it once the window closes
+  const updated = await recordDecisionOutcome(supabase, organizationId, decision.id, {
+    actualArrChange: arrChange,
+    actualChurnChange: churnChange,
+    accuracyScore,
+    learnings,
+    windowComplete: windowEnd >= fullWindowEnd,
+  });
+
+  return {
+    status: "measured",
+    decision: updated,
+    outcome: {
+      decisionId: decision.id,
+      expected,
+      actual,
+      accuracyScore,
+      learnings,
+      window: {
+        start: windowStart.toISOString(),
+        decisionDate: decisionDate.toISOString(),
+        end: windowEnd.toISOString(),
+        complete: windowEnd >= fullWindowEnd,
+      },
+      scope: scope === "all" ? "all" : { segments: scope.segmentNames, tiers: scope.tierNames },
+      before,
+      after,
+    },
+  };
+}
+
+/**
+ * The outcome job: measure every unmeasured decision whose option has been
+ * implemented and whose impact window has closed
+ */
+export async function measureDecisionOutcomes(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<{
+  measured: MeasuredOutcome[];
+  skipped: { decisionId: string; reason: string }[];
+}> {
+  const { data, error } = await supabase
+    .from("decision_records")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .is("outcome_measured_at", null)
+    .not("chosen_option_id", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const measured: MeasuredOutcome[] = [];
+  const skipped: { decisionId: string; reason: string }[] = [];
+
+  for (const { id } of (data || []) as { id: string }[]) {
+    const result = await measureDecisionOutcome(supabase, organizationId, id, options);
+    if (!result) continue;
+    if (result.status === "measured") measured.push(result.outcome);
+    else skipped.push({ decisionId: id, reason: result.reason });
+  }
+
+  return { measured, skipped };
+}
+
+/**
+ * Score actuals against expectations (0 to 1) and describe the gaps
+ */
+export function scoreDecisionOutcome(
+  expected: OutcomeExpectation,
+  actual: OutcomeActuals
+): { accuracyScore: number; learnings: string[] } {
+  const arrScale = Math.max(
+    Math.abs(expected.expected_arr_change),
+    (expected.optimistic_arr_change - expected.pessimistic_arr_change) / 2,
+    MIN_ARR_SCALE
+  );
+  const arrError = (actual.arrChange - expected.expected_arr_change) / arrScale;
+  const arrScore = Math.max(0, 1 - Math.abs(arrError));
+
+  const churnScale = Math.max(expected.expected_churn_increase, MIN_CHURN_SCALE);
+  const churnError = (actual.churnChange - expected.expected_churn_increase) / churnScale;
+  const churnScore = Math.max(0, 1 - Math.abs(churnError));
+
+  const accuracyScore = Math.round((ARR_WEIGHT * arrScore + CHURN_WEIGHT * churnScore) * 10000) / 10000;
+
+  const inRange =
+    actual.arrChange >= expected.pessimistic_arr_change &&
+    actual.arrChange <= expected.optimistic_arr_change;
+
+  const learnings = [
+    `ARR changed by ${formatSigned(actual.arrChange)} against ${formatSigned(expected.expected_arr_change)} expected, ${
+      inRange ? "inside" : "outside"
+    } the modelled range of ${formatSigned(expected.pessimistic_arr_change)} to ${formatSigned(expected.optimistic_arr_change)}.`,
+  ];
+
+  if (Math.abs(arrError) > 0.2) {
+    learnings.push(
+      `The model ${arrError < 0 ? "overestimated" : "underestimated"} the ARR impact; weight future estimates for similar changes ${
+        arrError < 0 ? "down" : "up"
+      }.`
+    );
+  }
+
+  learnings.push(
+    `Churn attributable to the change was ${formatPoints(actual.churnChange)} of the base against ${formatPoints(
+      expected.expected_churn_increase
+    )} expected.`
+  );
+
+  if (Math.abs(churnError) > 0.5) {
+    learnings.push(
+      `Customers were ${churnError > 0 ? "more" : "less"} price sensitive than modelled in the affected segments.`
+    );
+  }
+
+  for (const { name, before, after } of actual.segmentChurn) {
+    if (Math.abs(after - before) >= 0.005) {
+      learnings.push(`Churn in ${name} went from ${formatPercent(before)} to ${formatPercent(after)}.`);
+    }
+  }
+
+  return { accuracyScore, learnings };
+}
+
+async function loadExpectation(
+  supabase: DbClient,
+  organizationId: string,
+  decision: DecisionRecord,
+  chosenOption: PricingOption
+): Promise<OutcomeExpectation> {
+  // Prefer the full impact model stored with the analysis run
+  const runId = (decision.context as { analysis_run_id?: string } | null)?.analysis_run_id;
+  if (runId) {
+    const run = await getAnalysisRun(supabase, organizationId, runId);
+    const option = run?.options.find((o) => o.id === chosenOption.id);
+    if (option) return option.impact_model;
+  }
+
+  return {
+    expected_arr_change: Number(chosenOption.expected_arr_change) || 0,
+    optimistic_arr_change: Number(chosenOption.optimistic_arr_change) || 0,
+    pessimistic_arr_change: Number(chosenOption.pessimistic_arr_change) || 0,
+    expected_churn_increase: Number(chosenOption.expected_churn_increase) || 0,
+    time_to_full_impact_months: chosenOption.time_to_full_impact_months ?? DEFAULT_IMPACT_MONTHS,
+  };
+}
+
+/**
+ * Map change targets to segments and tiers, split the way the simulator
+ * splits them. Anything broader ("all", a billing interval, an unknown name)
+ * measures the whole base.
+ */
+async function resolveScope(
+  supabase: DbClient,
+  organizationId: string,
+  changes: PricingChange[]
+): Promise<
+  | { segmentIds?: string[]; tierIds?: string[]; segmentNames: string[]; tierNames: string[] }
+  | "all"
+> {
+  const [segments, tiers] = await Promise.all([
+    getSegments(supabase, organizationId),
+    getPricingTiers(supabase, organizationId),
+  ]);
+
+  const segmentNames: string[] = [];
+  const tierNames: string[] = [];
+  const segmentIds: string[] = [];
+  const tierIds: string[] = [];
+
+  for (const target of changes.flatMap((c) => parseTargets(c.target))) {
+    const segment = segments.find((s) => s.name.toLowerCase() === target);
+    const tier = tiers.find((t) => t.name.toLowerCase() === target || t.id.toLowerCase() === target);
+
+    if (segment) {
+      if (segmentIds.includes(segment.id)) continue;
+      segmentIds.push(segment.id);
+      segmentNames.push(segment.name);
+    } else if (tier) {
+      if (tierIds.includes(tier.id)) continue;
+      tierIds.push(tier.id);
+      tierNames.push(tier.name);
+    } else {
+      return "all";
+    }
+  }
+
+  if (segmentIds.length === 0 && tierIds.length === 0) return "all";
+
+  return {
+    segmentIds: segmentIds.length > 0 ? segmentIds : undefined,
+    tierIds: tierIds.length > 0 ? tierIds : undefined,
+    segmentNames,
+    tierNames,
+  };
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${Math.round(value).toLocaleString()}`;
+}
+
+function formatPoints(value: number): string {
+  return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
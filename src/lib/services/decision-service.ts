@@ -10,7 +10,10 @@ import type {
   PricingOption,
   OntologySnapshot,
 } from "@/types/database";
-import { createOntologySnapshot } from "@/lib/db/ontology/snapshots";
+import {
+  createOntologySnapshot,
+  getOntologySnapshotById,
+} from "@/lib/db/ontology/snapshots";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -22,6 +25,8 @@ interface CreateDecisionOptions {
   reasoning: string;
   decidedBy?: string;
   decisionConfidence?: number;
+  // Reuse a snapshot already taken (e.g. by an analysis run) instead of a new one
+  ontologySnapshotId?: string;
 }
 
 interface RecordOutcomeOptions {
@@ -29,6 +34,9 @@ interface RecordOutcomeOptions {
   actualChurnChange?: number;
   accuracyScore?: number;
   learnings?: string[];
+  // False for a measurement taken before the impact window closed: the
+  // results are stored, but the decision still counts as unmeasured
+  windowComplete?: boolean;
 }
 
 /**
@@ -39,15 +47,24 @@ export async function createDecisionRecord(
   organizationId: string,
   options: CreateDecisionOptions
 ): Promise<{ decision: DecisionRecord; snapshot: OntologySnapshot }> {
-  // Create ontology snapshot first
-  const snapshot = await createOntologySnapshot(supabase, organizationId, {
-    description: `Decision snapshot: ${options.question.slice(0, 50)}...`,
-    triggeredBy: options.decidedBy || "system",
-    triggerDetails: {
-      action: "decision",
-      question: options.question,
-    },
-  });
+  // Create ontology snapshot first, unless the caller already has one
+  const existing = options.ontologySnapshotId
+    ? await getOntologySnapshotById(supabase, organizationId, options.ontologySnapshotId)
+    : null;
+  if (options.ontologySnapshotId && !existing) {
+    throw new Error(`Ontology snapshot not found: ${options.ontologySnapshotId}`);
+  }
+
+  const snapshot =
+    existing ??
+    (await createOntologySnapshot(supabase, organizationId, {
+      description: `Decision snapshot: ${options.question.slice(0, 50)}...`,
+      triggeredBy: options.decidedBy || "system",
+      triggerDetails: {
+        action: "decision",
+        question: options.question,
+      },
+    }));
 
   // Create decision record
   const { data: decision, error } = await supabase
@@ -83,7 +100,7 @@ export async function recordDecisionOutcome(
   const { data, error } = await supabase
     .from("decision_records")
     .update({
-      outcome_measured_at: new Date().toISOString(),
+      outcome_measured_at: outcome.windowComplete === false ? null : new Date().toISOString(),
       actual_arr_change: outcome.actualArrChange,
       actual_churn_change: outcome.actualChurnChange,
       accuracy_score: outcome.accuracyScore,
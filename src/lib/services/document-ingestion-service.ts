@@ -0,0 +1,150 @@
+/**
+ * Document Ingestion Service
+ * Reads pricing pages, board decks and strategy docs uploaded during setup
+ * (plus the free-text additional context), extracts tier prices and limits,
+ * competitors, target segments and positioning with the LLM, and turns them
+ * into changes against the organization's stored CompanyProfile. Nothing is
+ * written until the user accepts changes on the review step.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CompanyProfile } from "@/types/company-profile";
+import type { Database, Json } from "@/types/database";
+import type {
+  DocumentChunk,
+  DocumentIngestionResult,
+  IngestedDocument,
+  ProfileChange,
+} from "@/types/document-ingestion";
+import {
+  applyProfileChanges,
+  chunkDocument,
+  diffProfile,
+  extractProfileFacts,
+  parseDocument,
+  type ProfileExtractionOptions,
+} from "@/lib/documents";
+
+type DbClient = SupabaseClient<Database>;
+
+export interface UploadedDocument {
+  name: string;
+  content: Buffer;
+}
+
+export interface DocumentIngestionOptions extends ProfileExtractionOptions {
+  additionalContext?: string;
+  // Caps LLM calls per ingestion; later chunks are dropped with a warning
+  maxChunks?: number;
+}
+
+export type DocumentIngestionOutcome =
+  | ({ status: "extracted" } & DocumentIngestionResult)
+  | { status: "skipped"; reason: string };
+
+export type ProfileChangesOutcome =
+  | { status: "applied"; profile: CompanyProfile; applied: number }
+  | { status: "skipped"; reason: string };
+
+export const ADDITIONAL_CONTEXT_DOCUMENT = "Additional context";
+
+const DEFAULT_MAX_CHUNKS = 40;
+
+/**
+ * Parse, chunk and extract every document, and diff the result against the
+ * stored profile. Unreadable documents are reported on their entry in
+ * `documents` rather than failing the batch.
+ */
+export async function ingestDocuments(
+  supabase: DbClient,
+  organizationId: string,
+  documents: UploadedDocument[],
+  options: DocumentIngestionOptions = {}
+): Promise<DocumentIngestionOutcome> {
+  const profile = await loadCompanyProfile(supabase, organizationId);
+  if (!profile) return { status: "skipped", reason: "Organization has no company profile yet" };
+
+  const ingested: IngestedDocument[] = [];
+  const chunks: DocumentChunk[] = [];
+  const warnings: string[] = [];
+
+  for (const document of documents) {
+    try {
+      const text = parseDocument(document.name, document.content);
+      const documentChunks = chunkDocument(document.name, text);
+      chunks.push(...documentChunks);
+      ingested.push({ name: document.name, characters: text.length, chunks: documentChunks.length });
+    } catch (error) {
+      ingested.push({
+        name: document.name,
+        characters: 0,
+        chunks: 0,
+        error: error instanceof Error ? error.message : "Could not read document",
+      });
+    }
+  }
+
+  const context = options.additionalContext?.trim();
+  if (context) {
+    const contextChunks = chunkDocument(ADDITIONAL_CONTEXT_DOCUMENT, context);
+    chunks.push(...contextChunks);
+    ingested.push({ name: ADDITIONAL_CONTEXT_DOCUMENT, characters: context.length, chunks: contextChunks.length });
+  }
+
+  if (chunks.length === 0) {
+    return { status: "extracted", documents: ingested, changes: [], warnings };
+  }
+
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_CHUNKS;
+  if (chunks.length > maxChunks) {
+    const dropped = [...new Set(chunks.slice(maxChunks).map((c) => c.document))];
+    warnings.push(`Only the first ${maxChunks} parts were read; the rest of ${dropped.join(", ")} was skipped`);
+  }
+
+  const { extraction, warnings: extractionWarnings } = await extractProfileFacts(
+    chunks.slice(0, maxChunks),
+    profile,
+    options
+  );
+
+  return {
+    status: "extracted",
+    documents: ingested,
+    changes: diffProfile(profile, extraction),
+    warnings: [...warnings, ...extractionWarnings],
+  };
+}
+
+/**
+ * Apply accepted changes to the stored profile
+ */
+export async function applyDocumentChanges(
+  supabase: DbClient,
+  organizationId: string,
+  changes: ProfileChange[]
+): Promise<ProfileChangesOutcome> {
+  const profile = await loadCompanyProfile(supabase, organizationId);
+  if (!profile) return { status: "skipped", reason: "Organization has no company profile yet" };
+  if (changes.length === 0) return { status: "applied", profile, applied: 0 };
+
+  const updated = applyProfileChanges(profile, changes);
+  const { error } = await supabase
+    .from("organizations")
+    .update({ company_profile: JSON.parse(JSON.stringify(updated)) as Json } as never)
+    .eq("id", organizationId);
+
+  if (error) throw error;
+  return { status: "applied", profile: updated, applied: changes.length };
+}
+
+async function loadCompanyProfile(supabase: DbClient, organizationId: string): Promise<CompanyProfile | null> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("company_profile")
+    .eq("id", organizationId)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  const profile = (data as { company_profile?: Json } | null)?.company_profile;
+  return profile ? (profile as unknown as CompanyProfile) : null;
+}
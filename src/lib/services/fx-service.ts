@@ -0,0 +1,334 @@
+/**
+ * FX Service
+ * Loads daily exchange rates into fx_rates and converts billing-currency
+ * amounts into the organization's reporting currency (its company profile
+ * currency). Customer MRR converts at the latest rate, transactions at the
+ * rate of their date; both keep the original amount, the rate and the rate's
+ * date. Loading rates re-converts everything already stored. Amounts in a
+ * currency without rates pass through unconverted and are reported as such.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, FxRate, Transaction, UnifiedCustomer } from "@/types/database";
+import type { FxConversion, FxImportResult, FxRateInput, FxRatesUsed, FxRateUsage } from "@/types/fx";
+import { parseSpreadsheet } from "@/lib/import";
+import { createRateTable, parseFxRateSheet } from "@/lib/fx";
+
+type DbClient = SupabaseClient<Database>;
+
+export const DEFAULT_REPORTING_CURRENCY = "EUR";
+
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 1000;
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  convert(amount: number, currency: string | null | undefined, date?: string | Date): FxConversion;
+}
+
+type CustomerCurrencyFields = Pick<UnifiedCustomer, "mrr"> & {
+  currency: string | null;
+  mrr_billing: number | null;
+  fx_rate: number | null;
+  fx_rate_date: string | null;
+};
+
+type TransactionCurrencyFields = {
+  reporting_amount: number | null;
+  fx_rate: number | null;
+  fx_rate_date: string | null;
+};
+
+/**
+ * ISO code of the currency analytics report in
+ */
+export async function getReportingCurrency(supabase: DbClient, organizationId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("company_profile")
+    .eq("id", organizationId)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  const profile = (data as { company_profile?: { currency?: string } | null } | null)?.company_profile;
+  const currency = profile?.currency?.trim().toUpperCase();
+  return currency && /^[A-Z]{3}$/.test(currency) ? currency : DEFAULT_REPORTING_CURRENCY;
+}
+
+export function createCurrencyConverter(reportingCurrency: string, rates: FxRateInput[]): CurrencyConverter {
+  const table = createRateTable(rates);
+  const reporting = reportingCurrency.toUpperCase();
+
+  return {
+    reportingCurrency: reporting,
+    convert(amount, currency, date = new Date()) {
+      const code = currency?.trim().toUpperCase();
+      if (!code || code === reporting) return { amount, rate: 1, rateDate: null, converted: true };
+
+      const day = typeof date === "string" ? date.slice(0, 10) : date.toISOString().split("T")[0];
+      const found = table.rateFor(code, reporting, day);
+      if (!found) return { amount, rate: 1, rateDate: null, converted: false };
+      return {
+        amount: Math.round(amount * found.rate * 100) / 100,
+        rate: found.rate,
+        rateDate: found.rateDate,
+        converted: true,
+      };
+    },
+  };
+}
+
+/**
+ * A converter over every rate the organization has loaded
+ */
+export async function loadCurrencyConverter(supabase: DbClient, organizationId: string): Promise<CurrencyConverter> {
+  const [reportingCurrency, rates] = await Promise.all([
+    getReportingCurrency(supabase, organizationId),
+    getFxRates(supabase, organizationId),
+  ]);
+  return createCurrencyConverter(reportingCurrency, rates.map((r) => ({ ...r, rate: Number(r.rate) })));
+}
+
+export async function getFxRates(
+  supabase: DbClient,
+  organizationId: string,
+  options: { currency?: string; from?: string; to?: string } = {}
+): Promise<FxRate[]> {
+  const rates: FxRate[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase.from("fx_rates").select("*").eq("organization_id", organizationId);
+    if (options.currency) {
+      const code = options.currency.toUpperCase();
+      query = query.or(`base_currency.eq.${code},quote_currency.eq.${code}`);
+    }
+    if (options.from) query = query.gte("rate_date", options.from);
+    if (options.to) query = query.lte("rate_date", options.to);
+
+    const { data, error } = await query.order("id").range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rates.push(...((data || []) as FxRate[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rates.sort((a, b) => a.rate_date.localeCompare(b.rate_date));
+}
+
+/**
+ * unified_customers columns for an MRR billed in `currency`
+ */
+export function customerCurrencyFields(
+  converter: CurrencyConverter,
+  mrrBilling: number,
+  currency: string | null | undefined,
+  date: string | Date = new Date()
+): CustomerCurrencyFields {
+  const code = currency?.trim().toUpperCase();
+  if (!code || code === converter.reportingCurrency) {
+    return { mrr: mrrBilling, currency: null, mrr_billing: null, fx_rate: null, fx_rate_date: null };
+  }
+  const conversion = converter.convert(mrrBilling, code, date);
+  return {
+    mrr: conversion.amount,
+    currency: code,
+    mrr_billing: mrrBilling,
+    fx_rate: conversion.converted ? conversion.rate : null,
+    fx_rate_date: conversion.rateDate,
+  };
+}
+
+/**
+ * transactions columns for an amount in `currency` on `occurredAt`
+ */
+export function transactionCurrencyFields(
+  converter: CurrencyConverter,
+  amount: number,
+  currency: string | null | undefined,
+  occurredAt: string
+): TransactionCurrencyFields {
+  const conversion = converter.convert(amount, currency, occurredAt);
+  if (!conversion.converted) return { reporting_amount: null, fx_rate: null, fx_rate_date: null };
+  return {
+    reporting_amount: conversion.amount,
+    fx_rate: conversion.rateDate ? conversion.rate : null,
+    fx_rate_date: conversion.rateDate,
+  };
+}
+
+/**
+ * Import a CSV/XLSX of daily rates, then re-convert stored amounts. Files
+ * without a base currency column quote against `base`, or the reporting
+ * currency.
+ */
+export async function importFxRates(
+  supabase: DbClient,
+  organizationId: string,
+  fileName: string,
+  content: Buffer,
+  options: { base?: string; source?: string } = {}
+): Promise<FxImportResult> {
+  const base = options.base ?? (await getReportingCurrency(supabase, organizationId));
+  const { rates, errors } = parseFxRateSheet(parseSpreadsheet(fileName, content), { base });
+
+  // A later row for the same day and pair wins
+  const unique = new Map<string, FxRateInput>();
+  for (const rate of rates) {
+    unique.set(`${rate.rate_date}|${rate.base_currency}|${rate.quote_currency}`, rate);
+  }
+  const rows = [...unique.values()].map((rate) => ({
+    organization_id: organizationId,
+    ...rate,
+    source: options.source ?? "csv",
+  }));
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("fx_rates")
+      .upsert(rows.slice(i, i + BATCH_SIZE) as never[], {
+        onConflict: "organization_id,rate_date,base_currency,quote_currency",
+      });
+    if (error) throw error;
+  }
+
+  const dates = rows.map((r) => r.rate_date).sort();
+  const normalized = rows.length > 0
+    ? await normalizeOrganizationCurrencies(supabase, organizationId)
+    : { customers: 0, transactions: 0 };
+
+  return {
+    received: rates.length,
+    upserted: rows.length,
+    rejected: errors.length,
+    errors,
+    currencies: [...new Set(rows.flatMap((r) => [r.base_currency, r.quote_currency]))].sort(),
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    normalized,
+  };
+}
+
+/**
+ * Re-convert every customer's MRR and every transaction with the current
+ * rates. Returns how many rows changed.
+ */
+export async function normalizeOrganizationCurrencies(
+  supabase: DbClient,
+  organizationId: string,
+  converter?: CurrencyConverter
+): Promise<{ customers: number; transactions: number }> {
+  const fx = converter ?? (await loadCurrencyConverter(supabase, organizationId));
+  const today = new Date();
+
+  let customers = 0;
+  const billedCustomers = await selectPaged<Pick<UnifiedCustomer, "id" | "mrr" | "currency" | "mrr_billing" | "fx_rate" | "fx_rate_date">>(
+    supabase, "unified_customers", "id, mrr, currency, mrr_billing, fx_rate, fx_rate_date", organizationId,
+    { withCurrency: true }
+  );
+  for (const customer of billedCustomers) {
+    const fields = customerCurrencyFields(fx, Number(customer.mrr_billing ?? customer.mrr), customer.currency, today);
+    if (
+      fields.mrr === Number(customer.mrr) &&
+      fields.fx_rate === (customer.fx_rate == null ? null : Number(customer.fx_rate)) &&
+      fields.fx_rate_date === (customer.fx_rate_date ?? null)
+    ) {
+      continue;
+    }
+    const { error } = await supabase
+      .from("unified_customers")
+      .update(fields as never)
+      .eq("organization_id", organizationId)
+      .eq("id", customer.id);
+    if (error) throw error;
+    customers++;
+  }
+
+  // Whole rows, so they can be written back in batches
+  const transactions = await selectPaged<Transaction>(supabase, "transactions", "*", organizationId);
+  const changed: Transaction[] = [];
+  for (const tx of transactions) {
+    const fields = transactionCurrencyFields(fx, Number(tx.amount), tx.currency, tx.occurred_at);
+    if (
+      fields.reporting_amount === (tx.reporting_amount == null ? null : Number(tx.reporting_amount)) &&
+      fields.fx_rate === (tx.fx_rate == null ? null : Number(tx.fx_rate)) &&
+      fields.fx_rate_date === (tx.fx_rate_date ?? null)
+    ) {
+      continue;
+    }
+    changed.push({ ...tx, ...fields } as Transaction);
+  }
+  for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("transactions")
+      .upsert(changed.slice(i, i + BATCH_SIZE) as never[], { onConflict: "id" });
+    if (error) throw error;
+  }
+
+  return { customers, transactions: changed.length };
+}
+
+/**
+ * The rates behind the organization's stored reporting-currency amounts:
+ * the latest applied per currency, and currencies that had none
+ */
+export async function getFxRatesUsed(supabase: DbClient, organizationId: string): Promise<FxRatesUsed> {
+  const reportingCurrency = await getReportingCurrency(supabase, organizationId);
+  const [customers, transactions] = await Promise.all([
+    selectPaged<Pick<UnifiedCustomer, "currency" | "fx_rate" | "fx_rate_date">>(
+      supabase, "unified_customers", "id, currency, fx_rate, fx_rate_date", organizationId,
+      { withCurrency: true }
+    ),
+    selectPaged<Pick<Transaction, "currency" | "reporting_amount" | "fx_rate" | "fx_rate_date">>(
+      supabase, "transactions", "id, currency, reporting_amount, fx_rate, fx_rate_date", organizationId,
+      { withCurrency: true }
+    ),
+  ]);
+
+  const used = new Map<string, FxRateUsage>();
+  const unconverted = new Set<string>();
+  const rows = [
+    ...customers.map((c) => ({ ...c, converted: c.fx_rate != null })),
+    ...transactions.map((t) => ({ ...t, converted: t.reporting_amount != null })),
+  ];
+  for (const row of rows) {
+    const currency = row.currency!.toUpperCase();
+    if (currency === reportingCurrency) continue;
+    if (!row.converted || row.fx_rate == null || !row.fx_rate_date) {
+      unconverted.add(currency);
+      continue;
+    }
+
+    const entry = used.get(currency);
+    if (!entry) {
+      used.set(currency, { currency, rate: Number(row.fx_rate), rate_date: row.fx_rate_date, amounts: 1 });
+      continue;
+    }
+    entry.amounts++;
+    if (row.fx_rate_date > entry.rate_date) {
+      entry.rate = Number(row.fx_rate);
+      entry.rate_date = row.fx_rate_date;
+    }
+  }
+
+  return {
+    reporting_currency: reportingCurrency,
+    rates: [...used.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+    unconverted: [...unconverted].sort(),
+  };
+}
+
+async function selectPaged<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "transactions",
+  columns: string,
+  organizationId: string,
+  options: { withCurrency?: boolean } = {}
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns).eq("organization_id", organizationId);
+    if (options.withCurrency) query = query.not("currency", "is", null);
+
+    const { data, error } = await query.order("id").range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,684 @@
+/**
+ * HubSpot Sync Service
+ * Pulls companies, contacts and deals, with their associations, from the
+ * HubSpot CRM v3 APIs into the hubspot_* tables. Each object type pages
+ * through the list endpoint on its first sync and searches by last-modified
+ * date afterwards; cursors live in api_connections.metadata so an interrupted
+ * full sync resumes where it stopped. Records HubSpot has archived are
+ * flagged and lose their associations. Company industry and employee count
+ * are copied onto the linked unified customers.
+ */
+
+import { Client } from "@hubspot/api-client";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ApiConnection, Database, Json } from "@/types/database";
+import {
+  getOrCreateApiConnection,
+  isSyncRunning,
+  parseSyncStatus,
+  updateApiConnection,
+  type SyncStatusBase,
+} from "./api-connection-service";
+
+type DbClient = SupabaseClient<Database>;
+type Tables = Database["public"]["Tables"];
+
+export type HubSpotObjectType = "companies" | "contacts" | "deals";
+
+export interface HubSpotObjectCursor {
+  modifiedSince?: string; // Search from here on the next sync
+  after?: string; // Paging token of an unfinished full sync
+  fullSyncStartedAt?: string; // When the unfinished full sync began
+  archivedSince?: string; // Archived records up to here are already flagged
+}
+
+/**
+ * Stored under `hubspot_sync` in api_connections.metadata
+ */
+export type HubSpotSyncCursors = Partial<Record<HubSpotObjectType, HubSpotObjectCursor>>;
+
+export interface HubSpotSyncStatus extends SyncStatusBase {
+  phase?: HubSpotObjectType;
+  modes: Partial<Record<HubSpotObjectType, "full" | "incremental">>;
+  counts: Record<HubSpotObjectType | "archived" | "associations", number>;
+}
+
+export interface HubSpotSyncOptions {
+  /** Private app token; defaults to HUBSPOT_ACCESS_TOKEN */
+  accessToken?: string;
+  /** API origin; defaults to HUBSPOT_API_BASE or api.hubapi.com */
+  apiBase?: string;
+  client?: Client;
+  /** List every object again instead of searching from the cursors */
+  full?: boolean;
+  pageSize?: number;
+  now?: Date;
+}
+
+/**
+ * A CRM v3 object as the list, search and archived endpoints return it
+ */
+export interface HubSpotCrmObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt?: string;
+  updatedAt?: string;
+  archived?: boolean;
+  archivedAt?: string;
+}
+
+interface CrmPage {
+  results: HubSpotCrmObject[];
+  paging?: { next?: { after: string } };
+}
+
+interface AssociationResult {
+  from: { id: string };
+  to: { toObjectId: string | number; associationTypes: { typeId: number; label?: string | null; category: string }[] }[];
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const OBJECT_TYPES: HubSpotObjectType[] = ["companies", "contacts", "deals"];
+// The search endpoint stops paging at 10,000 results
+const SEARCH_RESULT_LIMIT = 10000;
+// Search a little before the cursor so edits made during the last sync aren't missed
+const INCREMENTAL_OVERLAP_MS = 5 * 60 * 1000;
+
+// Primary association type ids (HubSpot-defined)
+const PRIMARY_CONTACT_TO_COMPANY = 1;
+const PRIMARY_DEAL_TO_COMPANY = 5;
+
+const PROPERTIES: Record<HubSpotObjectType, string[]> = {
+  companies: [
+    "name",
+    "domain",
+    "industry",
+    "type",
+    "description",
+    "numberofemployees",
+    "annualrevenue",
+    "phone",
+    "city",
+    "state",
+    "country",
+    "zip",
+    "website",
+    "hubspot_owner_id",
+    "lifecyclestage",
+    "hs_lastmodifieddate",
+  ],
+  contacts: [
+    "email",
+    "firstname",
+    "lastname",
+    "phone",
+    "company",
+    "jobtitle",
+    "lifecyclestage",
+    "hs_lead_status",
+    "hs_analytics_source",
+    "hubspot_owner_id",
+    "lastmodifieddate",
+  ],
+  deals: [
+    "dealname",
+    "amount",
+    "dealstage",
+    "pipeline",
+    "closedate",
+    "hs_deal_stage_probability",
+    "deal_currency_code",
+    "hubspot_owner_id",
+    "hs_lastmodifieddate",
+  ],
+};
+
+// Contacts name their last-modified property differently
+const MODIFIED_PROPERTY: Record<HubSpotObjectType, string> = {
+  companies: "hs_lastmodifieddate",
+  contacts: "lastmodifieddate",
+  deals: "hs_lastmodifieddate",
+};
+
+/**
+ * Build a HubSpot client, optionally pointed at another API origin
+ */
+export function createHubSpotClient(accessToken?: string, apiBase?: string): Client {
+  const token = accessToken ?? process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!token) {
+    throw new Error("Missing HUBSPOT_ACCESS_TOKEN");
+  }
+  return new Client({
+    accessToken: token,
+    basePath: apiBase ?? process.env.HUBSPOT_API_BASE,
+    numberOfApiCallRetries: 3,
+  });
+}
+
+/**
+ * Sync an organization's HubSpot portal into the hubspot_* tables
+ */
+export async function syncHubSpot(
+  supabase: DbClient,
+  organizationId: string,
+  options: HubSpotSyncOptions = {}
+): Promise<HubSpotSyncStatus> {
+  const now = options.now ?? new Date();
+  const connection = await getOrCreateApiConnection(supabase, organizationId, "hubspot");
+
+  if (isSyncRunning(parseSyncStatus(connection.sync_status), now)) {
+    throw new Error("A HubSpot sync is already running for this organization");
+  }
+
+  const metadata = (connection.metadata ?? {}) as Record<string, Json | undefined>;
+  const cursors = { ...((metadata.hubspot_sync ?? {}) as HubSpotSyncCursors) };
+  const status: HubSpotSyncStatus = {
+    state: "running",
+    modes: {},
+    counts: { companies: 0, contacts: 0, deals: 0, archived: 0, associations: 0 },
+    pages: 0,
+    started_at: now.toISOString(),
+  };
+
+  const save = (updates: Tables["api_connections"]["Update"] = {}) =>
+    updateApiConnection(supabase, connection.id, {
+      ...updates,
+      metadata: { ...metadata, hubspot_sync: cursors as Json },
+      sync_status: JSON.stringify(status),
+    });
+  await save();
+
+  try {
+    const client = options.client ?? createHubSpotClient(options.accessToken, options.apiBase);
+    const sync = new HubSpotObjectSync(supabase, organizationId, client, options.pageSize ?? DEFAULT_PAGE_SIZE, status);
+
+    for (const type of OBJECT_TYPES) {
+      status.phase = type;
+      const cursor: HubSpotObjectCursor = options.full ? {} : { ...cursors[type] };
+      const onPage = async (after?: string) => {
+        status.pages++;
+        cursors[type] = { ...cursor, after };
+        await save();
+      };
+
+      // Changes made after a full sync began are picked up by the next search,
+      // including when the full sync was interrupted and resumed
+      let nextModifiedSince = now.toISOString();
+      if (cursor.modifiedSince) {
+        status.modes[type] = "incremental";
+        await sync.searchModified(type, new Date(cursor.modifiedSince), onPage);
+      } else {
+        status.modes[type] = "full";
+        cursor.fullSyncStartedAt = cursor.after ? (cursor.fullSyncStartedAt ?? nextModifiedSince) : nextModifiedSince;
+        nextModifiedSince = cursor.fullSyncStartedAt;
+        await sync.listAll(type, cursor.after, onPage);
+      }
+      await sync.flagArchived(type, cursor.archivedSince ? new Date(cursor.archivedSince) : null);
+
+      cursors[type] = { modifiedSince: nextModifiedSince, archivedSince: now.toISOString() };
+      await save();
+    }
+
+    status.state = "succeeded";
+    status.phase = undefined;
+    status.finished_at = new Date().toISOString();
+    await save({ status: "connected", last_sync_at: now.toISOString() });
+    return status;
+  } catch (error) {
+    status.state = "failed";
+    status.finished_at = new Date().toISOString();
+    status.error = error instanceof Error ? error.message : "Unknown error";
+    await save({ status: "error" });
+    throw error;
+  }
+}
+
+/**
+ * The cursors a connection's last HubSpot sync left behind
+ */
+export function getHubSpotCursors(connection: ApiConnection): HubSpotSyncCursors {
+  const metadata = (connection.metadata ?? {}) as Record<string, Json | undefined>;
+  return (metadata.hubspot_sync ?? {}) as HubSpotSyncCursors;
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+class HubSpotObjectSync {
+  constructor(
+    private supabase: DbClient,
+    private organizationId: string,
+    private client: Client,
+    private pageSize: number,
+    private status: HubSpotSyncStatus
+  ) {}
+
+  /**
+   * Page through the list endpoint, starting after `after` when resuming
+   */
+  async listAll(
+    type: HubSpotObjectType,
+    after: string | undefined,
+    onPage: (after?: string) => Promise<void>
+  ): Promise<void> {
+    do {
+      const page = await this.request<CrmPage>("GET", `/crm/v3/objects/${type}`, {
+        qs: this.listParams(type, after),
+      });
+      await this.savePage(type, page.results);
+      after = page.paging?.next?.after;
+      await onPage(after);
+    } while (after);
+  }
+
+  /**
+   * Page through everything modified since `since`, oldest first. When the
+   * search result limit is reached, start a new search from the last
+   * modified date seen.
+   */
+  async searchModified(
+    type: HubSpotObjectType,
+    since: Date,
+    onPage: (after?: string) => Promise<void>
+  ): Promise<void> {
+    const property = MODIFIED_PROPERTY[type];
+    let from = since.getTime() - INCREMENTAL_OVERLAP_MS;
+    let after: string | undefined;
+
+    while (true) {
+      const page = await this.request<CrmPage>("POST", `/crm/v3/objects/${type}/search`, {
+        body: {
+          filterGroups: [{ filters: [{ propertyName: property, operator: "GTE", value: String(from) }] }],
+          sorts: [{ propertyName: property, direction: "ASCENDING" }],
+          properties: PROPERTIES[type],
+          limit: this.pageSize,
+          after,
+        },
+      });
+      await this.savePage(type, page.results);
+      await onPage();
+
+      const next = page.paging?.next?.after;
+      if (!next) return;
+      if (Number(next) + this.pageSize > SEARCH_RESULT_LIMIT) {
+        const last = page.results[page.results.length - 1];
+        from = Date.parse(last?.properties[property] ?? last?.updatedAt ?? "") || from;
+        after = undefined;
+      } else {
+        after = next;
+      }
+    }
+  }
+
+  /**
+   * Flag rows HubSpot archived after `since` (or ever, on a first sync) and
+   * drop their associations
+   */
+  async flagArchived(type: HubSpotObjectType, since: Date | null): Promise<void> {
+    let after: string | undefined;
+    do {
+      const page = await this.request<CrmPage>("GET", `/crm/v3/objects/${type}`, {
+        qs: { ...this.listParams(type, after), archived: "true" },
+      });
+      const archived = page.results.filter(
+        (o) => !since || !o.archivedAt || new Date(o.archivedAt) > since
+      );
+      await this.archive(type, archived);
+      after = page.paging?.next?.after;
+    } while (after);
+  }
+
+  private async savePage(type: HubSpotObjectType, objects: HubSpotCrmObject[]): Promise<void> {
+    if (objects.length === 0) return;
+
+    if (type === "companies") {
+      const rows = objects.map((o) => mapHubSpotCompany(this.organizationId, o));
+      await this.upsert("hubspot_companies", rows);
+      await this.updateUnifiedCompanies(rows);
+    } else if (type === "contacts") {
+      const companies = await this.readAssociations("contacts", "companies", objects);
+      const rows = objects.map((o) =>
+        mapHubSpotContact(this.organizationId, o, primaryTarget(companies.get(o.id), PRIMARY_CONTACT_TO_COMPANY))
+      );
+      await this.upsert("hubspot_contacts", rows);
+      await this.replaceContactCompanyAssociations(objects, companies);
+    } else {
+      const companies = await this.readAssociations("deals", "companies", objects);
+      const contacts = await this.readAssociations("deals", "contacts", objects);
+      const rows = objects.map((o) =>
+        mapHubSpotDeal(this.organizationId, o, primaryTarget(companies.get(o.id), PRIMARY_DEAL_TO_COMPANY))
+      );
+      await this.upsert("hubspot_deals", rows);
+      await this.replaceDealContactAssociations(objects, contacts);
+    }
+
+    this.status.counts[type] += objects.length;
+  }
+
+  /**
+   * Associations for a page of objects, keyed by the source object's id
+   */
+  private async readAssociations(
+    from: HubSpotObjectType,
+    to: HubSpotObjectType,
+    objects: HubSpotCrmObject[]
+  ): Promise<Map<string, AssociationResult["to"]>> {
+    const response = await this.request<{ results: AssociationResult[] }>(
+      "POST",
+      `/crm/v4/associations/${from}/${to}/batch/read`,
+      { body: { inputs: objects.map((o) => ({ id: o.id })) } }
+    );
+    return new Map((response.results ?? []).map((r) => [String(r.from.id), r.to]));
+  }
+
+  /**
+   * Replace the associations of every contact in the page. Contacts with no
+   * associations are absent from the batch read, so their old rows are
+   * cleared too.
+   */
+  private async replaceContactCompanyAssociations(
+    objects: HubSpotCrmObject[],
+    associations: Map<string, AssociationResult["to"]>
+  ) {
+    const contactIds = await this.idMap("hubspot_contacts", objects.map((o) => o.id));
+    const companyIds = await this.idMap(
+      "hubspot_companies",
+      [...associations.values()].flat().map((t) => String(t.toObjectId)),
+      { excludeArchived: true }
+    );
+
+    const rows: Tables["hubspot_contact_company_associations"]["Insert"][] = [];
+    for (const [contactHubSpotId, contactId] of contactIds) {
+      for (const target of associations.get(contactHubSpotId) ?? []) {
+        const companyId = companyIds.get(String(target.toObjectId));
+        if (!companyId) continue;
+        rows.push({
+          organization_id: this.organizationId,
+          contact_id: contactId,
+          company_id: companyId,
+          association_type: associationLabel(target),
+          is_primary: target.associationTypes.some((t) => t.typeId === PRIMARY_CONTACT_TO_COMPANY),
+        });
+      }
+    }
+
+    await this.deleteWhereIn("hubspot_contact_company_associations", "contact_id", [...contactIds.values()]);
+    await this.insert("hubspot_contact_company_associations", rows);
+  }
+
+  /**
+   * Replace the contact associations of every deal in the page, clearing
+   * those of deals the batch read left out for having none
+   */
+  private async replaceDealContactAssociations(
+    objects: HubSpotCrmObject[],
+    associations: Map<string, AssociationResult["to"]>
+  ) {
+    const dealIds = await this.idMap("hubspot_deals", objects.map((o) => o.id));
+    const contactIds = await this.idMap(
+      "hubspot_contacts",
+      [...associations.values()].flat().map((t) => String(t.toObjectId)),
+      { excludeArchived: true }
+    );
+
+    const rows: Tables["hubspot_deal_contact_associations"]["Insert"][] = [];
+    for (const [dealHubSpotId, dealId] of dealIds) {
+      for (const target of associations.get(dealHubSpotId) ?? []) {
+        const contactId = contactIds.get(String(target.toObjectId));
+        if (!contactId) continue;
+        rows.push({
+          organization_id: this.organizationId,
+          deal_id: dealId,
+          contact_id: contactId,
+          association_type: associationLabel(target),
+        });
+      }
+    }
+
+    await this.deleteWhereIn("hubspot_deal_contact_associations", "deal_id", [...dealIds.values()]);
+    await this.insert("hubspot_deal_contact_associations", rows);
+  }
+
+  private async archive(type: HubSpotObjectType, objects: HubSpotCrmObject[]): Promise<void> {
+    if (objects.length === 0) return;
+    const table = `hubspot_${type}` as "hubspot_companies" | "hubspot_contacts" | "hubspot_deals";
+    const ids = [...(await this.idMap(table, objects.map((o) => o.id))).values()];
+    if (ids.length === 0) return;
+
+    for (const object of objects) {
+      const { error } = await this.supabase
+        .from(table)
+        .update({ archived: true, archived_at: object.archivedAt ?? new Date().toISOString() } as never)
+        .eq("organization_id", this.organizationId)
+        .eq("hubspot_id", object.id);
+      if (error) throw error;
+    }
+
+    if (type === "companies") {
+      await this.deleteWhereIn("hubspot_contact_company_associations", "company_id", ids);
+    } else if (type === "contacts") {
+      await this.deleteWhereIn("hubspot_contact_company_associations", "contact_id", ids);
+      await this.deleteWhereIn("hubspot_deal_contact_associations", "contact_id", ids);
+    } else {
+      await this.deleteWhereIn("hubspot_deal_contact_associations", "deal_id", ids);
+    }
+    this.status.counts.archived += ids.length;
+  }
+
+  /**
+   * Segmentation reads industry and size from unified customers; keep them
+   * in step with the CRM
+   */
+  private async updateUnifiedCompanies(rows: Tables["hubspot_companies"]["Insert"][]): Promise<void> {
+    const companyIds = await this.idMap("hubspot_companies", rows.map((r) => r.hubspot_id));
+    for (const row of rows) {
+      const companyId = companyIds.get(row.hubspot_id);
+      if (!companyId || (row.industry === undefined && row.numberofemployees === undefined)) continue;
+
+      const { error } = await this.supabase
+        .from("unified_customers")
+        .update({
+          ...(row.industry !== undefined && { industry: row.industry }),
+          ...(row.numberofemployees !== undefined && { employee_count: row.numberofemployees }),
+        } as never)
+        .eq("organization_id", this.organizationId)
+        .eq("hubspot_company_id", companyId);
+      if (error) throw error;
+    }
+  }
+
+  private listParams(type: HubSpotObjectType, after?: string): Record<string, string> {
+    return {
+      limit: String(this.pageSize),
+      properties: PROPERTIES[type].join(","),
+      ...(after && { after }),
+    };
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    options: { qs?: Record<string, string>; body?: unknown }
+  ): Promise<T> {
+    const response = await this.client.apiRequest({ method, path, ...options });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`HubSpot ${method} ${path} failed with ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private async upsert<T extends "hubspot_companies" | "hubspot_contacts" | "hubspot_deals">(
+    table: T,
+    rows: Tables[T]["Insert"][]
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from(table)
+      .upsert(rows.map((r) => ({ ...r, synced_at: new Date().toISOString() })) as never[], {
+        onConflict: "organization_id,hubspot_id",
+      });
+    if (error) throw error;
+  }
+
+  private async insert<T extends "hubspot_contact_company_associations" | "hubspot_deal_contact_associations">(
+    table: T,
+    rows: Tables[T]["Insert"][]
+  ): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.supabase.from(table).insert(rows as never[]);
+    if (error) throw error;
+    this.status.counts.associations += rows.length;
+  }
+
+  private async deleteWhereIn(
+    table: "hubspot_contact_company_associations" | "hubspot_deal_contact_associations",
+    column: "contact_id" | "company_id" | "deal_id",
+    ids: string[]
+  ): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await this.supabase
+      .from(table)
+      .delete()
+      .eq("organization_id", this.organizationId)
+      .in(column, ids);
+    if (error) throw error;
+  }
+
+  /**
+   * Row ids for the given HubSpot ids
+   */
+  private async idMap(
+    table: "hubspot_companies" | "hubspot_contacts" | "hubspot_deals",
+    hubspotIds: string[],
+    options?: { excludeArchived?: boolean }
+  ): Promise<Map<string, string>> {
+    const ids = [...new Set(hubspotIds)];
+    if (ids.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select("id, hubspot_id, archived")
+      .eq("organization_id", this.organizationId)
+      .in("hubspot_id", ids);
+    if (error) throw error;
+
+    return new Map(
+      ((data || []) as { id: string; hubspot_id: string; archived?: boolean }[])
+        .filter((r) => !(options?.excludeArchived && r.archived))
+        .map((r) => [r.hubspot_id, r.id])
+    );
+  }
+}
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+export function mapHubSpotCompany(
+  organizationId: string,
+  company: HubSpotCrmObject
+): Tables["hubspot_companies"]["Insert"] {
+  const p = company.properties;
+  return {
+    organization_id: organizationId,
+    hubspot_id: company.id,
+    name: p.name ?? undefined,
+    domain: p.domain ?? undefined,
+    industry: p.industry ?? undefined,
+    type: p.type ?? undefined,
+    description: p.description ?? undefined,
+    numberofemployees: toNumber(p.numberofemployees, true),
+    annualrevenue: toNumber(p.annualrevenue),
+    phone: p.phone ?? undefined,
+    city: p.city ?? undefined,
+    state: p.state ?? undefined,
+    country: p.country ?? undefined,
+    postal_code: p.zip ?? undefined,
+    website: p.website ?? undefined,
+    owner_id: p.hubspot_owner_id ?? undefined,
+    lifecycle_stage: p.lifecyclestage ?? undefined,
+    properties: p,
+    hubspot_created: company.createdAt,
+    hubspot_updated: company.updatedAt,
+    archived: false,
+  };
+}
+
+export function mapHubSpotContact(
+  organizationId: string,
+  contact: HubSpotCrmObject,
+  primaryCompanyId?: string
+): Tables["hubspot_contacts"]["Insert"] {
+  const p = contact.properties;
+  return {
+    organization_id: organizationId,
+    hubspot_id: contact.id,
+    email: p.email ?? undefined,
+    firstname: p.firstname ?? undefined,
+    lastname: p.lastname ?? undefined,
+    phone: p.phone ?? undefined,
+    company: p.company ?? undefined,
+    jobtitle: p.jobtitle ?? undefined,
+    lifecycle_stage: p.lifecyclestage ?? undefined,
+    lead_status: p.hs_lead_status ?? undefined,
+    hs_lead_status: p.hs_lead_status ?? undefined,
+    lead_source: p.hs_analytics_source ?? undefined,
+    associated_company_id: primaryCompanyId,
+    owner_id: p.hubspot_owner_id ?? undefined,
+    properties: p,
+    hubspot_created: contact.createdAt,
+    hubspot_updated: contact.updatedAt,
+    archived: false,
+  };
+}
+
+export function mapHubSpotDeal(
+  organizationId: string,
+  deal: HubSpotCrmObject,
+  primaryCompanyId?: string
+): Tables["hubspot_deals"]["Insert"] {
+  const p = deal.properties;
+  return {
+    organization_id: organizationId,
+    hubspot_id: deal.id,
+    dealname: p.dealname ?? undefined,
+    amount: toNumber(p.amount),
+    dealstage: p.dealstage ?? undefined,
+    pipeline: p.pipeline ?? undefined,
+    closedate: p.closedate ?? undefined,
+    hs_deal_stage_probability: toNumber(p.hs_deal_stage_probability),
+    deal_currency_code: p.deal_currency_code ?? undefined,
+    owner_id: p.hubspot_owner_id ?? undefined,
+    associated_company_id: primaryCompanyId,
+    properties: p,
+    hubspot_created: deal.createdAt,
+    hubspot_updated: deal.updatedAt,
+    archived: false,
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * The HubSpot id of the primary association, or the first one
+ */
+function primaryTarget(targets: AssociationResult["to"] | undefined, primaryTypeId: number): string | undefined {
+  if (!targets || targets.length === 0) return undefined;
+  const primary = targets.find((t) => t.associationTypes.some((a) => a.typeId === primaryTypeId));
+  return String((primary ?? targets[0]).toObjectId);
+}
+
+function associationLabel(target: AssociationResult["to"][number]): string | undefined {
+  const types = target.associationTypes;
+  return types.find((t) => t.label)?.label ?? (types[0] ? String(types[0].typeId) : undefined);
+}
+
+function toNumber(value: string | null | undefined, integer = false): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return undefined;
+  return integer ? Math.round(n) : n;
+}
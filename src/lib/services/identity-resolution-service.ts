@@ -0,0 +1,963 @@
+/**
+ * Identity Resolution Service
+ * Ties each Stripe customer to a unified customer, and each unified customer
+ * to the HubSpot contact and company it belongs to. Matches are tried by
+ * exact email, then email domain against company domains, then fuzzy
+ * company name. Confident matches are applied with their method and
+ * confidence in metadata.identity; ambiguous ones wait in
+ * identity_match_reviews. Customers can also be merged and unmerged by hand,
+ * and MRR, tenure and billing interval follow the linked subscriptions.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CustomerHealthScore,
+  CustomerRFMScore,
+  Database,
+  HubSpotCompany,
+  HubSpotContact,
+  IdentityMatchCandidate,
+  IdentityMatchReview,
+  StripeCustomer,
+  UnifiedCustomer,
+  UsageRecord,
+} from "@/types/database";
+import {
+  billingCurrencyFields,
+  getSubscriptionBilling,
+  type SubscriptionBilling,
+} from "./subscription-billing-service";
+import { loadCurrencyConverter } from "./fx-service";
+
+type DbClient = SupabaseClient<Database>;
+
+// Per-customer tables keyed by more than the customer, so a merge can collide
+type KeyedChildTable = "customer_health_scores" | "customer_rfm_scores" | "usage_records";
+
+export type IdentityMatchMethod = "email" | "domain" | "name" | "review" | "manual";
+
+/**
+ * What a merge changed, kept on the surviving customer so it can be undone
+ */
+export interface MergedCustomerSnapshot {
+  customer: UnifiedCustomer; // The merged-away row as it was
+  target_before: Partial<UnifiedCustomer>; // Target fields the merge filled in
+  transaction_ids: string[];
+  expansion_event_ids: string[];
+  health_score_ids?: string[];
+  rfm_score_ids?: string[];
+  // Source scores the target already had a row for, dropped with the source
+  displaced_health_scores?: CustomerHealthScore[];
+  displaced_rfm_scores?: CustomerRFMScore[];
+  usage_record_ids?: string[];
+  // Source usage added onto the target's record for the same metric and day
+  folded_usage_records?: UsageRecord[];
+  merged_at: string;
+  merged_by?: string;
+}
+
+/**
+ * Stored under unified_customers.metadata.identity
+ */
+export interface IdentityMetadata {
+  method: IdentityMatchMethod;
+  confidence: number;
+  matched_at: string;
+  merged?: MergedCustomerSnapshot[];
+}
+
+export interface IdentityResolutionResult {
+  created: number; // Unified customers created for unlinked Stripe customers
+  linked: number; // Stripe customers linked to an existing unified customer
+  matched: Record<"email" | "domain" | "name", number>;
+  queued: number;
+  recomputed: number;
+}
+
+export type IdentityReviewResult =
+  | { status: "resolved"; review: IdentityMatchReview }
+  | { status: "skipped"; reason: string };
+
+// Name matches at or above this score, clear of the runner-up by the margin,
+// are applied without review; from the review threshold up they're queued
+const NAME_AUTO_MATCH = 0.9;
+const NAME_AUTO_MARGIN = 0.05;
+const NAME_REVIEW_THRESHOLD = 0.7;
+const DOMAIN_CONFIDENCE = 0.9;
+const MAX_REVIEW_CANDIDATES = 5;
+const PAGE_SIZE = 1000;
+const IN_CHUNK_SIZE = 200;
+
+// Human decisions that automatic matching must not override
+const LOCKED_METHODS: IdentityMatchMethod[] = ["review", "manual"];
+
+// Webmail domains say nothing about which company a customer works for
+const FREEMAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "yahoo.co.uk", "yahoo.fr", "hotmail.com",
+  "hotmail.co.uk", "hotmail.fr", "outlook.com", "live.com", "msn.com", "icloud.com", "me.com",
+  "mac.com", "aol.com", "proton.me", "protonmail.com", "gmx.com", "gmx.de", "gmx.net", "web.de",
+  "mail.com", "yandex.com", "yandex.ru", "zoho.com", "fastmail.com", "hey.com", "orange.fr",
+  "free.fr", "laposte.net", "t-online.de", "qq.com", "163.com",
+]);
+
+const LEGAL_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "llp", "ltd", "limited", "corp", "corporation", "co", "company",
+  "plc", "gmbh", "ag", "kg", "sa", "sas", "sarl", "srl", "spa", "bv", "nv", "oy", "ab", "as",
+  "aps", "pty", "pte", "kk",
+]);
+
+/**
+ * Lowercased, accent-free company name without punctuation, a leading
+ * "the" or trailing legal suffixes ("Acme, Inc." → "acme")
+ */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b([a-z0-9]) (?=[a-z0-9]\b)/g, "$1") // "s a" (from "S.A.") → "sa"
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+  if (tokens[0] === "the" && tokens.length > 1) tokens.shift();
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop();
+  return tokens.join(" ");
+}
+
+/**
+ * Similarity of two company names from 0 to 1: the Dice coefficient of
+ * their normalized character bigrams
+ */
+export function companyNameSimilarity(a: string, b: string): number {
+  const left = normalizeCompanyName(a).replace(/ /g, "");
+  const right = normalizeCompanyName(b).replace(/ /g, "");
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      shared++;
+      bigrams.set(bigram, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * A customer's identity record, if matching or a merge has written one
+ */
+export function getIdentityMetadata(customer: Pick<UnifiedCustomer, "metadata">): IdentityMetadata | null {
+  const identity = (customer.metadata as Record<string, unknown> | null)?.identity;
+  return identity && typeof identity === "object" ? (identity as IdentityMetadata) : null;
+}
+
+/**
+ * Link Stripe customers to unified customers (creating them where needed),
+ * match unified customers to HubSpot, queue ambiguous matches and recompute
+ * billing fields from the linked subscriptions
+ */
+export async function resolveIdentities(
+  supabase: DbClient,
+  organizationId: string,
+  options: { now?: Date } = {}
+): Promise<IdentityResolutionResult> {
+  const now = options.now ?? new Date();
+  const result: IdentityResolutionResult = {
+    created: 0,
+    linked: 0,
+    matched: { email: 0, domain: 0, name: 0 },
+    queued: 0,
+    recomputed: 0,
+  };
+
+  const [stripeCustomers, customers, contacts, companies, reviews] = await Promise.all([
+    selectAll<StripeCustomer>(supabase, "stripe_customers", organizationId),
+    selectAll<UnifiedCustomer>(supabase, "unified_customers", organizationId),
+    selectAll<HubSpotContact>(supabase, "hubspot_contacts", organizationId),
+    selectAll<HubSpotCompany>(supabase, "hubspot_companies", organizationId),
+    selectAll<IdentityMatchReview>(supabase, "identity_match_reviews", organizationId),
+  ]);
+
+  // 1. Every Stripe customer belongs to exactly one unified customer
+  const linkedStripeIds = new Set(customers.flatMap(linkedStripeCustomerIds));
+  const unlinkedByEmail = groupBy(
+    customers.filter((c) => !c.stripe_customer_id && c.email),
+    (c) => c.email!.toLowerCase()
+  );
+  const toCreate: Database["public"]["Tables"]["unified_customers"]["Insert"][] = [];
+
+  for (const stripeCustomer of stripeCustomers) {
+    if (linkedStripeIds.has(stripeCustomer.id)) continue;
+
+    const sameEmail = stripeCustomer.email ? unlinkedByEmail.get(stripeCustomer.email.toLowerCase()) : undefined;
+    if (sameEmail?.length === 1) {
+      const customer = sameEmail[0];
+      customer.stripe_customer_id = stripeCustomer.id;
+      unlinkedByEmail.delete(stripeCustomer.email!.toLowerCase());
+      await updateCustomer(supabase, organizationId, customer.id, { stripe_customer_id: stripeCustomer.id });
+      result.linked++;
+      continue;
+    }
+
+    const companyName = (stripeCustomer.metadata as Record<string, unknown> | null)?.company;
+    toCreate.push({
+      organization_id: organizationId,
+      stripe_customer_id: stripeCustomer.id,
+      name: stripeCustomer.name || stripeCustomer.email || stripeCustomer.stripe_id,
+      email: stripeCustomer.email,
+      company_name: typeof companyName === "string" ? companyName : stripeCustomer.name,
+      mrr: 0,
+      ltv: 0,
+      tenure_months: 0,
+      status: "active",
+      metadata: {},
+    });
+  }
+
+  for (let i = 0; i < toCreate.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("unified_customers")
+      .insert(toCreate.slice(i, i + IN_CHUNK_SIZE) as never)
+      .select();
+    if (error) throw error;
+    customers.push(...((data || []) as UnifiedCustomer[]));
+    result.created += (data || []).length;
+  }
+
+  // 2. Match customers without HubSpot links
+  const stripeById = new Map(stripeCustomers.map((s) => [s.id, s]));
+  const liveContacts = contacts.filter((c) => !c.archived && c.email);
+  const liveCompanies = companies.filter((c) => !c.archived);
+  const contactsByEmail = new Map(liveContacts.map((c) => [c.email!.toLowerCase(), c]));
+  const companiesByHubSpotId = new Map(liveCompanies.map((c) => [c.hubspot_id, c]));
+  const companiesByDomain = groupBy(
+    liveCompanies.filter((c) => c.domain),
+    (c) => normalizeDomain(c.domain!)
+  );
+  const companiesByToken = new Map<string, HubSpotCompany[]>();
+  for (const company of liveCompanies) {
+    for (const token of new Set(normalizeCompanyName(company.name ?? "").split(" "))) {
+      if (token.length < 2) continue;
+      companiesByToken.set(token, [...(companiesByToken.get(token) ?? []), company]);
+    }
+  }
+
+  const pending = new Set(reviews.filter((r) => r.status === "pending").map((r) => r.unified_customer_id));
+  const rejected = new Map<string, Set<string>>();
+  for (const review of reviews.filter((r) => r.status === "rejected")) {
+    const ids = rejected.get(review.unified_customer_id) ?? new Set<string>();
+    for (const candidate of review.candidates) {
+      if (candidate.hubspot_company_id) ids.add(candidate.hubspot_company_id);
+      if (candidate.hubspot_contact_id) ids.add(candidate.hubspot_contact_id);
+    }
+    rejected.set(review.unified_customer_id, ids);
+  }
+
+  for (const customer of customers) {
+    if (customer.hubspot_contact_id || customer.hubspot_company_id || pending.has(customer.id)) continue;
+    const identity = getIdentityMetadata(customer);
+    if (identity && LOCKED_METHODS.includes(identity.method)) continue;
+
+    const stripeCustomer = customer.stripe_customer_id ? stripeById.get(customer.stripe_customer_id) : undefined;
+    const email = (customer.email || stripeCustomer?.email)?.toLowerCase();
+    const name = customer.company_name || customer.name;
+    const isRejected = (id?: string) => !!id && !!rejected.get(customer.id)?.has(id);
+    const scoreAgainst = (company: HubSpotCompany): IdentityMatchCandidate => ({
+      hubspot_company_id: company.id,
+      name: company.name ?? company.domain ?? company.hubspot_id,
+      score: round(companyNameSimilarity(name, company.name ?? "")),
+    });
+
+    // Exact email: the contact, and the company HubSpot associates it with
+    const contact = email ? contactsByEmail.get(email) : undefined;
+    if (contact && !isRejected(contact.id)) {
+      const company = contact.associated_company_id
+        ? companiesByHubSpotId.get(contact.associated_company_id)
+        : undefined;
+      await applyMatch(supabase, organizationId, customer, {
+        contact,
+        company: company && !isRejected(company.id) ? company : undefined,
+        method: "email",
+        confidence: 1,
+        now,
+      });
+      result.matched.email++;
+      continue;
+    }
+
+    // Email domain against company domains; the name breaks ties
+    const domain = email?.split("@")[1];
+    if (domain && !FREEMAIL_DOMAINS.has(domain)) {
+      const byDomain = (companiesByDomain.get(normalizeDomain(domain)) ?? []).filter((c) => !isRejected(c.id));
+      if (byDomain.length > 0) {
+        const ranked = byDomain.map(scoreAgainst).sort((a, b) => b.score - a.score);
+        if (byDomain.length === 1 || isClearWinner(ranked)) {
+          const company = byDomain.find((c) => c.id === ranked[0].hubspot_company_id)!;
+          await applyMatch(supabase, organizationId, customer, {
+            company,
+            method: "domain",
+            confidence: DOMAIN_CONFIDENCE,
+            now,
+          });
+          result.matched.domain++;
+        } else {
+          await queueReview(supabase, organizationId, customer, "domain", ranked, DOMAIN_CONFIDENCE / ranked.length);
+          result.queued++;
+        }
+        continue;
+      }
+    }
+
+    // Fuzzy company name, compared only against companies sharing a token
+    if (!name) continue;
+    const blocked = new Set(
+      normalizeCompanyName(name)
+        .split(" ")
+        .flatMap((token) => companiesByToken.get(token) ?? [])
+    );
+    const ranked = [...blocked]
+      .filter((c) => !isRejected(c.id))
+      .map(scoreAgainst)
+      .filter((c) => c.score >= NAME_REVIEW_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    if (ranked.length === 0) continue;
+
+    if (isClearWinner(ranked)) {
+      await applyMatch(supabase, organizationId, customer, {
+        company: liveCompanies.find((c) => c.id === ranked[0].hubspot_company_id)!,
+        method: "name",
+        confidence: ranked[0].score,
+        now,
+      });
+      result.matched.name++;
+    } else {
+      await queueReview(supabase, organizationId, customer, "name", ranked, ranked[0].score);
+      result.queued++;
+    }
+  }
+
+  // 3. Billing fields from the linked subscriptions
+  result.recomputed = await recomputeCustomerBilling(supabase, organizationId, customers, { now });
+  return result;
+}
+
+/**
+ * Set MRR, tenure and billing interval on each customer from the live
+ * subscriptions of every Stripe customer linked to it, including ones
+ * brought in by a merge. Customers without any subscriptions are left
+ * alone. Returns how many customers changed.
+ */
+export async function recomputeCustomerBilling(
+  supabase: DbClient,
+  organizationId: string,
+  customers: UnifiedCustomer[],
+  options: { now?: Date } = {}
+): Promise<number> {
+  const converter = await loadCurrencyConverter(supabase, organizationId);
+  const billing = await getSubscriptionBilling(
+    supabase,
+    organizationId,
+    customers.flatMap(linkedStripeCustomerIds),
+    { now: options.now, converter }
+  );
+
+  let changed = 0;
+  for (const customer of customers) {
+    const linked = linkedStripeCustomerIds(customer)
+      .map((id) => billing.get(id))
+      .filter((b): b is SubscriptionBilling => !!b?.startedAt);
+    if (linked.length === 0) continue;
+
+    const currencyFields = billingCurrencyFields(converter, linked);
+    const tenureMonths = Math.max(...linked.map((b) => b.tenureMonths));
+    const largest = linked.filter((b) => b.live).sort((a, b) => b.mrr - a.mrr)[0];
+    const interval = largest?.interval ?? customer.billing_interval;
+
+    if (
+      currencyFields.mrr === Number(customer.mrr) &&
+      currencyFields.currency === (customer.currency ?? null) &&
+      currencyFields.mrr_billing === (customer.mrr_billing == null ? null : Number(customer.mrr_billing)) &&
+      tenureMonths === customer.tenure_months &&
+      interval === customer.billing_interval
+    ) {
+      continue;
+    }
+
+    const updates = { ...currencyFields, tenure_months: tenureMonths, billing_interval: interval };
+    await updateCustomer(supabase, organizationId, customer.id, updates as never);
+    Object.assign(customer, updates);
+    changed++;
+  }
+  return changed;
+}
+
+export async function listIdentityReviews(
+  supabase: DbClient,
+  organizationId: string,
+  status: IdentityMatchReview["status"] = "pending"
+): Promise<IdentityMatchReview[]> {
+  const { data, error } = await supabase
+    .from("identity_match_reviews")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("status", status)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as IdentityMatchReview[];
+}
+
+/**
+ * Accept one of a review's candidates, linking it to the customer, or
+ * reject them all so later runs don't suggest them again
+ */
+export async function resolveIdentityReview(
+  supabase: DbClient,
+  organizationId: string,
+  reviewId: string,
+  decision: { action: "accept" | "reject"; candidateIndex?: number; resolvedBy?: string }
+): Promise<IdentityReviewResult | null> {
+  const { data, error } = await supabase
+    .from("identity_match_reviews")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", reviewId)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  const review = data as IdentityMatchReview | null;
+  if (!review) return null;
+  if (review.status !== "pending") {
+    return { status: "skipped", reason: `Review is already ${review.status}` };
+  }
+
+  if (decision.action === "accept") {
+    const candidate = review.candidates[decision.candidateIndex ?? 0];
+    if (!candidate) {
+      return { status: "skipped", reason: `Review has no candidate ${decision.candidateIndex ?? 0}` };
+    }
+
+    const customer = await getCustomer(supabase, organizationId, review.unified_customer_id);
+    if (!customer) return null;
+    const [company, contact] = await Promise.all([
+      candidate.hubspot_company_id
+        ? getById<HubSpotCompany>(supabase, "hubspot_companies", organizationId, candidate.hubspot_company_id)
+        : undefined,
+      candidate.hubspot_contact_id
+        ? getById<HubSpotContact>(supabase, "hubspot_contacts", organizationId, candidate.hubspot_contact_id)
+        : undefined,
+    ]);
+    await applyMatch(supabase, organizationId, customer, {
+      company: company ?? undefined,
+      contact: contact ?? undefined,
+      method: "review",
+      confidence: 1,
+      now: new Date(),
+    });
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("identity_match_reviews")
+    .update({
+      status: decision.action === "accept" ? "accepted" : "rejected",
+      resolved_by: decision.resolvedBy,
+      resolved_at: new Date().toISOString(),
+    } as never)
+    .eq("organization_id", organizationId)
+    .eq("id", reviewId)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+  return { status: "resolved", review: updated as IdentityMatchReview };
+}
+
+/**
+ * Fold one unified customer into another. The target keeps its own links
+ * and fills any gaps from the source; transactions, expansion events, usage
+ * and score history move over, and the source row is kept in the target's
+ * metadata so the merge can be undone. Where the target already has a health
+ * score for the day, or an RFM score, its own is kept and the source's is
+ * kept in the snapshot instead; usage for a metric and day both have is
+ * summed.
+ */
+export async function mergeUnifiedCustomers(
+  supabase: DbClient,
+  organizationId: string,
+  sourceId: string,
+  targetId: string,
+  options: { mergedBy?: string } = {}
+): Promise<UnifiedCustomer | null> {
+  const [source, target] = await Promise.all([
+    getCustomer(supabase, organizationId, sourceId),
+    getCustomer(supabase, organizationId, targetId),
+  ]);
+  if (!source || !target) return null;
+
+  const transactionIds = await moveChildren(supabase, organizationId, "transactions", sourceId, targetId);
+  const expansionEventIds = await moveChildren(
+    supabase, organizationId, "customer_expansion_events", sourceId, targetId
+  );
+  const healthScores = await moveKeyedChildren<CustomerHealthScore>(
+    supabase, organizationId, "customer_health_scores", sourceId, targetId, (row) => row.score_date
+  );
+  const rfmScores = await moveKeyedChildren<CustomerRFMScore>(
+    supabase, organizationId, "customer_rfm_scores", sourceId, targetId, () => "current"
+  );
+  const usage = await moveKeyedChildren<UsageRecord>(
+    supabase, organizationId, "usage_records", sourceId, targetId, usageKey
+  );
+  await saveUsageTotals(
+    supabase,
+    usage.displaced.map((row) => {
+      const into = usage.kept.get(usageKey(row))!;
+      return { ...into, quantity: Number(into.quantity) + Number(row.quantity) };
+    })
+  );
+
+  // Billing fields are kept too: a target with no subscriptions of its own
+  // gets them back as they were
+  const filled: Partial<UnifiedCustomer> = {};
+  const targetBefore: Partial<UnifiedCustomer> = {
+    mrr: target.mrr,
+    tenure_months: target.tenure_months,
+    billing_interval: target.billing_interval ?? null,
+  } as Partial<UnifiedCustomer>;
+  for (const field of MERGE_FILL_FIELDS) {
+    if (target[field] == null && source[field] != null) {
+      Object.assign(filled, { [field]: source[field] });
+      Object.assign(targetBefore, { [field]: null });
+    }
+  }
+
+  const identity = getIdentityMetadata(target);
+  const snapshot: MergedCustomerSnapshot = {
+    customer: source,
+    target_before: targetBefore,
+    transaction_ids: transactionIds,
+    expansion_event_ids: expansionEventIds,
+    health_score_ids: healthScores.movedIds,
+    rfm_score_ids: rfmScores.movedIds,
+    displaced_health_scores: healthScores.displaced,
+    displaced_rfm_scores: rfmScores.displaced,
+    usage_record_ids: usage.movedIds,
+    folded_usage_records: usage.displaced,
+    merged_at: new Date().toISOString(),
+    merged_by: options.mergedBy,
+  };
+  const merged: UnifiedCustomer = {
+    ...target,
+    ...filled,
+    metadata: {
+      ...(target.metadata as Record<string, unknown>),
+      identity: {
+        method: "manual",
+        confidence: 1,
+        matched_at: snapshot.merged_at,
+        merged: [...(identity?.merged ?? []), snapshot],
+      },
+    } as never,
+  };
+
+  await updateCustomer(supabase, organizationId, targetId, { ...filled, metadata: merged.metadata });
+
+  const { error } = await supabase
+    .from("unified_customers")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("id", sourceId);
+  if (error) throw error;
+
+  await recomputeCustomerBilling(supabase, organizationId, [merged]);
+  return merged;
+}
+
+/**
+ * Undo a merge into this customer: the latest one, or the one that merged
+ * `mergedCustomerId`. The merged-away customer comes back with its own id,
+ * transactions, expansion events, usage and score history.
+ */
+export async function unmergeUnifiedCustomer(
+  supabase: DbClient,
+  organizationId: string,
+  customerId: string,
+  mergedCustomerId?: string
+): Promise<{ customer: UnifiedCustomer; restored: UnifiedCustomer } | null> {
+  const customer = await getCustomer(supabase, organizationId, customerId);
+  if (!customer) return null;
+
+  const identity = getIdentityMetadata(customer);
+  const history = identity?.merged ?? [];
+  const index = mergedCustomerId
+    ? history.findIndex((m) => m.customer.id === mergedCustomerId)
+    : history.length - 1;
+  if (index < 0) return null;
+  const snapshot = history[index];
+
+  const row: Partial<UnifiedCustomer> = { ...snapshot.customer };
+  delete row.arr; // Generated column
+  const { data, error } = await supabase
+    .from("unified_customers")
+    .insert(row as never)
+    .select()
+    .single();
+  if (error) throw error;
+  const restored = data as UnifiedCustomer;
+
+  await moveChildrenById(supabase, organizationId, "transactions", snapshot.transaction_ids, restored.id);
+  await moveChildrenById(supabase, organizationId, "customer_expansion_events", snapshot.expansion_event_ids, restored.id);
+  await moveChildrenById(supabase, organizationId, "customer_health_scores", snapshot.health_score_ids ?? [], restored.id);
+  await moveChildrenById(supabase, organizationId, "customer_rfm_scores", snapshot.rfm_score_ids ?? [], restored.id);
+  await reinsertChildren(supabase, "customer_health_scores", snapshot.displaced_health_scores ?? [], restored.id);
+  await reinsertChildren(supabase, "customer_rfm_scores", snapshot.displaced_rfm_scores ?? [], restored.id);
+  await moveChildrenById(supabase, organizationId, "usage_records", snapshot.usage_record_ids ?? [], restored.id);
+  await unfoldUsage(supabase, organizationId, customerId, snapshot.folded_usage_records ?? [], restored.id);
+
+  const remaining = history.filter((_, i) => i !== index);
+  const updated: UnifiedCustomer = {
+    ...customer,
+    ...snapshot.target_before,
+    metadata: {
+      ...(customer.metadata as Record<string, unknown>),
+      identity: { ...identity, merged: remaining },
+    } as never,
+  };
+  await updateCustomer(supabase, organizationId, customerId, {
+    ...snapshot.target_before,
+    metadata: updated.metadata,
+  });
+
+  await recomputeCustomerBilling(supabase, organizationId, [updated, restored]);
+  return { customer: updated, restored };
+}
+
+// Fields a merge copies from the source when the target has none
+const MERGE_FILL_FIELDS = [
+  "stripe_customer_id",
+  "hubspot_contact_id",
+  "hubspot_company_id",
+  "email",
+  "company_name",
+  "segment_id",
+  "current_tier_id",
+  "billing_interval",
+  "industry",
+  "company_size",
+  "country",
+  "employee_count",
+] as const satisfies readonly (keyof UnifiedCustomer)[];
+
+function linkedStripeCustomerIds(customer: UnifiedCustomer): string[] {
+  const merged = getIdentityMetadata(customer)?.merged ?? [];
+  return [
+    ...new Set(
+      [customer.stripe_customer_id, ...merged.map((m) => m.customer.stripe_customer_id)].filter(
+        (id): id is string => !!id
+      )
+    ),
+  ];
+}
+
+/**
+ * The top candidate is good enough and far enough ahead of the next one
+ */
+function isClearWinner(ranked: IdentityMatchCandidate[]): boolean {
+  return (
+    ranked[0].score >= NAME_AUTO_MATCH &&
+    (ranked.length === 1 || ranked[0].score - ranked[1].score >= NAME_AUTO_MARGIN)
+  );
+}
+
+async function applyMatch(
+  supabase: DbClient,
+  organizationId: string,
+  customer: UnifiedCustomer,
+  match: {
+    contact?: HubSpotContact;
+    company?: HubSpotCompany;
+    method: IdentityMatchMethod;
+    confidence: number;
+    now: Date;
+  }
+): Promise<void> {
+  const updates: Partial<UnifiedCustomer> = {
+    ...(match.contact && { hubspot_contact_id: match.contact.id }),
+    ...(match.company && { hubspot_company_id: match.company.id }),
+    ...(match.company?.industry && !customer.industry && { industry: match.company.industry }),
+    ...(match.company?.numberofemployees != null &&
+      customer.employee_count == null && { employee_count: match.company.numberofemployees }),
+    metadata: {
+      ...(customer.metadata as Record<string, unknown>),
+      identity: {
+        ...getIdentityMetadata(customer),
+        method: match.method,
+        confidence: match.confidence,
+        matched_at: match.now.toISOString(),
+      },
+    } as never,
+  };
+
+  await updateCustomer(supabase, organizationId, customer.id, updates);
+  Object.assign(customer, updates);
+}
+
+async function queueReview(
+  supabase: DbClient,
+  organizationId: string,
+  customer: UnifiedCustomer,
+  method: IdentityMatchReview["method"],
+  ranked: IdentityMatchCandidate[],
+  confidence: number
+): Promise<void> {
+  const candidates = ranked.slice(0, MAX_REVIEW_CANDIDATES);
+  const { error } = await supabase.from("identity_match_reviews").insert({
+    organization_id: organizationId,
+    unified_customer_id: customer.id,
+    stripe_customer_id: customer.stripe_customer_id,
+    method,
+    confidence: round(confidence),
+    candidates,
+    status: "pending",
+  } as never);
+  if (error) throw error;
+}
+
+async function moveChildren(
+  supabase: DbClient,
+  organizationId: string,
+  table: "transactions" | "customer_expansion_events",
+  fromCustomerId: string,
+  toCustomerId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from(table)
+    .update({ customer_id: toCustomerId } as never)
+    .eq("organization_id", organizationId)
+    .eq("customer_id", fromCustomerId)
+    .select("id");
+  if (error) throw error;
+  return ((data || []) as { id: string }[]).map((row) => row.id);
+}
+
+/**
+ * Move the source's rows for keys the target has no row for. Rows whose key
+ * the target already has stay put and are returned as displaced, alongside
+ * the target's rows by key.
+ */
+async function moveKeyedChildren<T extends { id: string; customer_id: string }>(
+  supabase: DbClient,
+  organizationId: string,
+  table: KeyedChildTable,
+  fromCustomerId: string,
+  toCustomerId: string,
+  key: (row: T) => string
+): Promise<{ movedIds: string[]; displaced: T[]; kept: Map<string, T> }> {
+  const rows = await selectCustomerRows<T>(supabase, table, organizationId, [fromCustomerId, toCustomerId]);
+  const kept = new Map(rows.filter((row) => row.customer_id === toCustomerId).map((row) => [key(row), row]));
+  const source = rows.filter((row) => row.customer_id === fromCustomerId);
+  const movedIds = source.filter((row) => !kept.has(key(row))).map((row) => row.id);
+
+  await moveChildrenById(supabase, organizationId, table, movedIds, toCustomerId);
+  return { movedIds, displaced: source.filter((row) => kept.has(key(row))), kept };
+}
+
+/**
+ * Take folded usage back off the target's records and give it back to the
+ * restored customer. Quantities floor at zero in case the target's record
+ * was overwritten since the merge.
+ */
+async function unfoldUsage(
+  supabase: DbClient,
+  organizationId: string,
+  customerId: string,
+  folded: UsageRecord[],
+  restoredId: string
+): Promise<void> {
+  if (folded.length === 0) return;
+  const current = new Map(
+    (await selectCustomerRows<UsageRecord>(supabase, "usage_records", organizationId, [customerId])).map((row) => [
+      usageKey(row),
+      row,
+    ])
+  );
+  await saveUsageTotals(
+    supabase,
+    folded.flatMap((row) => {
+      const into = current.get(usageKey(row));
+      return into ? [{ ...into, quantity: Math.max(0, Number(into.quantity) - Number(row.quantity)) }] : [];
+    })
+  );
+  await reinsertChildren(supabase, "usage_records", folded, restoredId);
+}
+
+async function saveUsageTotals(supabase: DbClient, rows: UsageRecord[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const batch = rows.slice(i, i + PAGE_SIZE).map((row) => ({
+      id: row.id,
+      organization_id: row.organization_id,
+      customer_id: row.customer_id,
+      metric: row.metric,
+      usage_date: row.usage_date,
+      quantity: row.quantity,
+      source: row.source,
+    }));
+    const { error } = await supabase.from("usage_records").upsert(batch as never[], {
+      onConflict: "organization_id,customer_id,metric,usage_date",
+    });
+    if (error) throw error;
+  }
+}
+
+function usageKey(row: Pick<UsageRecord, "metric" | "usage_date">): string {
+  return `${row.metric}|${row.usage_date}`;
+}
+
+async function moveChildrenById(
+  supabase: DbClient,
+  organizationId: string,
+  table: "transactions" | "customer_expansion_events" | KeyedChildTable,
+  ids: string[],
+  toCustomerId: string
+): Promise<void> {
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .update({ customer_id: toCustomerId } as never)
+      .eq("organization_id", organizationId)
+      .in("id", ids.slice(i, i + IN_CHUNK_SIZE));
+    if (error) throw error;
+  }
+}
+
+/**
+ * Put rows a merge displaced back under the restored customer, ids included
+ */
+async function reinsertChildren(
+  supabase: DbClient,
+  table: KeyedChildTable,
+  rows: object[],
+  customerId: string
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const batch = rows.slice(i, i + PAGE_SIZE).map((row) => {
+      const copy: Record<string, unknown> = { ...row, customer_id: customerId };
+      delete copy.rfm_score; // Generated column
+      return copy;
+    });
+    const { error } = await supabase.from(table).insert(batch as never);
+    if (error) throw error;
+  }
+}
+
+async function getCustomer(
+  supabase: DbClient,
+  organizationId: string,
+  customerId: string
+): Promise<UnifiedCustomer | null> {
+  return getById<UnifiedCustomer>(supabase, "unified_customers", organizationId, customerId);
+}
+
+async function getById<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "hubspot_companies" | "hubspot_contacts",
+  organizationId: string,
+  id: string
+): Promise<T | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", id)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return data as T | null;
+}
+
+async function updateCustomer(
+  supabase: DbClient,
+  organizationId: string,
+  customerId: string,
+  updates: Database["public"]["Tables"]["unified_customers"]["Update"]
+): Promise<void> {
+  const { error } = await supabase
+    .from("unified_customers")
+    .update(updates as never)
+    .eq("organization_id", organizationId)
+    .eq("id", customerId);
+  if (error) throw error;
+}
+
+async function selectAll<T>(
+  supabase: DbClient,
+  table: "stripe_customers" | "unified_customers" | "hubspot_contacts" | "hubspot_companies" | "identity_match_reviews",
+  organizationId: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function selectCustomerRows<T>(
+  supabase: DbClient,
+  table: KeyedChildTable,
+  organizationId: string,
+  customerIds: string[]
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("organization_id", organizationId)
+      .in("customer_id", customerIds)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/:?#]/)[0];
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    groups.set(k, [...(groups.get(k) ?? []), row]);
+  }
+  return groups;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -1,2 +1,14 @@
 export * from "./ontology-service";
 export * from "./decision-service";
+export * from "./analysis-run-service";
+export * from "./decision-outcome-service";
+export * from "./api-connection-service";
+export * from "./stripe-sync-service";
+export * from "./stripe-webhook-service";
+export * from "./hubspot-sync-service";
+export * from "./subscription-billing-service";
+export * from "./identity-resolution-service";
+export * from "./billing-import-service";
+export * from "./document-ingestion-service";
+export * from "./usage-service";
+export * from "./fx-service";
@@ -25,6 +25,9 @@ import {
   createOntologySnapshot,
   getCurrentOntology,
 } from "@/lib/db/ontology/snapshots";
+import { formatMoney } from "@/lib/fx";
+import type { FxRatesUsed } from "@/types/fx";
+import { DEFAULT_REPORTING_CURRENCY } from "./fx-service";
 
 type DbClient = SupabaseClient<Database>;
 
@@ -300,24 +303,45 @@ export async function buildOntologyContext(
     getCompetitors(supabase, organizationId, { activeOnly: true }),
   ]);
 
-  // Resolve currency symbol from company profile
+  // Resolve reporting currency from company profile
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const db = supabase as any;
-  const { data: org } = await db
-    .from("organizations")
-    .select("company_profile")
-    .eq("id", organizationId)
-    .single();
+  const [{ data: org }, { data: lastRun }] = await Promise.all([
+    db.from("organizations").select("company_profile").eq("id", organizationId).single(),
+    db
+      .from("analytics_run_log")
+      .select("fx_rates")
+      .eq("organization_id", organizationId)
+      .eq("status", "completed")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  const currency = ((org?.company_profile?.currency as string) || DEFAULT_REPORTING_CURRENCY).toUpperCase();
   const cs = (org?.company_profile?.currency_symbol as string) || "€";
+  const money = (amount: number) => formatMoney(amount, currency, cs);
 
   const sections: string[] = [];
 
+  // Currency basis, when customers pay in other currencies
+  const fx = lastRun?.fx_rates as FxRatesUsed | null | undefined;
+  if (fx && (fx.rates.length > 0 || fx.unconverted.length > 0)) {
+    const lines = [`- All amounts are in ${currency}`];
+    for (const r of fx.rates) {
+      lines.push(`- ${r.currency} converted at ${r.rate.toFixed(4)} ${currency} per ${r.currency} (rate of ${r.rate_date})`);
+    }
+    if (fx.unconverted.length > 0) {
+      lines.push(`- No rates for ${fx.unconverted.join(", ")}; those amounts are included unconverted`);
+    }
+    sections.push(`### Currency\n${lines.join("\n")}`);
+  }
+
   // Key Metrics
   if (ontology.economics) {
     sections.push(`### Key Metrics
 - Total Customers: ${ontology.economics.total_customers.toLocaleString()}
-- MRR: ${cs}${ontology.economics.total_mrr.toLocaleString()}
-- ARR: ${cs}${ontology.economics.total_arr.toLocaleString()}
+- MRR: ${money(ontology.economics.total_mrr)}
+- ARR: ${money(ontology.economics.total_arr)}
 - Net Revenue Retention: ${ontology.economics.net_revenue_retention || "N/A"}%
 - Concentration Risk: ${ontology.economics.concentration_risk_level || "unknown"}`);
   }
@@ -328,7 +352,7 @@ export async function buildOntologyContext(
       .sort((a, b) => a.position - b.position)
       .map(
         (t) =>
-          `| ${t.name} | ${cs}${t.price_monthly} | ${t.customer_count.toLocaleString()} | ${cs}${t.total_revenue.toLocaleString()} | ${(t.revenue_share * 100).toFixed(1)}% |`
+          `| ${t.name} | ${money(t.price_monthly)} | ${t.customer_count.toLocaleString()} | ${money(t.total_revenue)} | ${(t.revenue_share * 100).toFixed(1)}% |`
       )
       .join("\n");
 
@@ -344,7 +368,7 @@ ${tierRows}`);
     const segmentRows = ontology.segments
       .map(
         (s) =>
-          `| ${s.name} | ${s.customer_count.toLocaleString()} | ${cs}${s.avg_mrr.toLocaleString()} | ${cs}${s.avg_ltv.toLocaleString()} | ${(s.churn_rate * 100).toFixed(1)}% |`
+          `| ${s.name} | ${s.customer_count.toLocaleString()} | ${money(s.avg_mrr)} | ${money(s.avg_ltv)} | ${(s.churn_rate * 100).toFixed(1)}% |`
       )
       .join("\n");
 
@@ -0,0 +1,688 @@
+/**
+ * Stripe Sync Service
+ * Pulls customers, products, prices, subscriptions and invoices from the
+ * Stripe API into the stripe_* tables. A first sync pages through the list
+ * endpoints; later syncs replay the events created since last_sync_at.
+ * Progress and errors are recorded on the organization's api_connections row.
+ */
+
+import Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/types/database";
+import {
+  getOrCreateApiConnection,
+  isSyncRunning,
+  parseSyncStatus,
+  updateApiConnection,
+  type SyncStatusBase,
+} from "./api-connection-service";
+
+type DbClient = SupabaseClient<Database>;
+type Tables = Database["public"]["Tables"];
+
+export type StripeCustomerInsert = Tables["stripe_customers"]["Insert"];
+export type StripeProductInsert = Tables["stripe_products"]["Insert"];
+export type StripePriceInsert = Tables["stripe_prices"]["Insert"];
+export type StripeSubscriptionInsert = Tables["stripe_subscriptions"]["Insert"];
+export type StripeSubscriptionItemInsert = Tables["stripe_subscription_items"]["Insert"];
+export type StripeInvoiceInsert = Tables["stripe_invoices"]["Insert"];
+export type StripeInvoiceLineItemInsert = Tables["stripe_invoice_line_items"]["Insert"];
+
+export type StripeSyncResource =
+  | "products"
+  | "prices"
+  | "customers"
+  | "subscriptions"
+  | "subscription_items"
+  | "invoices"
+  | "invoice_line_items";
+
+/**
+ * Stored as JSON in api_connections.sync_status
+ */
+export interface StripeSyncStatus extends SyncStatusBase {
+  mode: "full" | "incremental";
+  phase?: StripeSyncResource | "events";
+  counts: Record<StripeSyncResource, number>;
+  since: string | null; // Incremental syncs: events from this time on
+}
+
+export interface StripeSyncOptions {
+  /** Secret key; defaults to STRIPE_SECRET_KEY */
+  apiKey?: string;
+  /** API origin; defaults to STRIPE_API_BASE or api.stripe.com */
+  apiBase?: string;
+  /** Use this client instead of building one from apiKey and apiBase */
+  client?: Stripe;
+  /** Page through every list endpoint even when last_sync_at is set */
+  full?: boolean;
+  pageSize?: number;
+  now?: Date;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+// Stripe keeps events for 30 days; older cursors need a full sync
+const EVENT_RETENTION_DAYS = 30;
+// Re-read a little before last_sync_at so events written during the last sync aren't missed
+const INCREMENTAL_OVERLAP_MS = 5 * 60 * 1000;
+
+const RESOURCES: StripeSyncResource[] = [
+  "products",
+  "prices",
+  "customers",
+  "subscriptions",
+  "subscription_items",
+  "invoices",
+  "invoice_line_items",
+];
+
+/**
+ * Build a Stripe client, optionally pointed at another API origin
+ */
+export function createStripeClient(apiKey?: string, apiBase?: string): Stripe {
+  const key = apiKey ?? process.env.STRIPE_SECRET_KEY;
+  if (!key) {
+    throw new Error("Missing STRIPE_SECRET_KEY");
+  }
+
+  const base = apiBase ?? process.env.STRIPE_API_BASE;
+  if (!base) {
+    return new Stripe(key);
+  }
+
+  const url = new URL(base);
+  return new Stripe(key, {
+    host: url.hostname,
+    port: url.port || (url.protocol === "http:" ? 80 : 443),
+    protocol: url.protocol === "http:" ? "http" : "https",
+  });
+}
+
+/**
+ * Sync an organization's Stripe account into the stripe_* tables
+ */
+export async function syncStripe(
+  supabase: DbClient,
+  organizationId: string,
+  options: StripeSyncOptions = {}
+): Promise<StripeSyncStatus> {
+  const now = options.now ?? new Date();
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const connection = await getOrCreateApiConnection(supabase, organizationId, "stripe");
+
+  if (isSyncRunning(parseSyncStatus(connection.sync_status), now)) {
+    throw new Error("A Stripe sync is already running for this organization");
+  }
+
+  const since = options.full ? null : incrementalSince(connection.last_sync_at, now);
+  const status: StripeSyncStatus = {
+    state: "running",
+    mode: since ? "incremental" : "full",
+    counts: Object.fromEntries(RESOURCES.map((r) => [r, 0])) as StripeSyncStatus["counts"],
+    pages: 0,
+    since: since?.toISOString() ?? null,
+    started_at: now.toISOString(),
+  };
+  await updateApiConnection(supabase, connection.id, { sync_status: JSON.stringify(status) });
+
+  try {
+    const client = options.client ?? createStripeClient(options.apiKey, options.apiBase);
+    const writer = new StripeWriter(supabase, organizationId, client, status);
+    const onPage = async (phase: StripeSyncStatus["phase"]) => {
+      status.phase = phase;
+      status.pages++;
+      await updateApiConnection(supabase, connection.id, { sync_status: JSON.stringify(status) });
+    };
+
+    if (since) {
+      await syncFromEvents(client, writer, since, pageSize, onPage);
+    } else {
+      await syncFromLists(client, writer, pageSize, onPage);
+    }
+
+    status.state = "succeeded";
+    status.phase = undefined;
+    status.finished_at = new Date().toISOString();
+    await updateApiConnection(supabase, connection.id, {
+      status: "connected",
+      // The start time, so changes made while this sync ran are picked up next time
+      last_sync_at: now.toISOString(),
+      sync_status: JSON.stringify(status),
+    });
+    return status;
+  } catch (error) {
+    status.state = "failed";
+    status.finished_at = new Date().toISOString();
+    status.error = error instanceof Error ? error.message : "Unknown error";
+    await updateApiConnection(supabase, connection.id, {
+      status: "error",
+      sync_status: JSON.stringify(status),
+    });
+    throw error;
+  }
+}
+
+// =============================================================================
+// SYNC MODES
+// =============================================================================
+
+type PageCallback = (phase: StripeSyncStatus["phase"]) => Promise<void>;
+
+async function syncFromLists(
+  client: Stripe,
+  writer: StripeWriter,
+  pageSize: number,
+  onPage: PageCallback
+): Promise<void> {
+  for await (const page of listPages((p) => client.products.list(p), pageSize)) {
+    await writer.saveProducts(page);
+    await onPage("products");
+  }
+  for await (const page of listPages((p) => client.prices.list({ ...p, expand: ["data.tiers"] }), pageSize)) {
+    await writer.savePrices(page);
+    await onPage("prices");
+  }
+  for await (const page of listPages((p) => client.customers.list(p), pageSize)) {
+    await writer.saveCustomers(page);
+    await onPage("customers");
+  }
+  for await (const page of listPages((p) => client.subscriptions.list({ ...p, status: "all" }), pageSize)) {
+    await writer.saveSubscriptions(page);
+    await onPage("subscriptions");
+  }
+  for await (const page of listPages((p) => client.invoices.list(p), pageSize)) {
+    await writer.saveInvoices(page);
+    await onPage("invoices");
+  }
+}
+
+/**
+ * Apply the latest state of every object changed since `since`. Events come
+ * newest first, so the first event seen for an object carries its current state.
+ */
+async function syncFromEvents(
+  client: Stripe,
+  writer: StripeWriter,
+  since: Date,
+  pageSize: number,
+  onPage: PageCallback
+): Promise<void> {
+  const latest = new Map<string, StripeSyncObject>();
+  const created = { gte: Math.floor(since.getTime() / 1000) };
+
+  for await (const page of listPages((p) => client.events.list({ ...p, created }), pageSize)) {
+    for (const event of page) {
+      const object = event.data.object as { id?: string; object?: string };
+      if (object.id && isSyncObject(object) && !latest.has(object.id)) {
+        latest.set(object.id, object);
+      }
+    }
+    await onPage("events");
+  }
+
+  await writer.saveObjects([...latest.values()]);
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+export type StripeSyncObject =
+  | Stripe.Product
+  | Stripe.Price
+  | Stripe.Customer
+  | Stripe.Subscription
+  | Stripe.Invoice;
+
+const SYNC_OBJECT_TYPES = new Set(["product", "price", "customer", "subscription", "invoice"]);
+
+function isSyncObject(object: { object?: string }): object is StripeSyncObject {
+  return !!object.object && SYNC_OBJECT_TYPES.has(object.object);
+}
+
+/**
+ * Upserts mapped Stripe objects, resolving the stripe_* foreign keys from
+ * rows already written. Parents must be saved before their children. Without
+ * a client, only the subscription items and invoice lines embedded in the
+ * objects are saved.
+ */
+export class StripeWriter {
+  constructor(
+    private supabase: DbClient,
+    private organizationId: string,
+    private client: Stripe | null,
+    private status?: StripeSyncStatus
+  ) {}
+
+  /**
+   * Save a mixed batch, parents first
+   */
+  async saveObjects(objects: StripeSyncObject[]): Promise<void> {
+    const ofType = <T extends StripeSyncObject>(type: string) =>
+      objects.filter((o) => o.object === type) as T[];
+
+    await this.saveProducts(ofType<Stripe.Product>("product"));
+    await this.savePrices(ofType<Stripe.Price>("price"));
+    await this.saveCustomers(ofType<Stripe.Customer>("customer"));
+    await this.saveSubscriptions(ofType<Stripe.Subscription>("subscription"));
+    await this.saveInvoices(ofType<Stripe.Invoice>("invoice"));
+  }
+
+  async saveProducts(products: Stripe.Product[]): Promise<void> {
+    await this.upsert("stripe_products", products.map((p) => mapStripeProduct(this.organizationId, p)));
+    this.count("products", products.length);
+  }
+
+  async savePrices(prices: Stripe.Price[]): Promise<void> {
+    const rows = prices.map((p) => mapStripePrice(this.organizationId, p));
+    const productIds = await this.idMap("stripe_products", rows.map((r) => r.stripe_product_id));
+    await this.upsert(
+      "stripe_prices",
+      rows.map((r) => ({ ...r, product_id: productIds.get(r.stripe_product_id) }))
+    );
+    this.count("prices", prices.length);
+  }
+
+  async saveCustomers(customers: Stripe.Customer[]): Promise<void> {
+    await this.upsert("stripe_customers", customers.map((c) => mapStripeCustomer(this.organizationId, c)));
+    this.count("customers", customers.length);
+  }
+
+  async saveSubscriptions(subscriptions: Stripe.Subscription[]): Promise<void> {
+    const itemsBySubscription = new Map<string, Stripe.SubscriptionItem[]>();
+    for (const subscription of subscriptions) {
+      itemsBySubscription.set(subscription.id, await this.allSubscriptionItems(subscription));
+    }
+
+    const rows = subscriptions.map((s) =>
+      mapStripeSubscription(this.organizationId, s, itemsBySubscription.get(s.id))
+    );
+    const customerIds = await this.idMap("stripe_customers", rows.map((r) => r.stripe_customer_id));
+    await this.upsert(
+      "stripe_subscriptions",
+      rows.map((r) => ({ ...r, customer_id: customerIds.get(r.stripe_customer_id) }))
+    );
+    this.count("subscriptions", subscriptions.length);
+
+    await this.removeStaleItems(subscriptions, itemsBySubscription);
+
+    const items = [...itemsBySubscription.values()].flat();
+    const itemRows = items.map((i) => mapStripeSubscriptionItem(this.organizationId, i));
+    const subscriptionIds = await this.idMap("stripe_subscriptions", itemRows.map((r) => r.stripe_subscription_id));
+    const priceIds = await this.idMap("stripe_prices", itemRows.map((r) => r.stripe_price_id));
+    await this.upsert(
+      "stripe_subscription_items",
+      itemRows.map((r) => ({
+        ...r,
+        subscription_id: subscriptionIds.get(r.stripe_subscription_id),
+        price_id: priceIds.get(r.stripe_price_id),
+      }))
+    );
+    this.count("subscription_items", items.length);
+  }
+
+  async saveInvoices(invoices: Stripe.Invoice[]): Promise<void> {
+    // Invoices without a customer can't satisfy stripe_customer_id
+    const rows = invoices
+      .map((i) => mapStripeInvoice(this.organizationId, i))
+      .filter((r): r is StripeInvoiceInsert => r !== null);
+    const customerIds = await this.idMap("stripe_customers", rows.map((r) => r.stripe_customer_id));
+    const subscriptionIds = await this.idMap(
+      "stripe_subscriptions",
+      rows.map((r) => r.stripe_subscription_id).filter((id): id is string => !!id)
+    );
+    await this.upsert(
+      "stripe_invoices",
+      rows.map((r) => ({
+        ...r,
+        customer_id: customerIds.get(r.stripe_customer_id),
+        subscription_id: r.stripe_subscription_id ? subscriptionIds.get(r.stripe_subscription_id) : undefined,
+      }))
+    );
+    this.count("invoices", rows.length);
+
+    const lines: StripeInvoiceLineItemInsert[] = [];
+    for (const invoice of invoices) {
+      if (!invoice.id || !rows.some((r) => r.stripe_id === invoice.id)) continue;
+      for (const line of await this.allInvoiceLines(invoice)) {
+        lines.push(mapStripeInvoiceLineItem(this.organizationId, invoice.id, line));
+      }
+    }
+    const invoiceIds = await this.idMap("stripe_invoices", lines.map((l) => l.stripe_invoice_id));
+    const priceIds = await this.idMap(
+      "stripe_prices",
+      lines.map((l) => l.stripe_price_id).filter((id): id is string => !!id)
+    );
+    const itemIds = await this.idMap(
+      "stripe_subscription_items",
+      lines.map((l) => l.subscription_item_id).filter((id): id is string => !!id)
+    );
+    await this.upsert(
+      "stripe_invoice_line_items",
+      lines.map((l) => ({
+        ...l,
+        invoice_id: invoiceIds.get(l.stripe_invoice_id),
+        price_id: l.stripe_price_id ? priceIds.get(l.stripe_price_id) : undefined,
+        // Mapped with the Stripe id; swap in the row id
+        subscription_item_id: l.subscription_item_id ? itemIds.get(l.subscription_item_id) : undefined,
+      }))
+    );
+    this.count("invoice_line_items", lines.length);
+  }
+
+  /**
+   * Drop item rows a subscription no longer has, e.g. the old price after a
+   * plan swap, so MRR doesn't count both. Subscriptions whose item list is
+   * truncated (no client to page it) are left alone.
+   */
+  private async removeStaleItems(
+    subscriptions: Stripe.Subscription[],
+    itemsBySubscription: Map<string, Stripe.SubscriptionItem[]>
+  ): Promise<void> {
+    for (const subscription of subscriptions) {
+      if (!this.client && subscription.items?.has_more) continue;
+      const current = (itemsBySubscription.get(subscription.id) ?? []).map((i) => i.id);
+
+      let query = this.supabase
+        .from("stripe_subscription_items")
+        .delete()
+        .eq("organization_id", this.organizationId)
+        .eq("stripe_subscription_id", subscription.id);
+      if (current.length > 0) query = query.not("stripe_id", "in", `(${current.join(",")})`);
+      const { error } = await query;
+      if (error) throw error;
+    }
+  }
+
+  private async allSubscriptionItems(subscription: Stripe.Subscription): Promise<Stripe.SubscriptionItem[]> {
+    if (!this.client || !subscription.items?.has_more) {
+      return subscription.items?.data ?? [];
+    }
+    const client = this.client;
+    const items: Stripe.SubscriptionItem[] = [];
+    for await (const page of listPages(
+      (p) => client.subscriptionItems.list({ ...p, subscription: subscription.id }),
+      DEFAULT_PAGE_SIZE
+    )) {
+      items.push(...page);
+    }
+    return items;
+  }
+
+  private async allInvoiceLines(invoice: Stripe.Invoice): Promise<Stripe.InvoiceLineItem[]> {
+    if (!this.client || (invoice.lines && !invoice.lines.has_more)) {
+      return invoice.lines?.data ?? [];
+    }
+    const client = this.client;
+    const lines: Stripe.InvoiceLineItem[] = [];
+    for await (const page of listPages(
+      (p) => client.invoices.listLineItems(invoice.id!, p),
+      DEFAULT_PAGE_SIZE
+    )) {
+      lines.push(...page);
+    }
+    return lines;
+  }
+
+  private async upsert<T extends keyof Tables>(table: T, rows: Tables[T]["Insert"][]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.supabase
+      .from(table)
+      .upsert(rows.map((r) => ({ ...r, synced_at: new Date().toISOString() })) as never[], {
+        onConflict: "organization_id,stripe_id",
+      });
+    if (error) throw error;
+  }
+
+  /**
+   * Row ids for the given Stripe ids
+   */
+  private async idMap(
+    table:
+      | "stripe_products"
+      | "stripe_prices"
+      | "stripe_customers"
+      | "stripe_subscriptions"
+      | "stripe_subscription_items"
+      | "stripe_invoices",
+    stripeIds: string[]
+  ): Promise<Map<string, string>> {
+    const ids = [...new Set(stripeIds)];
+    if (ids.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select("id, stripe_id")
+      .eq("organization_id", this.organizationId)
+      .in("stripe_id", ids);
+    if (error) throw error;
+
+    return new Map(((data || []) as { id: string; stripe_id: string }[]).map((r) => [r.stripe_id, r.id]));
+  }
+
+  private count(resource: StripeSyncResource, n: number) {
+    if (this.status) this.status.counts[resource] += n;
+  }
+}
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+export function mapStripeProduct(organizationId: string, product: Stripe.Product): StripeProductInsert {
+  return {
+    organization_id: organizationId,
+    stripe_id: product.id,
+    name: product.name,
+    description: product.description ?? undefined,
+    active: product.active,
+    default_price_id: idOf(product.default_price),
+    unit_label: product.unit_label ?? undefined,
+    statement_descriptor: product.statement_descriptor ?? undefined,
+    tax_code: idOf(product.tax_code),
+    images: product.images,
+    metadata: product.metadata,
+    stripe_created: toIso(product.created),
+  };
+}
+
+export function mapStripePrice(organizationId: string, price: Stripe.Price): StripePriceInsert {
+  return {
+    organization_id: organizationId,
+    stripe_id: price.id,
+    stripe_product_id: idOf(price.product)!,
+    active: price.active,
+    currency: price.currency,
+    unit_amount: price.unit_amount ?? undefined,
+    unit_amount_decimal: price.unit_amount_decimal ?? undefined,
+    type: price.type,
+    billing_scheme: price.billing_scheme,
+    recurring_interval: price.recurring?.interval,
+    recurring_interval_count: price.recurring?.interval_count,
+    recurring_usage_type: price.recurring?.usage_type,
+    tiers: price.tiers ? toJson(price.tiers) : undefined,
+    tiers_mode: price.tiers_mode ?? undefined,
+    transform_quantity: price.transform_quantity ? toJson(price.transform_quantity) : undefined,
+    metadata: price.metadata,
+    stripe_created: toIso(price.created),
+  };
+}
+
+export function mapStripeCustomer(organizationId: string, customer: Stripe.Customer): StripeCustomerInsert {
+  return {
+    organization_id: organizationId,
+    stripe_id: customer.id,
+    email: customer.email ?? undefined,
+    name: customer.name ?? undefined,
+    description: customer.description ?? undefined,
+    phone: customer.phone ?? undefined,
+    address: customer.address ? toJson(customer.address) : undefined,
+    currency: customer.currency ?? "eur",
+    balance: customer.balance ?? 0,
+    delinquent: customer.delinquent ?? false,
+    default_source: idOf(customer.default_source),
+    invoice_prefix: customer.invoice_prefix ?? undefined,
+    invoice_settings: customer.invoice_settings ? toJson(customer.invoice_settings) : undefined,
+    metadata: customer.metadata ?? {},
+    stripe_created: toIso(customer.created),
+  };
+}
+
+/**
+ * Billing periods live on subscription items; the first item's period stands
+ * in for the subscription's
+ */
+export function mapStripeSubscription(
+  organizationId: string,
+  subscription: Stripe.Subscription,
+  items: Stripe.SubscriptionItem[] = subscription.items?.data ?? []
+): StripeSubscriptionInsert {
+  const firstItem = items[0];
+  return {
+    organization_id: organizationId,
+    stripe_id: subscription.id,
+    stripe_customer_id: idOf(subscription.customer)!,
+    status: subscription.status,
+    current_period_start: toIso(firstItem?.current_period_start),
+    current_period_end: toIso(firstItem?.current_period_end),
+    cancel_at: toIso(subscription.cancel_at),
+    canceled_at: toIso(subscription.canceled_at),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    ended_at: toIso(subscription.ended_at),
+    trial_start: toIso(subscription.trial_start),
+    trial_end: toIso(subscription.trial_end),
+    collection_method: subscription.collection_method,
+    default_payment_method: idOf(subscription.default_payment_method),
+    billing_cycle_anchor: toIso(subscription.billing_cycle_anchor),
+    days_until_due: subscription.days_until_due ?? undefined,
+    metadata: subscription.metadata,
+    stripe_created: toIso(subscription.created),
+  };
+}
+
+export function mapStripeSubscriptionItem(
+  organizationId: string,
+  item: Stripe.SubscriptionItem
+): StripeSubscriptionItemInsert {
+  return {
+    organization_id: organizationId,
+    stripe_id: item.id,
+    stripe_subscription_id: item.subscription,
+    stripe_price_id: item.price.id,
+    quantity: item.quantity ?? 1,
+    metadata: item.metadata,
+    stripe_created: toIso(item.created),
+  };
+}
+
+/**
+ * Null for invoices with no customer
+ */
+export function mapStripeInvoice(organizationId: string, invoice: Stripe.Invoice): StripeInvoiceInsert | null {
+  const customerId = idOf(invoice.customer);
+  if (!invoice.id || !customerId) return null;
+
+  return {
+    organization_id: organizationId,
+    stripe_id: invoice.id,
+    stripe_customer_id: customerId,
+    stripe_subscription_id: idOf(invoice.parent?.subscription_details?.subscription),
+    status: invoice.status ?? "draft",
+    collection_method: invoice.collection_method,
+    currency: invoice.currency,
+    amount_due: invoice.amount_due,
+    amount_paid: invoice.amount_paid,
+    amount_remaining: invoice.amount_remaining,
+    subtotal: invoice.subtotal,
+    subtotal_excluding_tax: invoice.subtotal_excluding_tax ?? undefined,
+    tax: invoice.total_taxes?.reduce((sum, t) => sum + t.amount, 0),
+    total: invoice.total,
+    total_excluding_tax: invoice.total_excluding_tax ?? undefined,
+    period_start: toIso(invoice.period_start),
+    period_end: toIso(invoice.period_end),
+    due_date: toIso(invoice.due_date),
+    paid_at: toIso(invoice.status_transitions?.paid_at),
+    hosted_invoice_url: invoice.hosted_invoice_url ?? undefined,
+    invoice_pdf: invoice.invoice_pdf ?? undefined,
+    number: invoice.number ?? undefined,
+    metadata: invoice.metadata ?? {},
+    stripe_created: toIso(invoice.created),
+  };
+}
+
+/**
+ * `subscription_item_id` holds the Stripe subscription item id; writers swap
+ * in the stripe_subscription_items row id
+ */
+export function mapStripeInvoiceLineItem(
+  organizationId: string,
+  stripeInvoiceId: string,
+  line: Stripe.InvoiceLineItem
+): StripeInvoiceLineItemInsert {
+  const parent = line.parent;
+  const fromSubscription = parent?.type === "subscription_item_details";
+  const details = fromSubscription ? parent?.subscription_item_details : parent?.invoice_item_details;
+
+  return {
+    organization_id: organizationId,
+    stripe_id: line.id,
+    stripe_invoice_id: stripeInvoiceId,
+    type: fromSubscription ? "subscription" : "invoiceitem",
+    description: line.description ?? undefined,
+    currency: line.currency,
+    amount: line.amount,
+    quantity: line.quantity ?? undefined,
+    stripe_price_id: idOf(line.pricing?.price_details?.price),
+    subscription_item_id: parent?.subscription_item_details?.subscription_item,
+    period_start: toIso(line.period?.start),
+    period_end: toIso(line.period?.end),
+    proration: details?.proration ?? false,
+    metadata: line.metadata,
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Walk a Stripe list endpoint a page at a time
+ */
+async function* listPages<T extends { id?: string }>(
+  list: (params: { limit: number; starting_after?: string }) => Promise<Stripe.ApiList<T>>,
+  pageSize: number
+): AsyncGenerator<T[]> {
+  let startingAfter: string | undefined;
+  while (true) {
+    const page = await list({ limit: pageSize, starting_after: startingAfter });
+    if (page.data.length > 0) {
+      yield page.data;
+    }
+    const last = page.data[page.data.length - 1];
+    if (!page.has_more || !last?.id) return;
+    startingAfter = last.id;
+  }
+}
+
+/**
+ * Where an incremental sync starts, or null when a full sync is needed
+ */
+function incrementalSince(lastSyncAt: string | undefined, now: Date): Date | null {
+  if (!lastSyncAt) return null;
+  const since = new Date(new Date(lastSyncAt).getTime() - INCREMENTAL_OVERLAP_MS);
+  const oldestEvent = now.getTime() - EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return since.getTime() > oldestEvent ? since : null;
+}
+
+function idOf(value: string | { id?: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toIso(seconds: number | null | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function toJson(value: unknown): Json {
+  return value as Json;
+}
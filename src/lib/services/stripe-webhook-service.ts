@@ -0,0 +1,350 @@
+/**
+ * Stripe Webhook Service
+ * Applies Stripe webhook events (customer.updated, subscription updates and
+ * cancellations, invoice.paid) to the stripe_* tables and to the unified
+ * customer they belong to: MRR, status and churn date, plus an expansion
+ * event when a subscription's price changes. Each Stripe event id is applied
+ * at most once, so redeliveries and replays are safe, and an event older than
+ * one already applied to the same object is skipped.
+ */
+
+import Stripe from "stripe";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Database,
+  PricingTier,
+  UnifiedCustomer,
+} from "@/types/database";
+import { getPricingTiers } from "@/lib/db/ontology/tiers";
+import { StripeWriter } from "./stripe-sync-service";
+import { billingCurrencyFields, getSubscriptionBilling } from "./subscription-billing-service";
+import { loadCurrencyConverter } from "./fx-service";
+
+type DbClient = SupabaseClient<Database>;
+
+/** A received event not finished after this long is assumed abandoned */
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export interface StripeWebhookResult {
+  eventId: string;
+  type: string;
+  status: "processed" | "ignored" | "duplicate" | "stale";
+}
+
+/**
+ * Verify a webhook payload against its Stripe-Signature header. Throws when
+ * the signature doesn't match or the secret is missing.
+ */
+export function verifyStripeWebhook(
+  payload: string,
+  signature: string | null,
+  secret: string | undefined = process.env.STRIPE_WEBHOOK_SECRET
+): Stripe.Event {
+  if (!secret) {
+    throw new Error("Missing STRIPE_WEBHOOK_SECRET");
+  }
+  if (!signature) {
+    throw new Error("Missing Stripe-Signature header");
+  }
+  return Stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+/**
+ * Apply one verified event. Events already processed (or ignored), or being
+ * applied by a concurrent delivery, are skipped; failed ones are retried on
+ * redelivery. Stripe doesn't guarantee delivery order, so an event older than
+ * one already applied to the same object is recorded as ignored and reported
+ * stale.
+ */
+export async function handleStripeWebhookEvent(
+  supabase: DbClient,
+  organizationId: string,
+  event: Stripe.Event,
+  options: { client?: Stripe | null } = {}
+): Promise<StripeWebhookResult> {
+  const result = { eventId: event.id, type: event.type };
+
+  if (!(await claimEvent(supabase, organizationId, event))) {
+    return { ...result, status: "duplicate" };
+  }
+
+  try {
+    const newer = await newerAppliedEvent(supabase, organizationId, event);
+    if (newer) {
+      await markEvent(supabase, organizationId, event.id, {
+        status: "ignored",
+        error: `Superseded by ${newer}`,
+        processed_at: new Date().toISOString(),
+      });
+      return { ...result, status: "stale" };
+    }
+
+    const handled = await applyEvent(supabase, organizationId, event, options.client ?? null);
+    await markEvent(supabase, organizationId, event.id, {
+      status: handled ? "processed" : "ignored",
+      processed_at: new Date().toISOString(),
+    });
+    return { ...result, status: handled ? "processed" : "ignored" };
+  } catch (error) {
+    await markEvent(supabase, organizationId, event.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    throw error;
+  }
+}
+
+/**
+ * Returns false for event types this service doesn't handle
+ */
+async function applyEvent(
+  supabase: DbClient,
+  organizationId: string,
+  event: Stripe.Event,
+  client: Stripe | null
+): Promise<boolean> {
+  const writer = new StripeWriter(supabase, organizationId, client);
+  const occurredAt = new Date(event.created * 1000).toISOString();
+
+  switch (event.type) {
+    case "customer.updated": {
+      const customer = event.data.object;
+      await writer.saveCustomers([customer]);
+      await applyDelinquency(supabase, organizationId, customer);
+      return true;
+    }
+
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object;
+      // Items carry their prices; save those first so MRR can be read back
+      await writer.savePrices((subscription.items?.data ?? []).map((item) => item.price));
+      await writer.saveSubscriptions([subscription]);
+
+      const priceChanged =
+        event.type === "customer.subscription.updated" &&
+        event.data.previous_attributes?.items !== undefined;
+      await applySubscriptionChange(supabase, organizationId, subscription, {
+        priceChanged,
+        occurredAt,
+      });
+      return true;
+    }
+
+    case "invoice.paid": {
+      await writer.saveInvoices([event.data.object]);
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Recompute the unified customer's MRR and status from their live
+ * subscriptions, recording an expansion event when a price change moved MRR
+ */
+async function applySubscriptionChange(
+  supabase: DbClient,
+  organizationId: string,
+  subscription: Stripe.Subscription,
+  change: { priceChanged: boolean; occurredAt: string }
+): Promise<void> {
+  const customer = await getUnifiedCustomerForStripe(
+    supabase,
+    organizationId,
+    typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id
+  );
+  if (!customer?.stripe_customer_id) return;
+
+  const [tiers, converter] = await Promise.all([
+    getPricingTiers(supabase, organizationId),
+    loadCurrencyConverter(supabase, organizationId),
+  ]);
+  const billing = (
+    await getSubscriptionBilling(supabase, organizationId, [customer.stripe_customer_id], { tiers, converter })
+  ).get(customer.stripe_customer_id)!;
+
+  if (change.priceChanged && billing.live && billing.mrr !== Number(customer.mrr)) {
+    const { error } = await supabase.from("customer_expansion_events").insert({
+      organization_id: organizationId,
+      customer_id: customer.id,
+      event_type: expansionEventType(Number(customer.mrr), billing.mrr, customer.current_tier_id, billing.tierId, tiers),
+      from_mrr: Number(customer.mrr),
+      to_mrr: billing.mrr,
+      from_tier_id: customer.current_tier_id,
+      to_tier_id: billing.tierId ?? customer.current_tier_id,
+      reason: `Stripe subscription ${subscription.id} price change`,
+      occurred_at: change.occurredAt,
+    } as never);
+    if (error) throw error;
+  }
+
+  const endedAt = subscription.ended_at ?? subscription.canceled_at;
+  const updates = billing.live
+    ? {
+        ...billingCurrencyFields(converter, [billing]),
+        status: customer.status === "churned" ? "active" : customer.status,
+        churned_at: null,
+        current_tier_id: billing.tierId ?? customer.current_tier_id,
+        billing_interval: billing.interval ?? customer.billing_interval,
+      }
+    : {
+        mrr: 0,
+        ...(customer.currency && { mrr_billing: 0 }),
+        status: "churned",
+        churned_at: endedAt ? new Date(endedAt * 1000).toISOString() : change.occurredAt,
+      };
+
+  const { error } = await supabase
+    .from("unified_customers")
+    .update(updates as never)
+    .eq("organization_id", organizationId)
+    .eq("id", customer.id);
+  if (error) throw error;
+}
+
+/**
+ * Flag delinquent customers at risk, and clear the flag once they pay up
+ */
+async function applyDelinquency(
+  supabase: DbClient,
+  organizationId: string,
+  stripeCustomer: Stripe.Customer
+): Promise<void> {
+  const customer = await getUnifiedCustomerForStripe(supabase, organizationId, stripeCustomer.id);
+  if (!customer || customer.status === "churned") return;
+
+  const status = stripeCustomer.delinquent ? "at_risk" : customer.status === "at_risk" ? "active" : customer.status;
+  if (status === customer.status) return;
+
+  const { error } = await supabase
+    .from("unified_customers")
+    .update({ status } as never)
+    .eq("organization_id", organizationId)
+    .eq("id", customer.id);
+  if (error) throw error;
+}
+
+async function getUnifiedCustomerForStripe(
+  supabase: DbClient,
+  organizationId: string,
+  stripeCustomerId: string
+): Promise<UnifiedCustomer | null> {
+  const { data: stripeCustomer, error: stripeError } = await supabase
+    .from("stripe_customers")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .eq("stripe_id", stripeCustomerId)
+    .single();
+
+  if (stripeError && stripeError.code !== "PGRST116") throw stripeError;
+  if (!stripeCustomer) return null;
+
+  const { data, error } = await supabase
+    .from("unified_customers")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("stripe_customer_id", (stripeCustomer as { id: string }).id)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return data as UnifiedCustomer | null;
+}
+
+/**
+ * Tier moves are upgrades or downgrades; price moves within a tier are
+ * expansion or contraction
+ */
+function expansionEventType(
+  fromMrr: number,
+  toMrr: number,
+  fromTierId: string | undefined,
+  toTierId: string | undefined,
+  tiers: PricingTier[]
+): "upgrade" | "downgrade" | "expansion" | "contraction" {
+  const from = tiers.find((t) => t.id === fromTierId);
+  const to = tiers.find((t) => t.id === toTierId);
+  if (from && to && from.id !== to.id) {
+    return to.position > from.position ? "upgrade" : "downgrade";
+  }
+  return toMrr > fromMrr ? "expansion" : "contraction";
+}
+
+/**
+ * Claim an event for this delivery. The first delivery inserts the row; a
+ * later one can only take over a failed event, or a received one whose
+ * delivery stalled. Each step is a single statement, so concurrent deliveries
+ * of the same event can't both win. Returns false when the claim fails.
+ */
+async function claimEvent(supabase: DbClient, organizationId: string, event: Stripe.Event): Promise<boolean> {
+  const { data: inserted, error: insertError } = await supabase
+    .from("stripe_webhook_events")
+    .upsert(
+      {
+        organization_id: organizationId,
+        stripe_event_id: event.id,
+        type: event.type,
+        status: "received",
+        object_id: eventObjectId(event),
+        stripe_created: new Date(event.created * 1000).toISOString(),
+      } as never,
+      { onConflict: "organization_id,stripe_event_id", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (insertError) throw insertError;
+  if (inserted && inserted.length > 0) return true;
+
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const { data: reclaimed, error: reclaimError } = await supabase
+    .from("stripe_webhook_events")
+    .update({ status: "received", error: null, received_at: new Date().toISOString() } as never)
+    .eq("organization_id", organizationId)
+    .eq("stripe_event_id", event.id)
+    .or(`status.eq.failed,and(status.eq.received,received_at.lt."${staleBefore}")`)
+    .select("id");
+  if (reclaimError) throw reclaimError;
+  return (reclaimed ?? []).length > 0;
+}
+
+/**
+ * The id of a processed event for the same object created after this one
+ */
+async function newerAppliedEvent(
+  supabase: DbClient,
+  organizationId: string,
+  event: Stripe.Event
+): Promise<string | null> {
+  const objectId = eventObjectId(event);
+  if (!objectId) return null;
+
+  const { data, error } = await supabase
+    .from("stripe_webhook_events")
+    .select("stripe_event_id")
+    .eq("organization_id", organizationId)
+    .eq("object_id", objectId)
+    .eq("status", "processed")
+    .gt("stripe_created", new Date(event.created * 1000).toISOString())
+    .limit(1);
+  if (error) throw error;
+  return ((data || []) as { stripe_event_id: string }[])[0]?.stripe_event_id ?? null;
+}
+
+function eventObjectId(event: Stripe.Event): string | null {
+  return (event.data.object as { id?: string }).id ?? null;
+}
+
+async function markEvent(
+  supabase: DbClient,
+  organizationId: string,
+  stripeEventId: string,
+  updates: Database["public"]["Tables"]["stripe_webhook_events"]["Update"]
+): Promise<void> {
+  const { error } = await supabase
+    .from("stripe_webhook_events")
+    .update(updates as never)
+    .eq("organization_id", organizationId)
+    .eq("stripe_event_id", stripeEventId);
+  if (error) throw error;
+}
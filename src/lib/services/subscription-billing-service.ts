@@ -0,0 +1,213 @@
+/**
+ * Subscription Billing Service
+ * Derives a customer's MRR, tier, billing interval and tenure from their
+ * synced Stripe subscriptions. MRR is converted into the reporting currency
+ * at the latest rate; the billing-currency amount is kept alongside.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Database,
+  PricingTier,
+  StripePrice,
+  StripeProduct,
+  StripeSubscription,
+  StripeSubscriptionItem,
+  UnifiedCustomer,
+} from "@/types/database";
+import type { FxConversion } from "@/types/fx";
+import { customerCurrencyFields, loadCurrencyConverter, type CurrencyConverter } from "./fx-service";
+
+type DbClient = SupabaseClient<Database>;
+
+export interface SubscriptionBilling {
+  live: boolean; // Has a subscription that still bills
+  mrr: number; // Reporting currency, major units, live subscriptions only
+  currency?: string; // Billing currency of the largest live item, upper case
+  mrrBilling: number; // MRR in the billing currency
+  fx?: FxConversion; // How mrrBilling became mrr; absent when nothing was live
+  tierId?: string;
+  interval?: UnifiedCustomer["billing_interval"];
+  startedAt?: string; // Earliest subscription start
+  endedAt?: string; // Latest end, when nothing is live
+  tenureMonths: number;
+}
+
+// Subscriptions in these states still bill the customer
+export const LIVE_SUBSCRIPTION_STATUSES: StripeSubscription["status"][] = ["active", "trialing", "past_due"];
+
+// Keeps `.in()` filters well inside URL length limits
+const IN_CHUNK_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Billing for each stripe_customers row id. Every requested id gets an
+ * entry; customers with no subscriptions come back not live with zero MRR.
+ * The tier comes from the largest live item, by product name or the price's
+ * `tier` metadata.
+ */
+export async function getSubscriptionBilling(
+  supabase: DbClient,
+  organizationId: string,
+  stripeCustomerRowIds: string[],
+  options: { tiers?: PricingTier[]; now?: Date; converter?: CurrencyConverter } = {}
+): Promise<Map<string, SubscriptionBilling>> {
+  const now = options.now ?? new Date();
+  const converter = options.converter ?? (await loadCurrencyConverter(supabase, organizationId));
+  const customerIds = [...new Set(stripeCustomerRowIds)];
+
+  const subscriptions = await selectIn<StripeSubscription>(
+    supabase, "stripe_subscriptions", organizationId, "customer_id", customerIds
+  );
+  const items = await selectIn<StripeSubscriptionItem>(
+    supabase, "stripe_subscription_items", organizationId, "subscription_id", subscriptions.map((s) => s.id)
+  );
+  const prices = new Map(
+    (await selectIn<StripePrice>(
+      supabase, "stripe_prices", organizationId, "stripe_id", items.map((i) => i.stripe_price_id)
+    )).map((p) => [p.stripe_id, p])
+  );
+  const productNames = new Map(
+    (await selectIn<StripeProduct>(
+      supabase, "stripe_products", organizationId, "stripe_id", [...prices.values()].map((p) => p.stripe_product_id)
+    )).map((p) => [p.stripe_id, p.name])
+  );
+
+  const itemsBySubscription = groupBy(items, (i) => i.subscription_id ?? "");
+  const subscriptionsByCustomer = groupBy(subscriptions, (s) => s.customer_id ?? "");
+
+  const result = new Map<string, SubscriptionBilling>();
+  for (const customerId of customerIds) {
+    const subs = subscriptionsByCustomer.get(customerId) ?? [];
+    const live = subs.filter((s) => LIVE_SUBSCRIPTION_STATUSES.includes(s.status));
+
+    // Minor units per billing currency
+    const centsByCurrency = new Map<string, number>();
+    let top: { amount: number; price: StripePrice } | null = null;
+    for (const sub of live) {
+      for (const item of itemsBySubscription.get(sub.id) ?? []) {
+        const price = prices.get(item.stripe_price_id);
+        if (!price) continue;
+        const amount = monthlyAmount(price) * (item.quantity ?? 1);
+        const currency = price.currency.toUpperCase();
+        centsByCurrency.set(currency, (centsByCurrency.get(currency) ?? 0) + amount);
+        // Largest compared in the reporting currency
+        const reportingAmount = converter.convert(amount, currency, now).amount;
+        if (!top || reportingAmount > top.amount) top = { amount: reportingAmount, price };
+      }
+    }
+
+    const currency = top?.price.currency.toUpperCase();
+    let mrr = 0;
+    for (const [code, cents] of centsByCurrency) {
+      mrr += converter.convert(Math.round(cents) / 100, code, now).amount;
+    }
+    mrr = Math.round(mrr * 100) / 100;
+    const fx = currency ? converter.convert(1, currency, now) : undefined;
+    // Items in another currency count in the billing currency at their reporting value
+    const mrrBilling = centsByCurrency.size === 1
+      ? Math.round([...centsByCurrency.values()][0]) / 100
+      : fx ? Math.round((mrr / fx.rate) * 100) / 100 : 0;
+
+    let tierId: string | undefined;
+    if (top && options.tiers) {
+      const metadataTier = (top.price.metadata as Record<string, unknown> | null)?.tier;
+      const names = [productNames.get(top.price.stripe_product_id), metadataTier]
+        .filter((n): n is string => typeof n === "string")
+        .map((n) => n.toLowerCase());
+      tierId = options.tiers.find((t) => names.includes(t.name.toLowerCase()))?.id;
+    }
+
+    const starts = subs.map((s) => s.stripe_created ?? s.current_period_start).filter((d): d is string => !!d);
+    const ends = subs.map((s) => s.ended_at ?? s.canceled_at).filter((d): d is string => !!d);
+    const startedAt = starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : undefined;
+    const endedAt = live.length === 0 && ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : undefined;
+    const until = endedAt ? new Date(endedAt) : now;
+    const interval = top?.price.recurring_interval;
+
+    result.set(customerId, {
+      live: live.length > 0,
+      mrr,
+      currency,
+      mrrBilling,
+      fx: fx && { ...fx, amount: mrr },
+      tierId,
+      interval: interval === "year" ? "annual" : interval === "month" ? "monthly" : undefined,
+      startedAt,
+      endedAt,
+      tenureMonths: startedAt
+        ? Math.max(0, Math.floor((until.getTime() - new Date(startedAt).getTime()) / (30 * DAY_MS)))
+        : 0,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * unified_customers MRR and currency columns for the billing of one or more
+ * linked Stripe customers (or imported subscriptions). The billing currency is the largest live one's;
+ * amounts in other currencies count at their reporting value.
+ */
+export function billingCurrencyFields(
+  converter: CurrencyConverter,
+  billings: Pick<SubscriptionBilling, "live" | "mrr" | "currency" | "mrrBilling" | "fx">[]
+): ReturnType<typeof customerCurrencyFields> {
+  const live = billings.filter((b) => b.live);
+  const mrr = Math.round(live.reduce((sum, b) => sum + b.mrr, 0) * 100) / 100;
+  const largest = [...live].sort((a, b) => b.mrr - a.mrr)[0];
+  if (!largest?.currency) return { ...customerCurrencyFields(converter, mrr, null), mrr };
+
+  const mrrBilling = live.every((b) => b.currency === largest.currency)
+    ? Math.round(live.reduce((sum, b) => sum + b.mrrBilling, 0) * 100) / 100
+    : Math.round((mrr / (largest.fx?.rate || 1)) * 100) / 100;
+  return { ...customerCurrencyFields(converter, mrrBilling, largest.currency), mrr };
+}
+
+/**
+ * A recurring price's amount per month, in minor units. Metered and tiered
+ * prices have no fixed amount and count as zero.
+ */
+export function monthlyAmount(price: StripePrice): number {
+  if (price.type !== "recurring" || price.recurring_usage_type === "metered" || price.unit_amount == null) {
+    return 0;
+  }
+  const perInterval: Record<NonNullable<StripePrice["recurring_interval"]>, number> = {
+    day: 365 / 12,
+    week: 52 / 12,
+    month: 1,
+    year: 1 / 12,
+  };
+  const factor = perInterval[price.recurring_interval ?? "month"];
+  return (price.unit_amount * factor) / (price.recurring_interval_count || 1);
+}
+
+async function selectIn<T>(
+  supabase: DbClient,
+  table: "stripe_subscriptions" | "stripe_subscription_items" | "stripe_prices" | "stripe_products",
+  organizationId: string,
+  column: string,
+  values: string[]
+): Promise<T[]> {
+  const unique = [...new Set(values)];
+  const rows: T[] = [];
+  for (let i = 0; i < unique.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("organization_id", organizationId)
+      .in(column, unique.slice(i, i + IN_CHUNK_SIZE));
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    groups.set(k, [...(groups.get(k) ?? []), row]);
+  }
+  return groups;
+}
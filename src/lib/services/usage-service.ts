@@ -0,0 +1,202 @@
+/**
+ * Usage Service
+ * Ingests per-customer, per-metric, per-day usage into usage_records.
+ * Customers are resolved from their unified id, Stripe id or email; metrics
+ * are stored under their snake_case key. Records for a day replace what was
+ * stored for it, so re-sending a day is safe. Invalid records are skipped
+ * and reported by position.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, UsageRecord } from "@/types/database";
+import type { UsageIngestionError, UsageIngestionResult, UsageRecordInput } from "@/types/usage";
+import { usageMetricKey } from "@/lib/analytics/usage";
+
+type DbClient = SupabaseClient<Database>;
+
+type UsageInsert = Database["public"]["Tables"]["usage_records"]["Insert"];
+
+export const MAX_USAGE_RECORDS = 10000;
+
+const BATCH_SIZE = 1000;
+const LOOKUP_CHUNK = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validate and upsert usage records for an organization
+ */
+export async function ingestUsageRecords(
+  supabase: DbClient,
+  organizationId: string,
+  records: UsageRecordInput[],
+  options: { source?: UsageRecord["source"]; now?: Date } = {}
+): Promise<UsageIngestionResult> {
+  const source = options.source ?? "api";
+  const today = (options.now ?? new Date()).toISOString().split("T")[0];
+  const errors: UsageIngestionError[] = [];
+
+  const valid: { record: UsageRecordInput; index: number }[] = [];
+  records.forEach((record, index) => {
+    const error = validateRecord(record, today);
+    if (error) errors.push({ index, ...error });
+    else valid.push({ record, index });
+  });
+
+  const customerIds = await resolveCustomers(
+    supabase,
+    organizationId,
+    valid.map((v) => v.record)
+  );
+
+  // Same customer, metric and day within one request: sum the quantities
+  const rows = new Map<string, UsageInsert>();
+  valid.forEach(({ record, index }, i) => {
+    const customerId = customerIds[i];
+    if (!customerId) {
+      errors.push({ index, message: "Customer not found" });
+      return;
+    }
+
+    const metric = usageMetricKey(record.metric);
+    const key = `${customerId}|${metric}|${record.date}`;
+    const existing = rows.get(key);
+    if (existing) {
+      existing.quantity += Number(record.quantity);
+    } else {
+      rows.set(key, {
+        organization_id: organizationId,
+        customer_id: customerId,
+        metric,
+        usage_date: record.date,
+        quantity: Number(record.quantity),
+        source,
+      });
+    }
+  });
+
+  const upserts = [...rows.values()];
+  for (let i = 0; i < upserts.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from("usage_records")
+      .upsert(upserts.slice(i, i + BATCH_SIZE) as never[], {
+        onConflict: "organization_id,customer_id,metric,usage_date",
+      });
+    if (error) throw error;
+  }
+
+  return {
+    received: records.length,
+    upserted: upserts.length,
+    rejected: errors.length,
+    errors: errors.sort((a, b) => a.index - b.index),
+  };
+}
+
+function validateRecord(
+  record: UsageRecordInput,
+  today: string
+): Omit<UsageIngestionError, "index"> | null {
+  if (!record || typeof record !== "object") {
+    return { message: "Record must be an object" };
+  }
+  for (const field of ["customer_id", "stripe_customer_id", "email"] as const) {
+    if (record[field] !== undefined && typeof record[field] !== "string") {
+      return { field, message: `${field} must be a string` };
+    }
+  }
+  if (!record.customer_id && !record.stripe_customer_id && !record.email) {
+    return { field: "customer_id", message: "One of customer_id, stripe_customer_id or email is required" };
+  }
+  if (record.customer_id && !UUID_PATTERN.test(record.customer_id)) {
+    return { field: "customer_id", message: "customer_id must be a unified customer id" };
+  }
+  if (typeof record.metric !== "string" || !usageMetricKey(record.metric)) {
+    return { field: "metric", message: "metric is required" };
+  }
+  if (
+    typeof record.date !== "string" ||
+    !DATE_PATTERN.test(record.date) ||
+    Number.isNaN(Date.parse(`${record.date}T00:00:00Z`)) ||
+    new Date(`${record.date}T00:00:00Z`).toISOString().split("T")[0] !== record.date
+  ) {
+    return { field: "date", message: "date must be a valid YYYY-MM-DD date" };
+  }
+  if (record.date > today) {
+    return { field: "date", message: "date is in the future" };
+  }
+  const quantity = Number(record.quantity);
+  if (typeof record.quantity === "boolean" || !Number.isFinite(quantity) || quantity < 0) {
+    return { field: "quantity", message: "quantity must be a non-negative number" };
+  }
+  return null;
+}
+
+/**
+ * Unified customer id for each valid record, or null when it matches no customer
+ */
+async function resolveCustomers(
+  supabase: DbClient,
+  organizationId: string,
+  records: UsageRecordInput[]
+): Promise<(string | null)[]> {
+  const ids = unique(records.map((r) => r.customer_id));
+  const stripeIds = unique(records.map((r) => r.stripe_customer_id));
+  const emails = unique(records.flatMap((r) => [r.email?.trim(), r.email?.trim().toLowerCase()]));
+
+  const knownIds = new Set(
+    (await selectIn<{ id: string }>(supabase, "unified_customers", "id", "id", organizationId, ids)).map((c) => c.id)
+  );
+
+  // Stripe ids resolve through stripe_customers to the unified customer
+  const stripeCustomers = await selectIn<{ id: string; stripe_id: string }>(
+    supabase, "stripe_customers", "id, stripe_id", "stripe_id", organizationId, stripeIds
+  );
+  const linked = await selectIn<{ id: string; stripe_customer_id: string }>(
+    supabase, "unified_customers", "id, stripe_customer_id", "stripe_customer_id", organizationId,
+    stripeCustomers.map((c) => c.id)
+  );
+  const unifiedByStripeRow = new Map(linked.map((c) => [c.stripe_customer_id, c.id]));
+  const byStripeId = new Map(
+    stripeCustomers
+      .filter((c) => unifiedByStripeRow.has(c.id))
+      .map((c) => [c.stripe_id, unifiedByStripeRow.get(c.id)!])
+  );
+
+  const byEmail = new Map(
+    (await selectIn<{ id: string; email: string }>(supabase, "unified_customers", "id, email", "email", organizationId, emails))
+      .map((c) => [c.email.toLowerCase(), c.id])
+  );
+
+  return records.map((record) => {
+    if (record.customer_id) return knownIds.has(record.customer_id) ? record.customer_id : null;
+    if (record.stripe_customer_id) return byStripeId.get(record.stripe_customer_id) ?? null;
+    if (record.email) return byEmail.get(record.email.trim().toLowerCase()) ?? null;
+    return null;
+  });
+}
+
+async function selectIn<T>(
+  supabase: DbClient,
+  table: "unified_customers" | "stripe_customers",
+  columns: string,
+  column: string,
+  organizationId: string,
+  values: string[]
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq("organization_id", organizationId)
+      .in(column, values.slice(i, i + LOOKUP_CHUNK));
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((v): v is string => typeof v === "string" && v.length > 0))];
+}
@@ -0,0 +1,33 @@
+/**
+ * CSV downloads
+ *
+ * RFC 4180 output, the inverse of the import parser: fields with a comma,
+ * quote or newline are quoted with quotes doubled. Text cells starting with
+ * =, +, - or @ get a leading apostrophe so spreadsheets don't evaluate them
+ * as formulas.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+export function toCsv(headers: string[], rows: CsvCell[][]): string {
+  return [headers, ...rows].map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * A CSV attachment response
+ */
+export function csvResponse(fileName: string, headers: string[], rows: CsvCell[][]): Response {
+  return new Response(toCsv(headers, rows), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName.replace(/"/g, "")}"`,
+    },
+  });
+}
+
+function formatCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return "";
+  let text = String(cell);
+  if (typeof cell === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1 +1,3 @@
 export { cn } from "./cn";
+export { sseResponse, readSSE, type SSEEvent } from "./sse";
+export { toCsv, csvResponse, type CsvCell } from "./csv";
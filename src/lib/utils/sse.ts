@@ -0,0 +1,90 @@
+/**
+ * Server-sent events over fetch
+ *
+ * The server side wraps a producer in a `text/event-stream` Response; the
+ * client side reads one back from a fetch Response. EventSource only does
+ * GET, and our streaming endpoints take a JSON body, so clients read the
+ * stream by hand.
+ */
+
+export interface SSEEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+type SendEvent = (event: string, data: unknown) => void;
+
+const encoder = new TextEncoder();
+
+/**
+ * Stream whatever `produce` sends as SSE. A thrown error becomes a final
+ * `error` event, since the status line has already gone out.
+ */
+export function sseResponse(produce: (send: SendEvent) => Promise<void>): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error("SSE stream error:", error);
+        send("error", { error: error instanceof Error ? error.message : "Stream failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Read the events of an SSE response as they arrive
+ */
+export async function* readSSE<E extends SSEEvent = SSEEvent>(response: Response): AsyncGenerator<E> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const parsed = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed as E;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEvent(block: string): SSEEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join("\n")) };
+}
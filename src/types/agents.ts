@@ -173,21 +173,21 @@ export const AGENTS: Record<AgentId, AgentDefinition> = {
   CDO: {
     id: "CDO",
     name: "CDO",
-    title: "Chief Design Officer",
+    title: "Chief Data Officer",
     color: "#F43F5E",
     expertise: [
-      "Customer perception",
-      "Pricing page design",
-      "Value communication",
-      "Trust and transparency",
-      "Brand consistency",
+      "Data quality",
+      "Instrumentation and metering",
+      "Experiment design",
+      "Outcome measurement",
+      "Forecast uncertainty",
     ],
     evaluationCriteria: [
-      "How will customers perceive this?",
-      "Can we communicate this clearly?",
-      "Does this feel fair and transparent?",
-      "What's the pricing page impact?",
-      "Is this consistent with brand?",
+      "Is the data behind this option reliable?",
+      "Do we capture the data this option depends on?",
+      "Can we measure its impact?",
+      "Is there a control group to compare against?",
+      "How certain is the forecast?",
     ],
   },
 };
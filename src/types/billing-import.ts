@@ -0,0 +1,87 @@
+/**
+ * Billing Import Types
+ *
+ * Customer, subscription and invoice exports from billing systems other than
+ * Stripe (Chargebee, Recurly, Paddle, homegrown), uploaded as CSV or XLSX:
+ * Parse → Map columns → Validate rows → Write unified tables
+ */
+
+// ---------------------------------------------------------------------------
+// Entities and sources
+// ---------------------------------------------------------------------------
+
+export type ImportEntity = "customers" | "subscriptions" | "invoices";
+
+export type ImportSource = "chargebee" | "recurly" | "paddle" | "generic";
+
+export const IMPORT_ENTITY_META: Record<ImportEntity, { label: string; description: string }> = {
+  customers: {
+    label: "Customers",
+    description: "One row per customer account",
+  },
+  subscriptions: {
+    label: "Subscriptions",
+    description: "One row per subscription, current or ended",
+  },
+  invoices: {
+    label: "Invoices",
+    description: "One row per invoice or payment",
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Fields and column mapping
+// ---------------------------------------------------------------------------
+
+export type ImportFieldType = "string" | "email" | "number" | "integer" | "date";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  // Normalized header names this field is known by across billing systems
+  aliases: string[];
+}
+
+/** Field key → the header it's read from, or null when not mapped */
+export type ColumnMapping = Record<string, string | null>;
+
+// ---------------------------------------------------------------------------
+// Parsed files and validation
+// ---------------------------------------------------------------------------
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRowError {
+  row: number; // Spreadsheet row number; the header is row 1
+  field?: string;
+  message: string;
+}
+
+export interface ImportPreview {
+  entity: ImportEntity;
+  source: ImportSource;
+  headers: string[];
+  mapping: ColumnMapping;
+  fields: ImportField[];
+  sampleRows: string[][];
+  rowCount: number;
+  validRows: number;
+  errors: ImportRowError[];
+}
+
+export interface ImportResult {
+  entity: ImportEntity;
+  source: ImportSource;
+  totalRows: number;
+  imported: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  expansionEvents: number;
+  errors: ImportRowError[];
+}
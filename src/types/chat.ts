@@ -24,3 +24,17 @@ export interface ChatResponse {
   };
   error?: string;
 }
+
+export interface ChatUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Events on the /api/chat stream: `token` chunks of the reply as Claude
+ * writes it, then `done` with the full reply and its metadata
+ */
+export type ChatStreamEvent =
+  | { event: "token"; data: { text: string } }
+  | { event: "done"; data: { content: string; agentId?: AgentId; usage: ChatUsage } }
+  | { event: "error"; data: { error: string } };
@@ -0,0 +1,45 @@
+/**
+ * Data Quality Types
+ *
+ * A scored report on whether the unified data can support a pricing
+ * analysis. Blocking issues stop the flow from producing recommendations;
+ * warnings lower the council's confidence.
+ */
+
+export type DataQualityCheckId =
+  | "segment_coverage"
+  | "empty_tiers"
+  | "churn_dates"
+  | "mrr_reconciliation"
+  | "duplicate_emails"
+  | "fallback_defaults";
+
+export type DataQualitySeverity = "blocking" | "warning";
+
+export interface DataQualityIssue {
+  check: DataQualityCheckId;
+  severity: DataQualitySeverity;
+  message: string;
+  affected: number; // Records with the problem
+  examples?: string[]; // A few ids, emails or names to look at
+}
+
+export interface DataQualityCheckResult {
+  id: DataQualityCheckId;
+  label: string;
+  score: number; // 0-100
+  weight: number; // Share of the overall score
+  status: "pass" | "warning" | "blocking" | "skipped";
+  value: number | null; // The measured share or deviation; null when unmeasurable
+  detail: string;
+}
+
+export interface DataQualityReport {
+  organization_id: string;
+  generated_at: string;
+  score: number; // 0-100, weighted over the checks
+  blocking: boolean; // Any blocking issue
+  checks: DataQualityCheckResult[];
+  issues: DataQualityIssue[];
+  confidence_factor: number; // Multiplier the council applies to its confidence
+}
@@ -222,6 +222,20 @@ export interface StripeInvoiceLineItem {
   created_at: string;
 }
 
+// A Stripe event received by the webhook endpoint, keyed by its Stripe id
+export interface StripeWebhookEvent {
+  id: string;
+  organization_id: string;
+  stripe_event_id: string;
+  type: string;
+  status: "received" | "processed" | "ignored" | "failed";
+  error?: string;
+  object_id?: string; // The customer, subscription or invoice the event describes
+  stripe_created?: string;
+  received_at: string;
+  processed_at?: string;
+}
+
 // =============================================================================
 // HUBSPOT DATA TYPES
 // =============================================================================
@@ -239,11 +253,14 @@ export interface HubSpotContact {
   lifecycle_stage?: string;
   lead_status?: string;
   hs_lead_status?: string;
+  lead_source?: string; // Original source (hs_analytics_source), e.g. ORGANIC_SEARCH
   associated_company_id?: string;
   owner_id?: string;
   properties: Json;
   hubspot_created?: string;
   hubspot_updated?: string;
+  archived?: boolean;
+  archived_at?: string;
   synced_at: string;
   created_at: string;
   updated_at: string;
@@ -271,6 +288,8 @@ export interface HubSpotCompany {
   properties: Json;
   hubspot_created?: string;
   hubspot_updated?: string;
+  archived?: boolean;
+  archived_at?: string;
   synced_at: string;
   created_at: string;
   updated_at: string;
@@ -292,11 +311,32 @@ export interface HubSpotDeal {
   properties: Json;
   hubspot_created?: string;
   hubspot_updated?: string;
+  archived?: boolean;
+  archived_at?: string;
   synced_at: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface HubSpotContactCompanyAssociation {
+  id: string;
+  organization_id: string;
+  contact_id: string;
+  company_id: string;
+  association_type?: string;
+  is_primary: boolean;
+  created_at: string;
+}
+
+export interface HubSpotDealContactAssociation {
+  id: string;
+  organization_id: string;
+  deal_id: string;
+  contact_id: string;
+  association_type?: string;
+  created_at: string;
+}
+
 // =============================================================================
 // UNIFIED DATA TYPES
 // =============================================================================
@@ -329,8 +369,12 @@ export interface UnifiedCustomer {
   email?: string;
   company_name?: string;
   segment_id?: string;
-  mrr: number;
+  mrr: number; // Reporting currency
   arr: number; // Generated column
+  currency?: string; // Billing currency (ISO 4217); absent when it's the reporting currency
+  mrr_billing?: number; // MRR in the billing currency
+  fx_rate?: number; // Billing → reporting rate mrr was converted at
+  fx_rate_date?: string;
   ltv: number;
   tenure_months: number;
   current_tier_id?: string;
@@ -368,14 +412,82 @@ export interface Transaction {
   stripe_invoice_id?: string;
   stripe_invoice_line_item_id?: string;
   transaction_type: "subscription" | "usage" | "one_time" | "refund";
-  amount: number;
+  amount: number; // In the transaction's currency
   currency: string;
+  reporting_amount?: number; // In the reporting currency, at the rate of the transaction date
+  fx_rate?: number;
+  fx_rate_date?: string;
   quantity: number;
   product_id?: string;
+  import_source?: string; // Billing system of an imported transaction
+  external_id?: string; // Its invoice id there
   occurred_at: string;
   created_at: string;
 }
 
+// One unit of base_currency buys `rate` units of quote_currency on rate_date
+export interface FxRate {
+  id: string;
+  organization_id: string;
+  rate_date: string; // YYYY-MM-DD
+  base_currency: string; // ISO 4217, upper case
+  quote_currency: string;
+  rate: number;
+  source: string;
+  created_at: string;
+}
+
+// One customer's usage of a value metric on one day
+export interface UsageRecord {
+  id: string;
+  organization_id: string;
+  customer_id: string; // unified_customers.id
+  metric: string; // snake_case value metric key, e.g. "api_calls"
+  usage_date: string; // YYYY-MM-DD
+  quantity: number;
+  source: "api" | "synthetic";
+  created_at: string;
+  updated_at: string;
+}
+
+// One CSV/XLSX billing export imported during setup, with its row errors
+export interface BillingImport {
+  id: string;
+  organization_id: string;
+  file_name: string;
+  entity: "customers" | "subscriptions" | "invoices";
+  source: "chargebee" | "recurly" | "paddle" | "generic";
+  mapping: Json;
+  total_rows: number;
+  imported_rows: number;
+  skipped_rows: number;
+  errors: Json;
+  created_at: string;
+}
+
+// A HubSpot record that might be the same customer, with its match score
+export interface IdentityMatchCandidate {
+  hubspot_company_id?: string;
+  hubspot_contact_id?: string;
+  name: string;
+  score: number;
+}
+
+// An ambiguous identity match waiting for a person to accept or reject it
+export interface IdentityMatchReview {
+  id: string;
+  organization_id: string;
+  unified_customer_id: string;
+  stripe_customer_id?: string;
+  method: "email" | "domain" | "name";
+  confidence: number;
+  candidates: IdentityMatchCandidate[];
+  status: "pending" | "accepted" | "rejected";
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
 // =============================================================================
 // ONTOLOGY TYPES
 // =============================================================================
@@ -504,6 +616,49 @@ export interface PriceSensitivity {
   elasticity: number;
   churn_per_pct_increase: number;
   optimal_price_range?: [number, number];
+  // 95% intervals and provenance when estimated from past price changes
+  elasticity_ci?: [number, number];
+  churn_per_pct_increase_ci?: [number, number];
+  provenance?: PriceSensitivityProvenance;
+}
+
+export interface PriceSensitivityProvenance {
+  method: "treated_vs_untreated";
+  estimated_at: string;
+  window_days: number;
+  sources: ("stripe_prices" | "expansion_events")[];
+  price_changes: number;
+  treated: number;
+  control: number;
+  avg_increase: number; // Fractional, 0.1 = 10%
+  pooled: boolean; // Segment had too few observations; the all-segment estimate stands in
+}
+
+// Survival analysis of customer tenure: Kaplan-Meier hazard and Cox hazard ratios
+export interface SurvivalModelSummary {
+  computed_at: string;
+  customers: number;
+  events: number;
+  monthly_hazard: number; // Average monthly churn hazard over the first year
+  monthly_hazard_ci: [number, number];
+  median_lifetime_months: number | null; // Null while more than half survive
+  survival_12m: number | null;
+  survival_12m_ci: [number, number] | null;
+  hazard_ratios: {
+    covariate: string; // e.g. "company_size:enterprise", against the most common level
+    label: string;
+    hazard_ratio: number;
+    ci: [number, number];
+    p_value: number;
+  }[];
+  concordance: number | null;
+  by_segment: Record<string, {
+    customers: number;
+    events: number;
+    monthly_hazard: number;
+    monthly_hazard_ci: [number, number];
+    median_lifetime_months: number | null;
+  }>;
 }
 
 export interface EconomicsSnapshot {
@@ -523,6 +678,7 @@ export interface EconomicsSnapshot {
   concentration_description?: string;
   segment_economics: SegmentEconomics[];
   price_sensitivity_model: Record<string, PriceSensitivity>;
+  survival_model?: SurvivalModelSummary;
   market_context?: Json;
   strategic_positioning?: Json;
   competitor_summary?: Json;
@@ -549,7 +705,7 @@ export interface OntologySnapshot {
 }
 
 export interface PricingChange {
-  type: "price" | "structure" | "tier" | "feature" | "minimum";
+  type: "price" | "structure" | "tier" | "feature" | "minimum" | "limit" | "discount";
   target: string;
   from: string | number;
   to: string | number;
@@ -578,6 +734,7 @@ export interface PricingOption {
   risk_profile: "low" | "moderate" | "high";
   complexity: "low" | "medium" | "high";
   status: "draft" | "proposed" | "approved" | "rejected" | "implemented";
+  analysis_run_id?: string;
   created_at: string;
   updated_at: string;
 }
@@ -607,6 +764,7 @@ export interface CouncilEvaluation {
   modifications_suggested: string[];
   summary?: string;
   overall_score: number;
+  analysis_run_id?: string;
   created_at: string;
 }
 
@@ -645,6 +803,24 @@ export interface OntologyAuditLog {
   created_at: string;
 }
 
+// A persisted pricing flow run. `inputs`, `options` and `evaluations` hold the
+// flow-shaped data (see types/pricing-flow.ts) with option ids rewritten to
+// their pricing_options rows.
+export interface AnalysisRun {
+  id: string;
+  organization_id: string;
+  ontology_snapshot_id: string;
+  council_mode: "rules" | "llm";
+  council_policy: Json;
+  parameters: Json;
+  inputs: Json;
+  options: Json;
+  evaluations: Json;
+  recommended_option_id?: string;
+  decision_record_id?: string;
+  created_at: string;
+}
+
 // =============================================================================
 // ANALYTICS TYPES
 // =============================================================================
@@ -680,9 +856,63 @@ export interface CustomerHealthScore {
   churn_risk?: number;
   expansion_potential?: number;
   detected_patterns: string[];
+  churn_model_version?: number; // Null when churn_risk came from the rules
+  created_at: string;
+}
+
+// Churn propensity model trained on the organization's own churn history
+export interface ChurnModel {
+  id: string;
+  organization_id: string;
+  version: number;
+  model_type: "logistic_regression";
+  horizon_days: number; // Predicts churn within this many days
+  features: PropensityModelFeature[];
+  intercept: number;
+  calibration: { slope: number; intercept: number }; // Platt scaling of the raw log-odds
+  metrics: PropensityModelMetrics;
+  trained_at: string;
   created_at: string;
 }
 
+export interface ExpansionModel {
+  id: string;
+  organization_id: string;
+  version: number;
+  model_type: "logistic_regression";
+  horizon_days: number; // Predicts an upgrade or expansion within this many days
+  features: PropensityModelFeature[];
+  intercept: number;
+  calibration: { slope: number; intercept: number };
+  metrics: PropensityModelMetrics;
+  // Upgrades observed from each tier id to each tier id, or to "same" for
+  // expansion within the tier
+  tier_transitions: Record<string, Record<string, number>>;
+  same_tier_uplift: number; // Median MRR gained by an expansion within the tier, as a share of MRR
+  trained_at: string;
+  created_at: string;
+}
+
+export interface PropensityModelFeature {
+  name: string;
+  mean: number; // Standardization
+  sd: number;
+  coefficient: number; // Log-odds per standard deviation
+}
+
+export interface PropensityModelMetrics {
+  auc: number; // Validation
+  brier: number;
+  log_loss: number;
+  base_rate: number; // Share of validation examples with the outcome
+  calibration: { predicted: number; observed: number; count: number }[]; // Validation, by decile of prediction
+  training_examples: number;
+  validation_examples: number;
+  training_positives: number;
+  validation_positives: number;
+  snapshot_dates: string[];
+}
+
 export interface CustomerRFMScore {
   id: string;
   organization_id: string;
@@ -735,6 +965,7 @@ export interface AnalyticsRunLog {
   organization_id: string;
   run_type:
     | "full_refresh"
+    | "incremental_refresh"
     | "cohort_retention"
     | "segmentation"
     | "pattern_detection"
@@ -751,6 +982,11 @@ export interface AnalyticsRunLog {
   errors_count: number;
   error_details: Json;
   result_summary: Json;
+  fx_rates?: Json; // FxRatesUsed
+  parent_run_id?: string; // The incremental refresh a module row belongs to
+  trigger?: "manual" | "scheduled";
+  data_watermark?: string; // Data changed up to this time is reflected
+  dirty_customers?: number;
   created_at: string;
 }
 
@@ -831,6 +1067,11 @@ export interface Database {
         Insert: Omit<StripeInvoiceLineItem, "id" | "created_at" | "synced_at">;
         Update: Partial<Omit<StripeInvoiceLineItem, "id">>;
       };
+      stripe_webhook_events: {
+        Row: StripeWebhookEvent;
+        Insert: Omit<StripeWebhookEvent, "id" | "received_at">;
+        Update: Partial<Omit<StripeWebhookEvent, "id">>;
+      };
       hubspot_contacts: {
         Row: HubSpotContact;
         Insert: Omit<
@@ -855,6 +1096,16 @@ export interface Database {
         >;
         Update: Partial<Omit<HubSpotDeal, "id">>;
       };
+      hubspot_contact_company_associations: {
+        Row: HubSpotContactCompanyAssociation;
+        Insert: Omit<HubSpotContactCompanyAssociation, "id" | "created_at">;
+        Update: Partial<Omit<HubSpotContactCompanyAssociation, "id">>;
+      };
+      hubspot_deal_contact_associations: {
+        Row: HubSpotDealContactAssociation;
+        Insert: Omit<HubSpotDealContactAssociation, "id" | "created_at">;
+        Update: Partial<Omit<HubSpotDealContactAssociation, "id">>;
+      };
       products: {
         Row: Product;
         Insert: Omit<Product, "id" | "created_at" | "updated_at">;
@@ -875,6 +1126,36 @@ export interface Database {
         Insert: Omit<Transaction, "id" | "created_at">;
         Update: never; // Transactions are immutable
       };
+      fx_rates: {
+        Row: FxRate;
+        Insert: Omit<FxRate, "id" | "created_at">;
+        Update: Partial<Omit<FxRate, "id">>;
+      };
+      churn_models: {
+        Row: ChurnModel;
+        Insert: Omit<ChurnModel, "id" | "created_at">;
+        Update: never; // A retrain stores a new version
+      };
+      expansion_models: {
+        Row: ExpansionModel;
+        Insert: Omit<ExpansionModel, "id" | "created_at">;
+        Update: never; // A retrain stores a new version
+      };
+      usage_records: {
+        Row: UsageRecord;
+        Insert: Omit<UsageRecord, "id" | "created_at" | "updated_at">;
+        Update: Partial<Omit<UsageRecord, "id">>;
+      };
+      billing_imports: {
+        Row: BillingImport;
+        Insert: Omit<BillingImport, "id" | "created_at">;
+        Update: never; // Import logs are immutable
+      };
+      identity_match_reviews: {
+        Row: IdentityMatchReview;
+        Insert: Omit<IdentityMatchReview, "id" | "created_at">;
+        Update: Partial<Omit<IdentityMatchReview, "id">>;
+      };
       segments: {
         Row: Segment;
         Insert: Omit<Segment, "id" | "created_at" | "updated_at">;
@@ -925,6 +1206,11 @@ export interface Database {
         Insert: Omit<OntologyAuditLog, "id" | "created_at">;
         Update: never; // Audit logs are immutable
       };
+      analysis_runs: {
+        Row: AnalysisRun;
+        Insert: Omit<AnalysisRun, "id" | "created_at">;
+        Update: Partial<Omit<AnalysisRun, "id">>;
+      };
       competitors: {
         Row: Competitor;
         Insert: Omit<Competitor, "id" | "created_at" | "updated_at">;
@@ -3,7 +3,7 @@
  */
 
 import type { AgentId } from "./agents";
-import type { PricingOption, CouncilEvaluation } from "./pricing-flow";
+import type { PricingOption, CouncilEvaluation, AgentView } from "./pricing-flow";
 
 // Demo modes
 export type DemoMode = "preloaded" | "generate";
@@ -72,6 +72,8 @@ export interface DebateMessage {
   confidence: number;
   keyPoints?: string[];
   timestamp: number; // for sequencing animation
+  round?: number; // 1 = opening positions
+  stanceChange?: { from: AgentView["recommendation"]; to: AgentView["recommendation"] };
 }
 
 // Debate summary after discussion
@@ -84,8 +86,40 @@ export interface DebateSummary {
   keyTradeoffs: string[];
   recommendation: string;
   confidence: number;
+
+  // Multi-round debate trail
+  rounds?: DebateRoundSnapshot[];
+  stanceChanges?: StanceChange[];
+  converged?: boolean;
+}
+
+// Where the council stood at the end of a debate round
+export interface DebateRoundSnapshot {
+  round: number;
+  consensus: DebateSummary["consensus"];
+  averageScore: number; // -2 (strongly oppose) to 2 (strongly support)
+  recommendations: Partial<Record<AgentId, AgentView["recommendation"]>>;
 }
 
+export interface StanceChange {
+  agentId: AgentId;
+  round: number;
+  from: AgentView["recommendation"];
+  to: AgentView["recommendation"];
+  confidenceFrom: number;
+  confidenceTo: number;
+  persuadedBy?: AgentId;
+}
+
+/**
+ * Events on the /api/pricing/debate stream: one `message` per debate message
+ * as the engine produces it, then the `summary`
+ */
+export type DebateStreamEvent =
+  | { event: "message"; data: DebateMessage }
+  | { event: "summary"; data: DebateSummary }
+  | { event: "error"; data: { error: string } };
+
 // Full demo state
 export interface DemoState {
   // Mode and progression
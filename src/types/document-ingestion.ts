@@ -0,0 +1,124 @@
+/**
+ * Document Ingestion Types
+ *
+ * Pricing pages, board decks and strategy docs uploaded during setup, read
+ * for facts that belong in the CompanyProfile:
+ * Parse → Chunk → Extract (LLM) → Merge → Diff against the profile → Accept
+ */
+
+import type {
+  CompanyTierProfile,
+  CompetitorProfile,
+  StrategicPositioning,
+} from "./company-profile";
+
+// ---------------------------------------------------------------------------
+// Parsed documents
+// ---------------------------------------------------------------------------
+
+/** Uploads that go through document ingestion */
+export function isIngestibleDocument(name: string): boolean {
+  return /\.(txt|text|md|markdown|pdf)$/i.test(name);
+}
+
+export interface DocumentChunk {
+  document: string; // File name, or "Additional context"
+  index: number; // Position within the document, from 0
+  text: string;
+}
+
+export interface IngestedDocument {
+  name: string;
+  characters: number;
+  chunks: number;
+  // Set when the document couldn't be read; it contributes nothing
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+export type ValueMetricLimits = CompanyTierProfile["value_metric_limits"];
+
+export interface DocumentSource {
+  document: string;
+  quote?: string; // Short excerpt the fact was read from
+}
+
+export interface ExtractedTier {
+  name: string;
+  price_monthly?: number;
+  price_annual?: number; // Price for a year, not per month
+  features: string[];
+  value_metric_limits: ValueMetricLimits;
+  sources: DocumentSource[];
+}
+
+export interface ExtractedCompetitor {
+  name: string;
+  positioning?: string;
+  pricing_model?: string;
+  price_range?: string;
+  key_differentiators: string[];
+  sources: DocumentSource[];
+}
+
+/**
+ * Everything read from a set of documents. List fields of the positioning
+ * are merged into the profile's; text fields replace it.
+ */
+export interface DocumentExtraction {
+  pricing_tiers: ExtractedTier[];
+  competitors: ExtractedCompetitor[];
+  strategic_positioning: {
+    value_proposition?: string;
+    pricing_philosophy?: string;
+    target_segments: string[];
+    key_advantages: string[];
+    key_risks: string[];
+  };
+  positioning_sources: DocumentSource[];
+}
+
+// ---------------------------------------------------------------------------
+// Profile changes
+// ---------------------------------------------------------------------------
+
+export type ProfileChangeSection = "pricing_tiers" | "competitors" | "strategic_positioning";
+
+export type TierChangeField = "price_monthly" | "price_annual" | "features" | "value_metric_limits";
+
+export type CompetitorChangeField = "positioning" | "pricing_model" | "price_range" | "key_differentiators";
+
+export type ProfileChangeValue =
+  | string
+  | number
+  | string[]
+  | ValueMetricLimits
+  | CompanyTierProfile
+  | CompetitorProfile;
+
+/**
+ * One reviewable edit to the CompanyProfile. `field` is absent when a whole
+ * tier or competitor is added; for strategic positioning `target` is the
+ * positioning field.
+ */
+export type ProfileChange = {
+  id: string;
+  label: string;
+  before: ProfileChangeValue | null;
+  after: ProfileChangeValue;
+  sources: DocumentSource[];
+} & (
+  | { section: "pricing_tiers"; target: string; field?: TierChangeField }
+  | { section: "competitors"; target: string; field?: CompetitorChangeField }
+  | { section: "strategic_positioning"; target: keyof StrategicPositioning }
+);
+
+export interface DocumentIngestionResult {
+  documents: IngestedDocument[];
+  changes: ProfileChange[];
+  // Chunks whose extraction failed or were over the limit
+  warnings: string[];
+}
@@ -0,0 +1,54 @@
+/**
+ * FX Types
+ *
+ * Daily exchange rates and the record of which rates turned billing
+ * currency amounts into the organization's reporting currency
+ */
+
+export interface FxRateInput {
+  rate_date: string; // YYYY-MM-DD
+  base_currency: string;
+  quote_currency: string;
+  rate: number; // Units of quote_currency per unit of base_currency
+}
+
+export interface FxImportError {
+  row: number; // Spreadsheet row number; the header is row 1
+  message: string;
+}
+
+export interface FxImportResult {
+  received: number; // Rates read from the file
+  upserted: number;
+  rejected: number;
+  errors: FxImportError[];
+  currencies: string[];
+  from: string | null; // Earliest rate date
+  to: string | null;
+  // Customers and transactions re-converted with the new rates
+  normalized: { customers: number; transactions: number };
+}
+
+/** A conversion outcome */
+export interface FxConversion {
+  amount: number; // In the reporting currency
+  rate: number; // 1 when no conversion was needed
+  rateDate: string | null; // Date of the rate used; null when none was needed or found
+  converted: boolean; // False when the currency has no rate and the amount passed through
+}
+
+export interface FxRateUsage {
+  currency: string;
+  rate: number; // Reporting currency per unit of this currency
+  rate_date: string;
+  amounts: number; // Customers and transactions converted at this rate
+}
+
+/** Which rates stand behind an analytics run's figures */
+export interface FxRatesUsed {
+  reporting_currency: string;
+  // Latest rate applied per currency
+  rates: FxRateUsage[];
+  // Currencies found in the data with no rate; their amounts are unconverted
+  unconverted: string[];
+}
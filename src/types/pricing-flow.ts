@@ -3,6 +3,8 @@
  * Based on the 7-step flow: Ingest → Segment → Pricing → Economics → Options → Council → Decision
  */
 
+import type { AgentId } from "./agents";
+
 // =============================================================================
 // LAYER 1: RECORD (Source Data)
 // =============================================================================
@@ -255,6 +257,20 @@ export interface UnitEconomics {
 
   // Price sensitivity model
   sensitivity_model: PriceSensitivityModel;
+
+  // Baseline churn from survival analysis of customer tenure
+  churn_hazard?: ChurnHazard;
+}
+
+export interface ChurnHazard {
+  monthly_hazard: number;
+  monthly_hazard_ci: [number, number]; // 95%
+  median_lifetime_months: number | null;
+  survival_12m: number | null;
+  customers: number;
+  events: number;
+  // Covariates whose hazard ratio differs from 1 at p < 0.05
+  drivers: { label: string; hazard_ratio: number; ci: [number, number] }[];
 }
 
 export interface ConcentrationMetrics {
@@ -282,6 +298,18 @@ export interface PriceSensitivityModel {
 
   // Sweet spots
   optimal_price_ranges: Record<string, [number, number]>;
+
+  // Segments estimated from past price changes; the rest are assumptions
+  evidence?: Record<string, SensitivityEvidence>;
+}
+
+export interface SensitivityEvidence {
+  elasticity_ci: [number, number]; // 95%
+  churn_per_percent_increase_ci: [number, number]; // 95%
+  treated: number;
+  control: number;
+  pooled: boolean; // All-segment estimate standing in for a thin segment
+  estimated_at: string;
 }
 
 // =============================================================================
@@ -319,7 +347,13 @@ export interface CompetitiveContext {
 
 export interface PricingOption {
   id: string;
-  type: "price_increase" | "new_tier" | "value_metric_change" | "packaging" | "minimum";
+  type:
+    | "price_increase"
+    | "new_tier"
+    | "value_metric_change"
+    | "packaging"
+    | "minimum"
+    | "discount_strategy";
 
   // Description
   description: string;
@@ -338,9 +372,9 @@ export interface PricingOption {
 }
 
 export interface PricingChange {
-  type: "price" | "structure" | "tier" | "feature" | "minimum";
+  type: "price" | "structure" | "tier" | "feature" | "minimum" | "limit" | "discount";
   target: string; // tier name, segment name, or "all"
-  from: string | number;
+  from: string | number; // limit: included units or "unlimited"; discount: % off list
   to: string | number;
   description: string;
 }
@@ -357,11 +391,35 @@ export interface ImpactModel {
   // Churn impact
   expected_churn_increase: number;
 
+  // Customers whose bill or plan the option changes
+  affected_customers?: number;
+
   // Timeline
   time_to_full_impact_months: number;
 
   // Confidence
   confidence: number; // 0-1
+
+  // Monte Carlo outcome distribution (optimistic/pessimistic are its P90/P10)
+  distribution?: ImpactDistribution;
+}
+
+export interface ImpactDistribution {
+  // Reproduce the exact same numbers by re-running with this seed
+  seed: number;
+  iterations: number;
+
+  p10_arr_change: number;
+  p50_arr_change: number;
+  p90_arr_change: number;
+
+  probability_arr_decrease: number; // 0-1
+
+  histogram: {
+    bin_start: number;
+    bin_end: number;
+    count: number;
+  }[];
 }
 
 // =============================================================================
@@ -371,18 +429,15 @@ export interface ImpactModel {
 export interface CouncilEvaluation {
   option_id: string;
 
-  // Four agent perspectives
-  finance_view: AgentView;
-  growth_view: AgentView;
-  product_view: AgentView;
-  strategy_view: AgentView;
+  // One view per participating agent
+  agent_views: Partial<Record<AgentId, AgentView>>;
 
   // Synthesis
   recommendation: CouncilRecommendation;
 }
 
 export interface AgentView {
-  agent: "CFO" | "CRO" | "CPO" | "CSO";
+  agent: AgentId;
 
   // Their assessment
   reasoning: string;
@@ -398,6 +453,12 @@ export interface AgentView {
 
   // Confidence in their assessment
   confidence: number;
+
+  // Answers to the agent's evaluationCriteria, in order
+  criteria?: { question: string; finding: string }[];
+
+  // Who produced the view: the threshold rules, or the LLM council
+  source?: "rules" | "llm";
 }
 
 export interface CouncilRecommendation {
@@ -418,6 +479,34 @@ export interface CouncilRecommendation {
 
   // Final recommendation
   summary: string;
+
+  // Weighted vote under the council policy (-2 to 2)
+  weighted_score?: number;
+
+  // Set when a veto or confidence threshold rules the option out
+  blocked_by?: string;
+
+  // Score of the data-quality report confidences were discounted by (0-100)
+  data_quality_score?: number;
+}
+
+export interface CouncilPolicy {
+  // Relative vote weight per agent; agents not listed count 1x
+  agent_weights: Partial<Record<AgentId, number>>;
+
+  // A vetoing agent's vote at or below `at` blocks the option
+  vetoes: CouncilVetoRule[];
+
+  // Agent views below this confidence abstain from the vote
+  min_agent_confidence: number; // 0-1
+
+  // Options whose impact model is less certain than this can't be recommended
+  min_option_confidence: number; // 0-1
+}
+
+export interface CouncilVetoRule {
+  agent: AgentId;
+  at: "oppose" | "strongly_oppose";
 }
 
 // =============================================================================
@@ -5,6 +5,9 @@
  * Company Info → Connections → Documents → Generating → Review
  */
 
+import type { ImportEntity } from "./billing-import";
+import type { DocumentIngestionResult } from "./document-ingestion";
+
 // ---------------------------------------------------------------------------
 // Steps
 // ---------------------------------------------------------------------------
@@ -125,10 +128,24 @@ export const CONNECTION_META: Record<
 // Uploaded files
 // ---------------------------------------------------------------------------
 
+/** Outcome of importing a CSV/XLSX billing export */
+export interface UploadedFileImport {
+  entity: ImportEntity;
+  imported: number;
+  skipped: number;
+  errorCount: number;
+}
+
 export interface UploadedFile {
   name: string;
   size: number;
   type: string;
+  import?: UploadedFileImport;
+}
+
+/** Billing exports that go through the import pipeline */
+export function isImportableFile(name: string): boolean {
+  return /\.(csv|xlsx)$/i.test(name);
 }
 
 // ---------------------------------------------------------------------------
@@ -152,6 +169,8 @@ export interface SetupState {
   // Step 3: Documents
   uploadedFiles: UploadedFile[];
   additionalContext: string;
+  // Profile changes read from the documents, awaiting review before generation
+  documentReview: DocumentIngestionResult | null;
 
   // Step 4: Generating
   generationStatus: "idle" | "running" | "complete" | "error";
@@ -177,7 +196,9 @@ export interface SetupActions {
   startSyncing: (id: ConnectionId) => void;
   addFile: (file: UploadedFile) => void;
   removeFile: (name: string) => void;
+  setFileImport: (name: string, result: UploadedFileImport) => void;
   setAdditionalContext: (text: string) => void;
+  setDocumentReview: (review: DocumentIngestionResult | null) => void;
   setGenerationStatus: (
     status: SetupState["generationStatus"],
     error?: string | null
@@ -210,6 +231,7 @@ export function createInitialSetupState(): SetupState {
     connections,
     uploadedFiles: [],
     additionalContext: "",
+    documentReview: null,
     generationStatus: "idle",
     generationError: null,
   };
@@ -0,0 +1,30 @@
+/**
+ * Usage Ingestion Types
+ *
+ * Per-day usage of value metrics pushed in from a product's own systems.
+ * Each record identifies the customer by its unified customer id, its
+ * Stripe customer id or its email.
+ */
+
+export interface UsageRecordInput {
+  customer_id?: string; // unified_customers.id
+  stripe_customer_id?: string; // cus_...
+  email?: string;
+  metric: string; // Value metric name or key: "API calls" and "api_calls" are the same
+  date: string; // YYYY-MM-DD
+  quantity: number;
+}
+
+export interface UsageIngestionError {
+  index: number; // Position in the submitted records, from 0
+  field?: keyof UsageRecordInput;
+  message: string;
+}
+
+export interface UsageIngestionResult {
+  received: number;
+  // Records written; same-day records for a customer and metric are summed first
+  upserted: number;
+  rejected: number;
+  errors: UsageIngestionError[];
+}
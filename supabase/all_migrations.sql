@@ -1496,3 +1496,492 @@ ALTER TABLE competitors ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "competitors_org_access"
   ON competitors FOR ALL
   USING (has_organization_access(organization_id));
+
+-- Migration: Analysis Runs
+-- One row per pricing flow run, tying together the ontology snapshot taken at
+-- run time, the options and council evaluations it produced, and the
+-- decision record for its recommendation.
+
+-- =============================================================================
+-- 1. Analysis runs
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  -- Ontology state the run was computed from
+  ontology_snapshot_id UUID NOT NULL REFERENCES ontology_snapshots(id),
+
+  -- How the council was run
+  council_mode TEXT NOT NULL DEFAULT 'rules' CHECK (council_mode IN ('rules', 'llm')),
+  council_policy JSONB NOT NULL DEFAULT '{}',
+  parameters JSONB NOT NULL DEFAULT '{}', -- Monte Carlo seed and iterations
+
+  -- Flow inputs as loaded (segments, economics, pricing structure,
+  -- competitive context, summary), kept so the run can be replayed
+  inputs JSONB NOT NULL,
+
+  -- Flow-shaped results, keyed by the pricing_options ids below. The
+  -- pricing_options and council_evaluations rows are the queryable copy;
+  -- these keep what those columns can't (impact distributions, criteria,
+  -- weighted scores, policy blocks).
+  options JSONB NOT NULL DEFAULT '[]',
+  evaluations JSONB NOT NULL DEFAULT '[]',
+
+  recommended_option_id UUID REFERENCES pricing_options(id) ON DELETE SET NULL,
+  decision_record_id UUID REFERENCES decision_records(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_org ON analysis_runs(organization_id, created_at DESC);
+
+-- =============================================================================
+-- 2. Link options and evaluations to their run
+-- =============================================================================
+
+ALTER TABLE pricing_options
+  ADD COLUMN IF NOT EXISTS analysis_run_id UUID REFERENCES analysis_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE council_evaluations
+  ADD COLUMN IF NOT EXISTS analysis_run_id UUID REFERENCES analysis_runs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_options_run ON pricing_options(analysis_run_id);
+CREATE INDEX IF NOT EXISTS idx_council_evaluations_run ON council_evaluations(analysis_run_id);
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE analysis_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "analysis_runs_select" ON analysis_runs FOR SELECT
+  USING (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_insert" ON analysis_runs FOR INSERT
+  WITH CHECK (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_update" ON analysis_runs FOR UPDATE
+  USING (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_delete" ON analysis_runs FOR DELETE
+  USING (has_admin_access(organization_id));
+
+-- Migration: Stripe Webhook Events
+-- One row per Stripe event delivered to /api/webhooks/stripe. The unique
+-- event id makes redeliveries and replays no-ops once an event is processed.
+
+-- =============================================================================
+-- 1. Webhook events
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  stripe_event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  stripe_created TIMESTAMPTZ,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  UNIQUE(organization_id, stripe_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_org ON stripe_webhook_events(organization_id, received_at DESC);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stripe_webhook_events_select" ON stripe_webhook_events FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: HubSpot Sync
+-- Archive flags for CRM records HubSpot reports as archived. Archived rows
+-- are kept for history but lose their associations.
+
+-- =============================================================================
+-- 1. Archive flags
+-- =============================================================================
+
+ALTER TABLE hubspot_contacts
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE hubspot_companies
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE hubspot_deals
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Migration: Identity Resolution
+-- Ambiguous matches between a unified customer and HubSpot records, queued
+-- for a person to accept or reject. Confident matches are applied directly
+-- and recorded in unified_customers.metadata.identity.
+
+-- =============================================================================
+-- 1. Match reviews
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS identity_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  unified_customer_id UUID NOT NULL REFERENCES unified_customers(id) ON DELETE CASCADE,
+  stripe_customer_id UUID REFERENCES stripe_customers(id) ON DELETE SET NULL,
+  method TEXT NOT NULL CHECK (method IN ('email', 'domain', 'name')),
+  confidence NUMERIC(4, 3) NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_match_reviews_org ON identity_match_reviews(organization_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_identity_match_reviews_customer ON identity_match_reviews(unified_customer_id);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE identity_match_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "identity_match_reviews_select" ON identity_match_reviews FOR SELECT
+  USING (has_organization_access(organization_id));
+
+CREATE POLICY "identity_match_reviews_update" ON identity_match_reviews FOR UPDATE
+  USING (has_admin_access(organization_id));
+
+-- Migration: Billing Imports
+-- Customer, subscription and invoice exports from billing systems other than
+-- Stripe, uploaded as CSV/XLSX during setup. Imported transactions carry the
+-- source system and its invoice id so re-importing a file doesn't duplicate
+-- them, and each import keeps its per-row error report.
+
+-- =============================================================================
+-- 1. Imported transactions
+-- =============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS import_source TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_import_unique UNIQUE (organization_id, import_source, external_id);
+
+-- =============================================================================
+-- 2. Import log
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  entity TEXT NOT NULL CHECK (entity IN ('customers', 'subscriptions', 'invoices')),
+  source TEXT NOT NULL CHECK (source IN ('chargebee', 'recurly', 'paddle', 'generic')),
+  mapping JSONB NOT NULL DEFAULT '{}',
+  total_rows INT NOT NULL DEFAULT 0,
+  imported_rows INT NOT NULL DEFAULT 0,
+  skipped_rows INT NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_imports_org ON billing_imports(organization_id, created_at DESC);
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE billing_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "billing_imports_select" ON billing_imports FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: Usage Records
+-- Per-customer, per-metric, per-day usage quantities (labels printed, API
+-- calls, seats...). One row per customer, metric and day; re-ingesting a day
+-- replaces its quantity so ingestion is idempotent. Metrics are keyed by the
+-- snake_case form of the value metric name ("API calls" → api_calls).
+
+-- =============================================================================
+-- 1. Usage records
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS usage_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES unified_customers(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL,
+  usage_date DATE NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity >= 0),
+  source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'synthetic')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, customer_id, metric, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_org_date ON usage_records(organization_id, usage_date DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_records_customer ON usage_records(customer_id, metric, usage_date DESC);
+
+CREATE TRIGGER update_usage_records_updated_at
+  BEFORE UPDATE ON usage_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "usage_records_select" ON usage_records FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: Multi-Currency
+-- Customers pay in several currencies; analytics report in one. Daily FX
+-- rates are loaded per organization, and every MRR and transaction amount
+-- keeps its billing-currency value next to the reporting-currency value,
+-- with the rate (and its date) the conversion used. Customer MRR converts
+-- at the latest rate, transactions at the rate of their date. Analytics
+-- runs record the rates behind their numbers.
+
+-- =============================================================================
+-- 1. FX rates
+-- =============================================================================
+
+-- One unit of base_currency buys `rate` units of quote_currency on rate_date
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'csv',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, rate_date, base_currency, quote_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair ON fx_rates(organization_id, base_currency, quote_currency, rate_date DESC);
+
+-- =============================================================================
+-- 2. Billing-currency amounts
+-- =============================================================================
+
+-- mrr is in the reporting currency; mrr_billing in the customer's currency.
+-- A null currency means the customer is billed in the reporting currency.
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS mrr_billing NUMERIC(15, 2);
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- amount stays in the transaction's currency
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reporting_amount NUMERIC(15, 2);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- =============================================================================
+-- 3. Rates used by analytics runs
+-- =============================================================================
+
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS fx_rates JSONB;
+
+-- =============================================================================
+-- 4. RLS
+-- =============================================================================
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "fx_rates_select" ON fx_rates FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: Incremental Analytics
+-- analytics_run_log doubles as the job log for incremental refreshes. A
+-- refresh is one 'incremental_refresh' row with a child row per analytics
+-- module it ran. Each module row records the data watermark it covered, so
+-- the next refresh only recomputes customers changed since then (by
+-- updated_at, new expansion events, transactions and usage) and modules run
+-- on their own schedule.
+
+-- =============================================================================
+-- 1. Run types
+-- =============================================================================
+
+ALTER TABLE analytics_run_log DROP CONSTRAINT IF EXISTS analytics_run_log_run_type_check;
+ALTER TABLE analytics_run_log ADD CONSTRAINT analytics_run_log_run_type_check CHECK (run_type IN (
+  'full_refresh', 'incremental_refresh', 'cohort_retention', 'segmentation',
+  'pattern_detection', 'health_scores', 'value_metrics',
+  'economics_snapshot'
+));
+
+-- =============================================================================
+-- 2. Job columns
+-- =============================================================================
+
+-- Module rows point at the refresh that ran them
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS parent_run_id UUID REFERENCES analytics_run_log(id) ON DELETE CASCADE;
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS trigger TEXT DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled'));
+-- Data changed up to this time is reflected in the run's results
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS data_watermark TIMESTAMPTZ;
+-- Customers the run recomputed because their data changed
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS dirty_customers INT;
+
+CREATE INDEX IF NOT EXISTS idx_analytics_run_type ON analytics_run_log(organization_id, run_type, status, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_run_parent ON analytics_run_log(parent_run_id);
+
+-- =============================================================================
+-- 3. Change detection
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_unified_customers_updated ON unified_customers(organization_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_expansion_events_created ON customer_expansion_events(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_created ON transactions(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_updated ON usage_records(organization_id, updated_at);
+
+-- Migration: Survival Model
+-- Economics snapshots carry a survival analysis of customer tenure: the
+-- Kaplan-Meier monthly churn hazard with its 95% interval, median lifetime,
+-- 12-month survival, per-segment hazards, and proportional-hazards ratios
+-- for company size, billing interval, tier and MRR band. The CFO view
+-- reads the hazard from the latest snapshot.
+
+ALTER TABLE economics_snapshots ADD COLUMN IF NOT EXISTS survival_model JSONB;
+
+-- Migration: Churn Models
+-- A churn propensity model is trained per organization on past outcomes:
+-- customers active at quarterly snapshot dates, with features as of that
+-- date, labelled by whether they churned in the following 90 days. Each
+-- training run stores a new version with its coefficients, calibration and
+-- validation metrics. Health scores record the version behind their churn
+-- risk.
+
+-- =============================================================================
+-- 1. Churn models
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS churn_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  model_type TEXT NOT NULL DEFAULT 'logistic_regression' CHECK (model_type IN ('logistic_regression')),
+  horizon_days INT NOT NULL,
+  -- Per feature: name, standardization mean and sd, coefficient
+  features JSONB NOT NULL,
+  intercept NUMERIC NOT NULL,
+  -- Platt scaling of the raw log-odds
+  calibration JSONB NOT NULL,
+  -- Validation AUC, Brier score, log loss, calibration bins, sample sizes
+  metrics JSONB NOT NULL,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_churn_models_org_version ON churn_models(organization_id, version DESC);
+
+-- =============================================================================
+-- 2. Health scores
+-- =============================================================================
+
+ALTER TABLE customer_health_scores ADD COLUMN IF NOT EXISTS churn_model_version INT;
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE churn_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "churn_models_select" ON churn_models FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: Expansion Models
+-- An expansion propensity model is trained per organization the same way as
+-- the churn model: customers active at quarterly snapshot dates, with
+-- features as of that date, labelled by whether they upgraded or expanded in
+-- the following 90 days. Each version also keeps the tier-to-tier upgrade
+-- counts used to pick a customer's next tier.
+
+-- =============================================================================
+-- 1. Expansion models
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS expansion_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  model_type TEXT NOT NULL DEFAULT 'logistic_regression' CHECK (model_type IN ('logistic_regression')),
+  horizon_days INT NOT NULL,
+  -- Per feature: name, standardization mean and sd, coefficient
+  features JSONB NOT NULL,
+  intercept NUMERIC NOT NULL,
+  -- Platt scaling of the raw log-odds
+  calibration JSONB NOT NULL,
+  -- Validation AUC, Brier score, log loss, calibration bins, sample sizes
+  metrics JSONB NOT NULL,
+  -- From tier id to tier id (or "same") to upgrades observed
+  tier_transitions JSONB NOT NULL DEFAULT '{}',
+  -- Median MRR gained by an expansion within the tier, as a share of MRR
+  same_tier_uplift NUMERIC NOT NULL DEFAULT 0,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expansion_models_org_version ON expansion_models(organization_id, version DESC);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE expansion_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "expansion_models_select" ON expansion_models FOR SELECT
+  USING (has_organization_access(organization_id));
+
+-- Migration: Acquisition Channel
+-- Contacts keep the channel they were acquired through, HubSpot's original
+-- source (hs_analytics_source), so customers can be cohorted by it.
+-- Contacts synced earlier are backfilled from their stored properties.
+
+ALTER TABLE hubspot_contacts ADD COLUMN IF NOT EXISTS lead_source TEXT;
+
+UPDATE hubspot_contacts
+SET lead_source = properties->>'hs_analytics_source'
+WHERE lead_source IS NULL AND properties ? 'hs_analytics_source';
+
+-- Migration: Single Active Analytics Run
+-- At most one refresh (a top-level analytics_run_log row) may be running per
+-- organization, so inserting the run row is the refresh's claim and two
+-- concurrent requests can't both start one. Module rows belong to their
+-- refresh and are left out. Rows already running side by side are settled
+-- first: all but the latest per organization are marked failed.
+
+UPDATE analytics_run_log r
+SET status = 'failed',
+    completed_at = NOW(),
+    error_details = '[{"error": "Superseded by a concurrent refresh"}]'::jsonb
+WHERE r.status = 'running'
+  AND r.parent_run_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM analytics_run_log newer
+    WHERE newer.organization_id = r.organization_id
+      AND newer.status = 'running'
+      AND newer.parent_run_id IS NULL
+      AND (newer.started_at, newer.id) > (r.started_at, r.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_run_active
+  ON analytics_run_log(organization_id)
+  WHERE status = 'running' AND parent_run_id IS NULL;
+
+-- Migration: Webhook Event Order
+-- Stripe doesn't deliver events in order. Each event records the object it
+-- describes, so an event older than one already applied to the same object
+-- can be skipped instead of overwriting newer state.
+
+ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS object_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object
+  ON stripe_webhook_events(organization_id, object_id, stripe_created DESC);
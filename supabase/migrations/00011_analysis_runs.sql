@@ -0,0 +1,67 @@
+-- Migration: Analysis Runs
+-- One row per pricing flow run, tying together the ontology snapshot taken at
+-- run time, the options and council evaluations it produced, and the
+-- decision record for its recommendation.
+
+-- =============================================================================
+-- 1. Analysis runs
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS analysis_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  -- Ontology state the run was computed from
+  ontology_snapshot_id UUID NOT NULL REFERENCES ontology_snapshots(id),
+
+  -- How the council was run
+  council_mode TEXT NOT NULL DEFAULT 'rules' CHECK (council_mode IN ('rules', 'llm')),
+  council_policy JSONB NOT NULL DEFAULT '{}',
+  parameters JSONB NOT NULL DEFAULT '{}', -- Monte Carlo seed and iterations
+
+  -- Flow inputs as loaded (segments, economics, pricing structure,
+  -- competitive context, summary), kept so the run can be replayed
+  inputs JSONB NOT NULL,
+
+  -- Flow-shaped results, keyed by the pricing_options ids below. The
+  -- pricing_options and council_evaluations rows are the queryable copy;
+  -- these keep what those columns can't (impact distributions, criteria,
+  -- weighted scores, policy blocks).
+  options JSONB NOT NULL DEFAULT '[]',
+  evaluations JSONB NOT NULL DEFAULT '[]',
+
+  recommended_option_id UUID REFERENCES pricing_options(id) ON DELETE SET NULL,
+  decision_record_id UUID REFERENCES decision_records(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_org ON analysis_runs(organization_id, created_at DESC);
+
+-- =============================================================================
+-- 2. Link options and evaluations to their run
+-- =============================================================================
+
+ALTER TABLE pricing_options
+  ADD COLUMN IF NOT EXISTS analysis_run_id UUID REFERENCES analysis_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE council_evaluations
+  ADD COLUMN IF NOT EXISTS analysis_run_id UUID REFERENCES analysis_runs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_options_run ON pricing_options(analysis_run_id);
+CREATE INDEX IF NOT EXISTS idx_council_evaluations_run ON council_evaluations(analysis_run_id);
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE analysis_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "analysis_runs_select" ON analysis_runs FOR SELECT
+  USING (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_insert" ON analysis_runs FOR INSERT
+  WITH CHECK (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_update" ON analysis_runs FOR UPDATE
+  USING (has_organization_access(organization_id));
+CREATE POLICY "analysis_runs_delete" ON analysis_runs FOR DELETE
+  USING (has_admin_access(organization_id));
@@ -0,0 +1,31 @@
+-- Migration: Stripe Webhook Events
+-- One row per Stripe event delivered to /api/webhooks/stripe. The unique
+-- event id makes redeliveries and replays no-ops once an event is processed.
+
+-- =============================================================================
+-- 1. Webhook events
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  stripe_event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  stripe_created TIMESTAMPTZ,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  UNIQUE(organization_id, stripe_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_org ON stripe_webhook_events(organization_id, received_at DESC);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stripe_webhook_events_select" ON stripe_webhook_events FOR SELECT
+  USING (has_organization_access(organization_id));
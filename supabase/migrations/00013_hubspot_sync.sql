@@ -0,0 +1,19 @@
+-- Migration: HubSpot Sync
+-- Archive flags for CRM records HubSpot reports as archived. Archived rows
+-- are kept for history but lose their associations.
+
+-- =============================================================================
+-- 1. Archive flags
+-- =============================================================================
+
+ALTER TABLE hubspot_contacts
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE hubspot_companies
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+ALTER TABLE hubspot_deals
+  ADD COLUMN IF NOT EXISTS archived BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
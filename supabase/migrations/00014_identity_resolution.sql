@@ -0,0 +1,37 @@
+-- Migration: Identity Resolution
+-- Ambiguous matches between a unified customer and HubSpot records, queued
+-- for a person to accept or reject. Confident matches are applied directly
+-- and recorded in unified_customers.metadata.identity.
+
+-- =============================================================================
+-- 1. Match reviews
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS identity_match_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  unified_customer_id UUID NOT NULL REFERENCES unified_customers(id) ON DELETE CASCADE,
+  stripe_customer_id UUID REFERENCES stripe_customers(id) ON DELETE SET NULL,
+  method TEXT NOT NULL CHECK (method IN ('email', 'domain', 'name')),
+  confidence NUMERIC(4, 3) NOT NULL,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_match_reviews_org ON identity_match_reviews(organization_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_identity_match_reviews_customer ON identity_match_reviews(unified_customer_id);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE identity_match_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "identity_match_reviews_select" ON identity_match_reviews FOR SELECT
+  USING (has_organization_access(organization_id));
+
+CREATE POLICY "identity_match_reviews_update" ON identity_match_reviews FOR UPDATE
+  USING (has_admin_access(organization_id));
@@ -0,0 +1,44 @@
+-- Migration: Billing Imports
+-- Customer, subscription and invoice exports from billing systems other than
+-- Stripe, uploaded as CSV/XLSX during setup. Imported transactions carry the
+-- source system and its invoice id so re-importing a file doesn't duplicate
+-- them, and each import keeps its per-row error report.
+
+-- =============================================================================
+-- 1. Imported transactions
+-- =============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS import_source TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_import_unique UNIQUE (organization_id, import_source, external_id);
+
+-- =============================================================================
+-- 2. Import log
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  entity TEXT NOT NULL CHECK (entity IN ('customers', 'subscriptions', 'invoices')),
+  source TEXT NOT NULL CHECK (source IN ('chargebee', 'recurly', 'paddle', 'generic')),
+  mapping JSONB NOT NULL DEFAULT '{}',
+  total_rows INT NOT NULL DEFAULT 0,
+  imported_rows INT NOT NULL DEFAULT 0,
+  skipped_rows INT NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_imports_org ON billing_imports(organization_id, created_at DESC);
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE billing_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "billing_imports_select" ON billing_imports FOR SELECT
+  USING (has_organization_access(organization_id));
@@ -0,0 +1,38 @@
+-- Migration: Usage Records
+-- Per-customer, per-metric, per-day usage quantities (labels printed, API
+-- calls, seats...). One row per customer, metric and day; re-ingesting a day
+-- replaces its quantity so ingestion is idempotent. Metrics are keyed by the
+-- snake_case form of the value metric name ("API calls" → api_calls).
+
+-- =============================================================================
+-- 1. Usage records
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS usage_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES unified_customers(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL,
+  usage_date DATE NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity >= 0),
+  source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'synthetic')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, customer_id, metric, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_records_org_date ON usage_records(organization_id, usage_date DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_records_customer ON usage_records(customer_id, metric, usage_date DESC);
+
+CREATE TRIGGER update_usage_records_updated_at
+  BEFORE UPDATE ON usage_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "usage_records_select" ON usage_records FOR SELECT
+  USING (has_organization_access(organization_id));
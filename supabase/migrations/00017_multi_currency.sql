@@ -0,0 +1,57 @@
+-- Migration: Multi-Currency
+-- Customers pay in several currencies; analytics report in one. Daily FX
+-- rates are loaded per organization, and every MRR and transaction amount
+-- keeps its billing-currency value next to the reporting-currency value,
+-- with the rate (and its date) the conversion used. Customer MRR converts
+-- at the latest rate, transactions at the rate of their date. Analytics
+-- runs record the rates behind their numbers.
+
+-- =============================================================================
+-- 1. FX rates
+-- =============================================================================
+
+-- One unit of base_currency buys `rate` units of quote_currency on rate_date
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rate_date DATE NOT NULL,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'csv',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, rate_date, base_currency, quote_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair ON fx_rates(organization_id, base_currency, quote_currency, rate_date DESC);
+
+-- =============================================================================
+-- 2. Billing-currency amounts
+-- =============================================================================
+
+-- mrr is in the reporting currency; mrr_billing in the customer's currency.
+-- A null currency means the customer is billed in the reporting currency.
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS currency TEXT;
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS mrr_billing NUMERIC(15, 2);
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+ALTER TABLE unified_customers ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- amount stays in the transaction's currency
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reporting_amount NUMERIC(15, 2);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate_date DATE;
+
+-- =============================================================================
+-- 3. Rates used by analytics runs
+-- =============================================================================
+
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS fx_rates JSONB;
+
+-- =============================================================================
+-- 4. RLS
+-- =============================================================================
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "fx_rates_select" ON fx_rates FOR SELECT
+  USING (has_organization_access(organization_id));
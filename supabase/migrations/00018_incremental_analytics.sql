@@ -0,0 +1,42 @@
+-- Migration: Incremental Analytics
+-- analytics_run_log doubles as the job log for incremental refreshes. A
+-- refresh is one 'incremental_refresh' row with a child row per analytics
+-- module it ran. Each module row records the data watermark it covered, so
+-- the next refresh only recomputes customers changed since then (by
+-- updated_at, new expansion events, transactions and usage) and modules run
+-- on their own schedule.
+
+-- =============================================================================
+-- 1. Run types
+-- =============================================================================
+
+ALTER TABLE analytics_run_log DROP CONSTRAINT IF EXISTS analytics_run_log_run_type_check;
+ALTER TABLE analytics_run_log ADD CONSTRAINT analytics_run_log_run_type_check CHECK (run_type IN (
+  'full_refresh', 'incremental_refresh', 'cohort_retention', 'segmentation',
+  'pattern_detection', 'health_scores', 'value_metrics',
+  'economics_snapshot'
+));
+
+-- =============================================================================
+-- 2. Job columns
+-- =============================================================================
+
+-- Module rows point at the refresh that ran them
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS parent_run_id UUID REFERENCES analytics_run_log(id) ON DELETE CASCADE;
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS trigger TEXT DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled'));
+-- Data changed up to this time is reflected in the run's results
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS data_watermark TIMESTAMPTZ;
+-- Customers the run recomputed because their data changed
+ALTER TABLE analytics_run_log ADD COLUMN IF NOT EXISTS dirty_customers INT;
+
+CREATE INDEX IF NOT EXISTS idx_analytics_run_type ON analytics_run_log(organization_id, run_type, status, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_run_parent ON analytics_run_log(parent_run_id);
+
+-- =============================================================================
+-- 3. Change detection
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_unified_customers_updated ON unified_customers(organization_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_expansion_events_created ON customer_expansion_events(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_created ON transactions(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_updated ON usage_records(organization_id, updated_at);
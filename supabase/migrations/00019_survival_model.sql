@@ -0,0 +1,8 @@
+-- Migration: Survival Model
+-- Economics snapshots carry a survival analysis of customer tenure: the
+-- Kaplan-Meier monthly churn hazard with its 95% interval, median lifetime,
+-- 12-month survival, per-segment hazards, and proportional-hazards ratios
+-- for company size, billing interval, tier and MRR band. The CFO view
+-- reads the hazard from the latest snapshot.
+
+ALTER TABLE economics_snapshots ADD COLUMN IF NOT EXISTS survival_model JSONB;
@@ -0,0 +1,46 @@
+-- Migration: Churn Models
+-- A churn propensity model is trained per organization on past outcomes:
+-- customers active at quarterly snapshot dates, with features as of that
+-- date, labelled by whether they churned in the following 90 days. Each
+-- training run stores a new version with its coefficients, calibration and
+-- validation metrics. Health scores record the version behind their churn
+-- risk.
+
+-- =============================================================================
+-- 1. Churn models
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS churn_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  model_type TEXT NOT NULL DEFAULT 'logistic_regression' CHECK (model_type IN ('logistic_regression')),
+  horizon_days INT NOT NULL,
+  -- Per feature: name, standardization mean and sd, coefficient
+  features JSONB NOT NULL,
+  intercept NUMERIC NOT NULL,
+  -- Platt scaling of the raw log-odds
+  calibration JSONB NOT NULL,
+  -- Validation AUC, Brier score, log loss, calibration bins, sample sizes
+  metrics JSONB NOT NULL,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_churn_models_org_version ON churn_models(organization_id, version DESC);
+
+-- =============================================================================
+-- 2. Health scores
+-- =============================================================================
+
+ALTER TABLE customer_health_scores ADD COLUMN IF NOT EXISTS churn_model_version INT;
+
+-- =============================================================================
+-- 3. RLS
+-- =============================================================================
+
+ALTER TABLE churn_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "churn_models_select" ON churn_models FOR SELECT
+  USING (has_organization_access(organization_id));
@@ -0,0 +1,43 @@
+-- Migration: Expansion Models
+-- An expansion propensity model is trained per organization the same way as
+-- the churn model: customers active at quarterly snapshot dates, with
+-- features as of that date, labelled by whether they upgraded or expanded in
+-- the following 90 days. Each version also keeps the tier-to-tier upgrade
+-- counts used to pick a customer's next tier.
+
+-- =============================================================================
+-- 1. Expansion models
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS expansion_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  model_type TEXT NOT NULL DEFAULT 'logistic_regression' CHECK (model_type IN ('logistic_regression')),
+  horizon_days INT NOT NULL,
+  -- Per feature: name, standardization mean and sd, coefficient
+  features JSONB NOT NULL,
+  intercept NUMERIC NOT NULL,
+  -- Platt scaling of the raw log-odds
+  calibration JSONB NOT NULL,
+  -- Validation AUC, Brier score, log loss, calibration bins, sample sizes
+  metrics JSONB NOT NULL,
+  -- From tier id to tier id (or "same") to upgrades observed
+  tier_transitions JSONB NOT NULL DEFAULT '{}',
+  -- Median MRR gained by an expansion within the tier, as a share of MRR
+  same_tier_uplift NUMERIC NOT NULL DEFAULT 0,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expansion_models_org_version ON expansion_models(organization_id, version DESC);
+
+-- =============================================================================
+-- 2. RLS
+-- =============================================================================
+
+ALTER TABLE expansion_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "expansion_models_select" ON expansion_models FOR SELECT
+  USING (has_organization_access(organization_id));
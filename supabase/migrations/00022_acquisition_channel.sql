@@ -0,0 +1,10 @@
+-- Migration: Acquisition Channel
+-- Contacts keep the channel they were acquired through, HubSpot's original
+-- source (hs_analytics_source), so customers can be cohorted by it.
+-- Contacts synced earlier are backfilled from their stored properties.
+
+ALTER TABLE hubspot_contacts ADD COLUMN IF NOT EXISTS lead_source TEXT;
+
+UPDATE hubspot_contacts
+SET lead_source = properties->>'hs_analytics_source'
+WHERE lead_source IS NULL AND properties ? 'hs_analytics_source';
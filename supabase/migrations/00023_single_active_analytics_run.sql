@@ -0,0 +1,24 @@
+-- Migration: Single Active Analytics Run
+-- At most one refresh (a top-level analytics_run_log row) may be running per
+-- organization, so inserting the run row is the refresh's claim and two
+-- concurrent requests can't both start one. Module rows belong to their
+-- refresh and are left out. Rows already running side by side are settled
+-- first: all but the latest per organization are marked failed.
+
+UPDATE analytics_run_log r
+SET status = 'failed',
+    completed_at = NOW(),
+    error_details = '[{"error": "Superseded by a concurrent refresh"}]'::jsonb
+WHERE r.status = 'running'
+  AND r.parent_run_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM analytics_run_log newer
+    WHERE newer.organization_id = r.organization_id
+      AND newer.status = 'running'
+      AND newer.parent_run_id IS NULL
+      AND (newer.started_at, newer.id) > (r.started_at, r.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_run_active
+  ON analytics_run_log(organization_id)
+  WHERE status = 'running' AND parent_run_id IS NULL;
@@ -0,0 +1,9 @@
+-- Migration: Webhook Event Order
+-- Stripe doesn't deliver events in order. Each event records the object it
+-- describes, so an event older than one already applied to the same object
+-- can be skipped instead of overwriting newer state.
+
+ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS object_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object
+  ON stripe_webhook_events(organization_id, object_id, stripe_created DESC);